@@ -0,0 +1,83 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:31 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+import {
+	assertAsymmetricKeyType,
+	assertNamedCurve,
+	toPrivateKeyObject,
+	toPublicKeyObject,
+} from "../key/key-conversion.js";
+
+/**
+ * Returns a new {@link SigningAlgorithm} implementing the ECDSA family of
+ * algorithms (ES256, etc.), as defined by RFC 7518, section 3.4, and RFC 8812,
+ * section 3.2 (for ES256K).
+ * 
+ * As required by the RFC, signatures are encoded as the fixed-length
+ * concatenation of the R and S values rather than as DER. Signatures of any
+ * other length (including DER-encoded signatures) are treated as invalid
+ * during verification.
+ * 
+ * @param {string} identifier The 'alg' identifier of the algorithm.
+ * @param {string} hash The name of the hash function used by the signature
+ * scheme.
+ * @param {string} namedCurve The named curve (as in
+ * `KeyObject.asymmetricKeyDetails.namedCurve`) that keys used with the
+ * algorithm must be on.
+ * @param {number} signatureLength The exact length, in bytes, of the R||S
+ * encoding of signatures produced by the algorithm.
+ * @returns {SigningAlgorithm} A new ECDSA signing algorithm.
+ */
+export function createECDSASigningAlgorithm(identifier: string,
+											hash: string,
+											namedCurve: string,
+											signatureLength: number,
+): SigningAlgorithm {
+	
+	const keyTypes: string[] = ["ec"];
+	
+	return {
+		identifier,
+		keyTypes,
+		sign: (input: string, key: SigningKey): string => {
+			
+			const privateKey: crypto.KeyObject = toPrivateKeyObject(key);
+			
+			assertAsymmetricKeyType(privateKey, keyTypes, identifier);
+			assertNamedCurve(privateKey, namedCurve, identifier);
+			
+			return crypto.sign(hash, Buffer.from(input), {
+				key: privateKey,
+				dsaEncoding: "ieee-p1363",
+			}).toString("base64url");
+			
+		},
+		verify: (input: string, signature: string,
+				 key: VerificationKey): boolean => {
+			
+			const publicKey: crypto.KeyObject = toPublicKeyObject(key);
+			
+			assertAsymmetricKeyType(publicKey, keyTypes, identifier);
+			assertNamedCurve(publicKey, namedCurve, identifier);
+			
+			const rawSignature: Buffer = Buffer.from(signature, "base64url");
+			
+			if (rawSignature.length !== signatureLength) return false;
+			
+			return crypto.verify(
+				hash,
+				Buffer.from(input),
+				{ key: publicKey, dsaEncoding: "ieee-p1363" },
+				rawSignature,
+			);
+			
+		},
+	};
+	
+}
@@ -0,0 +1,60 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:36 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+import {
+	assertAsymmetricKeyType,
+	toPrivateKeyObject,
+	toPublicKeyObject,
+} from "../key/key-conversion.js";
+
+/**
+ * Returns a new {@link SigningAlgorithm} implementing the EdDSA algorithm, as
+ * defined by RFC 8037, section 3.1.
+ * 
+ * The curve (Ed25519 or Ed448) is determined by the type of the provided key
+ * rather than by the 'alg' header, which is 'EdDSA' for both.
+ * 
+ * @returns {SigningAlgorithm} A new EdDSA signing algorithm.
+ */
+export function createEdDSASigningAlgorithm(): SigningAlgorithm {
+	
+	const identifier: string = "EdDSA";
+	const keyTypes: string[] = ["ed25519", "ed448"];
+	
+	return {
+		identifier,
+		keyTypes,
+		sign: (input: string, key: SigningKey): string => {
+			
+			const privateKey: crypto.KeyObject = toPrivateKeyObject(key);
+			
+			assertAsymmetricKeyType(privateKey, keyTypes, identifier);
+			
+			return crypto.sign(null, Buffer.from(input), privateKey)
+				.toString("base64url");
+			
+		},
+		verify: (input: string, signature: string,
+				 key: VerificationKey): boolean => {
+			
+			const publicKey: crypto.KeyObject = toPublicKeyObject(key);
+			
+			assertAsymmetricKeyType(publicKey, keyTypes, identifier);
+			
+			return crypto.verify(
+				null,
+				Buffer.from(input),
+				publicKey,
+				Buffer.from(signature, "base64url"),
+			);
+			
+		},
+	};
+	
+}
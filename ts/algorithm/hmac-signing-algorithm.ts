@@ -0,0 +1,46 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:18 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+import { toSecretKeyObject } from "../key/key-conversion.js";
+
+/**
+ * Returns a new {@link SigningAlgorithm} implementing the HMAC family of
+ * algorithms (HS256, etc.), as defined by RFC 7518, section 3.2.
+ * 
+ * @param {string} identifier The 'alg' identifier of the algorithm.
+ * @param {string} hash The name of the hash function used by the HMAC.
+ * @returns {SigningAlgorithm} A new HMAC signing algorithm.
+ */
+export function createHMACSigningAlgorithm(identifier: string,
+										   hash: string): SigningAlgorithm {
+	
+	const computeHMAC = (input: string, key: crypto.KeyObject): Buffer =>
+		crypto.createHmac(hash, key).update(input).digest();
+	
+	return {
+		identifier,
+		keyTypes: ["secret"],
+		sign: (input: string, key: SigningKey): string =>
+			computeHMAC(
+				input, toSecretKeyObject(key, "sign")
+			).toString("base64url"),
+		verify: (input: string, signature: string,
+				 key: VerificationKey): boolean => {
+			
+			const actualSignature: Buffer = Buffer.from(signature, "base64url");
+			const expectedSignature: Buffer =
+				computeHMAC(input, toSecretKeyObject(key, "verify"));
+			
+			return actualSignature.length === expectedSignature.length &&
+				crypto.timingSafeEqual(actualSignature, expectedSignature);
+			
+		},
+	};
+	
+}
@@ -0,0 +1,43 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:40 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { createHMACSigningAlgorithm } from "./hmac-signing-algorithm.js";
+import {
+	createRSAPSSSigningAlgorithm,
+	createRSASigningAlgorithm,
+} from "./rsa-signing-algorithm.js";
+import { createECDSASigningAlgorithm } from "./ecdsa-signing-algorithm.js";
+import { createEdDSASigningAlgorithm } from "./eddsa-signing-algorithm.js";
+
+/**
+ * Returns a new array containing fresh instances of each of the signing
+ * algorithms that are built into this library, implemented using
+ * `node:crypto`.
+ *
+ * @returns {SigningAlgorithm[]} A new array containing the built-in signing
+ * algorithms.
+ */
+export function createNodeSigningAlgorithms(): SigningAlgorithm[] {
+	
+	return [
+		createHMACSigningAlgorithm("HS256", "SHA256"),
+		createHMACSigningAlgorithm("HS384", "SHA384"),
+		createHMACSigningAlgorithm("HS512", "SHA512"),
+		createRSAPSSSigningAlgorithm("PS256", "SHA256"),
+		createRSAPSSSigningAlgorithm("PS384", "SHA384"),
+		createRSAPSSSigningAlgorithm("PS512", "SHA512"),
+		createRSASigningAlgorithm("RS256", "SHA256"),
+		createRSASigningAlgorithm("RS384", "SHA384"),
+		createRSASigningAlgorithm("RS512", "SHA512"),
+		createECDSASigningAlgorithm("ES256", "SHA256", "prime256v1", 64),
+		createECDSASigningAlgorithm("ES256K", "SHA256", "secp256k1", 64),
+		createECDSASigningAlgorithm("ES384", "SHA384", "secp384r1", 96),
+		createECDSASigningAlgorithm("ES512", "SHA512", "secp521r1", 132),
+		createEdDSASigningAlgorithm(),
+	];
+	
+}
@@ -0,0 +1,117 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:23 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+import {
+	assertAsymmetricKeyType,
+	toPrivateKeyObject,
+	toPublicKeyObject,
+} from "../key/key-conversion.js";
+
+/**
+ * Returns a new {@link SigningAlgorithm} implementing the RSASSA-PKCS1-v1_5
+ * family of algorithms (RS256, etc.), as defined by RFC 7518, section 3.3.
+ * 
+ * @param {string} identifier The 'alg' identifier of the algorithm.
+ * @param {string} hash The name of the hash function used by the signature
+ * scheme.
+ * @returns {SigningAlgorithm} A new RSASSA-PKCS1-v1_5 signing algorithm.
+ */
+export function createRSASigningAlgorithm(identifier: string,
+										  hash: string): SigningAlgorithm {
+	
+	const keyTypes: string[] = ["rsa"];
+	
+	return {
+		identifier,
+		keyTypes,
+		sign: (input: string, key: SigningKey): string => {
+			
+			const privateKey: crypto.KeyObject = toPrivateKeyObject(key);
+			
+			assertAsymmetricKeyType(privateKey, keyTypes, identifier);
+			
+			return crypto.sign(hash, Buffer.from(input), privateKey)
+				.toString("base64url");
+			
+		},
+		verify: (input: string, signature: string,
+				 key: VerificationKey): boolean => {
+			
+			const publicKey: crypto.KeyObject = toPublicKeyObject(key);
+			
+			assertAsymmetricKeyType(publicKey, keyTypes, identifier);
+			
+			return crypto.verify(
+				hash,
+				Buffer.from(input),
+				publicKey,
+				Buffer.from(signature, "base64url"),
+			);
+			
+		},
+	};
+	
+}
+
+/**
+ * Returns a new {@link SigningAlgorithm} implementing the RSASSA-PSS family of
+ * algorithms (PS256, etc.), as defined by RFC 7518, section 3.5.
+ * 
+ * As required by the RFC, MGF1 is used with the same hash function as the
+ * signature, and the salt length is equal to the size of the hash function's
+ * output, both when signing and when verifying.
+ * 
+ * @param {string} identifier The 'alg' identifier of the algorithm.
+ * @param {string} hash The name of the hash function used by the signature
+ * scheme.
+ * @returns {SigningAlgorithm} A new RSASSA-PSS signing algorithm.
+ */
+export function createRSAPSSSigningAlgorithm(identifier: string,
+											 hash: string): SigningAlgorithm {
+	
+	const keyTypes: string[] = ["rsa", "rsa-pss"];
+	
+	return {
+		identifier,
+		keyTypes,
+		sign: (input: string, key: SigningKey): string => {
+			
+			const privateKey: crypto.KeyObject = toPrivateKeyObject(key);
+			
+			assertAsymmetricKeyType(privateKey, keyTypes, identifier);
+			
+			return crypto.sign(hash, Buffer.from(input), {
+				key: privateKey,
+				padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+				saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+			}).toString("base64url");
+			
+		},
+		verify: (input: string, signature: string,
+				 key: VerificationKey): boolean => {
+			
+			const publicKey: crypto.KeyObject = toPublicKeyObject(key);
+			
+			assertAsymmetricKeyType(publicKey, keyTypes, identifier);
+			
+			return crypto.verify(
+				hash,
+				Buffer.from(input),
+				{
+					key: publicKey,
+					padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+					saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+				},
+				Buffer.from(signature, "base64url"),
+			);
+			
+		},
+	};
+	
+}
@@ -0,0 +1,313 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:44 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import {
+	createCryptoRuntimeRequiredError,
+	getCryptoRuntime,
+} from "../crypto/crypto-runtime.js";
+
+/**
+ * The identifiers of the signing algorithms that are built into this library,
+ * mapped to the types of keys that can be used with each of them.
+ */
+const BUILT_IN_KEY_TYPES: Record<string, string[]> = {
+	HS256: ["secret"],
+	HS384: ["secret"],
+	HS512: ["secret"],
+	PS256: ["rsa", "rsa-pss"],
+	PS384: ["rsa", "rsa-pss"],
+	PS512: ["rsa", "rsa-pss"],
+	RS256: ["rsa"],
+	RS384: ["rsa"],
+	RS512: ["rsa"],
+	ES256: ["ec"],
+	ES256K: ["ec"],
+	ES384: ["ec"],
+	ES512: ["ec"],
+	EdDSA: ["ed25519", "ed448"],
+};
+
+/**
+ * Returns a stand-in for the built-in signing algorithm with the specified
+ * identifier, for use when no crypto runtime is installed.
+ *
+ * Such algorithms keep their identifiers registered (so that they can still
+ * be used asynchronously, through a {@link CryptoBackend}), but throw when
+ * used synchronously.
+ *
+ * @param {string} identifier The identifier of the built-in algorithm.
+ * @returns {SigningAlgorithm} A stand-in for the built-in algorithm.
+ */
+function createRuntimeRequiredSigningAlgorithm(
+	identifier: string,
+): SigningAlgorithm {
+	
+	return {
+		identifier,
+		keyTypes: BUILT_IN_KEY_TYPES[identifier],
+		sign: (): never => {
+			
+			throw createCryptoRuntimeRequiredError(
+				`sign a JWT synchronously using ${identifier}`
+			);
+			
+		},
+		verify: (): never => {
+			
+			throw createCryptoRuntimeRequiredError(
+				`verify a JWT synchronously using ${identifier}`
+			);
+			
+		},
+	};
+	
+}
+
+/**
+ * Returns a new array containing fresh instances of each of the signing
+ * algorithms that are built into this library.
+ *
+ * These are provided by the installed crypto runtime (see
+ * {@link installCryptoRuntime}). If there is none, stand-ins are returned
+ * that can only be used asynchronously, through a {@link CryptoBackend}.
+ *
+ * @returns {SigningAlgorithm[]} A new array containing the built-in signing
+ * algorithms.
+ */
+export function getBuiltInSigningAlgorithms(): SigningAlgorithm[] {
+	
+	return getCryptoRuntime()?.createSigningAlgorithms() ??
+		Object.keys(BUILT_IN_KEY_TYPES).map(
+			createRuntimeRequiredSigningAlgorithm
+		);
+	
+}
+
+/**
+ * A registry of {@link SigningAlgorithm} implementations, keyed by the 'alg'
+ * header value that identifies each of them.
+ *
+ * The default registry (as returned by
+ * {@link SigningAlgorithmRegistry.getDefault}) is consulted whenever a JWT is
+ * signed or verified, and comes pre-populated with the algorithms that are
+ * built into this library. Additional algorithms (HSM-backed, experimental,
+ * etc.) can be registered with it at runtime, and built-in algorithms can be
+ * unregistered, replaced, or temporarily disabled.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class SigningAlgorithmRegistry {
+	
+	/**
+	 * The registry that is consulted by default when signing and verifying
+	 * JWTs.
+	 */
+	protected static defaultRegistry: SigningAlgorithmRegistry | undefined;
+	
+	/**
+	 * The algorithms registered with this registry, keyed by identifier.
+	 */
+	protected algorithms: Map<string, SigningAlgorithm>;
+	
+	/**
+	 * The identifiers of the algorithms registered with this registry that are
+	 * currently disabled.
+	 */
+	protected disabledIdentifiers: Set<string>;
+	
+	/**
+	 * Initializes a new SigningAlgorithmRegistry, optionally pre-populated
+	 * with the provided algorithms.
+	 *
+	 * @param {SigningAlgorithm[]} algorithms The algorithms with which to
+	 * initially populate this registry.
+	 */
+	public constructor(algorithms: SigningAlgorithm[] = []) {
+		
+		this.algorithms = new Map();
+		this.disabledIdentifiers = new Set();
+		
+		for (const algorithm of algorithms) this.register(algorithm);
+		
+	}
+	
+	/**
+	 * Returns the registry that is consulted by default when signing and
+	 * verifying JWTs, creating it (populated with the built-in algorithms) if
+	 * it does not yet exist.
+	 *
+	 * @returns {SigningAlgorithmRegistry} The default registry.
+	 */
+	public static getDefault(): SigningAlgorithmRegistry {
+		
+		if (SigningAlgorithmRegistry.defaultRegistry === undefined) {
+			
+			SigningAlgorithmRegistry.defaultRegistry =
+				new SigningAlgorithmRegistry(getBuiltInSigningAlgorithms());
+			
+		}
+		
+		return SigningAlgorithmRegistry.defaultRegistry;
+		
+	}
+	
+	/**
+	 * Restores the default registry to its initial state, containing only the
+	 * built-in algorithms, all of which are enabled.
+	 */
+	public static resetDefault(): void {
+		
+		SigningAlgorithmRegistry.defaultRegistry = undefined;
+		
+	}
+	
+	/**
+	 * Registers the provided algorithm with this registry under its
+	 * identifier.
+	 *
+	 * The 'none' identifier is reserved for unsecured JWTs, and so cannot be
+	 * registered.
+	 *
+	 * @param {SigningAlgorithm} algorithm The algorithm to register.
+	 * @param {boolean} replace A boolean value indicating whether an algorithm
+	 * that is already registered under the same identifier should be
+	 * replaced. If this is `false` and such an algorithm exists, an error is
+	 * thrown. Defaults to `false`.
+	 */
+	public register(algorithm: SigningAlgorithm,
+					replace: boolean = false): void {
+		
+		if (algorithm.identifier.toLowerCase() === "none") {
+			
+			throw new Error(
+				"Attempted to register a signing algorithm under the 'none' " +
+				"identifier, which is reserved for unsecured JWTs"
+			);
+			
+		}
+		
+		if (!replace && this.algorithms.has(algorithm.identifier)) {
+			
+			throw new Error(
+				"Attempted to register a signing algorithm under an " +
+				`identifier that is already in use: '${algorithm.identifier}'`
+			);
+			
+		}
+		
+		this.algorithms.set(algorithm.identifier, algorithm);
+		this.disabledIdentifiers.delete(algorithm.identifier);
+		
+	}
+	
+	/**
+	 * Removes the algorithm registered under the specified identifier from
+	 * this registry.
+	 *
+	 * @param {string} identifier The identifier of the algorithm to remove.
+	 * @returns {boolean} true if an algorithm was removed, otherwise false.
+	 */
+	public unregister(identifier: string): boolean {
+		
+		this.disabledIdentifiers.delete(identifier);
+		
+		return this.algorithms.delete(identifier);
+		
+	}
+	
+	/**
+	 * Disables the algorithm registered under the specified identifier,
+	 * causing it to be treated as unsupported until it is re-enabled.
+	 *
+	 * @param {string} identifier The identifier of the algorithm to disable.
+	 */
+	public disable(identifier: string): void {
+		
+		if (this.algorithms.has(identifier)) {
+			
+			this.disabledIdentifiers.add(identifier);
+			
+		}
+		
+	}
+	
+	/**
+	 * Re-enables the algorithm registered under the specified identifier,
+	 * having previously been disabled.
+	 *
+	 * @param {string} identifier The identifier of the algorithm to enable.
+	 */
+	public enable(identifier: string): void {
+		
+		this.disabledIdentifiers.delete(identifier);
+		
+	}
+	
+	/**
+	 * Returns true if an algorithm is registered under the specified
+	 * identifier (whether or not it is enabled), otherwise false.
+	 *
+	 * @param {string} identifier The identifier to check.
+	 * @returns {boolean} true if an algorithm is registered under the
+	 * specified identifier, otherwise false.
+	 */
+	public isRegistered(identifier: string): boolean {
+		
+		return this.algorithms.has(identifier);
+		
+	}
+	
+	/**
+	 * Returns true if an algorithm is registered under the specified
+	 * identifier and is enabled, otherwise false.
+	 *
+	 * @param {string} identifier The identifier to check.
+	 * @returns {boolean} true if an enabled algorithm is registered under the
+	 * specified identifier, otherwise false.
+	 */
+	public isEnabled(identifier: string): boolean {
+		
+		return this.algorithms.has(identifier) &&
+			!this.disabledIdentifiers.has(identifier);
+		
+	}
+	
+	/**
+	 * Returns the enabled algorithm registered under the specified identifier,
+	 * or undefined if no such algorithm exists.
+	 *
+	 * @param {string} identifier The identifier of the algorithm to retrieve.
+	 * @returns {SigningAlgorithm | undefined} The enabled algorithm registered
+	 * under the specified identifier, or undefined if no such algorithm
+	 * exists.
+	 */
+	public get(identifier: string): SigningAlgorithm | undefined {
+		
+		if (!this.isEnabled(identifier)) return undefined;
+		
+		return this.algorithms.get(identifier);
+		
+	}
+	
+	/**
+	 * Returns the identifiers of all of the enabled algorithms in this
+	 * registry.
+	 *
+	 * @returns {string[]} The identifiers of all of the enabled algorithms in
+	 * this registry.
+	 */
+	public getEnabledIdentifiers(): string[] {
+		
+		return Array.from(this.algorithms.keys()).filter(
+			(identifier: string): boolean => this.isEnabled(identifier)
+		);
+		
+	}
+	
+}
@@ -0,0 +1,157 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:03 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	AllowableAudience,
+	AudienceMatchingMode,
+	AudienceValidationPolicy,
+} from "../types/claims-types.js";
+import { JSONValue } from "../types/json-types.js";
+
+/**
+ * Returns the origin of the provided URL, or undefined if it is not a valid
+ * URL.
+ *
+ * @param {string} url The URL whose origin should be returned.
+ * @returns {string | undefined} The origin of the provided URL, or undefined
+ * if it is not a valid URL.
+ */
+function getOrigin(url: string): string | undefined {
+	
+	try {
+		
+		return new URL(url).origin;
+		
+	} catch (error: any) {
+		
+		return undefined;
+		
+	}
+	
+}
+
+/**
+ * Returns true if the provided origin matches the provided origin pattern, in
+ * which a `*` matches any single DNS label, otherwise false.
+ *
+ * @param {string} origin The origin to check.
+ * @param {string} pattern The origin pattern, such as 'https://*.example.com'.
+ * @returns {boolean} true if the origin matches the pattern, otherwise false.
+ */
+function matchesOriginPattern(origin: string, pattern: string): boolean {
+	
+	const source: string = pattern
+		.replace(/\/+$/, "")
+		.split("*")
+		.map((part: string): string =>
+			part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+		)
+		.join("[^./:]+");
+	
+	return new RegExp(`^${source}$`, "i").test(origin);
+	
+}
+
+/**
+ * Returns true if the provided string matches the provided pattern, otherwise
+ * false.
+ *
+ * Patterns with the global ('g') or sticky ('y') flag carry their `lastIndex`
+ * from one call of `RegExp#test` to the next, which would cause the same
+ * audience to alternately match and fail, so it is reset before each test.
+ *
+ * @param {RegExp} pattern The pattern to test.
+ * @param {string} value The string to test against the pattern.
+ * @returns {boolean} true if the string matches the pattern, otherwise false.
+ */
+function matchesPattern(pattern: RegExp, value: string): boolean {
+	
+	pattern.lastIndex = 0;
+	
+	return pattern.test(value);
+	
+}
+
+/**
+ * Returns true if the provided audience (being a single entry of the 'aud'
+ * claim of a JWT, or undefined if the JWT has no audience) matches any of the
+ * provided allowable audiences, otherwise false.
+ *
+ * @param {JSONValue | undefined} audience The audience to check.
+ * @param {AllowableAudience[]} allowableAudiences The allowable audiences.
+ * @param {AudienceMatchingMode} mode The way in which string allowable
+ * audiences are matched against the audience.
+ * @returns {boolean} true if the audience is allowed, otherwise false.
+ */
+export function isAudienceAllowed(audience: JSONValue | undefined,
+								  allowableAudiences: AllowableAudience[],
+								  mode: AudienceMatchingMode): boolean {
+	
+	return allowableAudiences.some((allowable: AllowableAudience): boolean => {
+		
+		if (typeof audience !== "string" || typeof allowable !== "string") {
+			
+			return allowable instanceof RegExp ?
+				typeof audience === "string" &&
+					matchesPattern(allowable, audience) :
+				allowable === audience;
+			
+		}
+		
+		switch (mode) {
+			
+			case "exact": return audience === allowable;
+			case "prefix": return audience.startsWith(allowable);
+			case "origin": {
+				
+				const origin: string | undefined = getOrigin(audience);
+				
+				return origin !== undefined &&
+					matchesOriginPattern(origin, allowable);
+				
+			}
+			
+		}
+		
+	});
+	
+}
+
+/**
+ * Returns true if the audiences specified by the provided 'aud' claim (which
+ * may be either a single audience or an array of audiences) are allowed by
+ * the provided allowable audiences, according to the provided policy,
+ * otherwise false.
+ *
+ * A JWT with no audience (or an empty array of audiences) is only allowed if
+ * `undefined` is among the allowable audiences.
+ *
+ * @param {JSONValue | undefined} aud The 'aud' claim of a JWT.
+ * @param {AllowableAudience[]} allowableAudiences The allowable audiences.
+ * @param {AudienceMatchingMode} mode The way in which string allowable
+ * audiences are matched against each audience.
+ * @param {AudienceValidationPolicy} policy Whether any or all of the audiences
+ * must be allowed.
+ * @returns {boolean} true if the audiences are allowed, otherwise false.
+ */
+export function areAudiencesAllowed(aud: JSONValue | undefined,
+									allowableAudiences: AllowableAudience[],
+									mode: AudienceMatchingMode,
+									policy: AudienceValidationPolicy): boolean {
+	
+	let audiences: Array<JSONValue | undefined> =
+		Array.isArray(aud) ? aud : [aud];
+	
+	if (audiences.length === 0) audiences = [undefined];
+	
+	const isAllowed = (audience: JSONValue | undefined): boolean =>
+		isAudienceAllowed(audience, allowableAudiences, mode);
+	
+	return policy === "all" ?
+		audiences.every(isAllowed) :
+		audiences.some(isAllowed);
+	
+}
@@ -0,0 +1,194 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 11:58 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	ClaimSchema,
+	ClaimsSchema,
+	ClaimsSchemaViolation,
+} from "../types/claims-types.js";
+import { JSONObject, JSONValue } from "../types/json-types.js";
+
+/**
+ * Returns the name of the JSON type of the provided value, as used in the
+ * 'type' field of a {@link ClaimSchema}.
+ *
+ * @param {JSONValue} value The value whose type should be named.
+ * @returns {string} The name of the JSON type of the provided value.
+ */
+function getJSONTypeName(value: JSONValue): string {
+	
+	if (value === null) return "null";
+	else if (Array.isArray(value)) return "array";
+	else return typeof value;
+	
+}
+
+/**
+ * Checks the provided properties against the provided schema, appending any
+ * violations found to the provided array.
+ *
+ * @param {JSONObject} properties The properties to check.
+ * @param {ClaimsSchema} schema The schema against which to check the
+ * properties.
+ * @param {string} prefix The path of the object containing the properties,
+ * or an empty string for the top-level payload.
+ * @param {boolean} additionalProperties A boolean value indicating whether
+ * properties that are not described by the schema are permitted.
+ * @param {ClaimsSchemaViolation[]} violations The array to which violations
+ * are appended.
+ */
+function checkProperties(properties: JSONObject,
+						 schema: ClaimsSchema,
+						 prefix: string,
+						 additionalProperties: boolean,
+						 violations: ClaimsSchemaViolation[]): void {
+	
+	for (const [name, claimSchema] of Object.entries(schema)) {
+		
+		const path: string = prefix === "" ? name : `${prefix}.${name}`;
+		const value: JSONValue | undefined = properties[name];
+		
+		if (value !== undefined) {
+			
+			checkValue(value, claimSchema, path, violations);
+			
+		} else if (claimSchema.required === true) {
+			
+			violations.push({
+				path,
+				reason: "missing",
+				message: `the required '${path}' claim was found to be ` +
+					"undefined",
+			});
+			
+		}
+		
+	}
+	
+	if (additionalProperties) return;
+	
+	for (const name of Object.keys(properties)) {
+		
+		if (schema[name] !== undefined) continue;
+		
+		const path: string = prefix === "" ? name : `${prefix}.${name}`;
+		
+		violations.push({
+			path,
+			reason: "unexpected",
+			message: `the '${path}' claim was found to be present, but is ` +
+				"not described by the schema",
+		});
+		
+	}
+	
+}
+
+/**
+ * Checks the provided value against the provided schema, appending any
+ * violations found to the provided array.
+ *
+ * @param {JSONValue} value The value to check.
+ * @param {ClaimSchema} schema The schema against which to check the value.
+ * @param {string} path The path to the value within the payload.
+ * @param {ClaimsSchemaViolation[]} violations The array to which violations
+ * are appended.
+ */
+function checkValue(value: JSONValue,
+					schema: ClaimSchema,
+					path: string,
+					violations: ClaimsSchemaViolation[]): void {
+	
+	const type: string = getJSONTypeName(value);
+	
+	if (type !== schema.type) {
+		
+		violations.push({
+			path,
+			reason: "type",
+			message: `the '${path}' claim was found to be of type '${type}', ` +
+				`but was expected to be of type '${schema.type}'`,
+		});
+		
+		return;
+		
+	}
+	
+	switch (schema.type) {
+		
+		case "string":
+		case "number":
+			
+			if (schema.enum !== undefined &&
+				!(schema.enum as JSONValue[]).includes(value)) {
+				
+				violations.push({
+					path,
+					reason: "enum",
+					message: `the '${path}' claim was found to be ` +
+						`${JSON.stringify(value)}, which is not one of its ` +
+						"permitted values",
+				});
+				
+			}
+			
+			break;
+		
+		case "array":
+			
+			if (schema.items === undefined) break;
+			
+			const items: ClaimSchema = schema.items;
+			
+			(value as JSONValue[]).forEach((item: JSONValue,
+											index: number): void => {
+				
+				checkValue(item, items, `${path}[${index}]`, violations);
+				
+			});
+			
+			break;
+		
+		case "object":
+			
+			checkProperties(
+				value as JSONObject,
+				schema.properties,
+				path,
+				schema.additionalProperties ?? true,
+				violations,
+			);
+			
+			break;
+		
+	}
+	
+}
+
+/**
+ * Returns every way in which the provided payload fails to match the provided
+ * {@link ClaimsSchema}, or an empty array if the payload matches the schema.
+ *
+ * Claims that are not described by the schema are always permitted at the
+ * top level of the payload.
+ *
+ * @param {JSONObject} payload The payload to check.
+ * @param {ClaimsSchema} schema The schema against which to check the payload.
+ * @returns {ClaimsSchemaViolation[]} The violations of the schema found within
+ * the payload.
+ */
+export function getClaimsSchemaViolations(
+	payload: JSONObject,
+	schema: ClaimsSchema,
+): ClaimsSchemaViolation[] {
+	
+	const violations: ClaimsSchemaViolation[] = [];
+	
+	checkProperties(payload, schema, "", true, violations);
+	
+	return violations;
+	
+}
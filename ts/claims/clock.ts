@@ -0,0 +1,37 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 2:41 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import { Clock } from "../types/claims-types.js";
+
+/**
+ * Returns the current time according to the provided clock, in milliseconds
+ * since the Unix epoch.
+ *
+ * @param {Clock} clock The clock to read.
+ * @returns {number} The current time according to the provided clock.
+ */
+export function readClock(clock: Clock): number {
+	
+	const time: number | Date = typeof clock === "function" ? clock() : clock;
+	
+	return time instanceof Date ? time.getTime() : time;
+	
+}
+
+/**
+ * Returns the current time according to the provided clock, as a JWT
+ * 'NumericDate' (a whole number of seconds since the Unix epoch), as per
+ * RFC 7519, section 2.
+ *
+ * @param {Clock} clock The clock to read.
+ * @returns {number} The current time according to the provided clock, as a
+ * NumericDate.
+ */
+export function readClockAsNumericDate(clock: Clock): number {
+	
+	return Math.floor(readClock(clock) / 1000);
+	
+}
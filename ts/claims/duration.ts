@@ -0,0 +1,66 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 3:16 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	Duration,
+	DurationUnit,
+	TimeSpecifier,
+} from "../types/claims-types.js";
+
+/**
+ * The number of seconds in each {@link DurationUnit}.
+ */
+const SECONDS_PER_UNIT: { [unit in DurationUnit]: number } = {
+	s: 1,
+	m: 60,
+	h: 60 * 60,
+	d: 60 * 60 * 24,
+	w: 60 * 60 * 24 * 7,
+};
+
+/**
+ * Returns the number of seconds in the provided duration, throwing an error if
+ * the duration is malformed.
+ *
+ * @param {Duration} duration The duration to parse, such as "15m" or "7d".
+ * @returns {number} The number of seconds in the provided duration.
+ */
+export function parseDuration(duration: Duration): number {
+	
+	const match: RegExpMatchArray | null =
+		/^(-?\d+(?:\.\d+)?)([smhdw])$/.exec(duration);
+	
+	if (match === null) {
+		
+		throw new Error(
+			`Attempted to parse a malformed duration: '${duration}' ` +
+			"(expected a number followed by one of 's', 'm', 'h', 'd' or " +
+			"'w')."
+		);
+		
+	}
+	
+	return Number(match[1]) * SECONDS_PER_UNIT[match[2] as DurationUnit];
+	
+}
+
+/**
+ * Returns the provided point in time as a JWT 'NumericDate' (a whole number of
+ * seconds since the Unix epoch), resolving durations relative to the provided
+ * current time.
+ *
+ * @param {TimeSpecifier} time The point in time to resolve.
+ * @param {number} currentTime The current time, as a NumericDate.
+ * @returns {number} The provided point in time, as a NumericDate.
+ */
+export function resolveTimeSpecifier(time: TimeSpecifier,
+									 currentTime: number): number {
+	
+	if (time instanceof Date) return Math.floor(time.getTime() / 1000);
+	
+	return Math.floor(currentTime + parseDuration(time));
+	
+}
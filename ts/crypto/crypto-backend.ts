@@ -0,0 +1,69 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:40 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import { CryptoBackend } from "../types/crypto-backend-types.js";
+import { WebCryptoBackend } from "./web-crypto-backend.js";
+import { getCryptoRuntime } from "./crypto-runtime.js";
+
+/**
+ * The backend used by default when signing and verifying JWTs
+ * asynchronously, or undefined if it has not yet been selected.
+ */
+let defaultCryptoBackend: CryptoBackend | undefined;
+
+/**
+ * Returns a new {@link CryptoBackend} suited to the current runtime: the one
+ * provided by the installed crypto runtime (a {@link NodeCryptoBackend} once
+ * `tsjwt/node` has been loaded), and otherwise a {@link WebCryptoBackend}.
+ *
+ * @returns {CryptoBackend} A new crypto backend for the current runtime.
+ */
+export function detectCryptoBackend(): CryptoBackend {
+	
+	return getCryptoRuntime()?.createCryptoBackend() ?? new WebCryptoBackend();
+	
+}
+
+/**
+ * Returns the backend used by default when signing and verifying JWTs
+ * asynchronously, selecting one suited to the current runtime (as per
+ * {@link detectCryptoBackend}) if none has been set.
+ *
+ * @returns {CryptoBackend} The default crypto backend.
+ */
+export function getDefaultCryptoBackend(): CryptoBackend {
+	
+	if (defaultCryptoBackend === undefined) {
+		
+		defaultCryptoBackend = detectCryptoBackend();
+		
+	}
+	
+	return defaultCryptoBackend;
+	
+}
+
+/**
+ * Sets the backend used by default when signing and verifying JWTs
+ * asynchronously.
+ *
+ * @param {CryptoBackend} backend The new default crypto backend.
+ */
+export function setDefaultCryptoBackend(backend: CryptoBackend): void {
+	
+	defaultCryptoBackend = backend;
+	
+}
+
+/**
+ * Clears the default crypto backend, such that one suited to the current
+ * runtime is selected the next time it is needed.
+ */
+export function resetDefaultCryptoBackend(): void {
+	
+	defaultCryptoBackend = undefined;
+	
+}
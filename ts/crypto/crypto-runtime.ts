@@ -0,0 +1,80 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:25 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import { CryptoRuntime } from "../types/crypto-backend-types.js";
+
+/**
+ * The crypto runtime that has been installed, or undefined if none has been.
+ */
+let installedCryptoRuntime: CryptoRuntime | undefined;
+
+/**
+ * Installs the provided {@link CryptoRuntime}, which provides the parts of
+ * this library that cannot be implemented using WebCrypto alone.
+ *
+ * This is done by the Node entry point (`tsjwt/node`) when it is loaded, and
+ * should otherwise be done before this library is used, as the default
+ * {@link SigningAlgorithmRegistry} and crypto backend are created from the
+ * runtime that is installed when they are first needed.
+ *
+ * @param {CryptoRuntime} runtime The crypto runtime to install.
+ */
+export function installCryptoRuntime(runtime: CryptoRuntime): void {
+	
+	installedCryptoRuntime = runtime;
+	
+}
+
+/**
+ * Returns the crypto runtime that has been installed, or undefined if none
+ * has been (as is the case when only the core entry point of this library
+ * has been loaded).
+ *
+ * @returns {CryptoRuntime | undefined} The installed crypto runtime.
+ */
+export function getCryptoRuntime(): CryptoRuntime | undefined {
+	
+	return installedCryptoRuntime;
+	
+}
+
+/**
+ * Returns the error thrown when an action that requires a crypto runtime is
+ * attempted without one having been installed.
+ *
+ * @param {string} action A description of the action that requires the crypto
+ * runtime (e.g. 'verify a JWT synchronously').
+ * @returns {Error} The error to throw.
+ */
+export function createCryptoRuntimeRequiredError(action: string): Error {
+	
+	return new Error(
+		`Attempted to ${action} without a crypto runtime, which is only ` +
+		"provided under Node (import 'tsjwt/node', or use the asynchronous " +
+		"methods of this library instead)"
+	);
+	
+}
+
+/**
+ * Returns the crypto runtime that has been installed, throwing if none has
+ * been.
+ *
+ * @param {string} action A description of the action that requires the crypto
+ * runtime (e.g. 'verify a JWT synchronously').
+ * @returns {CryptoRuntime} The installed crypto runtime.
+ */
+export function requireCryptoRuntime(action: string): CryptoRuntime {
+	
+	if (installedCryptoRuntime === undefined) {
+		
+		throw createCryptoRuntimeRequiredError(action);
+		
+	}
+	
+	return installedCryptoRuntime;
+	
+}
@@ -0,0 +1,96 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:31 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import {
+	CryptoBackend,
+	CryptoBackendName,
+} from "../types/crypto-backend-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+import {
+	SigningAlgorithmRegistry,
+} from "../algorithm/signing-algorithm-registry.js";
+import { assertKeyFitsSigningAlgorithm } from "../key/key-conversion.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+/**
+ * A {@link CryptoBackend} built on top of `node:crypto`, which signs and
+ * verifies JWTs using the algorithms registered with a
+ * {@link SigningAlgorithmRegistry}.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class NodeCryptoBackend implements CryptoBackend {
+	
+	public readonly name: CryptoBackendName = "node";
+	
+	/**
+	 * The registry from which algorithms are retrieved, or undefined if the
+	 * default registry (at the time of each operation) should be used.
+	 */
+	protected registry: SigningAlgorithmRegistry | undefined;
+	
+	public constructor(registry?: SigningAlgorithmRegistry) {
+		
+		this.registry = registry;
+		
+	}
+	
+	public async sign(algorithm: string, input: string,
+					  key: SigningKey): Promise<string> {
+		
+		return this.getAlgorithm(algorithm).sign(input, key);
+		
+	}
+	
+	public async verify(algorithm: string, input: string, signature: string,
+						key: VerificationKey): Promise<boolean> {
+		
+		const signingAlgorithm: SigningAlgorithm = this.getAlgorithm(algorithm);
+		
+		assertKeyFitsSigningAlgorithm(key, signingAlgorithm);
+		
+		return signingAlgorithm.verify(input, signature, key);
+		
+	}
+	
+	public getRandomBytes(length: number): Uint8Array {
+		
+		return crypto.randomBytes(length);
+		
+	}
+	
+	/**
+	 * Returns the algorithm with the provided identifier, throwing a
+	 * {@link JWTValidationError} if it is not registered and enabled.
+	 *
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @returns {SigningAlgorithm} The algorithm with the provided identifier.
+	 */
+	protected getAlgorithm(identifier: string): SigningAlgorithm {
+		
+		const registry: SigningAlgorithmRegistry =
+			this.registry ?? SigningAlgorithmRegistry.getDefault();
+		const algorithm: SigningAlgorithm | undefined =
+			registry.get(identifier);
+		
+		if (algorithm === undefined) {
+			
+			throw new JWTValidationError(
+				`the '${identifier}' algorithm is not registered and enabled`,
+				{ code: "ALG_NOT_ALLOWED", actual: identifier },
+			);
+			
+		}
+		
+		return algorithm;
+		
+	}
+	
+}
@@ -0,0 +1,783 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:58 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import type { JSONWebKey } from "../jwk/json-web-key.js";
+import {
+	CryptoBackend,
+	CryptoBackendName,
+} from "../types/crypto-backend-types.js";
+import {
+	KeyObjectLike,
+	SigningKey,
+	VerificationKey,
+} from "../types/key-types.js";
+import { JSONWebKeyParameters } from "../types/jwk-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import {
+	SigningAlgorithmRegistry,
+} from "../algorithm/signing-algorithm-registry.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { isCryptoKey } from "../key/crypto-key.js";
+import { isDEREncodedKey } from "../key/der-encoding.js";
+import { isOperationPermitted } from "../jwk/json-web-key-operations.js";
+import {
+	decodeBase64URL,
+	decodeUTF8,
+	encodeBase64URL,
+	encodeUTF8,
+} from "../encoding/base64url.js";
+
+/**
+ * The parameters of a WebCrypto algorithm (such as 'name' and 'hash').
+ */
+type AlgorithmParameters = { [parameter: string]: unknown };
+
+/**
+ * The WebCrypto parameters used to implement a JWS signing algorithm.
+ */
+type WebCryptoAlgorithm = {
+	
+	/**
+	 * The types of keys that can be used with the algorithm, named as per
+	 * {@link getKeyType}.
+	 */
+	keyTypes: string[],
+	
+	/**
+	 * The parameters with which keys are imported for use with the
+	 * algorithm, one of which must match any provided CryptoKey.
+	 */
+	importParameters: Array<Algorithm & AlgorithmParameters>,
+	
+	/**
+	 * Returns the parameters with which the provided key signs or verifies.
+	 */
+	getSignParameters: (key: CryptoKey) => Algorithm,
+	
+};
+
+/**
+ * The built-in algorithms that cannot be implemented using WebCrypto, mapped
+ * to the reason why.
+ */
+const UNSUPPORTED_ALGORITHMS: Map<string, string> = new Map([
+	["ES256K", "WebCrypto does not support the secp256k1 curve"],
+]);
+
+/**
+ * The members of an asymmetric JWK that hold private key material.
+ */
+const PRIVATE_JWK_MEMBERS: string[] = ["d", "p", "q", "dp", "dq", "qi", "oth"];
+
+/**
+ * Returns the WebCrypto parameters used to implement the JWS signing
+ * algorithm with the provided identifier, or undefined if the algorithm is
+ * not supported by WebCrypto.
+ *
+ * @param {string} identifier The 'alg' identifier of the algorithm.
+ * @returns {WebCryptoAlgorithm | undefined} The WebCrypto parameters of the
+ * algorithm.
+ */
+function getWebCryptoAlgorithm(
+	identifier: string): WebCryptoAlgorithm | undefined {
+	
+	const match: RegExpMatchArray | null =
+		identifier.match(/^(HS|RS|PS|ES)(256|384|512)$/);
+	
+	if (identifier === "EdDSA") {
+		
+		return {
+			keyTypes: ["ed25519", "ed448"],
+			importParameters: [{ name: "Ed25519" }, { name: "Ed448" }],
+			getSignParameters: (key: CryptoKey): Algorithm =>
+				({ name: key.algorithm.name }),
+		};
+		
+	} else if (match === null) return undefined;
+	
+	const [, family, size] = match;
+	const hash: string = `SHA-${size}`;
+	
+	switch (family) {
+		
+		case "HS": return {
+			keyTypes: ["secret"],
+			importParameters: [{ name: "HMAC", hash }],
+			getSignParameters: (): Algorithm => ({ name: "HMAC" }),
+		};
+		
+		case "RS": return {
+			keyTypes: ["rsa"],
+			importParameters: [{ name: "RSASSA-PKCS1-v1_5", hash }],
+			getSignParameters: (): Algorithm =>
+				({ name: "RSASSA-PKCS1-v1_5" }),
+		};
+		
+		case "PS": return {
+			keyTypes: ["rsa"],
+			importParameters: [{ name: "RSA-PSS", hash }],
+			getSignParameters: (): RsaPssParams =>
+				({ name: "RSA-PSS", saltLength: Number(size) / 8 }),
+		};
+		
+		default: return {
+			keyTypes: ["ec"],
+			importParameters: [{
+				name: "ECDSA",
+				namedCurve: size === "512" ? "P-521" : `P-${size}`,
+			}],
+			getSignParameters: (): EcdsaParams => ({ name: "ECDSA", hash }),
+		};
+		
+	}
+	
+}
+
+/**
+ * Returns the type of the provided JWK, named as per {@link getKeyType}.
+ *
+ * @param {JSONWebKeyParameters} parameters The parameters of the JWK.
+ * @returns {string} The type of the JWK.
+ */
+function getJWKType(parameters: JSONWebKeyParameters): string {
+	
+	switch (parameters.kty) {
+		
+		case "oct": return "secret";
+		case "RSA": return "rsa";
+		case "EC": return "ec";
+		default: return String(parameters.crv).toLowerCase();
+		
+	}
+	
+}
+
+/**
+ * Returns true if the provided key is a {@link JSONWebKey}, otherwise false.
+ *
+ * JSONWebKey is detected structurally, so that this module does not depend
+ * on `node:crypto` at runtime.
+ *
+ * @param {unknown} key The key to check.
+ * @returns {boolean} true if the provided key is a JSONWebKey.
+ */
+function isJSONWebKey(key: unknown): key is JSONWebKey {
+	
+	return typeof key === "object" && key !== null &&
+		typeof (key as JSONWebKey).permitsOperation === "function" &&
+		typeof (key as JSONWebKey).export === "function";
+	
+}
+
+/**
+ * Returns true if the provided key is a Node KeyObject, otherwise false.
+ *
+ * @param {unknown} key The key to check.
+ * @returns {boolean} true if the provided key is a KeyObject.
+ */
+function isKeyObject(key: unknown): key is KeyObjectLike {
+	
+	return typeof key === "object" && key !== null &&
+		typeof (key as KeyObjectLike).type === "string" &&
+		typeof (key as KeyObjectLike).export === "function";
+	
+}
+
+/**
+ * Returns the type (such as 'PUBLIC KEY') and DER-encoded contents of the
+ * provided PEM-encoded key.
+ *
+ * @param {string} pem The PEM-encoded key.
+ * @returns {[string, Uint8Array]} The type and contents of the key.
+ */
+function parsePEM(pem: string): [string, Uint8Array] {
+	
+	const match: RegExpMatchArray | null = pem.match(
+		/-----BEGIN ([A-Z ]+)-----([A-Za-z0-9+/=\s]+)-----END \1-----/
+	);
+	
+	if (match === null) {
+		
+		throw new JWTKeyError("failed to parse PEM-encoded key");
+		
+	}
+	
+	const base64url: string = match[2]
+		.replace(/\s|=/g, "")
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_");
+	
+	return [match[1], decodeBase64URL(base64url)];
+	
+}
+
+/**
+ * A {@link CryptoBackend} built on top of WebCrypto (`SubtleCrypto`), for use
+ * in browsers, Deno and edge runtimes.
+ *
+ * The HS256, HS384, HS512, RS256, RS384, RS512, PS256, PS384, PS512, ES256,
+ * ES384, ES512 and EdDSA algorithms are supported (the curve of EdDSA keys
+ * being subject to the support of the runtime). ES256K is not supported, as
+ * WebCrypto does not support the secp256k1 curve. Keys may be provided as
+ * CryptoKeys, raw secrets (strings or bytes), PEM-encoded SPKI or PKCS#8 keys,
+ * DER-encoded SPKI or PKCS#8 bytes, JWKs, or KeyObjects.
+ *
+ * Algorithms must be registered and enabled with a
+ * {@link SigningAlgorithmRegistry}, as they must be for synchronous use.
+ * Registered algorithms that WebCrypto does not implement (such as custom
+ * algorithms) are signed and verified using their own implementations.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class WebCryptoBackend implements CryptoBackend {
+	
+	public readonly name: CryptoBackendName = "webcrypto";
+	
+	/**
+	 * The WebCrypto implementation used by this backend.
+	 */
+	protected webCrypto: Crypto;
+	
+	/**
+	 * The registry against which algorithms are checked, or undefined if the
+	 * default registry (at the time of each operation) should be used.
+	 */
+	protected registry: SigningAlgorithmRegistry | undefined;
+	
+	public constructor(webCrypto: Crypto | undefined = globalThis.crypto,
+					   registry?: SigningAlgorithmRegistry) {
+		
+		if (webCrypto?.subtle === undefined) {
+			
+			throw new Error(
+				"Attempted to create a WebCrypto backend in a runtime that " +
+				"does not provide WebCrypto"
+			);
+			
+		}
+		
+		this.webCrypto = webCrypto;
+		this.registry = registry;
+		
+	}
+	
+	/**
+	 * Returns the WebCrypto parameters used to implement the algorithm with
+	 * the provided identifier, throwing a {@link JWTValidationError} if the
+	 * algorithm is not supported.
+	 *
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @returns {WebCryptoAlgorithm} The WebCrypto parameters of the algorithm.
+	 */
+	protected static getAlgorithm(identifier: string): WebCryptoAlgorithm {
+		
+		const algorithm: WebCryptoAlgorithm | undefined =
+			getWebCryptoAlgorithm(identifier);
+		
+		if (algorithm === undefined) {
+			
+			const reason: string | undefined =
+				UNSUPPORTED_ALGORITHMS.get(identifier);
+			
+			throw new JWTValidationError(
+				`the '${identifier}' algorithm is not supported by the ` +
+				"WebCrypto backend" +
+				(reason === undefined ? "" : ` (${reason})`),
+				{ code: "ALG_NOT_ALLOWED", actual: identifier },
+			);
+			
+		}
+		
+		return algorithm;
+		
+	}
+	
+	/**
+	 * Returns true if the algorithm with the provided identifier is one that
+	 * is implemented using WebCrypto (or is a built-in algorithm that
+	 * WebCrypto cannot implement), otherwise false.
+	 *
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @returns {boolean} true if the algorithm is implemented using WebCrypto.
+	 */
+	protected static isImplementedByWebCrypto(identifier: string): boolean {
+		
+		return getWebCryptoAlgorithm(identifier) !== undefined ||
+			UNSUPPORTED_ALGORITHMS.has(identifier);
+		
+	}
+	
+	/**
+	 * Throws a {@link JWTKeyMismatchError} if a key of the provided type cannot
+	 * be used with the algorithm with the provided identifier.
+	 *
+	 * @param {string} keyType The type of the key.
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 */
+	protected static assertKeyType(keyType: string, identifier: string): void {
+		
+		const algorithm: WebCryptoAlgorithm =
+			WebCryptoBackend.getAlgorithm(identifier);
+		
+		if (!algorithm.keyTypes.includes(keyType)) {
+			
+			throw new JWTKeyMismatchError(
+				`a '${keyType}' key cannot be used to verify a JWT signed ` +
+				`using the '${identifier}' algorithm`
+			);
+			
+		}
+		
+	}
+	
+	public async sign(algorithm: string, input: string,
+					  key: SigningKey): Promise<string> {
+		
+		const registeredAlgorithm: SigningAlgorithm =
+			this.getRegisteredAlgorithm(algorithm);
+		
+		if (!WebCryptoBackend.isImplementedByWebCrypto(algorithm)) {
+			
+			return registeredAlgorithm.sign(input, key);
+			
+		}
+		
+		const cryptoKey: CryptoKey =
+			await this.importKey(key, algorithm, "sign");
+		const parameters: Algorithm = WebCryptoBackend
+			.getAlgorithm(algorithm)
+			.getSignParameters(cryptoKey);
+		
+		return encodeBase64URL(new Uint8Array(await this.webCrypto.subtle.sign(
+			parameters,
+			cryptoKey,
+			encodeUTF8(input) as BufferSource,
+		)));
+		
+	}
+	
+	public async verify(algorithm: string, input: string, signature: string,
+						key: VerificationKey): Promise<boolean> {
+		
+		const registeredAlgorithm: SigningAlgorithm =
+			this.getRegisteredAlgorithm(algorithm);
+		
+		if (!WebCryptoBackend.isImplementedByWebCrypto(algorithm)) {
+			
+			return registeredAlgorithm.verify(input, signature, key);
+			
+		}
+		
+		const cryptoKey: CryptoKey =
+			await this.importKey(key, algorithm, "verify");
+		const parameters: Algorithm = WebCryptoBackend
+			.getAlgorithm(algorithm)
+			.getSignParameters(cryptoKey);
+		let signatureBytes: Uint8Array;
+		
+		try {
+			
+			signatureBytes = decodeBase64URL(signature);
+			
+		} catch (error: unknown) {
+			
+			return false;
+			
+		}
+		
+		return this.webCrypto.subtle.verify(
+			parameters,
+			cryptoKey,
+			signatureBytes as BufferSource,
+			encodeUTF8(input) as BufferSource,
+		);
+		
+	}
+	
+	public getRandomBytes(length: number): Uint8Array {
+		
+		return this.webCrypto.getRandomValues(new Uint8Array(length));
+		
+	}
+	
+	/**
+	 * Returns the algorithm registered under the provided identifier,
+	 * throwing a {@link JWTValidationError} if it is not registered and
+	 * enabled.
+	 *
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @returns {SigningAlgorithm} The algorithm registered under the provided
+	 * identifier.
+	 */
+	protected getRegisteredAlgorithm(identifier: string): SigningAlgorithm {
+		
+		const registry: SigningAlgorithmRegistry =
+			this.registry ?? SigningAlgorithmRegistry.getDefault();
+		const algorithm: SigningAlgorithm | undefined =
+			registry.get(identifier);
+		
+		if (algorithm === undefined) {
+			
+			throw new JWTValidationError(
+				`the '${identifier}' algorithm is not registered and enabled`,
+				{ code: "ALG_NOT_ALLOWED", actual: identifier },
+			);
+			
+		}
+		
+		return algorithm;
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to a CryptoKey for the provided key,
+	 * suitable for the provided usage with the algorithm with the provided
+	 * identifier.
+	 *
+	 * @param {SigningKey | VerificationKey} key The key to import.
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @param {KeyUsage} usage The usage of the key ('sign' or 'verify').
+	 * @returns {Promise<CryptoKey>} A Promise that resolves to a CryptoKey.
+	 */
+	protected async importKey(key: SigningKey | VerificationKey,
+							  identifier: string,
+							  usage: KeyUsage): Promise<CryptoKey> {
+		
+		if (isCryptoKey(key)) {
+			
+			return this.importCryptoKey(key, identifier, usage);
+			
+		} else if (isKeyObject(key)) {
+			
+			return this.importJWK(
+				key.type === "secret" ? {
+					kty: "oct",
+					k: encodeBase64URL(key.export() as Uint8Array),
+				} : key.export({ format: "jwk" }) as JSONWebKeyParameters,
+				identifier,
+				usage,
+			);
+			
+		} else if (typeof key === "object" && !(key instanceof Uint8Array)) {
+			
+			// Either a JSONWebKey, or a plain JWK object.
+			const parameters: JSONWebKeyParameters = isJSONWebKey(key) ?
+				key.export(true) :
+				key as JSONWebKeyParameters;
+			
+			if (!isOperationPermitted(parameters, usage)) {
+				
+				throw new JWTKeyError(
+					"the JWK's 'use' or 'key_ops' parameters do not permit " +
+					`it to be used for the '${usage}' operation`
+				);
+				
+			} else if (parameters.alg !== undefined &&
+				parameters.alg !== identifier) {
+				
+				throw new JWTKeyMismatchError(
+					"the verification key is restricted to the " +
+					`'${parameters.alg}' algorithm, but the JWT was signed ` +
+					`using the '${identifier}' algorithm`
+				);
+				
+			}
+			
+			return this.importJWK(parameters, identifier, usage);
+			
+		}
+		
+		const bytes: Uint8Array =
+			typeof key === "string" ? encodeUTF8(key) : key;
+		const text: string = decodeUTF8(bytes);
+		
+		if (WebCryptoBackend.getAlgorithm(identifier).keyTypes
+			.includes("secret")) {
+			
+			// Refuse DER-encoded public and private keys, which would
+			// otherwise be taken as raw secrets (allowing a public key to be
+			// used to forge HMAC signatures).
+			if (typeof key !== "string" && isDEREncodedKey(bytes)) {
+				
+				throw new JWTKeyMismatchError(
+					"a DER-encoded key cannot be used with the " +
+					`'${identifier}' algorithm`
+				);
+				
+			}
+			
+			return this.importSecret(bytes, identifier, usage);
+			
+		} else if (text.includes("-----BEGIN ")) {
+			
+			const [type, der] = parsePEM(text);
+			
+			if (type !== "PUBLIC KEY" && type !== "PRIVATE KEY") {
+				
+				throw new JWTKeyError(
+					`'${type}' PEM-encoded keys are not supported by the ` +
+					"WebCrypto backend (use SPKI or PKCS#8 instead)"
+				);
+				
+			}
+			
+			return this.importDER(
+				der,
+				type === "PUBLIC KEY" ? "spki" : "pkcs8",
+				identifier,
+				usage,
+			);
+			
+		} else if (typeof key !== "string") {
+			
+			for (const format of ["spki", "pkcs8"] as const) {
+				
+				try {
+					
+					return await this.importDER(
+						bytes, format, identifier, usage
+					);
+					
+				} catch (error: unknown) {
+					
+					// Try the next format.
+					
+				}
+				
+			}
+			
+		}
+		
+		throw new JWTKeyMismatchError(
+			"a 'secret' key cannot be used to verify a JWT signed using the " +
+			`'${identifier}' algorithm`
+		);
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the provided CryptoKey (or, for
+	 * private keys used for verification, its public counterpart), having
+	 * checked that it is suitable for use with the algorithm with the provided
+	 * identifier.
+	 *
+	 * @param {CryptoKey} key The CryptoKey to check.
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @param {KeyUsage} usage The usage of the key ('sign' or 'verify').
+	 * @returns {Promise<CryptoKey>} A Promise that resolves to a CryptoKey.
+	 */
+	protected async importCryptoKey(key: CryptoKey,
+									identifier: string,
+									usage: KeyUsage): Promise<CryptoKey> {
+		
+		const actual: AlgorithmParameters =
+			key.algorithm as unknown as AlgorithmParameters;
+		const matches: boolean = WebCryptoBackend.getAlgorithm(identifier)
+			.importParameters.some((parameters: AlgorithmParameters): boolean =>
+				Object.entries(parameters).every(
+					([name, value]: [string, unknown]): boolean =>
+						value === (actual[name] as Algorithm)?.name ||
+						value === actual[name]
+				));
+		
+		if (!matches) {
+			
+			throw new JWTKeyMismatchError(
+				`a '${key.algorithm.name}' CryptoKey cannot be used with ` +
+				`the '${identifier}' algorithm`
+			);
+			
+		} else if (usage !== "verify" || key.type !== "private") return key;
+		
+		if (!key.extractable) {
+			
+			throw new JWTKeyError(
+				"private CryptoKeys must be extractable in order to be used " +
+				"for verification"
+			);
+			
+		}
+		
+		return this.importJWK(
+			await this.webCrypto.subtle.exportKey("jwk", key) as
+				JSONWebKeyParameters,
+			identifier,
+			usage,
+		);
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to a CryptoKey for the provided JWK.
+	 *
+	 * @param {JSONWebKeyParameters} parameters The parameters of the JWK.
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @param {KeyUsage} usage The usage of the key ('sign' or 'verify').
+	 * @returns {Promise<CryptoKey>} A Promise that resolves to a CryptoKey.
+	 */
+	protected async importJWK(parameters: JSONWebKeyParameters,
+							  identifier: string,
+							  usage: KeyUsage): Promise<CryptoKey> {
+		
+		WebCryptoBackend.assertKeyType(getJWKType(parameters), identifier);
+		
+		if (parameters.kty === "oct") {
+			
+			return this.importSecret(
+				decodeBase64URL(String(parameters.k)),
+				identifier,
+				usage,
+			);
+			
+		} else if (usage === "sign" && parameters.d === undefined) {
+			
+			throw new JWTKeyError(
+				"expected a 'private' key, but received a 'public' key"
+			);
+			
+		}
+		
+		// Metadata is checked above, and private key material is discarded
+		// when verifying, as WebCrypto verifies using public keys only.
+		const jwk: AlgorithmParameters = { ...parameters };
+		const discarded: string[] = ["alg", "use", "key_ops", "ext", "kid"];
+		
+		if (usage === "verify") discarded.push(...PRIVATE_JWK_MEMBERS);
+		
+		for (const member of discarded) delete jwk[member];
+		
+		return this.importWith(identifier, (algorithm: Algorithm) =>
+			this.webCrypto.subtle.importKey(
+				"jwk",
+				jwk as JsonWebKey,
+				algorithm,
+				false,
+				[usage],
+			));
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to a CryptoKey for the provided raw
+	 * secret, suitable for use with the HMAC family of algorithms.
+	 *
+	 * @param {Uint8Array} secret The raw secret.
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @param {KeyUsage} usage The usage of the key ('sign' or 'verify').
+	 * @returns {Promise<CryptoKey>} A Promise that resolves to a CryptoKey.
+	 */
+	protected async importSecret(secret: Uint8Array,
+								 identifier: string,
+								 usage: KeyUsage): Promise<CryptoKey> {
+		
+		// Refuse PEM-encoded keys, which are almost certainly public keys that
+		// are being used (or abused) to verify HMAC signatures.
+		if (decodeUTF8(secret).includes("-----BEGIN ")) {
+			
+			throw new JWTKeyMismatchError(
+				"a PEM-encoded key cannot be used with the " +
+				`'${identifier}' algorithm`
+			);
+			
+		}
+		
+		return this.webCrypto.subtle.importKey(
+			"raw",
+			secret as BufferSource,
+			WebCryptoBackend.getAlgorithm(identifier).importParameters[0],
+			false,
+			[usage],
+		);
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to a CryptoKey for the provided
+	 * DER-encoded SPKI or PKCS#8 key.
+	 *
+	 * @param {Uint8Array} der The DER-encoded key.
+	 * @param {"spki" | "pkcs8"} format The format of the key.
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @param {KeyUsage} usage The usage of the key ('sign' or 'verify').
+	 * @returns {Promise<CryptoKey>} A Promise that resolves to a CryptoKey.
+	 */
+	protected async importDER(der: Uint8Array,
+							  format: "spki" | "pkcs8",
+							  identifier: string,
+							  usage: KeyUsage): Promise<CryptoKey> {
+		
+		if (format === "spki" && usage === "sign") {
+			
+			throw new JWTKeyError(
+				"expected a 'private' key, but received a 'public' key"
+			);
+			
+		}
+		
+		// Private keys used for verification are re-imported as public keys,
+		// and so must be extractable.
+		const key: CryptoKey = await this.importWith(
+			identifier,
+			(algorithm: Algorithm): Promise<CryptoKey> =>
+				this.webCrypto.subtle.importKey(
+					format,
+					der as BufferSource,
+					algorithm,
+					format === "pkcs8" && usage === "verify",
+					[format === "pkcs8" ? "sign" : "verify"],
+				),
+		);
+		
+		return usage === "verify" && format === "pkcs8" ?
+			this.importCryptoKey(key, identifier, usage) :
+			key;
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the first CryptoKey successfully
+	 * imported using any of the import parameters of the algorithm with the
+	 * provided identifier.
+	 *
+	 * @param {string} identifier The 'alg' identifier of the algorithm.
+	 * @param {(algorithm: Algorithm) => Promise<CryptoKey>} importer A
+	 * function that imports the key using the provided parameters.
+	 * @returns {Promise<CryptoKey>} A Promise that resolves to a CryptoKey.
+	 */
+	protected async importWith(
+		identifier: string,
+		importer: (algorithm: Algorithm) => Promise<CryptoKey>,
+	): Promise<CryptoKey> {
+		
+		const algorithm: WebCryptoAlgorithm =
+			WebCryptoBackend.getAlgorithm(identifier);
+		
+		for (const parameters of algorithm.importParameters) {
+			
+			try {
+				
+				return await importer(parameters);
+				
+			} catch (error: unknown) {
+				
+				// Try the next set of parameters.
+				
+			}
+			
+		}
+		
+		throw new JWTKeyError(
+			`the key could not be imported for use with the '${identifier}' ` +
+			"algorithm"
+		);
+		
+	}
+	
+}
@@ -0,0 +1,165 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 6:52 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+/**
+ * The base64url alphabet, as defined by RFC 4648, section 5.
+ */
+const BASE64URL_ALPHABET: string =
+	"ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * A lookup table mapping character codes to their values in the base64url
+ * alphabet, with -1 marking characters outside of the alphabet.
+ */
+const BASE64URL_LOOKUP: Int16Array = new Int16Array(128).fill(-1);
+
+for (let index: number = 0; index < BASE64URL_ALPHABET.length; index++) {
+	
+	BASE64URL_LOOKUP[BASE64URL_ALPHABET.charCodeAt(index)] = index;
+	
+}
+
+/**
+ * Returns the unpadded base64url encoding of the provided bytes, as per
+ * RFC 7515, section 2.
+ *
+ * Unlike `Buffer#toString("base64url")`, this does not depend on any
+ * Node-specific APIs, and so is usable in browsers and edge runtimes.
+ *
+ * @param {Uint8Array} bytes The bytes to encode.
+ * @returns {string} The base64url encoding of the provided bytes.
+ */
+export function encodeBase64URL(bytes: Uint8Array): string {
+	
+	let result: string = "";
+	
+	for (let index: number = 0; index < bytes.length; index += 3) {
+		
+		const remaining: number = bytes.length - index;
+		const chunk: number =
+			(bytes[index] << 16) |
+			((remaining > 1 ? bytes[index + 1] : 0) << 8) |
+			(remaining > 2 ? bytes[index + 2] : 0);
+		
+		result += BASE64URL_ALPHABET[(chunk >> 18) & 63];
+		result += BASE64URL_ALPHABET[(chunk >> 12) & 63];
+		
+		if (remaining > 1) result += BASE64URL_ALPHABET[(chunk >> 6) & 63];
+		if (remaining > 2) result += BASE64URL_ALPHABET[chunk & 63];
+		
+	}
+	
+	return result;
+	
+}
+
+/**
+ * Returns the bytes encoded by the provided unpadded base64url string, as per
+ * RFC 7515, section 2.
+ *
+ * Unlike `Buffer.from(encoded, "base64url")`, which silently skips invalid
+ * characters, this throws if the provided string is not valid base64url.
+ *
+ * @param {string} encoded The base64url string to decode.
+ * @returns {Uint8Array} The bytes encoded by the provided string.
+ */
+export function decodeBase64URL(encoded: string): Uint8Array {
+	
+	if (encoded.length % 4 === 1) {
+		
+		throw new Error(
+			"Attempted to decode a base64url string of an impossible length " +
+			`(${encoded.length})`
+		);
+		
+	}
+	
+	const length: number = Math.floor(encoded.length * 3 / 4);
+	const bytes: Uint8Array = new Uint8Array(length);
+	let buffer: number = 0;
+	let bits: number = 0;
+	let offset: number = 0;
+	
+	for (let index: number = 0; index < encoded.length; index++) {
+		
+		const code: number = encoded.charCodeAt(index);
+		const value: number = code < 128 ? BASE64URL_LOOKUP[code] : -1;
+		
+		if (value === -1) {
+			
+			throw new Error(
+				"Attempted to decode a base64url string containing an " +
+				`invalid character at position ${index}`
+			);
+			
+		}
+		
+		buffer = ((buffer << 6) | value) & 0xFFFFFF;
+		bits += 6;
+		
+		if (bits >= 8) {
+			
+			bits -= 8;
+			bytes[offset++] = (buffer >> bits) & 0xFF;
+			
+		}
+		
+	}
+	
+	return bytes;
+	
+}
+
+/**
+ * Returns the UTF-8 encoding of the provided string.
+ *
+ * @param {string} text The string to encode.
+ * @returns {Uint8Array} The UTF-8 encoding of the provided string.
+ */
+export function encodeUTF8(text: string): Uint8Array {
+	
+	return new TextEncoder().encode(text);
+	
+}
+
+/**
+ * Returns the string encoded by the provided UTF-8 bytes. Invalid sequences
+ * are replaced with U+FFFD (the replacement character).
+ *
+ * @param {Uint8Array} bytes The UTF-8 bytes to decode.
+ * @returns {string} The string encoded by the provided bytes.
+ */
+export function decodeUTF8(bytes: Uint8Array): string {
+	
+	return new TextDecoder().decode(bytes);
+	
+}
+
+/**
+ * Returns the base64url encoding of the UTF-8 encoding of the provided
+ * string.
+ *
+ * @param {string} text The string to encode.
+ * @returns {string} The base64url encoding of the provided string.
+ */
+export function encodeBase64URLString(text: string): string {
+	
+	return encodeBase64URL(encodeUTF8(text));
+	
+}
+
+/**
+ * Returns the string whose UTF-8 encoding is encoded by the provided
+ * base64url string.
+ *
+ * @param {string} encoded The base64url string to decode.
+ * @returns {string} The decoded string.
+ */
+export function decodeBase64URLString(encoded: string): string {
+	
+	return decodeUTF8(decodeBase64URL(encoded));
+	
+}
@@ -0,0 +1,15 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:27 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+export class JWEDecryptionError extends Error {
+	
+	public constructor(message: string) {
+		
+		super(`Failed to decrypt JWE - ${message}.`);
+		
+	}
+	
+}
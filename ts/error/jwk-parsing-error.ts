@@ -0,0 +1,15 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:34 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+export class JWKParsingError extends Error {
+	
+	public constructor(message: string) {
+		
+		super(`Failed to parse JWK - ${message}.`);
+		
+	}
+	
+}
@@ -0,0 +1,15 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:26 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+export class JWKSetFetchError extends Error {
+	
+	public constructor(message: string) {
+		
+		super(`Failed to fetch JWK set - ${message}.`);
+		
+	}
+	
+}
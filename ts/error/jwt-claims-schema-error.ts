@@ -0,0 +1,35 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 12:06 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import { JWTValidationError } from "./jwt-validation-error.js";
+import { ClaimsSchemaViolation } from "../types/claims-types.js";
+
+/**
+ * An error thrown when the payload of an incoming JWT fails to match the
+ * {@link ClaimsSchema} provided via {@link ValidationOptions.claimsSchema}.
+ */
+export class JWTClaimsSchemaError extends JWTValidationError {
+	
+	/**
+	 * Every way in which the payload failed to match the schema.
+	 */
+	public readonly violations: ClaimsSchemaViolation[];
+	
+	public constructor(violations: ClaimsSchemaViolation[]) {
+		
+		super(
+			"the payload was found not to match the claims schema: " +
+			violations.map(
+				(violation: ClaimsSchemaViolation): string => violation.message
+			).join("; "),
+			{ code: "CLAIMS_SCHEMA_MISMATCH" },
+		);
+		
+		this.violations = violations;
+		
+	}
+	
+}
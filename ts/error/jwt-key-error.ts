@@ -0,0 +1,15 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:52 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+export class JWTKeyError extends Error {
+	
+	public constructor(message: string) {
+		
+		super(`Invalid key provided for JWT - ${message}.`);
+		
+	}
+	
+}
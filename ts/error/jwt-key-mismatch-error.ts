@@ -0,0 +1,21 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:04 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JWTValidationError } from "./jwt-validation-error.js";
+
+/**
+ * An error thrown when the verification key for an incoming JWT is not
+ * suitable for use with the algorithm specified by its 'alg' header.
+ */
+export class JWTKeyMismatchError extends JWTValidationError {
+	
+	public constructor(message: string) {
+		
+		super(message, { code: "KEY_MISMATCH" });
+		
+	}
+	
+}
@@ -0,0 +1,21 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:02 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JWTValidationError } from "./jwt-validation-error.js";
+
+/**
+ * An error thrown when no verification key can be found for an incoming JWT,
+ * such as when none of the available keys match its 'kid' header.
+ */
+export class JWTKeyNotFoundError extends JWTValidationError {
+	
+	public constructor(message: string) {
+		
+		super(message, { code: "KEY_NOT_FOUND" });
+		
+	}
+	
+}
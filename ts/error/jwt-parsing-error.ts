@@ -4,12 +4,30 @@
  * Project: tsjwt
  */
 
+import {
+	JWTParsingErrorCode,
+	JWTParsingErrorDetails,
+} from "../types/error-types.js";
+
 export class JWTParsingError extends Error {
 	
-	public constructor(message: string) {
+	/**
+	 * A machine-readable code identifying the reason for the failure.
+	 */
+	public readonly code: JWTParsingErrorCode;
+	
+	/**
+	 * The underlying error (or other value) that caused the failure, if any.
+	 */
+	public readonly cause: unknown;
+	
+	public constructor(message: string, details: JWTParsingErrorDetails = {}) {
 		
 		super(`Failed to parse JWT from string - ${message}.`);
 		
+		this.code = details.code ?? "MALFORMED_TOKEN";
+		this.cause = details.cause;
+		
 	}
 	
 }
@@ -4,12 +4,63 @@
  * Project: tsjwt
  */
 
+import {
+	JWTValidationErrorCode,
+	JWTValidationErrorDetails,
+} from "../types/error-types.js";
+
 export class JWTValidationError extends Error {
 	
-	public constructor(message: string) {
+	/**
+	 * A machine-readable code identifying the reason for the failure.
+	 */
+	public readonly code: JWTValidationErrorCode;
+	
+	/**
+	 * The name of the claim that failed validation, if the failure relates to
+	 * a single claim.
+	 */
+	public readonly claim: string | undefined;
+	
+	/**
+	 * The value (or values) that were expected, if applicable.
+	 */
+	public readonly expected: unknown;
+	
+	/**
+	 * The value that was actually found, if applicable.
+	 */
+	public readonly actual: unknown;
+	
+	/**
+	 * The time at which the JWT expired, for "TOKEN_EXPIRED" failures.
+	 */
+	public readonly expiredAt: Date | undefined;
+	
+	/**
+	 * The time before which the JWT is not valid, for "TOKEN_NOT_YET_VALID"
+	 * failures.
+	 */
+	public readonly notBefore: Date | undefined;
+	
+	/**
+	 * The underlying error (or other value) that caused the failure, if any.
+	 */
+	public readonly cause: unknown;
+	
+	public constructor(message: string,
+					   details: JWTValidationErrorDetails = {}) {
 		
 		super(`Failed to validate JWT - ${message}.`);
 		
+		this.code = details.code ?? "VALIDATION_FAILED";
+		this.claim = details.claim;
+		this.expected = details.expected;
+		this.actual = details.actual;
+		this.expiredAt = details.expiredAt;
+		this.notBefore = details.notBefore;
+		this.cause = details.cause;
+		
 	}
 	
 }
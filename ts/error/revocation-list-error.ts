@@ -0,0 +1,15 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:02 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+export class RevocationListError extends Error {
+	
+	public constructor(message: string) {
+		
+		super(`Failed to load revocation list - ${message}.`);
+		
+	}
+	
+}
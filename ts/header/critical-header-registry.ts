@@ -0,0 +1,297 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 11:20 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { CriticalHeaderHandler } from "../types/header-types.js";
+import { JSONWebTokenHeaders } from "../types/jwt-types.js";
+import { JSONValue } from "../types/json-types.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+/**
+ * The header parameters defined by RFC 7515 and RFC 7518 for use with JWSs,
+ * which must never be listed in the 'crit' header.
+ */
+const STANDARD_HEADER_PARAMETERS: string[] = [
+	"alg",
+	"jku",
+	"jwk",
+	"kid",
+	"x5u",
+	"x5c",
+	"x5t",
+	"x5t#S256",
+	"typ",
+	"cty",
+	"crit",
+];
+
+/**
+ * Returns a new array containing fresh instances of each of the critical
+ * header handlers that are built into this library.
+ *
+ * @returns {CriticalHeaderHandler[]} A new array containing the built-in
+ * critical header handlers.
+ */
+export function getBuiltInCriticalHeaderHandlers(): CriticalHeaderHandler[] {
+	
+	return [
+		{
+			parameter: "b64",
+			validate: (value: JSONValue): boolean => typeof value === "boolean",
+		},
+	];
+	
+}
+
+/**
+ * A registry of {@link CriticalHeaderHandler}s, keyed by the name of the
+ * header parameter that each of them handles.
+ *
+ * The default registry (as returned by
+ * {@link CriticalHeaderRegistry.getDefault}) is consulted whenever a JWT is
+ * signed or validated, so that JWTs whose 'crit' header lists a parameter
+ * that is not understood are rejected, as required by RFC 7515, section
+ * 4.1.11. It comes pre-populated with a handler for the 'b64' parameter of
+ * RFC 7797.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class CriticalHeaderRegistry {
+	
+	/**
+	 * The registry that is consulted by default when signing and validating
+	 * JWTs.
+	 */
+	protected static defaultRegistry: CriticalHeaderRegistry | undefined;
+	
+	/**
+	 * The handlers registered with this registry, keyed by parameter name.
+	 */
+	protected handlers: Map<string, CriticalHeaderHandler>;
+	
+	/**
+	 * Initializes a new CriticalHeaderRegistry, optionally pre-populated with
+	 * the provided handlers.
+	 *
+	 * @param {CriticalHeaderHandler[]} handlers The handlers with which to
+	 * initially populate this registry.
+	 */
+	public constructor(handlers: CriticalHeaderHandler[] = []) {
+		
+		this.handlers = new Map();
+		
+		for (const handler of handlers) this.register(handler);
+		
+	}
+	
+	/**
+	 * Returns the registry that is consulted by default when signing and
+	 * validating JWTs, creating it (populated with the built-in handlers) if
+	 * it does not yet exist.
+	 *
+	 * @returns {CriticalHeaderRegistry} The default registry.
+	 */
+	public static getDefault(): CriticalHeaderRegistry {
+		
+		if (CriticalHeaderRegistry.defaultRegistry === undefined) {
+			
+			CriticalHeaderRegistry.defaultRegistry =
+				new CriticalHeaderRegistry(getBuiltInCriticalHeaderHandlers());
+			
+		}
+		
+		return CriticalHeaderRegistry.defaultRegistry;
+		
+	}
+	
+	/**
+	 * Restores the default registry to its initial state, containing only the
+	 * built-in handlers.
+	 */
+	public static resetDefault(): void {
+		
+		CriticalHeaderRegistry.defaultRegistry = undefined;
+		
+	}
+	
+	/**
+	 * Registers the provided handler with this registry under the name of the
+	 * parameter that it handles.
+	 *
+	 * The standard header parameters (such as 'alg') can never be listed as
+	 * critical, and so cannot be registered.
+	 *
+	 * @param {CriticalHeaderHandler} handler The handler to register.
+	 * @param {boolean} replace A boolean value indicating whether a handler
+	 * that is already registered for the same parameter should be replaced. If
+	 * this is `false` and such a handler exists, an error is thrown. Defaults
+	 * to `false`.
+	 */
+	public register(handler: CriticalHeaderHandler,
+					replace: boolean = false): void {
+		
+		if (STANDARD_HEADER_PARAMETERS.includes(handler.parameter)) {
+			
+			throw new Error(
+				"Attempted to register a critical header handler for a " +
+				"standard header parameter, which cannot be listed as " +
+				`critical: '${handler.parameter}'`
+			);
+			
+		}
+		
+		if (!replace && this.handlers.has(handler.parameter)) {
+			
+			throw new Error(
+				"Attempted to register a critical header handler for a " +
+				`parameter that is already handled: '${handler.parameter}'`
+			);
+			
+		}
+		
+		this.handlers.set(handler.parameter, handler);
+		
+	}
+	
+	/**
+	 * Removes the handler for the specified parameter from this registry.
+	 *
+	 * @param {string} parameter The name of the parameter whose handler should
+	 * be removed.
+	 * @returns {boolean} true if a handler was removed, otherwise false.
+	 */
+	public unregister(parameter: string): boolean {
+		
+		return this.handlers.delete(parameter);
+		
+	}
+	
+	/**
+	 * Returns true if a handler is registered for the specified parameter,
+	 * otherwise false.
+	 *
+	 * @param {string} parameter The name of the parameter to check.
+	 * @returns {boolean} true if a handler is registered for the specified
+	 * parameter, otherwise false.
+	 */
+	public isSupported(parameter: string): boolean {
+		
+		return this.handlers.has(parameter);
+		
+	}
+	
+	/**
+	 * Returns the handler registered for the specified parameter, or undefined
+	 * if no such handler exists.
+	 *
+	 * @param {string} parameter The name of the parameter whose handler should
+	 * be retrieved.
+	 * @returns {CriticalHeaderHandler | undefined} The handler registered for
+	 * the specified parameter, or undefined if no such handler exists.
+	 */
+	public get(parameter: string): CriticalHeaderHandler | undefined {
+		
+		return this.handlers.get(parameter);
+		
+	}
+	
+	/**
+	 * Returns the names of all of the parameters that are supported by this
+	 * registry.
+	 *
+	 * @returns {string[]} The names of all of the supported parameters.
+	 */
+	public getSupportedParameters(): string[] {
+		
+		return Array.from(this.handlers.keys());
+		
+	}
+	
+	/**
+	 * Ensures that the 'crit' header of the provided headers (if present) is
+	 * well-formed and lists only parameters that are both supported by this
+	 * registry and present with a valid value, throwing a
+	 * {@link JWTValidationError} if it does not.
+	 *
+	 * @param {JSONWebTokenHeaders} headers The headers to check.
+	 */
+	public validate(headers: JSONWebTokenHeaders): void {
+		
+		const crit: JSONValue | undefined = headers.crit;
+		
+		if (crit === undefined) return;
+		
+		if (!Array.isArray(crit) || crit.length === 0) {
+			
+			throw new JWTValidationError(
+				"the 'crit' header was found not to be a non-empty array",
+				{ code: "CRITICAL_HEADER_INVALID" },
+			);
+			
+		}
+		
+		for (const parameter of crit) {
+			
+			if (typeof parameter !== "string") {
+				
+				throw new JWTValidationError(
+					"the 'crit' header was found to contain a non-string value",
+					{ code: "CRITICAL_HEADER_INVALID" },
+				);
+				
+			}
+			
+			if (STANDARD_HEADER_PARAMETERS.includes(parameter)) {
+				
+				throw new JWTValidationError(
+					"the 'crit' header was found to list the standard " +
+					`'${parameter}' header, which cannot be critical`,
+					{ code: "CRITICAL_HEADER_INVALID" },
+				);
+				
+			}
+			
+			const handler: CriticalHeaderHandler | undefined =
+				this.get(parameter);
+			
+			if (handler === undefined) {
+				
+				throw new JWTValidationError(
+					"the 'crit' header was found to list an unsupported " +
+					`header: '${parameter}'`,
+					{ code: "CRITICAL_HEADER_INVALID" },
+				);
+				
+			}
+			
+			const value: JSONValue | undefined = headers[parameter];
+			
+			if (value === undefined) {
+				
+				throw new JWTValidationError(
+					"the 'crit' header was found to list a header that is " +
+					`not present: '${parameter}'`,
+					{ code: "CRITICAL_HEADER_INVALID" },
+				);
+				
+			}
+			
+			if (!handler.validate(value, headers)) {
+				
+				throw new JWTValidationError(
+					`the critical '${parameter}' header was found to have an ` +
+					"invalid value",
+					{ code: "CRITICAL_HEADER_INVALID" },
+				);
+				
+			}
+			
+		}
+		
+	}
+	
+}
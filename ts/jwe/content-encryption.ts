@@ -0,0 +1,195 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:31 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import {
+	ContentEncryptionAlgorithmIdentifier,
+	EncryptedContent,
+} from "../types/jwe-types.js";
+import { JWEDecryptionError } from "../error/jwe-decryption-error.js";
+
+/**
+ * The length, in bytes, of the content encryption key used by each content
+ * encryption algorithm.
+ */
+const CONTENT_ENCRYPTION_KEY_LENGTHS:
+	Record<ContentEncryptionAlgorithmIdentifier, number> = {
+	"A128GCM": 16,
+	"A256GCM": 32,
+	"A128CBC-HS256": 32,
+};
+
+/**
+ * Returns the length, in bytes, of the content encryption key used by the
+ * specified content encryption algorithm.
+ *
+ * @param {ContentEncryptionAlgorithmIdentifier} enc The content encryption
+ * algorithm.
+ * @returns {number} The length of the content encryption key, in bytes.
+ */
+export function getContentEncryptionKeyLength(
+	enc: ContentEncryptionAlgorithmIdentifier): number {
+	
+	return CONTENT_ENCRYPTION_KEY_LENGTHS[enc];
+	
+}
+
+/**
+ * Returns the authentication tag for the AES-CBC + HMAC-SHA2 family of
+ * algorithms, as described by RFC 7518, section 5.2.2.1.
+ *
+ * @param {Buffer} macKey The MAC key portion of the content encryption key.
+ * @param {Buffer} aad The additional authenticated data.
+ * @param {Buffer} iv The initialization vector.
+ * @param {Buffer} ciphertext The ciphertext.
+ * @returns {Buffer} The authentication tag.
+ */
+function getCBCHMACTag(macKey: Buffer,
+					   aad: Buffer,
+					   iv: Buffer,
+					   ciphertext: Buffer): Buffer {
+	
+	const aadLength: Buffer = Buffer.alloc(8);
+	
+	aadLength.writeBigUInt64BE(BigInt(aad.length * 8));
+	
+	return crypto.createHmac("SHA256", macKey)
+		.update(Buffer.concat([aad, iv, ciphertext, aadLength]))
+		.digest()
+		.subarray(0, macKey.length);
+	
+}
+
+/**
+ * Encrypts the provided plaintext using the specified content encryption
+ * algorithm.
+ *
+ * @param {ContentEncryptionAlgorithmIdentifier} enc The content encryption
+ * algorithm.
+ * @param {Buffer} contentEncryptionKey The content encryption key, of the
+ * length required by the algorithm.
+ * @param {Buffer} plaintext The plaintext to encrypt.
+ * @param {Buffer} aad The additional authenticated data, which is
+ * integrity-protected but not encrypted.
+ * @returns {EncryptedContent} The initialization vector, ciphertext and
+ * authentication tag.
+ */
+export function encryptContent(enc: ContentEncryptionAlgorithmIdentifier,
+							   contentEncryptionKey: Buffer,
+							   plaintext: Buffer,
+							   aad: Buffer): EncryptedContent {
+	
+	if (enc === "A128CBC-HS256") {
+		
+		const macKey: Buffer = contentEncryptionKey.subarray(0, 16);
+		const encryptionKey: Buffer = contentEncryptionKey.subarray(16);
+		const iv: Buffer = crypto.randomBytes(16);
+		const cipher: crypto.Cipheriv =
+			crypto.createCipheriv("aes-128-cbc", encryptionKey, iv);
+		const ciphertext: Buffer =
+			Buffer.concat([cipher.update(plaintext), cipher.final()]);
+		
+		return {
+			iv,
+			ciphertext,
+			tag: getCBCHMACTag(macKey, aad, iv, ciphertext),
+		};
+		
+	}
+	
+	const iv: Buffer = crypto.randomBytes(12);
+	const cipher: crypto.CipherGCM = crypto.createCipheriv(
+		enc === "A128GCM" ? "aes-128-gcm" : "aes-256-gcm",
+		contentEncryptionKey,
+		iv,
+	);
+	
+	cipher.setAAD(aad);
+	
+	const ciphertext: Buffer =
+		Buffer.concat([cipher.update(plaintext), cipher.final()]);
+	
+	return { iv, ciphertext, tag: cipher.getAuthTag() };
+	
+}
+
+/**
+ * Decrypts the provided content using the specified content encryption
+ * algorithm, throwing a {@link JWEDecryptionError} if the content cannot be
+ * authenticated.
+ *
+ * @param {ContentEncryptionAlgorithmIdentifier} enc The content encryption
+ * algorithm.
+ * @param {Buffer} contentEncryptionKey The content encryption key.
+ * @param {EncryptedContent} content The initialization vector, ciphertext and
+ * authentication tag to decrypt.
+ * @param {Buffer} aad The additional authenticated data.
+ * @returns {Buffer} The decrypted plaintext.
+ */
+export function decryptContent(enc: ContentEncryptionAlgorithmIdentifier,
+							   contentEncryptionKey: Buffer,
+							   content: EncryptedContent,
+							   aad: Buffer): Buffer {
+	
+	const { iv, ciphertext, tag } = content;
+	
+	if (contentEncryptionKey.length !== getContentEncryptionKeyLength(enc)) {
+		
+		throw new JWEDecryptionError(
+			"the content encryption key is of the wrong length for the " +
+			`'${enc}' algorithm`
+		);
+		
+	}
+	
+	try {
+		
+		if (enc === "A128CBC-HS256") {
+			
+			const macKey: Buffer = contentEncryptionKey.subarray(0, 16);
+			const encryptionKey: Buffer = contentEncryptionKey.subarray(16);
+			const expectedTag: Buffer =
+				getCBCHMACTag(macKey, aad, iv, ciphertext);
+			
+			if (tag.length !== expectedTag.length ||
+				!crypto.timingSafeEqual(tag, expectedTag)) {
+				
+				throw new Error("authentication tag mismatch");
+				
+			}
+			
+			const decipher: crypto.Decipheriv =
+				crypto.createDecipheriv("aes-128-cbc", encryptionKey, iv);
+			
+			return Buffer.concat([
+				decipher.update(ciphertext),
+				decipher.final(),
+			]);
+			
+		}
+		
+		if (tag.length !== 16) throw new Error("invalid tag length");
+		
+		const decipher: crypto.DecipherGCM = crypto.createDecipheriv(
+			enc === "A128GCM" ? "aes-128-gcm" : "aes-256-gcm",
+			contentEncryptionKey,
+			iv,
+		);
+		
+		decipher.setAAD(aad);
+		decipher.setAuthTag(tag);
+		
+		return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+		
+	} catch (error: any) {
+		
+		throw new JWEDecryptionError(
+			"the ciphertext or authenticated data could not be authenticated"
+		);
+		
+	}
+	
+}
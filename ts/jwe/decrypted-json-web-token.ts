@@ -0,0 +1,397 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:10 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	DecodedJSONWebToken,
+	ValidationOptions,
+} from "../jwt/decoded-json-web-token.js";
+import { JSONWebTokenPayload } from "../types/jwt-types.js";
+import {
+	ContentEncryptionAlgorithmIdentifier,
+	JSONWebEncryptionHeaders,
+	KeyManagementAlgorithmIdentifier,
+	VALID_CONTENT_ENCRYPTION_ALGORITHM_IDENTIFIERS,
+	VALID_KEY_MANAGEMENT_ALGORITHM_IDENTIFIERS,
+} from "../types/jwe-types.js";
+import {
+	DecryptionKey,
+	KeyResolver,
+	VerificationKey,
+} from "../types/key-types.js";
+import { decryptContentEncryptionKey } from "./key-management.js";
+import { decryptContent } from "./content-encryption.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JWEDecryptionError } from "../error/jwe-decryption-error.js";
+
+/**
+ * An object specifying various options related to the JWE decryption process.
+ */
+export type DecryptionOptions = {
+	
+	/**
+	 * An array of the identifiers of the key management algorithms that
+	 * incoming JWEs may use, as specified by their 'alg' header.
+	 *
+	 * In order to allow any supported key management algorithm, set this field
+	 * to false.
+	 */
+	allowedKeyManagementAlgorithms: KeyManagementAlgorithmIdentifier[] | false,
+	
+	/**
+	 * An array of the identifiers of the content encryption algorithms that
+	 * incoming JWEs may use, as specified by their 'enc' header.
+	 *
+	 * In order to allow any supported content encryption algorithm, set this
+	 * field to false.
+	 */
+	allowedContentEncryptionAlgorithms:
+		ContentEncryptionAlgorithmIdentifier[] | false,
+	
+};
+
+/**
+ * A class for decrypting and representing incoming encrypted JSON web tokens
+ * (JWEs, as described by RFC 7516), using the compact serialization.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class DecryptedJSONWebToken {
+	
+	/**
+	 * The protected headers of this JWE.
+	 */
+	protected headers: JSONWebEncryptionHeaders;
+	
+	/**
+	 * The decrypted plaintext of this JWE.
+	 */
+	protected plaintext: string;
+	
+	/**
+	 * Initializes a new DecryptedJSONWebToken instance with the provided
+	 * headers and decrypted plaintext.
+	 *
+	 * @param {JSONWebEncryptionHeaders} headers The protected headers of this
+	 * JWE.
+	 * @param {string} plaintext The decrypted plaintext of this JWE.
+	 */
+	protected constructor(headers: JSONWebEncryptionHeaders,
+						  plaintext: string) {
+		
+		this.headers = headers;
+		this.plaintext = plaintext;
+		
+	}
+	
+	/**
+	 * Returns the default set of options for decrypting incoming JWEs.
+	 *
+	 * @returns {DecryptionOptions} The default set of options for decrypting
+	 * incoming JWEs.
+	 */
+	public static getDefaultDecryptionOptions(): DecryptionOptions {
+		
+		return {
+			allowedKeyManagementAlgorithms: false,
+			allowedContentEncryptionAlgorithms: false,
+		};
+		
+	}
+	
+	/**
+	 * Returns a new DecryptedJSONWebToken instance, having been decrypted from
+	 * the provided token string.
+	 *
+	 * @param {string} token The compact serialization of the JWE to decrypt.
+	 * @param {DecryptionKey} decryptionKey The shared secret (for the 'dir'
+	 * and AES key wrap algorithms) or recipient's private key (for the
+	 * 'RSA-OAEP-256' and 'ECDH-ES' family of algorithms) with which to decrypt
+	 * the JWE.
+	 * @param {Partial<DecryptionOptions>} options An optional object containing
+	 * various options related to the decryption of the JWE.
+	 * @returns {DecryptedJSONWebToken} A new DecryptedJSONWebToken instance.
+	 */
+	public static decrypt(token: string,
+						  decryptionKey: DecryptionKey,
+						  options: Partial<DecryptionOptions> = {},
+	): DecryptedJSONWebToken {
+		
+		const fullOptions: DecryptionOptions = {
+			...DecryptedJSONWebToken.getDefaultDecryptionOptions(),
+			...options,
+		};
+		
+		const segments: string[] = token.trim().split(".");
+		
+		if (segments.length !== 5) {
+			
+			throw new JWTParsingError(
+				"expected an encrypted JWT to consist of 5 dot-separated " +
+				`segments, but found ${segments.length}`
+			);
+			
+		}
+		
+		const [
+			encodedHeaders,
+			encodedKey,
+			encodedIV,
+			encodedCiphertext,
+			encodedTag,
+		] = segments;
+		
+		if (encodedHeaders.length === 0) {
+			
+			throw new JWTParsingError(
+				"the headers portion of the JWE was found to be " +
+				"zero-length/empty",
+				{ code: "MALFORMED_HEADERS" },
+			);
+			
+		}
+		
+		let headers: JSONWebEncryptionHeaders;
+		
+		try {
+			
+			headers = JSON.parse(
+				Buffer.from(encodedHeaders, "base64url").toString()
+			);
+			
+		} catch (error: any) {
+			
+			throw new JWTParsingError(
+				"failed to decode and/or parse the headers portion of the JWE",
+				{ code: "MALFORMED_HEADERS", cause: error },
+			);
+			
+		}
+		
+		const alg: KeyManagementAlgorithmIdentifier =
+			DecryptedJSONWebToken.getKeyManagementAlgorithm(headers);
+		const enc: ContentEncryptionAlgorithmIdentifier =
+			DecryptedJSONWebToken.getContentEncryptionAlgorithm(headers);
+		
+		if (headers.zip !== undefined) {
+			
+			throw new JWTParsingError(
+				"compressed JWEs (with a 'zip' header) are not supported",
+				{ code: "MALFORMED_HEADERS" },
+			);
+			
+		}
+		
+		if (fullOptions.allowedKeyManagementAlgorithms !== false &&
+			!fullOptions.allowedKeyManagementAlgorithms.includes(alg)) {
+			
+			throw new JWEDecryptionError(
+				`the JWE was encrypted using the '${alg}' key management ` +
+				"algorithm, which is not among the allowed algorithms"
+			);
+			
+		}
+		
+		if (fullOptions.allowedContentEncryptionAlgorithms !== false &&
+			!fullOptions.allowedContentEncryptionAlgorithms.includes(enc)) {
+			
+			throw new JWEDecryptionError(
+				`the JWE was encrypted using the '${enc}' content ` +
+				"encryption algorithm, which is not among the allowed " +
+				"algorithms"
+			);
+			
+		}
+		
+		const contentEncryptionKey: Buffer = decryptContentEncryptionKey(
+			alg,
+			enc,
+			decryptionKey,
+			Buffer.from(encodedKey, "base64url"),
+			headers,
+		);
+		
+		const plaintext: Buffer = decryptContent(
+			enc,
+			contentEncryptionKey,
+			{
+				iv: Buffer.from(encodedIV, "base64url"),
+				ciphertext: Buffer.from(encodedCiphertext, "base64url"),
+				tag: Buffer.from(encodedTag, "base64url"),
+			},
+			Buffer.from(encodedHeaders, "ascii"),
+		);
+		
+		return new DecryptedJSONWebToken(headers, plaintext.toString("utf8"));
+		
+	}
+	
+	/**
+	 * Returns the key management algorithm specified by the 'alg' header of
+	 * the provided JWE headers, throwing a {@link JWTParsingError} if it is
+	 * missing or unsupported.
+	 *
+	 * @param {JSONWebEncryptionHeaders} headers The headers of a JWE.
+	 * @returns {KeyManagementAlgorithmIdentifier} The key management
+	 * algorithm.
+	 */
+	protected static getKeyManagementAlgorithm(
+		headers: JSONWebEncryptionHeaders,
+	): KeyManagementAlgorithmIdentifier {
+		
+		if (!VALID_KEY_MANAGEMENT_ALGORITHM_IDENTIFIERS.includes(
+			headers.alg as KeyManagementAlgorithmIdentifier
+		)) {
+			
+			throw new JWTParsingError(
+				"found the 'alg' header field of the JWE to specify a " +
+				`missing or unsupported key management algorithm: ` +
+				`'${headers.alg}'`,
+				{ code: "ALG_UNSUPPORTED" },
+			);
+			
+		}
+		
+		return headers.alg as KeyManagementAlgorithmIdentifier;
+		
+	}
+	
+	/**
+	 * Returns the content encryption algorithm specified by the 'enc' header
+	 * of the provided JWE headers, throwing a {@link JWTParsingError} if it is
+	 * missing or unsupported.
+	 *
+	 * @param {JSONWebEncryptionHeaders} headers The headers of a JWE.
+	 * @returns {ContentEncryptionAlgorithmIdentifier} The content encryption
+	 * algorithm.
+	 */
+	protected static getContentEncryptionAlgorithm(
+		headers: JSONWebEncryptionHeaders,
+	): ContentEncryptionAlgorithmIdentifier {
+		
+		if (!VALID_CONTENT_ENCRYPTION_ALGORITHM_IDENTIFIERS.includes(
+			headers.enc as ContentEncryptionAlgorithmIdentifier
+		)) {
+			
+			throw new JWTParsingError(
+				"found the 'enc' header field of the JWE to specify a " +
+				`missing or unsupported content encryption algorithm: ` +
+				`'${headers.enc}'`,
+				{ code: "ALG_UNSUPPORTED" },
+			);
+			
+		}
+		
+		return headers.enc as ContentEncryptionAlgorithmIdentifier;
+		
+	}
+	
+	/**
+	 * Returns the protected headers of this JWE.
+	 *
+	 * @returns {JSONWebEncryptionHeaders} The protected headers of this JWE.
+	 */
+	public getHeaders(): JSONWebEncryptionHeaders {
+		
+		return this.headers;
+		
+	}
+	
+	/**
+	 * Returns the decrypted plaintext of this JWE.
+	 *
+	 * @returns {string} The decrypted plaintext of this JWE.
+	 */
+	public getPlaintext(): string {
+		
+		return this.plaintext;
+		
+	}
+	
+	/**
+	 * Returns true if this JWE contains a nested JWT, as indicated by a 'cty'
+	 * header of 'JWT', otherwise false.
+	 *
+	 * @returns {boolean} true if this JWE contains a nested JWT, otherwise
+	 * false.
+	 */
+	public isNested(): boolean {
+		
+		const cty: unknown = this.headers.cty;
+		
+		return typeof cty === "string" && cty.toUpperCase() === "JWT";
+		
+	}
+	
+	/**
+	 * Returns the JWT claims set contained within this JWE.
+	 *
+	 * @returns {JSONWebTokenPayload} The JWT claims set contained within this
+	 * JWE.
+	 * @see DecryptedJSONWebToken.getNestedToken For JWEs that contain a nested
+	 * JWT rather than a claims set.
+	 */
+	public getPayload(): JSONWebTokenPayload {
+		
+		if (this.isNested()) {
+			
+			throw new JWTParsingError(
+				"the JWE contains a nested JWT rather than a claims set"
+			);
+			
+		}
+		
+		try {
+			
+			return JSON.parse(this.plaintext);
+			
+		} catch (error: any) {
+			
+			throw new JWTParsingError(
+				"failed to parse the plaintext of the JWE as a claims set",
+				{ code: "MALFORMED_PAYLOAD", cause: error },
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Returns the JWT nested within this JWE, optionally having been validated
+	 * using the provided verification key and {@link ValidationOptions}.
+	 *
+	 * @param {boolean} validateBeforeReturn A boolean value indicating whether
+	 * or not the nested JWT should be validated before it is returned. Defaults
+	 * to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The key (or key
+	 * resolver) against which the signature on the nested JWT will be checked.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the nested JWT.
+	 * @returns {DecodedJSONWebToken<P>} The JWT nested within this JWE.
+	 */
+	public getNestedToken<P extends JSONWebTokenPayload = JSONWebTokenPayload>(
+		validateBeforeReturn: boolean = true,
+		verificationKey?: VerificationKey | KeyResolver,
+		options: Partial<ValidationOptions> = {},
+	): DecodedJSONWebToken<P> {
+		
+		if (!this.isNested()) {
+			
+			throw new JWTParsingError(
+				"the JWE does not contain a nested JWT (its 'cty' header is " +
+				"not 'JWT')"
+			);
+			
+		}
+		
+		return DecodedJSONWebToken.decode<P>(
+			this.plaintext, validateBeforeReturn, verificationKey, options
+		);
+		
+	}
+	
+}
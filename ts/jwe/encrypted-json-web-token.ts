@@ -0,0 +1,240 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:58 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { AbstractJSONWebToken } from "../jwt/abstract-json-web-token.js";
+import {
+	DecryptedJSONWebToken,
+	DecryptionOptions,
+} from "./decrypted-json-web-token.js";
+import { JSONWebTokenPayload } from "../types/jwt-types.js";
+import {
+	ContentEncryptionAlgorithmIdentifier,
+	EncryptedContent,
+	JSONWebEncryptionHeaders,
+	KeyManagementAlgorithmIdentifier,
+	KeyManagementResult,
+} from "../types/jwe-types.js";
+import { DecryptionKey, EncryptionKey } from "../types/key-types.js";
+import { encryptContentEncryptionKey } from "./key-management.js";
+import { encryptContent } from "./content-encryption.js";
+
+/**
+ * A class for building outgoing encrypted JSON web tokens (JWEs, as described
+ * by RFC 7516), using the compact serialization.
+ *
+ * The plaintext of the JWE is either a JWT claims set, or another JWT (such as
+ * a signed {@link JSONWebToken}), in which case the result is a nested JWT
+ * with a 'cty' header of 'JWT'.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class EncryptedJSONWebToken {
+	
+	/**
+	 * The headers of this JWE, excluding any header parameters (such as 'epk')
+	 * that are added by the key management algorithm during encryption.
+	 */
+	protected headers: JSONWebEncryptionHeaders;
+	
+	/**
+	 * The plaintext that is encrypted by this JWE.
+	 */
+	protected plaintext: string;
+	
+	/**
+	 * The key used to determine the content encryption key of this JWE.
+	 */
+	protected encryptionKey: EncryptionKey;
+	
+	/**
+	 * The compact serialization of this JWE, once it has been encrypted.
+	 *
+	 * As encryption is randomized, this is computed once and then reused.
+	 */
+	protected serialization: string | undefined;
+	
+	/**
+	 * Initializes a new EncryptedJSONWebToken with the provided plaintext.
+	 *
+	 * @param {JSONWebTokenPayload | AbstractJSONWebToken} payload The JWT
+	 * claims set to encrypt, or a JWT to nest within this JWE.
+	 * @param {EncryptionKey} encryptionKey The shared secret (for the 'dir'
+	 * and AES key wrap algorithms) or recipient's public key (for the
+	 * 'RSA-OAEP-256' and 'ECDH-ES' family of algorithms).
+	 * @param {KeyManagementAlgorithmIdentifier} keyManagementAlgorithm The
+	 * algorithm used to determine the content encryption key.
+	 * @param {ContentEncryptionAlgorithmIdentifier} contentEncryptionAlgorithm
+	 * The algorithm used to encrypt the plaintext.
+	 * @param {JSONWebEncryptionHeaders} headers Any additional headers to
+	 * include in the protected header of this JWE.
+	 */
+	public constructor(
+		payload: JSONWebTokenPayload | AbstractJSONWebToken,
+		encryptionKey: EncryptionKey,
+		keyManagementAlgorithm: KeyManagementAlgorithmIdentifier,
+		contentEncryptionAlgorithm: ContentEncryptionAlgorithmIdentifier,
+		headers: JSONWebEncryptionHeaders = {},
+	) {
+		
+		const isNested: boolean = payload instanceof AbstractJSONWebToken;
+		
+		this.headers = {
+			...EncryptedJSONWebToken.getDefaultHeaders(isNested),
+			...headers,
+			alg: keyManagementAlgorithm,
+			enc: contentEncryptionAlgorithm,
+		};
+		this.plaintext = payload instanceof AbstractJSONWebToken ?
+			payload.toString() :
+			JSON.stringify(payload);
+		this.encryptionKey = encryptionKey;
+		this.serialization = undefined;
+		
+	}
+	
+	/**
+	 * Returns a new DecryptedJSONWebToken instance, having been decrypted from
+	 * the provided token string.
+	 *
+	 * @param {string} token The compact serialization of the JWE to decrypt.
+	 * @param {DecryptionKey} decryptionKey The key with which to decrypt the
+	 * JWE.
+	 * @param {Partial<DecryptionOptions>} options An optional object containing
+	 * various options related to the decryption of the JWE.
+	 * @returns {DecryptedJSONWebToken} A new DecryptedJSONWebToken instance.
+	 */
+	public static decrypt(token: string,
+						  decryptionKey: DecryptionKey,
+						  options: Partial<DecryptionOptions> = {},
+	): DecryptedJSONWebToken {
+		
+		return DecryptedJSONWebToken.decrypt(token, decryptionKey, options);
+		
+	}
+	
+	/**
+	 * Returns the set of default headers for an encrypted JSON web token.
+	 *
+	 * @param {boolean} isNested A boolean value indicating whether the JWE
+	 * contains a nested JWT. Defaults to `false`.
+	 * @returns {JSONWebEncryptionHeaders} A collection of the default JWE
+	 * headers for this implementation.
+	 */
+	public static getDefaultHeaders(
+		isNested: boolean = false): JSONWebEncryptionHeaders {
+		
+		return isNested ? { "cty": "JWT" } : { "typ": "JWT" };
+		
+	}
+	
+	/**
+	 * Returns the headers of this JWE, excluding any header parameters that
+	 * are added by the key management algorithm during encryption.
+	 *
+	 * @returns {JSONWebEncryptionHeaders} The headers of this JWE.
+	 */
+	public getHeaders(): JSONWebEncryptionHeaders {
+		
+		return this.headers;
+		
+	}
+	
+	/**
+	 * Returns the plaintext that is encrypted by this JWE.
+	 *
+	 * @returns {string} The plaintext that is encrypted by this JWE.
+	 */
+	public getPlaintext(): string {
+		
+		return this.plaintext;
+		
+	}
+	
+	/**
+	 * Returns the identifier of the key management algorithm used by this
+	 * JWE, as specified by its 'alg' header.
+	 *
+	 * @returns {KeyManagementAlgorithmIdentifier} The identifier of the key
+	 * management algorithm.
+	 */
+	public getKeyManagementAlgorithm(): KeyManagementAlgorithmIdentifier {
+		
+		return this.headers.alg as KeyManagementAlgorithmIdentifier;
+		
+	}
+	
+	/**
+	 * Returns the identifier of the content encryption algorithm used by this
+	 * JWE, as specified by its 'enc' header.
+	 *
+	 * @returns {ContentEncryptionAlgorithmIdentifier} The identifier of the
+	 * content encryption algorithm.
+	 */
+	public getContentEncryptionAlgorithm(
+	): ContentEncryptionAlgorithmIdentifier {
+		
+		return this.headers.enc as ContentEncryptionAlgorithmIdentifier;
+		
+	}
+	
+	/**
+	 * Returns the compact serialization of this JWE, encrypting it if it has
+	 * not yet been encrypted.
+	 *
+	 * @returns {string} The compact serialization of this JWE.
+	 */
+	public toString(): string {
+		
+		if (this.serialization === undefined) {
+			
+			this.serialization = this.encrypt();
+			
+		}
+		
+		return this.serialization;
+		
+	}
+	
+	/**
+	 * Encrypts this JWE, returning its compact serialization.
+	 *
+	 * @returns {string} The compact serialization of this JWE.
+	 */
+	protected encrypt(): string {
+		
+		const enc: ContentEncryptionAlgorithmIdentifier =
+			this.getContentEncryptionAlgorithm();
+		const keyManagementResult: KeyManagementResult =
+			encryptContentEncryptionKey(
+				this.getKeyManagementAlgorithm(),
+				enc,
+				this.encryptionKey,
+				this.headers,
+			);
+		const encodedHeaders: string = Buffer.from(JSON.stringify({
+			...this.headers,
+			...keyManagementResult.headers,
+		})).toString("base64url");
+		const content: EncryptedContent = encryptContent(
+			enc,
+			keyManagementResult.contentEncryptionKey,
+			Buffer.from(this.plaintext, "utf8"),
+			Buffer.from(encodedHeaders, "ascii"),
+		);
+		
+		return [
+			encodedHeaders,
+			keyManagementResult.encryptedKey.toString("base64url"),
+			content.iv.toString("base64url"),
+			content.ciphertext.toString("base64url"),
+			content.tag.toString("base64url"),
+		].join(".");
+		
+	}
+	
+}
@@ -0,0 +1,522 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:42 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import {
+	ContentEncryptionAlgorithmIdentifier,
+	JSONWebEncryptionHeaders,
+	KeyManagementAlgorithmIdentifier,
+	KeyManagementResult,
+} from "../types/jwe-types.js";
+import { DecryptionKey, EncryptionKey } from "../types/key-types.js";
+import {
+	assertAsymmetricKeyType,
+	toPrivateKeyObject,
+	toPublicKeyObject,
+	toSecretKeyObject,
+} from "../key/key-conversion.js";
+import { getContentEncryptionKeyLength } from "./content-encryption.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { JWEDecryptionError } from "../error/jwe-decryption-error.js";
+
+/**
+ * The initial value used by the AES key wrap algorithm, as defined by RFC
+ * 3394, section 2.2.3.1.
+ */
+const AES_KEY_WRAP_INITIAL_VALUE: Buffer =
+	Buffer.from("A6A6A6A6A6A6A6A6", "hex");
+
+/**
+ * The length, in bytes, of the key encryption key used by each of the key
+ * management algorithms that make use of AES key wrapping.
+ */
+const KEY_WRAP_KEY_LENGTHS: Partial<
+	Record<KeyManagementAlgorithmIdentifier, number>
+> = {
+	"A128KW": 16,
+	"A256KW": 32,
+	"ECDH-ES+A128KW": 16,
+	"ECDH-ES+A256KW": 32,
+};
+
+/**
+ * The asymmetric key types (as in `KeyObject.asymmetricKeyType`) that can be
+ * used with the ECDH-ES family of algorithms.
+ */
+const ECDH_KEY_TYPES: string[] = ["ec", "x25519", "x448"];
+
+/**
+ * Wraps the provided content encryption key using the AES key wrap algorithm
+ * (RFC 3394).
+ *
+ * @param {Buffer} keyEncryptionKey The 128 or 256 bit key encryption key.
+ * @param {Buffer} contentEncryptionKey The content encryption key to wrap.
+ * @returns {Buffer} The wrapped content encryption key.
+ */
+function wrapKey(keyEncryptionKey: Buffer,
+				 contentEncryptionKey: Buffer): Buffer {
+	
+	const cipher: crypto.Cipheriv = crypto.createCipheriv(
+		`id-aes${keyEncryptionKey.length * 8}-wrap`,
+		keyEncryptionKey,
+		AES_KEY_WRAP_INITIAL_VALUE,
+	);
+	
+	return Buffer.concat([
+		cipher.update(contentEncryptionKey),
+		cipher.final(),
+	]);
+	
+}
+
+/**
+ * Unwraps the provided wrapped content encryption key using the AES key wrap
+ * algorithm (RFC 3394), throwing a {@link JWEDecryptionError} if its integrity
+ * check fails.
+ *
+ * @param {Buffer} keyEncryptionKey The 128 or 256 bit key encryption key.
+ * @param {Buffer} encryptedKey The wrapped content encryption key.
+ * @returns {Buffer} The unwrapped content encryption key.
+ */
+function unwrapKey(keyEncryptionKey: Buffer, encryptedKey: Buffer): Buffer {
+	
+	try {
+		
+		const decipher: crypto.Decipheriv = crypto.createDecipheriv(
+			`id-aes${keyEncryptionKey.length * 8}-wrap`,
+			keyEncryptionKey,
+			AES_KEY_WRAP_INITIAL_VALUE,
+		);
+		
+		return Buffer.concat([
+			decipher.update(encryptedKey),
+			decipher.final(),
+		]);
+		
+	} catch (error: any) {
+		
+		throw new JWEDecryptionError(
+			"the encrypted key could not be unwrapped"
+		);
+		
+	}
+	
+}
+
+/**
+ * Returns the raw bytes of the provided symmetric key, having checked that it
+ * is of the specified length.
+ *
+ * @param {EncryptionKey | DecryptionKey} key The symmetric key.
+ * @param {number} length The required length of the key, in bytes.
+ * @param {string} algorithm The identifier of the algorithm the key is going
+ * to be used with.
+ * @param {"encrypt" | "decrypt" | "wrapKey" | "unwrapKey"} operation The
+ * operation that the key is going to be used for.
+ * @returns {Buffer} The raw bytes of the provided key.
+ */
+function getSymmetricKeyBytes(
+	key: EncryptionKey | DecryptionKey,
+	length: number,
+	algorithm: string,
+	operation: "encrypt" | "decrypt" | "wrapKey" | "unwrapKey",
+): Buffer {
+	
+	const bytes: Buffer = toSecretKeyObject(key, operation).export();
+	
+	if (bytes.length !== length) {
+		
+		throw new JWTKeyError(
+			`keys used with the '${algorithm}' algorithm must be ` +
+			`${length * 8} bits in length, but the provided key is ` +
+			`${bytes.length * 8} bits in length`
+		);
+		
+	}
+	
+	return bytes;
+	
+}
+
+/**
+ * Returns a length-prefixed copy of the provided data, as used to build the
+ * 'OtherInfo' input of the Concat KDF.
+ *
+ * @param {Buffer} data The data to prefix.
+ * @returns {Buffer} The 32-bit big-endian length of the data, followed by the
+ * data itself.
+ */
+function lengthPrefixed(data: Buffer): Buffer {
+	
+	const length: Buffer = Buffer.alloc(4);
+	
+	length.writeUInt32BE(data.length);
+	
+	return Buffer.concat([length, data]);
+	
+}
+
+/**
+ * Returns the value of the specified base64url-encoded header ('apu' or
+ * 'apv'), or an empty Buffer if the header is not present.
+ *
+ * @param {JSONWebEncryptionHeaders} headers The headers of the JWE.
+ * @param {string} field The name of the header to return.
+ * @returns {Buffer} The decoded value of the specified header.
+ */
+function getPartyInfo(headers: JSONWebEncryptionHeaders,
+					  field: "apu" | "apv"): Buffer {
+	
+	const value: unknown = headers[field];
+	
+	return typeof value === "string" ?
+		Buffer.from(value, "base64url") :
+		Buffer.alloc(0);
+	
+}
+
+/**
+ * Derives a key from the shared secret produced by an ECDH key agreement
+ * between the provided keys, using the Concat KDF as described by RFC 7518,
+ * section 4.6.2.
+ *
+ * @param {crypto.KeyObject} privateKey The private key of one party.
+ * @param {crypto.KeyObject} publicKey The public key of the other party.
+ * @param {string} algorithmID The algorithm identifier to include in the KDF
+ * input: the 'enc' header for 'ECDH-ES', otherwise the 'alg' header.
+ * @param {number} length The length of the key to derive, in bytes.
+ * @param {JSONWebEncryptionHeaders} headers The headers of the JWE, from
+ * which the 'apu' and 'apv' parameters are read.
+ * @returns {Buffer} The derived key.
+ */
+function deriveECDHKey(privateKey: crypto.KeyObject,
+					   publicKey: crypto.KeyObject,
+					   algorithmID: string,
+					   length: number,
+					   headers: JSONWebEncryptionHeaders): Buffer {
+	
+	const sharedSecret: Buffer =
+		crypto.diffieHellman({ privateKey, publicKey });
+	const keyLength: Buffer = Buffer.alloc(4);
+	
+	keyLength.writeUInt32BE(length * 8);
+	
+	const otherInfo: Buffer = Buffer.concat([
+		lengthPrefixed(Buffer.from(algorithmID, "ascii")),
+		lengthPrefixed(getPartyInfo(headers, "apu")),
+		lengthPrefixed(getPartyInfo(headers, "apv")),
+		keyLength,
+	]);
+	
+	const rounds: Buffer[] = [];
+	
+	for (let counter: number = 1; rounds.length * 32 < length; counter++) {
+		
+		const counterBytes: Buffer = Buffer.alloc(4);
+		
+		counterBytes.writeUInt32BE(counter);
+		
+		rounds.push(crypto.createHash("SHA256")
+			.update(Buffer.concat([counterBytes, sharedSecret, otherInfo]))
+			.digest());
+		
+	}
+	
+	return Buffer.concat(rounds).subarray(0, length);
+	
+}
+
+type EphemeralKeyPair = {
+	privateKey: crypto.KeyObject,
+	publicKey: crypto.KeyObject,
+};
+
+/**
+ * Returns a new ephemeral key pair of the same type (and, for elliptic curve
+ * keys, on the same curve) as the provided public key.
+ *
+ * @param {crypto.KeyObject} publicKey The recipient's public key.
+ * @returns {EphemeralKeyPair} A new ephemeral key pair.
+ */
+function generateEphemeralKeyPair(
+	publicKey: crypto.KeyObject): EphemeralKeyPair {
+	
+	if (publicKey.asymmetricKeyType === "ec") {
+		
+		return crypto.generateKeyPairSync("ec", {
+			namedCurve: publicKey.asymmetricKeyDetails?.namedCurve as string,
+		});
+		
+	} else if (publicKey.asymmetricKeyType === "x448") {
+		
+		return crypto.generateKeyPairSync("x448");
+		
+	}
+	
+	return crypto.generateKeyPairSync("x25519");
+	
+}
+
+/**
+ * Determines the content encryption key for a new JWE using the specified key
+ * management algorithm, returning the content encryption key, the encrypted
+ * key to include in the JWE, and any header parameters that must be added to
+ * its protected header.
+ *
+ * @param {KeyManagementAlgorithmIdentifier} alg The key management algorithm.
+ * @param {ContentEncryptionAlgorithmIdentifier} enc The content encryption
+ * algorithm.
+ * @param {EncryptionKey} key The shared secret or recipient's public key.
+ * @param {JSONWebEncryptionHeaders} headers The headers of the JWE.
+ * @returns {KeyManagementResult} The content encryption key, encrypted key
+ * and additional header parameters.
+ */
+export function encryptContentEncryptionKey(
+	alg: KeyManagementAlgorithmIdentifier,
+	enc: ContentEncryptionAlgorithmIdentifier,
+	key: EncryptionKey,
+	headers: JSONWebEncryptionHeaders,
+): KeyManagementResult {
+	
+	const contentEncryptionKeyLength: number =
+		getContentEncryptionKeyLength(enc);
+	
+	switch (alg) {
+		
+		case "dir": return {
+			contentEncryptionKey: getSymmetricKeyBytes(
+				key, contentEncryptionKeyLength, enc, "encrypt"
+			),
+			encryptedKey: Buffer.alloc(0),
+			headers: {},
+		};
+		
+		case "A128KW":
+		case "A256KW": {
+			
+			const contentEncryptionKey: Buffer =
+				crypto.randomBytes(contentEncryptionKeyLength);
+			const keyEncryptionKey: Buffer = getSymmetricKeyBytes(
+				key, KEY_WRAP_KEY_LENGTHS[alg] as number, alg, "wrapKey"
+			);
+			
+			return {
+				contentEncryptionKey,
+				encryptedKey: wrapKey(keyEncryptionKey, contentEncryptionKey),
+				headers: {},
+			};
+			
+		}
+		
+		case "RSA-OAEP-256": {
+			
+			const publicKey: crypto.KeyObject =
+				toPublicKeyObject(key, "wrapKey");
+			const contentEncryptionKey: Buffer =
+				crypto.randomBytes(contentEncryptionKeyLength);
+			
+			assertAsymmetricKeyType(publicKey, ["rsa"], alg);
+			
+			return {
+				contentEncryptionKey,
+				encryptedKey: crypto.publicEncrypt({
+					key: publicKey,
+					padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+					oaepHash: "SHA256",
+				}, contentEncryptionKey),
+				headers: {},
+			};
+			
+		}
+		
+		case "ECDH-ES":
+		case "ECDH-ES+A128KW":
+		case "ECDH-ES+A256KW": {
+			
+			const publicKey: crypto.KeyObject =
+				toPublicKeyObject(key, "deriveKey");
+			
+			assertAsymmetricKeyType(publicKey, ECDH_KEY_TYPES, alg);
+			
+			const ephemeralKeyPair: EphemeralKeyPair =
+				generateEphemeralKeyPair(publicKey);
+			const ephemeralHeaders: JSONWebEncryptionHeaders = {
+				epk: ephemeralKeyPair.publicKey.export({ format: "jwk" }) as
+					JSONWebEncryptionHeaders,
+			};
+			
+			if (alg === "ECDH-ES") {
+				
+				return {
+					contentEncryptionKey: deriveECDHKey(
+						ephemeralKeyPair.privateKey,
+						publicKey,
+						enc,
+						contentEncryptionKeyLength,
+						headers,
+					),
+					encryptedKey: Buffer.alloc(0),
+					headers: ephemeralHeaders,
+				};
+				
+			}
+			
+			const contentEncryptionKey: Buffer =
+				crypto.randomBytes(contentEncryptionKeyLength);
+			const keyEncryptionKey: Buffer = deriveECDHKey(
+				ephemeralKeyPair.privateKey,
+				publicKey,
+				alg,
+				KEY_WRAP_KEY_LENGTHS[alg] as number,
+				headers,
+			);
+			
+			return {
+				contentEncryptionKey,
+				encryptedKey: wrapKey(keyEncryptionKey, contentEncryptionKey),
+				headers: ephemeralHeaders,
+			};
+			
+		}
+		
+	}
+	
+}
+
+/**
+ * Determines the content encryption key of a received JWE using the specified
+ * key management algorithm.
+ *
+ * Failures to decrypt the encrypted key are reported in the same manner as
+ * failures to decrypt the content itself, so as not to reveal which of the
+ * two steps failed.
+ *
+ * @param {KeyManagementAlgorithmIdentifier} alg The key management algorithm.
+ * @param {ContentEncryptionAlgorithmIdentifier} enc The content encryption
+ * algorithm.
+ * @param {DecryptionKey} key The shared secret or recipient's private key.
+ * @param {Buffer} encryptedKey The encrypted key of the JWE.
+ * @param {JSONWebEncryptionHeaders} headers The protected headers of the JWE.
+ * @returns {Buffer} The content encryption key.
+ */
+export function decryptContentEncryptionKey(
+	alg: KeyManagementAlgorithmIdentifier,
+	enc: ContentEncryptionAlgorithmIdentifier,
+	key: DecryptionKey,
+	encryptedKey: Buffer,
+	headers: JSONWebEncryptionHeaders,
+): Buffer {
+	
+	const contentEncryptionKeyLength: number =
+		getContentEncryptionKeyLength(enc);
+	
+	if ((alg === "dir" || alg === "ECDH-ES") && encryptedKey.length !== 0) {
+		
+		throw new JWEDecryptionError(
+			`the encrypted key of a JWE using the '${alg}' algorithm must be ` +
+			"empty"
+		);
+		
+	}
+	
+	switch (alg) {
+		
+		case "dir": return getSymmetricKeyBytes(
+			key, contentEncryptionKeyLength, enc, "decrypt"
+		);
+		
+		case "A128KW":
+		case "A256KW": return unwrapKey(
+			getSymmetricKeyBytes(
+				key, KEY_WRAP_KEY_LENGTHS[alg] as number, alg, "unwrapKey"
+			),
+			encryptedKey,
+		);
+		
+		case "RSA-OAEP-256": {
+			
+			const privateKey: crypto.KeyObject =
+				toPrivateKeyObject(key, "unwrapKey");
+			
+			assertAsymmetricKeyType(privateKey, ["rsa"], alg);
+			
+			try {
+				
+				return crypto.privateDecrypt({
+					key: privateKey,
+					padding: crypto.constants.RSA_PKCS1_OAEP_PADDING,
+					oaepHash: "SHA256",
+				}, encryptedKey);
+				
+			} catch (error: any) {
+				
+				// Continue with a random key so that the failure is only
+				// reported once content decryption fails (RFC 7516, section
+				// 11.5).
+				return crypto.randomBytes(contentEncryptionKeyLength);
+				
+			}
+			
+		}
+		
+		case "ECDH-ES":
+		case "ECDH-ES+A128KW":
+		case "ECDH-ES+A256KW": {
+			
+			const privateKey: crypto.KeyObject =
+				toPrivateKeyObject(key, "deriveKey");
+			
+			assertAsymmetricKeyType(privateKey, ECDH_KEY_TYPES, alg);
+			
+			let ephemeralPublicKey: crypto.KeyObject;
+			
+			try {
+				
+				ephemeralPublicKey = crypto.createPublicKey({
+					key: headers.epk as crypto.JsonWebKeyInput["key"],
+					format: "jwk",
+				});
+				
+			} catch (error: any) {
+				
+				throw new JWEDecryptionError(
+					"the 'epk' header is missing or invalid"
+				);
+				
+			}
+			
+			let derivedKey: Buffer;
+			
+			try {
+				
+				derivedKey = deriveECDHKey(
+					privateKey,
+					ephemeralPublicKey,
+					alg === "ECDH-ES" ? enc : alg,
+					alg === "ECDH-ES" ?
+						contentEncryptionKeyLength :
+						KEY_WRAP_KEY_LENGTHS[alg] as number,
+					headers,
+				);
+				
+			} catch (error: any) {
+				
+				throw new JWEDecryptionError(
+					"the 'epk' header does not match the type of the " +
+					"provided private key"
+				);
+				
+			}
+			
+			return alg === "ECDH-ES" ?
+				derivedKey :
+				unwrapKey(derivedKey, encryptedKey);
+			
+		}
+		
+	}
+	
+}
@@ -0,0 +1,34 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:10 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	JSONWebKeyOperation,
+	JSONWebKeyParameters,
+} from "../types/jwk-types.js";
+
+/**
+ * Returns true if the JWK with the provided parameters may be used for the
+ * specified key operation, according to its 'use' and 'key_ops' parameters,
+ * otherwise false.
+ *
+ * @param {JSONWebKeyParameters} parameters The parameters of the JWK.
+ * @param {JSONWebKeyOperation} operation The key operation to check.
+ * @returns {boolean} true if the JWK may be used for the specified key
+ * operation, otherwise false.
+ */
+export function isOperationPermitted(parameters: JSONWebKeyParameters,
+									 operation: JSONWebKeyOperation): boolean {
+	
+	const isSignatureOperation: boolean =
+		operation === "sign" || operation === "verify";
+	
+	if (parameters.use === "sig" && !isSignatureOperation) return false;
+	if (parameters.use === "enc" && isSignatureOperation) return false;
+	
+	return parameters.key_ops === undefined ||
+		parameters.key_ops.includes(operation);
+	
+}
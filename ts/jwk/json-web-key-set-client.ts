@@ -0,0 +1,455 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:29 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONWebKey } from "./json-web-key.js";
+import { JSONWebKeySet } from "./json-web-key-set.js";
+import { selectVerificationKey } from "./json-web-key-set-resolver.js";
+import { KeyResolver } from "../types/key-types.js";
+import { JSONWebTokenHeaders } from "../types/jwt-types.js";
+import { JWKSetFetchError } from "../error/jwk-set-fetch-error.js";
+
+/**
+ * The subset of the WHATWG `Response` interface that is used by
+ * {@link JSONWebKeySetClient}.
+ */
+export type JSONWebKeySetFetchResponse = {
+	
+	ok: boolean,
+	
+	status: number,
+	
+	json(): Promise<unknown>,
+	
+};
+
+/**
+ * A function that fetches the resource at the specified URL, compatible with
+ * the global `fetch` function.
+ */
+export type JSONWebKeySetFetchFunction =
+	(url: string) => Promise<JSONWebKeySetFetchResponse>;
+
+export type JSONWebKeySetClientOptions = {
+	
+	/**
+	 * The number of milliseconds for which a fetched JWK set is considered
+	 * fresh, after which it will be refetched the next time it is needed.
+	 */
+	cacheTTL: number,
+	
+	/**
+	 * The minimum number of milliseconds between consecutive fetches that are
+	 * triggered by a lookup for an unknown key ID.
+	 */
+	refetchCooldown: number,
+	
+	/**
+	 * The minimum number of milliseconds after a failed fetch before the JWK
+	 * set will be fetched again (other than by an explicit call to
+	 * {@link JSONWebKeySetClient.refresh}). Lookups made during this time are
+	 * served from the cached copy if it may still be served, and otherwise
+	 * fail with the error of the failed fetch.
+	 */
+	failureCooldown: number,
+	
+	/**
+	 * The number of milliseconds past its expiry for which the most recently
+	 * fetched JWK set may continue to be served while the JWK set endpoint
+	 * cannot be reached, or false if it may be served indefinitely.
+	 */
+	maxStaleness: number | false,
+	
+	/**
+	 * The function used to fetch the JWK set. Defaults to the global `fetch`
+	 * function.
+	 */
+	fetch: JSONWebKeySetFetchFunction,
+	
+};
+
+/**
+ * A client for a remote JWK set endpoint (such as
+ * `/.well-known/jwks.json`), which caches the fetched set and can be used as a
+ * {@link KeyResolver} when validating JWTs.
+ * 
+ * The set is refetched when its cached copy has expired, and also when a key
+ * ID is requested that is not present in the cached copy - though no more
+ * frequently than once per refetch cooldown, so that JWTs bearing unknown key
+ * IDs cannot trigger a flood of requests. Concurrent lookups that require a
+ * fetch share a single in-flight request.
+ * 
+ * If a fetch fails, the set is not fetched again until the failure cooldown
+ * has elapsed, and in the meantime the most recently fetched set continues to
+ * be served for up to the maximum staleness past its expiry, so that an
+ * outage of the JWK set endpoint does not cause every lookup to fail.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class JSONWebKeySetClient {
+	
+	/**
+	 * The URL of the JWK set endpoint.
+	 */
+	protected url: string;
+	
+	/**
+	 * The options that govern the behavior of this client.
+	 */
+	protected options: JSONWebKeySetClientOptions;
+	
+	/**
+	 * The most recently fetched JWK set, if one has been fetched.
+	 */
+	protected cachedKeySet: JSONWebKeySet | undefined;
+	
+	/**
+	 * The time (in milliseconds since the epoch) at which the cached JWK set
+	 * expires.
+	 */
+	protected cacheExpiry: number;
+	
+	/**
+	 * The time (in milliseconds since the epoch) at which the most recent
+	 * fetch was started.
+	 */
+	protected lastFetchTime: number | undefined;
+	
+	/**
+	 * The Promise for the fetch that is currently in progress, if any.
+	 */
+	protected inFlightFetch: Promise<JSONWebKeySet> | undefined;
+	
+	/**
+	 * The time (in milliseconds since the epoch) at which the most recent
+	 * fetch failed, or undefined if the most recent fetch succeeded.
+	 */
+	protected lastFailureTime: number | undefined;
+	
+	/**
+	 * The error with which the most recent fetch failed, if it failed.
+	 */
+	protected lastFailure: unknown;
+	
+	/**
+	 * Initializes a new JSONWebKeySetClient for the JWK set endpoint at the
+	 * specified URL.
+	 * 
+	 * @param {string} url The URL of the JWK set endpoint.
+	 * @param {Partial<JSONWebKeySetClientOptions>} options An optional object
+	 * containing various options that govern the behavior of this client.
+	 */
+	public constructor(url: string,
+					   options: Partial<JSONWebKeySetClientOptions> = {}) {
+		
+		this.url = url;
+		this.options = {
+			...JSONWebKeySetClient.getDefaultOptions(),
+			...options,
+		};
+		this.cachedKeySet = undefined;
+		this.cacheExpiry = 0;
+		this.lastFetchTime = undefined;
+		this.inFlightFetch = undefined;
+		this.lastFailureTime = undefined;
+		this.lastFailure = undefined;
+		
+	}
+	
+	/**
+	 * Returns the default set of options for a JSONWebKeySetClient.
+	 * 
+	 * @returns {JSONWebKeySetClientOptions} The default set of options.
+	 */
+	public static getDefaultOptions(): JSONWebKeySetClientOptions {
+		
+		return {
+			cacheTTL: 10 * 60 * 1000,
+			refetchCooldown: 30 * 1000,
+			failureCooldown: 30 * 1000,
+			maxStaleness: 24 * 60 * 60 * 1000,
+			fetch: (url: string): Promise<JSONWebKeySetFetchResponse> =>
+				fetch(url),
+		};
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the JWK set, fetching it if there is
+	 * no cached copy or the cached copy has expired.
+	 * 
+	 * If the fetch fails (or a previous fetch failed within the failure
+	 * cooldown), the expired copy is returned instead so long as it is within
+	 * the maximum staleness, otherwise the Promise is rejected.
+	 * 
+	 * @returns {Promise<JSONWebKeySet>} A Promise that resolves to the JWK
+	 * set.
+	 */
+	public async getKeySet(): Promise<JSONWebKeySet> {
+		
+		if (this.cachedKeySet !== undefined && Date.now() < this.cacheExpiry) {
+			
+			return this.cachedKeySet;
+			
+		}
+		
+		if (this.isCoolingDown()) {
+			
+			if (this.canServeStale()) return this.cachedKeySet as JSONWebKeySet;
+			
+			throw this.lastFailure;
+			
+		}
+		
+		return this.refreshOrServeStale();
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the key with the specified key ID,
+	 * refetching the JWK set once if no such key is present in the cached copy
+	 * and the refetch cooldown has elapsed (or waiting for the fetch that is
+	 * already in progress, if there is one).
+	 * 
+	 * @param {string} kid The key ID of the key to return.
+	 * @returns {Promise<JSONWebKey | undefined>} A Promise that resolves to
+	 * the key with the specified key ID, or undefined if no such key exists.
+	 */
+	public async getKey(kid: string): Promise<JSONWebKey | undefined> {
+		
+		const key: JSONWebKey | undefined =
+			(await this.getKeySet()).getKeyByID(kid);
+		
+		if (key !== undefined) return key;
+		
+		return (await this.refetchForUnknownKey()).getKeyByID(kid);
+		
+	}
+	
+	/**
+	 * Fetches the JWK set, replacing the cached copy. If a fetch is already in
+	 * progress, the Promise for that fetch is returned instead.
+	 * 
+	 * @returns {Promise<JSONWebKeySet>} A Promise that resolves to the newly
+	 * fetched JWK set.
+	 */
+	public refresh(): Promise<JSONWebKeySet> {
+		
+		if (this.inFlightFetch === undefined) {
+			
+			this.lastFetchTime = Date.now();
+			this.inFlightFetch = this.fetchKeySet().then(
+				(keySet: JSONWebKeySet): JSONWebKeySet => {
+					
+					this.cachedKeySet = keySet;
+					this.cacheExpiry = Date.now() + this.options.cacheTTL;
+					this.inFlightFetch = undefined;
+					this.lastFailureTime = undefined;
+					this.lastFailure = undefined;
+					
+					return keySet;
+					
+				},
+				(error: any): never => {
+					
+					this.inFlightFetch = undefined;
+					this.lastFailureTime = Date.now();
+					this.lastFailure = error;
+					
+					throw error;
+					
+				},
+			);
+			
+		}
+		
+		return this.inFlightFetch;
+		
+	}
+	
+	/**
+	 * Returns an asynchronous {@link KeyResolver} that selects verification
+	 * keys from the JWK set, for use with
+	 * {@link DecodedJSONWebToken.validateAsync} and
+	 * {@link DecodedJSONWebToken.decodeAsync}.
+	 * 
+	 * Keys are selected in the same manner as by
+	 * {@link selectVerificationKey}, except that the JWK set is refetched
+	 * (subject to the refetch cooldown) if a JWT's 'kid' header does not match
+	 * any key in the cached copy.
+	 * 
+	 * @returns {KeyResolver} An asynchronous key resolver backed by this
+	 * client.
+	 */
+	public getResolver(): KeyResolver {
+		
+		return async (headers: JSONWebTokenHeaders,
+		): Promise<JSONWebKey | undefined> => {
+			
+			const key: JSONWebKey | undefined =
+				selectVerificationKey(await this.getKeySet(), headers);
+			
+			if (key !== undefined || typeof headers.kid !== "string") {
+				
+				return key;
+				
+			}
+			
+			return selectVerificationKey(
+				await this.refetchForUnknownKey(),
+				headers,
+			);
+			
+		};
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the JWK set in which to look again
+	 * for a key that was not present in the cached copy.
+	 * 
+	 * If a fetch is already in progress (such as one started by a concurrent
+	 * lookup), its result is awaited. Otherwise, the JWK set is refetched if
+	 * the refetch cooldown has elapsed, and the cached copy (which may have
+	 * been replaced since it was last searched) is used if it has not.
+	 * 
+	 * @returns {Promise<JSONWebKeySet>} A Promise that resolves to the JWK set
+	 * in which to look again for the key.
+	 */
+	protected refetchForUnknownKey(): Promise<JSONWebKeySet> {
+		
+		if (this.inFlightFetch !== undefined || this.canRefetch()) {
+			
+			return this.refreshOrServeStale();
+			
+		}
+		
+		return this.getKeySet();
+		
+	}
+	
+	/**
+	 * Returns true if the refetch cooldown has elapsed since the most recent
+	 * fetch and the client is not cooling down from a failed fetch, otherwise
+	 * false.
+	 * 
+	 * @returns {boolean} true if the JWK set may be refetched, otherwise
+	 * false.
+	 */
+	protected canRefetch(): boolean {
+		
+		if (this.isCoolingDown()) return false;
+		
+		return this.lastFetchTime === undefined ||
+			Date.now() - this.lastFetchTime >= this.options.refetchCooldown;
+		
+	}
+	
+	/**
+	 * Returns true if the most recent fetch failed less than the failure
+	 * cooldown ago, otherwise false.
+	 * 
+	 * @returns {boolean} true if the client is cooling down from a failed
+	 * fetch, otherwise false.
+	 */
+	protected isCoolingDown(): boolean {
+		
+		return this.lastFailureTime !== undefined &&
+			Date.now() - this.lastFailureTime < this.options.failureCooldown;
+		
+	}
+	
+	/**
+	 * Returns true if there is a cached JWK set that has not exceeded the
+	 * maximum staleness past its expiry, otherwise false.
+	 * 
+	 * @returns {boolean} true if the cached JWK set may be served, otherwise
+	 * false.
+	 */
+	protected canServeStale(): boolean {
+		
+		if (this.cachedKeySet === undefined) return false;
+		else if (this.options.maxStaleness === false) return true;
+		
+		return Date.now() < this.cacheExpiry + this.options.maxStaleness;
+		
+	}
+	
+	/**
+	 * Fetches the JWK set as per {@link refresh}, but resolves to the cached
+	 * copy rather than rejecting if the fetch fails and the cached copy may
+	 * still be served.
+	 * 
+	 * @returns {Promise<JSONWebKeySet>} A Promise that resolves to the newly
+	 * fetched JWK set, or to the cached copy if the fetch failed.
+	 */
+	protected async refreshOrServeStale(): Promise<JSONWebKeySet> {
+		
+		try {
+			
+			return await this.refresh();
+			
+		} catch (error: any) {
+			
+			if (this.canServeStale()) return this.cachedKeySet as JSONWebKeySet;
+			
+			throw error;
+			
+		}
+		
+	}
+	
+	/**
+	 * Fetches and parses the JWK set.
+	 * 
+	 * @returns {Promise<JSONWebKeySet>} A Promise that resolves to the fetched
+	 * JWK set.
+	 */
+	protected async fetchKeySet(): Promise<JSONWebKeySet> {
+		
+		let response: JSONWebKeySetFetchResponse;
+		
+		try {
+			
+			response = await this.options.fetch(this.url);
+			
+		} catch (error: any) {
+			
+			throw new JWKSetFetchError(
+				`the request to '${this.url}' failed: ${error?.message}`
+			);
+			
+		}
+		
+		if (!response.ok) {
+			
+			throw new JWKSetFetchError(
+				`the request to '${this.url}' failed with status ` +
+				`${response.status}`
+			);
+			
+		}
+		
+		let body: unknown;
+		
+		try {
+			
+			body = await response.json();
+			
+		} catch (error: any) {
+			
+			throw new JWKSetFetchError(
+				`the response from '${this.url}' was not valid JSON`
+			);
+			
+		}
+		
+		return JSONWebKeySet.fromJSON(body as object);
+		
+	}
+	
+}
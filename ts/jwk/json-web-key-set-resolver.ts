@@ -0,0 +1,91 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:11 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONWebKey } from "./json-web-key.js";
+import { JSONWebKeySet } from "./json-web-key-set.js";
+import { KeyResolver } from "../types/key-types.js";
+import { JSONWebTokenHeaders } from "../types/jwt-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { SigningAlgorithmRegistry } from "../algorithm/signing-algorithm-registry.js";
+import { getKeyType } from "../key/key-conversion.js";
+import { JWTKeyNotFoundError } from "../error/jwt-key-not-found-error.js";
+
+/**
+ * Returns the key from the provided JWK set that should be used to verify the
+ * signature of a JWT with the provided headers, or undefined if there is no
+ * such key.
+ * 
+ * If the JWT has a 'kid' header, the key in the set with the matching key ID
+ * is selected. Otherwise, a key is only selected if it is the single key in
+ * the set that is suitable for verifying signatures created using the JWT's
+ * 'alg' header - if several keys are suitable, the choice is ambiguous and a
+ * {@link JWTKeyNotFoundError} is thrown.
+ * 
+ * Keys whose 'use' or 'key_ops' parameters do not permit verification are
+ * never selected.
+ * 
+ * @param {JSONWebKeySet} keySet The JWK set from which to select a key.
+ * @param {JSONWebTokenHeaders} headers The headers of the JWT.
+ * @returns {JSONWebKey | undefined} The selected key, or undefined if there
+ * is no suitable key.
+ */
+export function selectVerificationKey(keySet: JSONWebKeySet,
+									  headers: JSONWebTokenHeaders,
+): JSONWebKey | undefined {
+	
+	if (typeof headers.kid === "string") {
+		
+		return keySet.find({ kid: headers.kid }).find(
+			(key: JSONWebKey): boolean => key.permitsOperation("verify")
+		);
+		
+	}
+	
+	if (typeof headers.alg !== "string") return undefined;
+	
+	const algorithm: SigningAlgorithm | undefined =
+		SigningAlgorithmRegistry.getDefault().get(headers.alg);
+	
+	if (algorithm === undefined) return undefined;
+	
+	const candidates: JSONWebKey[] = keySet.find({
+		alg: algorithm.identifier,
+		use: "sig",
+	}).filter((key: JSONWebKey): boolean =>
+		key.permitsOperation("verify") &&
+		algorithm.keyTypes.includes(getKeyType(key))
+	);
+	
+	if (candidates.length > 1) {
+		
+		throw new JWTKeyNotFoundError(
+			"the JWT has no 'kid' header, and multiple keys in the JWK set " +
+			`are suitable for the '${algorithm.identifier}' algorithm`
+		);
+		
+	}
+	
+	return candidates[0];
+	
+}
+
+/**
+ * Returns a {@link KeyResolver} that selects verification keys from the
+ * provided JWK set.
+ * 
+ * @param {JSONWebKeySet} keySet The JWK set from which to select keys.
+ * @returns {KeyResolver} A key resolver that selects keys from the provided
+ * JWK set.
+ * @see selectVerificationKey For more information regarding how keys are
+ * selected.
+ */
+export function createJSONWebKeySetResolver(
+	keySet: JSONWebKeySet): KeyResolver {
+	
+	return (headers: JSONWebTokenHeaders): JSONWebKey | undefined =>
+		selectVerificationKey(keySet, headers);
+	
+}
@@ -0,0 +1,233 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 6:12 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONWebKey } from "./json-web-key.js";
+import {
+	JSONWebKeyParameters,
+	JSONWebKeySetParameters,
+	JSONWebKeySetQuery,
+	VALID_JSON_WEB_KEY_TYPES,
+} from "../types/jwk-types.js";
+import { JWKParsingError } from "../error/jwk-parsing-error.js";
+
+/**
+ * A class representing a JSON web key set (JWKS), as defined by RFC 7517,
+ * section 5.
+ * 
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class JSONWebKeySet {
+	
+	/**
+	 * The keys contained within this JWK set.
+	 */
+	protected keys: JSONWebKey[];
+	
+	/**
+	 * Initializes a new JSONWebKeySet instance containing the provided keys.
+	 * 
+	 * @param {JSONWebKey[]} keys The keys that the JWK set should contain.
+	 */
+	public constructor(keys: JSONWebKey[] = []) {
+		
+		this.keys = [...keys];
+		
+	}
+	
+	/**
+	 * Returns a new JSONWebKeySet instance, parsed from the provided JSON
+	 * string or object.
+	 * 
+	 * As recommended by RFC 7517, section 5, keys with a 'kty' value that is
+	 * not understood by this library are ignored rather than causing the
+	 * entire set to be rejected.
+	 * 
+	 * @param {string | object} json The JSON string or already-parsed object
+	 * from which to build the returned JSONWebKeySet.
+	 * @returns {JSONWebKeySet} A new JSONWebKeySet instance.
+	 */
+	public static fromJSON(json: string | object): JSONWebKeySet {
+		
+		let parameters: any = json;
+		
+		if (typeof json === "string") {
+			
+			try {
+				
+				parameters = JSON.parse(json);
+				
+			} catch (error: any) {
+				
+				throw new JWKParsingError(
+					"the provided JWK set string is not valid JSON"
+				);
+				
+			}
+			
+		}
+		
+		if (typeof parameters !== "object" || parameters === null ||
+			!Array.isArray(parameters.keys)) {
+			
+			throw new JWKParsingError(
+				"a JWK set must be a JSON object with a 'keys' array"
+			);
+			
+		}
+		
+		return new JSONWebKeySet(
+			parameters.keys.filter(
+				(key: any): boolean =>
+					VALID_JSON_WEB_KEY_TYPES.includes(key?.kty)
+			).map(
+				(key: JSONWebKeyParameters): JSONWebKey => new JSONWebKey(key)
+			)
+		);
+		
+	}
+	
+	/**
+	 * Adds the provided key to this JWK set.
+	 * 
+	 * @param {JSONWebKey} key The key to add.
+	 */
+	public add(key: JSONWebKey): void {
+		
+		this.keys.push(key);
+		
+	}
+	
+	/**
+	 * Removes all keys with the specified key ID from this JWK set.
+	 * 
+	 * @param {string} kid The key ID of the key(s) to remove.
+	 * @returns {boolean} true if any keys were removed, otherwise false.
+	 */
+	public remove(kid: string): boolean {
+		
+		const originalLength: number = this.keys.length;
+		
+		this.keys = this.keys.filter(
+			(key: JSONWebKey): boolean => key.getKeyID() !== kid
+		);
+		
+		return this.keys.length !== originalLength;
+		
+	}
+	
+	/**
+	 * Returns all of the keys contained within this JWK set.
+	 * 
+	 * @returns {JSONWebKey[]} All of the keys contained within this JWK set.
+	 */
+	public getKeys(): JSONWebKey[] {
+		
+		return [...this.keys];
+		
+	}
+	
+	/**
+	 * Returns the first key within this JWK set with the specified key ID, or
+	 * undefined if there is no such key.
+	 * 
+	 * @param {string} kid The key ID of the key to retrieve.
+	 * @returns {JSONWebKey | undefined} The first key with the specified key
+	 * ID, or undefined if there is no such key.
+	 */
+	public getKeyByID(kid: string): JSONWebKey | undefined {
+		
+		return this.keys.find(
+			(key: JSONWebKey): boolean => key.getKeyID() === kid
+		);
+		
+	}
+	
+	/**
+	 * Returns all of the keys within this JWK set that match the provided
+	 * query.
+	 * 
+	 * @param {JSONWebKeySetQuery} query The criteria that returned keys must
+	 * match.
+	 * @returns {JSONWebKey[]} All of the keys that match the provided query.
+	 * @see JSONWebKeySetQuery For more information regarding how keys are
+	 * matched.
+	 */
+	public find(query: JSONWebKeySetQuery): JSONWebKey[] {
+		
+		return this.keys.filter((key: JSONWebKey): boolean => {
+			
+			if (query.kid !== undefined && key.getKeyID() !== query.kid) {
+				
+				return false;
+				
+			}
+			
+			if (query.kty !== undefined && key.getKeyType() !== query.kty) {
+				
+				return false;
+				
+			}
+			
+			const algorithm: string | undefined = key.getAlgorithm();
+			
+			if (query.alg !== undefined && algorithm !== undefined &&
+				algorithm !== query.alg) {
+				
+				return false;
+				
+			}
+			
+			const use: string | undefined = key.getUse();
+			
+			return query.use === undefined || use === undefined ||
+				use === query.use;
+			
+		});
+		
+	}
+	
+	/**
+	 * Returns the parameters of this JWK set, optionally including the private
+	 * key material of its keys.
+	 * 
+	 * Symmetric ('oct') keys have no public form, and so are omitted entirely
+	 * unless private key material is included.
+	 * 
+	 * @param {boolean} includePrivateParameters A boolean value indicating
+	 * whether private key material should be included in the returned
+	 * parameters. Defaults to `false`.
+	 * @returns {JSONWebKeySetParameters} The parameters of this JWK set.
+	 */
+	public export(
+		includePrivateParameters: boolean = false): JSONWebKeySetParameters {
+		
+		return {
+			keys: this.keys.filter(
+				(key: JSONWebKey): boolean =>
+					includePrivateParameters || !key.isSymmetric()
+			).map(
+				(key: JSONWebKey): JSONWebKeyParameters =>
+					key.export(includePrivateParameters)
+			),
+		};
+		
+	}
+	
+	/**
+	 * Returns the parameters of this JWK set with all private key material
+	 * stripped, so that `JSON.stringify` never leaks private keys.
+	 * 
+	 * @returns {JSONWebKeySetParameters} The public parameters of this JWK set.
+	 */
+	public toJSON(): JSONWebKeySetParameters {
+		
+		return this.export(false);
+		
+	}
+	
+}
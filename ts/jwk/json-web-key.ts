@@ -0,0 +1,543 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:40 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import {
+	JSONWebKeyMetadata,
+	JSONWebKeyOperation,
+	JSONWebKeyParameters,
+	JSONWebKeyType,
+	JSONWebKeyUse,
+	PRIVATE_JSON_WEB_KEY_PARAMETERS,
+	VALID_JSON_WEB_KEY_CURVES,
+	VALID_JSON_WEB_KEY_OPERATIONS,
+	VALID_JSON_WEB_KEY_TYPES,
+} from "../types/jwk-types.js";
+import { JWKParsingError } from "../error/jwk-parsing-error.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { isOperationPermitted } from "./json-web-key-operations.js";
+
+const BASE64URL_PATTERN: RegExp = /^[A-Za-z0-9_-]*$/;
+
+/**
+ * A class representing a single JSON web key (JWK), as defined by RFC 7517.
+ *
+ * JSONWebKey instances can be used anywhere a signing or verification key is
+ * accepted by this library.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class JSONWebKey {
+	
+	/**
+	 * The full set of parameters that make up this JWK.
+	 */
+	protected parameters: JSONWebKeyParameters;
+	
+	/**
+	 * Initializes a new JSONWebKey instance with the provided parameters,
+	 * having first validated their structure.
+	 *
+	 * @param {JSONWebKeyParameters} parameters The full set of parameters that
+	 * make up the JWK.
+	 */
+	public constructor(parameters: JSONWebKeyParameters) {
+		
+		JSONWebKey.validateParameters(parameters);
+		
+		this.parameters = { ...parameters };
+		
+	}
+	
+	/**
+	 * Returns a new JSONWebKey instance, parsed from the provided JSON string
+	 * or object.
+	 *
+	 * @param {string | object} json The JSON string or already-parsed object
+	 * from which to build the returned JSONWebKey.
+	 * @returns {JSONWebKey} A new JSONWebKey instance.
+	 */
+	public static fromJSON(json: string | object): JSONWebKey {
+		
+		let parameters: any = json;
+		
+		if (typeof json === "string") {
+			
+			try {
+				
+				parameters = JSON.parse(json);
+				
+			} catch (error: any) {
+				
+				throw new JWKParsingError(
+					"the provided string is not valid JSON"
+				);
+				
+			}
+			
+		}
+		
+		return new JSONWebKey(parameters);
+		
+	}
+	
+	/**
+	 * Returns a new JSONWebKey instance representing the provided KeyObject,
+	 * optionally including the provided metadata parameters.
+	 *
+	 * @param {crypto.KeyObject} key The KeyObject to convert.
+	 * @param {JSONWebKeyMetadata} metadata Optional metadata parameters ('kid',
+	 * 'use', 'alg', 'key_ops') to include in the returned JWK.
+	 * @returns {JSONWebKey} A new JSONWebKey instance.
+	 */
+	public static fromKeyObject(key: crypto.KeyObject,
+								metadata: JSONWebKeyMetadata = {}): JSONWebKey {
+		
+		let exported: crypto.JsonWebKeyInput["key"];
+		
+		try {
+			
+			exported = key.export({ format: "jwk" });
+			
+		} catch (error: any) {
+			
+			throw new JWTKeyError(
+				"the provided KeyObject could not be converted to a JWK"
+			);
+			
+		}
+		
+		return new JSONWebKey({
+			...exported,
+			...metadata,
+		} as JSONWebKeyParameters);
+		
+	}
+	
+	/**
+	 * Returns a new JSONWebKey instance representing the provided PEM-encoded
+	 * public or private key, optionally including the provided metadata
+	 * parameters.
+	 *
+	 * @param {string | Buffer} pem The PEM-encoded key to convert.
+	 * @param {JSONWebKeyMetadata} metadata Optional metadata parameters ('kid',
+	 * 'use', 'alg', 'key_ops') to include in the returned JWK.
+	 * @returns {JSONWebKey} A new JSONWebKey instance.
+	 */
+	public static fromPEM(pem: string | Buffer,
+						  metadata: JSONWebKeyMetadata = {}): JSONWebKey {
+		
+		let key: crypto.KeyObject;
+		
+		try {
+			
+			key = pem.includes("PRIVATE KEY") ?
+				crypto.createPrivateKey(pem) :
+				crypto.createPublicKey(pem);
+			
+		} catch (error: any) {
+			
+			throw new JWTKeyError("failed to parse PEM-encoded key");
+			
+		}
+		
+		return JSONWebKey.fromKeyObject(key, metadata);
+		
+	}
+	
+	/**
+	 * Validates the structure of the provided set of JWK parameters, throwing a
+	 * {@link JWKParsingError} if it is invalid.
+	 *
+	 * @param {any} parameters The set of JWK parameters to validate.
+	 */
+	public static validateParameters(parameters: any): void {
+		
+		if (typeof parameters !== "object" || parameters === null ||
+			Array.isArray(parameters)) {
+			
+			throw new JWKParsingError("a JWK must be a JSON object");
+			
+		}
+		
+		if (typeof parameters.kty !== "string") {
+			
+			throw new JWKParsingError(
+				"the required 'kty' parameter was missing or non-string"
+			);
+			
+		}
+		
+		if (!VALID_JSON_WEB_KEY_TYPES.includes(parameters.kty)) {
+			
+			throw new JWKParsingError(
+				`unsupported key type: '${parameters.kty}'`
+			);
+			
+		}
+		
+		for (const member of ["use", "alg", "kid"]) {
+			
+			if (parameters[member] !== undefined &&
+				typeof parameters[member] !== "string") {
+				
+				throw new JWKParsingError(
+					`the '${member}' parameter must be a string`
+				);
+				
+			}
+			
+		}
+		
+		if (parameters.key_ops !== undefined) {
+			
+			const keyOperations: unknown = parameters.key_ops;
+			
+			if (!Array.isArray(keyOperations) || !keyOperations.every(
+				(operation: unknown): boolean =>
+					VALID_JSON_WEB_KEY_OPERATIONS.includes(
+						operation as JSONWebKeyOperation
+					)
+			)) {
+				
+				throw new JWKParsingError(
+					"the 'key_ops' parameter must be an array of valid key " +
+					"operations"
+				);
+				
+			}
+			
+			if (new Set(keyOperations).size !== keyOperations.length) {
+				
+				throw new JWKParsingError(
+					"the 'key_ops' parameter must not contain duplicate values"
+				);
+				
+			}
+			
+		}
+		
+		const requireMembers = (...members: string[]): void => {
+			
+			for (const member of members) {
+				
+				if (typeof parameters[member] !== "string" ||
+					parameters[member].length === 0 ||
+					!BASE64URL_PATTERN.test(parameters[member])) {
+					
+					throw new JWKParsingError(
+						`'${parameters.kty}' keys require the '${member}' ` +
+						"parameter to be a non-empty base64url encoded string"
+					);
+					
+				}
+				
+			}
+			
+		};
+		
+		const optionalMembers = (...members: string[]): void => {
+			
+			requireMembers(...members.filter(
+				(member: string): boolean => parameters[member] !== undefined
+			));
+			
+		};
+		
+		const keyType: JSONWebKeyType = parameters.kty;
+		
+		switch (keyType) {
+			
+			case "oct":
+				requireMembers("k");
+				break;
+			
+			case "RSA": {
+				
+				requireMembers("n", "e");
+				optionalMembers("d", "p", "q", "dp", "dq", "qi");
+				
+				const primeMembers: string[] = ["p", "q", "dp", "dq", "qi"];
+				const presentPrimeMembers: string[] = primeMembers.filter(
+					(member: string): boolean =>
+						parameters[member] !== undefined
+				);
+				
+				if (presentPrimeMembers.length > 0 &&
+					(parameters.d === undefined ||
+						presentPrimeMembers.length !== primeMembers.length)) {
+					
+					throw new JWKParsingError(
+						"'RSA' private keys that include any of the 'p', " +
+						"'q', 'dp', 'dq' or 'qi' parameters must include all " +
+						"of them, along with the 'd' parameter"
+					);
+					
+				}
+				
+				break;
+				
+			}
+			
+			case "EC":
+			case "OKP":
+				if (!VALID_JSON_WEB_KEY_CURVES[keyType]?.includes(
+					parameters.crv
+				)) {
+					
+					throw new JWKParsingError(
+						`unsupported curve for '${keyType}' key: ` +
+						`'${parameters.crv}'`
+					);
+					
+				}
+				
+				requireMembers("x");
+				optionalMembers("d");
+				
+				if (keyType === "EC") requireMembers("y");
+				
+				break;
+			
+		}
+		
+	}
+	
+	/**
+	 * Returns the 'kty' (key type) parameter of this JWK.
+	 *
+	 * @returns {JSONWebKeyType} The 'kty' parameter of this JWK.
+	 */
+	public getKeyType(): JSONWebKeyType {
+		
+		return this.parameters.kty;
+		
+	}
+	
+	/**
+	 * Returns the 'kid' (key ID) parameter of this JWK, if present.
+	 *
+	 * @returns {string | undefined} The 'kid' parameter of this JWK.
+	 */
+	public getKeyID(): string | undefined {
+		
+		return this.parameters.kid;
+		
+	}
+	
+	/**
+	 * Returns the 'use' (public key use) parameter of this JWK, if present.
+	 *
+	 * @returns {JSONWebKeyUse | undefined} The 'use' parameter of this JWK.
+	 */
+	public getUse(): JSONWebKeyUse | undefined {
+		
+		return this.parameters.use;
+		
+	}
+	
+	/**
+	 * Returns the 'key_ops' (key operations) parameter of this JWK, if
+	 * present.
+	 *
+	 * @returns {JSONWebKeyOperation[] | undefined} The 'key_ops' parameter of
+	 * this JWK.
+	 */
+	public getKeyOperations(): JSONWebKeyOperation[] | undefined {
+		
+		return this.parameters.key_ops;
+		
+	}
+	
+	/**
+	 * Returns the 'alg' (algorithm) parameter of this JWK, if present.
+	 *
+	 * @returns {string | undefined} The 'alg' parameter of this JWK.
+	 */
+	public getAlgorithm(): string | undefined {
+		
+		return this.parameters.alg;
+		
+	}
+	
+	/**
+	 * Returns the 'crv' (curve) parameter of this JWK, if present.
+	 *
+	 * @returns {string | undefined} The 'crv' parameter of this JWK.
+	 */
+	public getCurve(): string | undefined {
+		
+		return this.parameters.crv;
+		
+	}
+	
+	/**
+	 * Returns true if this JWK is symmetric ('oct'), otherwise false.
+	 *
+	 * @returns {boolean} true if this JWK is symmetric, otherwise false.
+	 */
+	public isSymmetric(): boolean {
+		
+		return this.getKeyType() === "oct";
+		
+	}
+	
+	/**
+	 * Returns true if this JWK contains private (or secret) key material,
+	 * otherwise false.
+	 *
+	 * @returns {boolean} true if this JWK contains private key material,
+	 * otherwise false.
+	 */
+	public isPrivate(): boolean {
+		
+		return this.isSymmetric() || this.parameters.d !== undefined;
+		
+	}
+	
+	/**
+	 * Returns true if this JWK may be used for the specified key operation,
+	 * according to its 'use' and 'key_ops' parameters, otherwise false.
+	 *
+	 * @param {JSONWebKeyOperation} operation The key operation to check.
+	 * @returns {boolean} true if this JWK may be used for the specified key
+	 * operation, otherwise false.
+	 */
+	public permitsOperation(operation: JSONWebKeyOperation): boolean {
+		
+		return isOperationPermitted(this.parameters, operation);
+		
+	}
+	
+	/**
+	 * Returns a KeyObject representing this JWK.
+	 *
+	 * Symmetric keys are converted to 'secret' KeyObjects, keys with private
+	 * key material are converted to 'private' KeyObjects, and all other keys
+	 * are converted to 'public' KeyObjects.
+	 *
+	 * @returns {crypto.KeyObject} A KeyObject representing this JWK.
+	 */
+	public toKeyObject(): crypto.KeyObject {
+		
+		try {
+			
+			if (this.isSymmetric()) {
+				
+				return crypto.createSecretKey(
+					Buffer.from(this.parameters.k as string, "base64url")
+				);
+				
+			}
+			
+			const key: crypto.JsonWebKeyInput = {
+				key: this.parameters as crypto.JsonWebKeyInput["key"],
+				format: "jwk",
+			};
+			
+			return this.isPrivate() ?
+				crypto.createPrivateKey(key) :
+				crypto.createPublicKey(key);
+			
+		} catch (error: any) {
+			
+			throw new JWTKeyError(
+				"the key material of the JWK could not be imported"
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Returns the PEM encoding of this JWK: PKCS#8 for keys with private key
+	 * material, otherwise SPKI.
+	 *
+	 * @returns {string} The PEM encoding of this JWK.
+	 */
+	public toPEM(): string {
+		
+		if (this.isSymmetric()) {
+			
+			throw new JWTKeyError("symmetric JWKs cannot be encoded as PEM");
+			
+		}
+		
+		const key: crypto.KeyObject = this.toKeyObject();
+		
+		return (this.isPrivate() ?
+			key.export({ type: "pkcs8", format: "pem" }) :
+			key.export({ type: "spki", format: "pem" })
+		) as string;
+		
+	}
+	
+	/**
+	 * Returns a new JSONWebKey representing only the public portion of this
+	 * JWK, with all private key material stripped.
+	 *
+	 * @returns {JSONWebKey} A new JSONWebKey representing only the public
+	 * portion of this JWK.
+	 */
+	public toPublicKey(): JSONWebKey {
+		
+		return new JSONWebKey(this.export(false));
+		
+	}
+	
+	/**
+	 * Returns the parameters of this JWK, optionally including private key
+	 * material.
+	 *
+	 * Symmetric ('oct') keys have no public form, and so can only be exported
+	 * with private key material included.
+	 *
+	 * @param {boolean} includePrivateParameters A boolean value indicating
+	 * whether private key material should be included in the returned
+	 * parameters. Defaults to `false`.
+	 * @returns {JSONWebKeyParameters} The parameters of this JWK.
+	 */
+	public export(
+		includePrivateParameters: boolean = false): JSONWebKeyParameters {
+		
+		if (includePrivateParameters) return { ...this.parameters };
+		
+		if (this.isSymmetric()) {
+			
+			throw new JWTKeyError(
+				"symmetric JWKs have no public form, and can only be " +
+				"exported with their private key material included"
+			);
+			
+		}
+		
+		const result: JSONWebKeyParameters = { ...this.parameters };
+		
+		for (const parameter of PRIVATE_JSON_WEB_KEY_PARAMETERS) {
+			
+			delete result[parameter];
+			
+		}
+		
+		return result;
+		
+	}
+	
+	/**
+	 * Returns the parameters of this JWK with all private key material
+	 * stripped, so that `JSON.stringify` never leaks private keys.
+	 *
+	 * @returns {JSONWebKeyParameters} The public parameters of this JWK.
+	 */
+	public toJSON(): JSONWebKeyParameters {
+		
+		return this.export(false);
+		
+	}
+	
+}
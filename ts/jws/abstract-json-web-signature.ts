@@ -0,0 +1,281 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:47 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+} from "../types/jwt-types.js";
+import {
+	FlattenedJSONWebSignature,
+	GeneralJSONWebSignature,
+	JSONWebSignatureEntry,
+} from "../types/jws-types.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+
+/**
+ * The common base of JWSs that use the JSON serialization described by RFC
+ * 7515, section 7.2, in which any number of signatures are carried over a
+ * single payload.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export abstract class AbstractJSONWebSignature {
+	
+	/**
+	 * The base64url encoded payload of this JWS.
+	 */
+	protected encodedPayload: string;
+	
+	/**
+	 * The signatures over the payload of this JWS.
+	 */
+	protected signatures: JSONWebSignatureEntry[];
+	
+	protected constructor(encodedPayload: string,
+						  signatures: JSONWebSignatureEntry[] = []) {
+		
+		this.encodedPayload = encodedPayload;
+		this.signatures = signatures;
+		
+	}
+	
+	/**
+	 * Returns the base64url encoded payload of this JWS.
+	 *
+	 * @returns {string} The base64url encoded payload of this JWS.
+	 */
+	public getEncodedPayload(): string {
+		
+		return this.encodedPayload;
+		
+	}
+	
+	/**
+	 * Returns the raw, decoded bytes of the payload of this JWS.
+	 *
+	 * @returns {Buffer} The raw, decoded bytes of the payload of this JWS.
+	 */
+	public getRawPayload(): Buffer {
+		
+		return Buffer.from(this.encodedPayload, "base64url");
+		
+	}
+	
+	/**
+	 * Returns the payload of this JWS, having been parsed as a JSON object,
+	 * throwing a {@link JWTParsingError} if it is not one.
+	 *
+	 * @returns {JSONWebTokenPayload} The payload of this JWS.
+	 */
+	public getPayload(): JSONWebTokenPayload {
+		
+		let payload: unknown;
+		
+		try {
+			
+			payload = JSON.parse(this.getRawPayload().toString());
+			
+		} catch (error: any) {
+			
+			throw new JWTParsingError(
+				"failed to parse the payload of the JWS as JSON",
+				{ code: "MALFORMED_PAYLOAD", cause: error },
+			);
+			
+		}
+		
+		if (typeof payload !== "object" || payload === null ||
+			Array.isArray(payload)) {
+			
+			throw new JWTParsingError(
+				"the payload of the JWS was found not to be a JSON object",
+				{ code: "MALFORMED_PAYLOAD" },
+			);
+			
+		}
+		
+		return payload as JSONWebTokenPayload;
+		
+	}
+	
+	/**
+	 * Returns the number of signatures carried by this JWS.
+	 *
+	 * @returns {number} The number of signatures carried by this JWS.
+	 */
+	public getSignatureCount(): number {
+		
+		return this.signatures.length;
+		
+	}
+	
+	/**
+	 * Returns the signatures carried by this JWS, in their JSON serialized
+	 * form.
+	 *
+	 * @returns {JSONWebSignatureEntry[]} The signatures carried by this JWS.
+	 */
+	public getSignatures(): JSONWebSignatureEntry[] {
+		
+		return [...this.signatures];
+		
+	}
+	
+	/**
+	 * Returns the signature at the specified index, throwing a RangeError if
+	 * no such signature exists.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @returns {JSONWebSignatureEntry} The signature at the specified index.
+	 */
+	protected getSignatureEntry(index: number): JSONWebSignatureEntry {
+		
+		const entry: JSONWebSignatureEntry | undefined = this.signatures[index];
+		
+		if (entry === undefined) {
+			
+			throw new RangeError(
+				`Attempted to access the signature at index ${index} of a ` +
+				`JWS that has ${this.signatures.length} signature(s)`
+			);
+			
+		}
+		
+		return entry;
+		
+	}
+	
+	/**
+	 * Returns the protected headers of the signature at the specified index.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @returns {JSONWebTokenHeaders} The protected headers of the signature.
+	 */
+	public getProtectedHeaders(index: number): JSONWebTokenHeaders {
+		
+		const encodedHeaders: string | undefined =
+			this.getSignatureEntry(index).protected;
+		
+		if (encodedHeaders === undefined) return {};
+		
+		let headers: unknown;
+		
+		try {
+			
+			headers = JSON.parse(
+				Buffer.from(encodedHeaders, "base64url").toString()
+			);
+			
+		} catch (error: any) {
+			
+			throw new JWTParsingError(
+				"failed to decode and/or parse the protected headers of " +
+				`signature ${index} of the JWS`,
+				{ code: "MALFORMED_HEADERS", cause: error },
+			);
+			
+		}
+		
+		if (typeof headers !== "object" || headers === null ||
+			Array.isArray(headers)) {
+			
+			throw new JWTParsingError(
+				`the protected headers of signature ${index} of the JWS were ` +
+				"found not to be a JSON object",
+				{ code: "MALFORMED_HEADERS" },
+			);
+			
+		}
+		
+		return headers as JSONWebTokenHeaders;
+		
+	}
+	
+	/**
+	 * Returns the unprotected headers of the signature at the specified index.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @returns {JSONWebTokenHeaders} The unprotected headers of the signature.
+	 */
+	public getUnprotectedHeaders(index: number): JSONWebTokenHeaders {
+		
+		return this.getSignatureEntry(index).header ?? {};
+		
+	}
+	
+	/**
+	 * Returns the union of the protected and unprotected headers of the
+	 * signature at the specified index (the 'JOSE Header', as described by
+	 * RFC 7515, section 4).
+	 *
+	 * @param {number} index The index of the signature.
+	 * @returns {JSONWebTokenHeaders} The headers of the signature.
+	 */
+	public getHeaders(index: number): JSONWebTokenHeaders {
+		
+		return {
+			...this.getUnprotectedHeaders(index),
+			...this.getProtectedHeaders(index),
+		};
+		
+	}
+	
+	/**
+	 * Returns the general JSON serialization of this JWS.
+	 *
+	 * @returns {GeneralJSONWebSignature} The general JSON serialization of
+	 * this JWS.
+	 */
+	public toGeneralJSON(): GeneralJSONWebSignature {
+		
+		return {
+			payload: this.getEncodedPayload(),
+			signatures: this.getSignatures(),
+		};
+		
+	}
+	
+	/**
+	 * Returns the flattened JSON serialization of this JWS, which can only
+	 * represent a JWS that carries exactly one signature.
+	 *
+	 * @returns {FlattenedJSONWebSignature} The flattened JSON serialization of
+	 * this JWS.
+	 */
+	public toFlattenedJSON(): FlattenedJSONWebSignature {
+		
+		if (this.signatures.length !== 1) {
+			
+			throw new Error(
+				"Attempted to produce the flattened JSON serialization of a " +
+				`JWS with ${this.signatures.length} signatures, whereas ` +
+				"exactly one is required"
+			);
+			
+		}
+		
+		return {
+			payload: this.getEncodedPayload(),
+			...this.signatures[0],
+		};
+		
+	}
+	
+	/**
+	 * Returns the string version of this JWS, using the general JSON
+	 * serialization.
+	 *
+	 * @returns {string} The string version of this JWS.
+	 */
+	public toString(): string {
+		
+		return JSON.stringify(this.toGeneralJSON());
+		
+	}
+	
+}
@@ -0,0 +1,863 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 10:06 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+	SigningAlgorithmIdentifier,
+} from "../types/jwt-types.js";
+import {
+	JSONWebSignatureEntry,
+	SignatureVerificationPolicy,
+} from "../types/jws-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { KeyResolver, VerificationKey } from "../types/key-types.js";
+import {
+	SigningAlgorithmRegistry,
+} from "../algorithm/signing-algorithm-registry.js";
+import {
+	CriticalHeaderRegistry,
+} from "../header/critical-header-registry.js";
+import { AbstractJSONWebSignature } from "./abstract-json-web-signature.js";
+import { getKeyType } from "../key/key-conversion.js";
+import { JSONWebKey } from "../jwk/json-web-key.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { JWTKeyNotFoundError } from "../error/jwt-key-not-found-error.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+
+/**
+ * An object specifying various options related to the verification of the
+ * signatures on a JWS.
+ */
+export type SignatureVerificationOptions = {
+	
+	/**
+	 * The policy determining how many of the signatures on the JWS must be
+	 * verified in order for the JWS as a whole to be considered valid.
+	 *
+	 * This defaults to `"all"`.
+	 */
+	policy: SignatureVerificationPolicy,
+	
+	/**
+	 * An array of the identifiers of the algorithms that the signatures on
+	 * incoming JWSs may use.
+	 *
+	 * Signatures using any other algorithm are treated as unverifiable, and so
+	 * count against the verification policy.
+	 *
+	 * In order to allow any algorithm that is enabled in the default
+	 * {@link SigningAlgorithmRegistry}, set this field to false.
+	 */
+	allowedAlgorithms: SigningAlgorithmIdentifier[] | false,
+	
+};
+
+/**
+ * A class for decoding and verifying incoming JWSs that use the general or
+ * flattened JSON serialization.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class DecodedJSONWebSignature extends AbstractJSONWebSignature {
+	
+	/**
+	 * Initializes a new DecodedJSONWebSignature instance with the provided
+	 * payload and signatures.
+	 *
+	 * @param {string} encodedPayload The base64url encoded payload of the JWS,
+	 * as it was received.
+	 * @param {JSONWebSignatureEntry[]} signatures The signatures on the JWS,
+	 * as they were received.
+	 */
+	protected constructor(encodedPayload: string,
+						  signatures: JSONWebSignatureEntry[]) {
+		
+		super(encodedPayload, signatures);
+		
+	}
+	
+	/**
+	 * Returns the default set of options for verifying the signatures on
+	 * incoming JWSs.
+	 *
+	 * @returns {SignatureVerificationOptions} The default set of options for
+	 * verifying the signatures on incoming JWSs.
+	 */
+	public static getDefaultVerificationOptions(
+	): SignatureVerificationOptions {
+		
+		return {
+			policy: "all",
+			allowedAlgorithms: false,
+		};
+		
+	}
+	
+	/**
+	 * Returns a new DecodedJSONWebSignature instance, having been parsed from
+	 * the provided general or flattened JSON serialization of a JWS, and
+	 * optionally having had its signatures verified.
+	 *
+	 * @param {string | object} json The JSON string or already-parsed object
+	 * from which to build the returned DecodedJSONWebSignature.
+	 * @param {boolean} verifyBeforeReturn A boolean value indicating whether
+	 * or not the signatures on the JWS should be verified before it is
+	 * returned. Defaults to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The key against
+	 * which the signatures on the JWS will be checked, or a synchronous
+	 * {@link KeyResolver} that returns the key for each signature.
+	 * @param {Partial<SignatureVerificationOptions>} options An optional
+	 * object containing various options related to the verification of the
+	 * JWS.
+	 * @returns {DecodedJSONWebSignature} A new DecodedJSONWebSignature
+	 * instance.
+	 */
+	public static decode(json: string | object,
+						 verifyBeforeReturn: boolean = true,
+						 verificationKey?: VerificationKey | KeyResolver,
+						 options: Partial<SignatureVerificationOptions> = {},
+	): DecodedJSONWebSignature {
+		
+		const result: DecodedJSONWebSignature =
+			DecodedJSONWebSignature.parse(json);
+		
+		if (verifyBeforeReturn) result.verify(verificationKey, options);
+		
+		return result;
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to a new DecodedJSONWebSignature
+	 * instance, having been parsed from the provided general or flattened JSON
+	 * serialization of a JWS, and optionally having had its signatures
+	 * verified.
+	 *
+	 * Unlike {@link DecodedJSONWebSignature.decode}, this method supports
+	 * asynchronous {@link KeyResolver}s.
+	 *
+	 * @param {string | object} json The JSON string or already-parsed object
+	 * from which to build the returned DecodedJSONWebSignature.
+	 * @param {boolean} verifyBeforeReturn A boolean value indicating whether
+	 * or not the signatures on the JWS should be verified before it is
+	 * returned. Defaults to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The key against
+	 * which the signatures on the JWS will be checked, or a synchronous or
+	 * asynchronous {@link KeyResolver} that returns the key for each
+	 * signature.
+	 * @param {Partial<SignatureVerificationOptions>} options An optional
+	 * object containing various options related to the verification of the
+	 * JWS.
+	 * @returns {Promise<DecodedJSONWebSignature>} A Promise that resolves to a
+	 * new DecodedJSONWebSignature instance.
+	 */
+	public static async decodeAsync(
+		json: string | object,
+		verifyBeforeReturn: boolean = true,
+		verificationKey?: VerificationKey | KeyResolver,
+		options: Partial<SignatureVerificationOptions> = {},
+	): Promise<DecodedJSONWebSignature> {
+		
+		const result: DecodedJSONWebSignature =
+			DecodedJSONWebSignature.parse(json);
+		
+		if (verifyBeforeReturn) {
+			
+			await result.verifyAsync(verificationKey, options);
+			
+		}
+		
+		return result;
+		
+	}
+	
+	/**
+	 * Parses the provided general or flattened JSON serialization of a JWS,
+	 * throwing a {@link JWTParsingError} if it is malformed.
+	 *
+	 * @param {string | object} json The JSON string or already-parsed object
+	 * to parse.
+	 * @returns {DecodedJSONWebSignature} A new, unverified
+	 * DecodedJSONWebSignature instance.
+	 */
+	protected static parse(json: string | object): DecodedJSONWebSignature {
+		
+		let parameters: any = json;
+		
+		if (typeof json === "string") {
+			
+			try {
+				
+				parameters = JSON.parse(json);
+				
+			} catch (error: any) {
+				
+				throw new JWTParsingError(
+					"failed to parse the JWS as JSON",
+					{ cause: error },
+				);
+				
+			}
+			
+		}
+		
+		if (typeof parameters !== "object" || parameters === null ||
+			Array.isArray(parameters)) {
+			
+			throw new JWTParsingError(
+				"the JWS was found not to be a JSON object"
+			);
+			
+		}
+		
+		if (typeof parameters.payload !== "string") {
+			
+			throw new JWTParsingError(
+				"the 'payload' member of the JWS was found to be missing or " +
+				"non-string"
+			);
+			
+		}
+		
+		let entries: unknown[];
+		
+		if (parameters.signatures === undefined) {
+			
+			entries = [parameters];
+			
+		} else if (!Array.isArray(parameters.signatures) ||
+			parameters.signatures.length === 0) {
+			
+			throw new JWTParsingError(
+				"the 'signatures' member of the JWS was found not to be a " +
+				"non-empty array"
+			);
+			
+		} else if ("protected" in parameters || "header" in parameters ||
+			"signature" in parameters) {
+			
+			throw new JWTParsingError(
+				"the JWS was found to mix the general and flattened JSON " +
+				"serializations"
+			);
+			
+		} else {
+			
+			entries = parameters.signatures;
+			
+		}
+		
+		const result: DecodedJSONWebSignature = new DecodedJSONWebSignature(
+			parameters.payload,
+			entries.map(DecodedJSONWebSignature.parseSignatureEntry),
+		);
+		
+		for (let index: number = 0; index < entries.length; index++) {
+			
+			result.assertHeadersAreWellFormed(index);
+			
+		}
+		
+		return result;
+		
+	}
+	
+	/**
+	 * Parses a single signature from the JSON serialization of a JWS,
+	 * throwing a {@link JWTParsingError} if it is malformed.
+	 *
+	 * @param {unknown} entry The signature to parse.
+	 * @param {number} index The index of the signature within the JWS.
+	 * @returns {JSONWebSignatureEntry} The parsed signature.
+	 */
+	protected static parseSignatureEntry(entry: unknown,
+										 index: number,
+	): JSONWebSignatureEntry {
+		
+		if (typeof entry !== "object" || entry === null ||
+			Array.isArray(entry)) {
+			
+			throw new JWTParsingError(
+				`signature ${index} of the JWS was found not to be a JSON ` +
+				"object"
+			);
+			
+		}
+		
+		const { protected: encodedHeaders, header, signature } = entry as any;
+		
+		if (typeof signature !== "string" || signature.length === 0) {
+			
+			throw new JWTParsingError(
+				`the 'signature' member of signature ${index} of the JWS ` +
+				"was found to be missing, non-string or empty"
+			);
+			
+		}
+		
+		if (encodedHeaders !== undefined &&
+			(typeof encodedHeaders !== "string" ||
+				encodedHeaders.length === 0)) {
+			
+			throw new JWTParsingError(
+				`the 'protected' member of signature ${index} of the JWS ` +
+				"was found to be non-string or empty",
+				{ code: "MALFORMED_HEADERS" },
+			);
+			
+		}
+		
+		if (header !== undefined && (typeof header !== "object" ||
+			header === null || Array.isArray(header))) {
+			
+			throw new JWTParsingError(
+				`the 'header' member of signature ${index} of the JWS was ` +
+				"found not to be a JSON object",
+				{ code: "MALFORMED_HEADERS" },
+			);
+			
+		}
+		
+		return {
+			...(encodedHeaders === undefined ?
+				{} :
+				{ protected: encodedHeaders }),
+			...(header === undefined ? {} : { header }),
+			signature,
+		};
+		
+	}
+	
+	/**
+	 * Ensures that the headers of the signature at the specified index are
+	 * well-formed, as per RFC 7515, section 7.2.1, throwing a
+	 * {@link JWTParsingError} if they are not.
+	 *
+	 * @param {number} index The index of the signature.
+	 */
+	protected assertHeadersAreWellFormed(index: number): void {
+		
+		const protectedHeaders: JSONWebTokenHeaders =
+			this.getProtectedHeaders(index);
+		const unprotectedHeaders: JSONWebTokenHeaders =
+			this.getUnprotectedHeaders(index);
+		
+		for (const field of Object.keys(unprotectedHeaders)) {
+			
+			if (field in protectedHeaders) {
+				
+				throw new JWTParsingError(
+					`the '${field}' header of signature ${index} of the JWS ` +
+					"was found in both its protected and unprotected headers",
+					{ code: "MALFORMED_HEADERS" },
+				);
+				
+			}
+			
+		}
+		
+		if (typeof this.getHeaders(index).alg !== "string") {
+			
+			throw new JWTParsingError(
+				`the 'alg' header of signature ${index} of the JWS was ` +
+				"found to be missing or non-string",
+				{ code: "ALG_INVALID" },
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Returns the payload of this JWS as it is provided to
+	 * {@link KeyResolver}s, being an empty object if the payload is not a JSON
+	 * object.
+	 *
+	 * @returns {JSONWebTokenPayload} The payload of this JWS.
+	 */
+	protected getResolverPayload(): JSONWebTokenPayload {
+		
+		try {
+			
+			return this.getPayload();
+			
+		} catch (error: any) {
+			
+			return {};
+			
+		}
+		
+	}
+	
+	/**
+	 * Returns the verification key for the signature at the specified index,
+	 * invoking the provided {@link KeyResolver} if one is given in place of a
+	 * key.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @param {VerificationKey | KeyResolver} verificationKey The verification
+	 * key, or a synchronous key resolver that returns the verification key.
+	 * @returns {VerificationKey | undefined} The verification key for the
+	 * signature, or undefined if the resolver could not find one.
+	 */
+	protected resolveVerificationKey(
+		index: number,
+		verificationKey: VerificationKey | KeyResolver,
+	): VerificationKey | undefined {
+		
+		if (typeof verificationKey !== "function") return verificationKey;
+		
+		const resolvedKey: ReturnType<KeyResolver> = verificationKey(
+			this.getHeaders(index), this.getResolverPayload()
+		);
+		
+		if (resolvedKey instanceof Promise) {
+			
+			// Prevent an unhandled rejection from the discarded Promise.
+			resolvedKey.catch((): void => {});
+			
+			throw new JWTValidationError(
+				"the provided key resolver is asynchronous, and so can only " +
+				"be used with DecodedJSONWebSignature.verifyAsync or " +
+				"DecodedJSONWebSignature.decodeAsync",
+				{ code: "ASYNC_REQUIRED" },
+			);
+			
+		}
+		
+		return resolvedKey;
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the verification key for the
+	 * signature at the specified index, invoking and awaiting the provided
+	 * {@link KeyResolver} if one is given in place of a key.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @param {VerificationKey | KeyResolver} verificationKey The verification
+	 * key, or a synchronous or asynchronous key resolver that returns the
+	 * verification key.
+	 * @returns {Promise<VerificationKey | undefined>} A Promise that resolves
+	 * to the verification key for the signature, or undefined if the resolver
+	 * could not find one.
+	 */
+	protected async resolveVerificationKeyAsync(
+		index: number,
+		verificationKey: VerificationKey | KeyResolver,
+	): Promise<VerificationKey | undefined> {
+		
+		if (typeof verificationKey !== "function") return verificationKey;
+		
+		return verificationKey(
+			this.getHeaders(index), this.getResolverPayload()
+		);
+		
+	}
+	
+	/**
+	 * Returns the implementation of the algorithm used by the signature at the
+	 * specified index, throwing a {@link JWTValidationError} if it is not
+	 * allowed, registered and enabled.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @param {SignatureVerificationOptions} fullOptions The full set of
+	 * options related to the verification of this JWS.
+	 * @returns {SigningAlgorithm} The implementation of the algorithm.
+	 */
+	protected getSigningAlgorithm(
+		index: number,
+		fullOptions: SignatureVerificationOptions,
+	): SigningAlgorithm {
+		
+		const identifier: string = this.getHeaders(index).alg as string;
+		const registry: SigningAlgorithmRegistry =
+			SigningAlgorithmRegistry.getDefault();
+		
+		if (fullOptions.allowedAlgorithms !== false &&
+			!fullOptions.allowedAlgorithms.includes(identifier)) {
+			
+			throw new JWTValidationError(
+				`signature ${index} of the JWS was made using the ` +
+				`'${identifier}' algorithm, which is not among the allowed ` +
+				"algorithms",
+				{
+					code: "ALG_NOT_ALLOWED",
+					expected: fullOptions.allowedAlgorithms,
+					actual: identifier,
+				},
+			);
+			
+		}
+		
+		if (!registry.isEnabled(identifier)) {
+			
+			throw new JWTValidationError(
+				`signature ${index} of the JWS was made using the ` +
+				`'${identifier}' algorithm, which is not registered and ` +
+				"enabled",
+				{ code: "ALG_NOT_ALLOWED", actual: identifier },
+			);
+			
+		}
+		
+		return registry.get(identifier) as SigningAlgorithm;
+		
+	}
+	
+	/**
+	 * Returns true if the signature at the specified index can be verified
+	 * using the provided verification key, otherwise false.
+	 *
+	 * The verification key is first checked against the algorithm of the
+	 * signature, such that a {@link JWTKeyMismatchError} is thrown if it is
+	 * not suitable for use with it.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @param {VerificationKey} verificationKey The key against which to verify
+	 * the signature.
+	 * @returns {boolean} true if the signature can be verified using the
+	 * provided verification key, otherwise false.
+	 */
+	public verifySignature(index: number,
+						   verificationKey: VerificationKey): boolean {
+		
+		const { protected: encodedHeaders = "", signature } =
+			this.getSignatureEntry(index);
+		const algorithm: SigningAlgorithm = this.getSigningAlgorithm(
+			index, DecodedJSONWebSignature.getDefaultVerificationOptions()
+		);
+		
+		this.assertVerificationKeyFitsAlgorithm(
+			index, verificationKey, algorithm,
+		);
+		
+		return algorithm.verify(
+			[encodedHeaders, this.getEncodedPayload()].join("."),
+			signature,
+			verificationKey,
+		);
+		
+	}
+	
+	/**
+	 * Ensures that the provided verification key is suitable for use with the
+	 * algorithm of the signature at the specified index, throwing a
+	 * {@link JWTKeyMismatchError} if it is not.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @param {VerificationKey} verificationKey The verification key to check.
+	 * @param {SigningAlgorithm} algorithm The algorithm of the signature.
+	 */
+	protected assertVerificationKeyFitsAlgorithm(
+		index: number,
+		verificationKey: VerificationKey,
+		algorithm: SigningAlgorithm,
+	): void {
+		
+		const keyType: string = getKeyType(verificationKey);
+		
+		if (!algorithm.keyTypes.includes(keyType)) {
+			
+			throw new JWTKeyMismatchError(
+				`a '${keyType}' key cannot be used to verify signature ` +
+				`${index} of the JWS, which was made using the ` +
+				`'${algorithm.identifier}' algorithm`
+			);
+			
+		}
+		
+		if (verificationKey instanceof JSONWebKey) {
+			
+			const keyAlgorithm: string | undefined =
+				verificationKey.getAlgorithm();
+			
+			if (keyAlgorithm !== undefined &&
+				keyAlgorithm !== algorithm.identifier) {
+				
+				throw new JWTKeyMismatchError(
+					"the verification key is restricted to the " +
+					`'${keyAlgorithm}' algorithm, but signature ${index} of ` +
+					`the JWS was made using the '${algorithm.identifier}' ` +
+					"algorithm"
+				);
+				
+			}
+			
+		}
+		
+	}
+	
+	/**
+	 * Verifies the signatures on this JWS against the provided verification
+	 * key, according to the verification policy specified by the caller. This
+	 * method will throw an error if this JWS is found to be inauthentic.
+	 *
+	 * @param {VerificationKey | KeyResolver} verificationKey The key against
+	 * which to verify the signatures on this JWS, or a synchronous
+	 * {@link KeyResolver} that returns the key for each signature.
+	 * @param {Partial<SignatureVerificationOptions>} options An optional
+	 * object containing various options related to the verification of this
+	 * JWS.
+	 */
+	public verify(verificationKey: VerificationKey | KeyResolver | undefined,
+				  options: Partial<SignatureVerificationOptions> = {},
+	): void {
+		
+		const fullOptions: SignatureVerificationOptions = {
+			...DecodedJSONWebSignature.getDefaultVerificationOptions(),
+			...options,
+		};
+		const key: VerificationKey | KeyResolver =
+			this.assertVerificationKeyIsPresent(verificationKey);
+		const failures: Array<JWTValidationError | undefined> = [];
+		
+		for (let index: number = 0; index < this.signatures.length; index++) {
+			
+			failures.push(this.getVerificationFailure(
+				index,
+				this.resolveVerificationKey(index, key),
+				fullOptions,
+			));
+			
+		}
+		
+		this.applyVerificationPolicy(failures, fullOptions);
+		
+	}
+	
+	/**
+	 * Verifies the signatures on this JWS against the provided verification
+	 * key, according to the verification policy specified by the caller. The
+	 * returned Promise will reject if this JWS is found to be inauthentic.
+	 *
+	 * Unlike {@link DecodedJSONWebSignature.verify}, this method supports
+	 * asynchronous {@link KeyResolver}s.
+	 *
+	 * @param {VerificationKey | KeyResolver} verificationKey The key against
+	 * which to verify the signatures on this JWS, or a synchronous or
+	 * asynchronous {@link KeyResolver} that returns the key for each
+	 * signature.
+	 * @param {Partial<SignatureVerificationOptions>} options An optional
+	 * object containing various options related to the verification of this
+	 * JWS.
+	 * @returns {Promise<void>} A Promise that resolves once this JWS has been
+	 * found to be authentic.
+	 */
+	public async verifyAsync(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+		options: Partial<SignatureVerificationOptions> = {},
+	): Promise<void> {
+		
+		const fullOptions: SignatureVerificationOptions = {
+			...DecodedJSONWebSignature.getDefaultVerificationOptions(),
+			...options,
+		};
+		const key: VerificationKey | KeyResolver =
+			this.assertVerificationKeyIsPresent(verificationKey);
+		const failures: Array<JWTValidationError | undefined> = [];
+		
+		for (let index: number = 0; index < this.signatures.length; index++) {
+			
+			failures.push(this.getVerificationFailure(
+				index,
+				await this.resolveVerificationKeyAsync(index, key),
+				fullOptions,
+			));
+			
+		}
+		
+		this.applyVerificationPolicy(failures, fullOptions);
+		
+	}
+	
+	/**
+	 * Returns the provided verification key, throwing a
+	 * {@link JWTValidationError} if none was provided.
+	 *
+	 * @param {VerificationKey | KeyResolver | undefined} verificationKey The
+	 * verification key or key resolver, if one was provided.
+	 * @returns {VerificationKey | KeyResolver} The provided verification key or
+	 * key resolver.
+	 */
+	protected assertVerificationKeyIsPresent(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+	): VerificationKey | KeyResolver {
+		
+		if (verificationKey === undefined) {
+			
+			throw new JWTValidationError(
+				"no verification key was provided against which to " +
+				"verify the signatures of the JWS",
+				{ code: "KEY_MISSING" },
+			);
+			
+		}
+		
+		return verificationKey;
+		
+	}
+	
+	/**
+	 * Attempts to verify the signature at the specified index using the
+	 * provided verification key, returning the {@link JWTValidationError}
+	 * describing why it could not be verified, or undefined if it was
+	 * verified.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @param {VerificationKey | undefined} verificationKey The key against
+	 * which to verify the signature, or undefined if no key could be resolved
+	 * for it.
+	 * @param {SignatureVerificationOptions} fullOptions The full set of
+	 * options related to the verification of this JWS.
+	 * @returns {JWTValidationError | undefined} The reason that the signature
+	 * could not be verified, or undefined if it was verified.
+	 */
+	protected getVerificationFailure(
+		index: number,
+		verificationKey: VerificationKey | undefined,
+		fullOptions: SignatureVerificationOptions,
+	): JWTValidationError | undefined {
+		
+		try {
+			
+			this.assertSignatureIsValid(index, verificationKey, fullOptions);
+			
+			return undefined;
+			
+		} catch (error: any) {
+			
+			if (error instanceof JWTValidationError) return error;
+			
+			throw error;
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the signature at the specified index can be verified using
+	 * the provided verification key, throwing a {@link JWTValidationError} if
+	 * it cannot.
+	 *
+	 * @param {number} index The index of the signature.
+	 * @param {VerificationKey | undefined} verificationKey The key against
+	 * which to verify the signature, or undefined if no key could be resolved
+	 * for it.
+	 * @param {SignatureVerificationOptions} fullOptions The full set of
+	 * options related to the verification of this JWS.
+	 */
+	protected assertSignatureIsValid(
+		index: number,
+		verificationKey: VerificationKey | undefined,
+		fullOptions: SignatureVerificationOptions,
+	): void {
+		
+		this.getSigningAlgorithm(index, fullOptions);
+		
+		this.assertCriticalHeadersAreSupported(index);
+		
+		if (verificationKey === undefined) {
+			
+			const kid: unknown = this.getHeaders(index).kid;
+			
+			throw new JWTKeyNotFoundError(
+				kid === undefined ?
+					"no verification key could be found for signature " +
+					`${index} of the JWS` :
+					"no verification key could be found matching the 'kid' " +
+					`header of signature ${index} of the JWS: '${kid}'`
+			);
+			
+		}
+		
+		if (!this.verifySignature(index, verificationKey)) {
+			
+			throw new JWTValidationError(
+				`signature ${index} of the JWS could not be verified`,
+				{ code: "SIGNATURE_INVALID" },
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that every header listed in the 'crit' header of the signature
+	 * at the specified index is supported by the default
+	 * {@link CriticalHeaderRegistry}, throwing a {@link JWTValidationError} if
+	 * any are not.
+	 * 
+	 * As required by RFC 7515, section 4.1.11, the 'crit' header must be
+	 * integrity protected, and so is rejected outright if it appears in the
+	 * unprotected headers of the signature.
+	 * 
+	 * @param {number} index The index of the signature.
+	 */
+	protected assertCriticalHeadersAreSupported(index: number): void {
+		
+		if (this.getUnprotectedHeaders(index).crit !== undefined) {
+			
+			throw new JWTValidationError(
+				`the 'crit' header of signature ${index} of the JWS was ` +
+				"found in its unprotected headers",
+				{ code: "CRITICAL_HEADER_INVALID" },
+			);
+			
+		}
+		
+		CriticalHeaderRegistry.getDefault().validate(
+			this.getProtectedHeaders(index)
+		);
+		
+	}
+	
+	/**
+	 * Applies the verification policy specified by the provided options to the
+	 * outcomes of verifying each of the signatures on this JWS, throwing a
+	 * {@link JWTValidationError} if the policy is not satisfied.
+	 *
+	 * @param {Array<JWTValidationError | undefined>} failures The reason that
+	 * each signature could not be verified, or undefined for each signature
+	 * that was verified.
+	 * @param {SignatureVerificationOptions} fullOptions The full set of
+	 * options related to the verification of this JWS.
+	 */
+	protected applyVerificationPolicy(
+		failures: Array<JWTValidationError | undefined>,
+		fullOptions: SignatureVerificationOptions,
+	): void {
+		
+		const firstFailure: JWTValidationError | undefined =
+			failures.find((failure: JWTValidationError | undefined): boolean =>
+				failure !== undefined);
+		
+		if (firstFailure === undefined) return;
+		
+		if (fullOptions.policy === "all" || failures.length === 1) {
+			
+			throw firstFailure;
+			
+		}
+		
+		if (failures.every((failure: JWTValidationError | undefined): boolean =>
+			failure !== undefined)) {
+			
+			throw new JWTValidationError(
+				`none of the ${failures.length} signatures on the JWS could ` +
+				"be verified",
+				{ code: "SIGNATURE_INVALID", cause: firstFailure },
+			);
+			
+		}
+		
+	}
+	
+}
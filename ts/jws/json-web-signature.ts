@@ -0,0 +1,177 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:53 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+	SigningAlgorithmIdentifier,
+} from "../types/jwt-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import {
+	KeyResolver,
+	SigningKey,
+	VerificationKey,
+} from "../types/key-types.js";
+import {
+	SigningAlgorithmRegistry,
+} from "../algorithm/signing-algorithm-registry.js";
+import {
+	CriticalHeaderRegistry,
+} from "../header/critical-header-registry.js";
+import { AbstractJSONWebSignature } from "./abstract-json-web-signature.js";
+import {
+	DecodedJSONWebSignature,
+	SignatureVerificationOptions,
+} from "./decoded-json-web-signature.js";
+
+/**
+ * A class for building outgoing JWSs that use the JSON serialization, to
+ * which any number of signers can add their own signature over a single
+ * payload.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class JSONWebSignature extends AbstractJSONWebSignature {
+	
+	/**
+	 * Initializes a new JSONWebSignature instance over the provided payload,
+	 * initially carrying no signatures.
+	 *
+	 * @param {JSONWebTokenPayload | string | Buffer} payload The payload of
+	 * the JWS. Objects are serialized as JSON, whereas strings and Buffers are
+	 * used as-is.
+	 */
+	public constructor(payload: JSONWebTokenPayload | string | Buffer) {
+		
+		const rawPayload: Buffer =
+			typeof payload === "string" || Buffer.isBuffer(payload) ?
+				Buffer.from(payload) :
+				Buffer.from(JSON.stringify(payload));
+		
+		super(rawPayload.toString("base64url"));
+		
+	}
+	
+	/**
+	 * Returns a new DecodedJSONWebSignature instance, having been parsed from
+	 * the provided general or flattened JSON serialization of a JWS.
+	 *
+	 * @param {string | object} json The JSON string or already-parsed object
+	 * from which to build the returned DecodedJSONWebSignature.
+	 * @param {boolean} verifyBeforeReturn A boolean value indicating whether
+	 * or not the signatures on the JWS should be verified before it is
+	 * returned. Defaults to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The key (or key
+	 * resolver) against which the signatures on the JWS will be checked.
+	 * @param {Partial<SignatureVerificationOptions>} options An optional
+	 * object containing various options related to the verification of the
+	 * JWS.
+	 * @returns {DecodedJSONWebSignature} A new DecodedJSONWebSignature
+	 * instance.
+	 */
+	public static decode(json: string | object,
+						 verifyBeforeReturn: boolean = true,
+						 verificationKey?: VerificationKey | KeyResolver,
+						 options: Partial<SignatureVerificationOptions> = {},
+	): DecodedJSONWebSignature {
+		
+		return DecodedJSONWebSignature.decode(
+			json, verifyBeforeReturn, verificationKey, options
+		);
+		
+	}
+	
+	/**
+	 * Signs the payload of this JWS using the provided key and algorithm, and
+	 * adds the resulting signature to this JWS.
+	 *
+	 * @param {SigningKey} signingKey The key with which to sign the payload.
+	 * @param {SigningAlgorithmIdentifier} algorithm The identifier of the
+	 * algorithm with which to sign the payload, which is included in the
+	 * protected headers of the signature as its 'alg' header.
+	 * @param {JSONWebTokenHeaders} protectedHeaders Any additional headers to
+	 * include in the protected headers of the signature, including any 'crit'
+	 * header, which must only list headers that are supported by the default
+	 * {@link CriticalHeaderRegistry}.
+	 * @param {JSONWebTokenHeaders} unprotectedHeaders Any headers to include
+	 * in the unprotected headers of the signature, which must not overlap with
+	 * its protected headers.
+	 * @returns {this} This JWS, so that calls can be chained.
+	 */
+	public addSignature(signingKey: SigningKey,
+						algorithm: SigningAlgorithmIdentifier,
+						protectedHeaders: JSONWebTokenHeaders = {},
+						unprotectedHeaders?: JSONWebTokenHeaders): this {
+		
+		const registry: SigningAlgorithmRegistry =
+			SigningAlgorithmRegistry.getDefault();
+		
+		if (!registry.isEnabled(algorithm)) {
+			
+			throw new Error(
+				"Attempted to sign a JWS using an algorithm that is not " +
+				`registered and enabled: '${algorithm}'`
+			);
+			
+		}
+		
+		const headers: JSONWebTokenHeaders = {
+			...protectedHeaders,
+			alg: algorithm,
+		};
+		
+		if (headers.b64 === false) {
+			
+			throw new Error(
+				"Attempted to add a signature with an unencoded payload (a " +
+				"'b64' header of false) to a JWS using the JSON serialization"
+			);
+			
+		}
+		
+		CriticalHeaderRegistry.getDefault().validate(headers);
+		
+		if (unprotectedHeaders !== undefined) {
+			
+			for (const field of Object.keys(unprotectedHeaders)) {
+				
+				if (field in headers) {
+					
+					throw new Error(
+						"Attempted to add a signature to a JWS with the " +
+						`'${field}' header in both its protected and ` +
+						"unprotected headers"
+					);
+					
+				}
+				
+			}
+			
+		}
+		
+		const encodedHeaders: string =
+			Buffer.from(JSON.stringify(headers)).toString("base64url");
+		const signingAlgorithm: SigningAlgorithm =
+			registry.get(algorithm) as SigningAlgorithm;
+		
+		this.signatures.push({
+			protected: encodedHeaders,
+			...(unprotectedHeaders === undefined ?
+				{} :
+				{ header: unprotectedHeaders }),
+			signature: signingAlgorithm.sign(
+				[encodedHeaders, this.getEncodedPayload()].join("."),
+				signingKey,
+			),
+		});
+		
+		return this;
+		
+	}
+	
+}
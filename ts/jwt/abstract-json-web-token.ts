@@ -9,19 +9,41 @@ import {
 	JSONWebTokenHeaders,
 	JSONWebTokenPayload,
 	JSONWebTokenPayloadField,
-	SUPPORTED_HASHING_ALGORITHM_IDENTIFIERS,
+	SigningAlgorithmIdentifier,
 	VALID_HASHING_ALGORITHM_IDENTIFIERS,
 } from "../types/jwt-types.js";
 import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JSONValue } from "../types/json-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import {
+	SigningAlgorithmRegistry,
+} from "../algorithm/signing-algorithm-registry.js";
+import {
+	decodeBase64URL,
+	encodeBase64URLString,
+	encodeUTF8,
+} from "../encoding/base64url.js";
 
-export abstract class AbstractJSONWebToken {
+/**
+ * The base class of all JSON web tokens, providing access to their headers,
+ * payload, and encoded forms.
+ * 
+ * The type of the payload can be narrowed via the `P` type parameter, such that
+ * {@link AbstractJSONWebToken.getPayload} returns a correctly typed payload.
+ * 
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export abstract class AbstractJSONWebToken<
+	P extends JSONWebTokenPayload = JSONWebTokenPayload,
+> {
 	
 	protected headers: JSONWebTokenHeaders;
 	
-	protected payload: JSONWebTokenPayload;
+	protected payload: P;
 	
-	protected constructor(headers: JSONWebTokenHeaders,
-						  payload: JSONWebTokenPayload) {
+	protected constructor(headers: JSONWebTokenHeaders, payload: P) {
 		
 		this.headers = headers;
 		this.payload = payload;
@@ -48,46 +70,100 @@ export abstract class AbstractJSONWebToken {
 	 */
 	public getEncodedHeaders(): string {
 		
-		return Buffer.from(
-			JSON.stringify(this.getHeaders())
-		).toString("base64url");
+		return encodeBase64URLString(JSON.stringify(this.getHeaders()));
 		
 	}
 	
-	public getHashingAlgorithmIdentifier(): HashingAlgorithmIdentifier {
+	/**
+	 * Returns the identifier of the hashing algorithm used by this JSON web
+	 * token, as specified by its 'alg' header, having checked that the
+	 * algorithm is registered and enabled in the default
+	 * {@link SigningAlgorithmRegistry}.
+	 * 
+	 * @returns {SigningAlgorithmIdentifier} The identifier of the hashing
+	 * algorithm used by this JSON web token.
+	 */
+	public getHashingAlgorithmIdentifier(): SigningAlgorithmIdentifier {
 		
 		const headers: JSONWebTokenHeaders = this.getHeaders();
+		const registry: SigningAlgorithmRegistry =
+			SigningAlgorithmRegistry.getDefault();
 		
 		if (headers.alg === undefined) {
 			
 			throw new JWTParsingError(
 				"Attempting to discern the hashing algorithm used on a JWT, " +
-				"but found the 'alg' header field to be undefined."
+				"but found the 'alg' header field to be undefined.",
+				{ code: "ALG_INVALID" },
 			);
 			
-		} else if (!VALID_HASHING_ALGORITHM_IDENTIFIERS.includes(
-			headers.alg as HashingAlgorithmIdentifier
-		)) {
+		} else if (typeof headers.alg !== "string") {
+			
+			throw new JWTParsingError(
+				"Attempting to discern the hashing algorithm used on a JWT, " +
+				"but found the 'alg' header field to be non-string.",
+				{ code: "ALG_INVALID" },
+			);
+			
+		} else if (headers.alg.toLowerCase() === "none") {
 			
 			throw new JWTParsingError(
 				"Attempting to discern the hashing algorithm used on a JWT, " +
-				"but found the 'alg' header field to specify an invalid " +
-				`hashing algorithm: '${headers.alg}'.`
+				"but found the 'alg' header field to specify that the JWT is " +
+				"unsecured, which is not permitted.",
+				{ code: "ALG_UNSUPPORTED" },
 			);
 			
-		} else if (!SUPPORTED_HASHING_ALGORITHM_IDENTIFIERS.includes(
+		} else if (registry.isEnabled(headers.alg)) {
+			
+			return headers.alg;
+			
+		} else if (registry.isRegistered(headers.alg)) {
+			
+			throw new JWTParsingError(
+				"Attempting to discern the hashing algorithm used on a JWT, " +
+				"but found the 'alg' header field to specify a disabled " +
+				`hashing algorithm: '${headers.alg}'.`,
+				{ code: "ALG_UNSUPPORTED" },
+			);
+			
+		} else if (VALID_HASHING_ALGORITHM_IDENTIFIERS.includes(
 			headers.alg as HashingAlgorithmIdentifier
 		)) {
 			
 			throw new JWTParsingError(
 				"Attempting to discern the hashing algorithm used on a JWT, " +
 				"but found the 'alg' header field to specify a valid but " +
-				`unsupported hashing algorithm: '${headers.alg}'.`
+				`unsupported hashing algorithm: '${headers.alg}'.`,
+				{ code: "ALG_UNSUPPORTED" },
 			);
 			
 		}
 		
-		return headers.alg as HashingAlgorithmIdentifier;
+		throw new JWTParsingError(
+			"Attempting to discern the hashing algorithm used on a JWT, " +
+			"but found the 'alg' header field to specify an invalid " +
+			`hashing algorithm: '${headers.alg}'.`,
+			{ code: "ALG_INVALID" },
+		);
+		
+	}
+	
+	/**
+	 * Returns the implementation of the hashing algorithm used by this JSON
+	 * web token, as registered in the default {@link SigningAlgorithmRegistry}.
+	 * 
+	 * @returns {SigningAlgorithm} The implementation of the hashing algorithm
+	 * used by this JSON web token.
+	 */
+	protected getSigningAlgorithm(): SigningAlgorithm {
+		
+		const identifier: SigningAlgorithmIdentifier =
+			this.getHashingAlgorithmIdentifier();
+		
+		return SigningAlgorithmRegistry.getDefault().get(
+			identifier
+		) as SigningAlgorithm;
 		
 	}
 	
@@ -97,37 +173,124 @@ export abstract class AbstractJSONWebToken {
 	 *
 	 * @param {JSONWebTokenPayloadField} field The field to set on the payload
 	 * of this JSON web token.
-	 * @param {string} value The value to set the specified field to.
+	 * @param {JSONValue} value The value to set the specified field to.
 	 */
 	public setPayloadField(field: JSONWebTokenPayloadField,
-						   value: string): void {
+						   value: JSONValue): void {
 		
-		this.payload[field] = value;
+		(this.payload as JSONWebTokenPayload)[field] = value;
 		
 	}
 	
 	/**
 	 * Returns the JSON/object payload for this JSON web token.
 	 *
-	 * @returns {JSONWebTokenPayload} The JSON/object payload for this JSON web
-	 * token.
+	 * @returns {P} The JSON/object payload for this JSON web token.
 	 */
-	public getPayload(): JSONWebTokenPayload {
+	public getPayload(): P {
 		
 		return this.payload;
 		
 	}
 	
 	/**
-	 * Returns the base64url encoded payload for this JSON web token.
+	 * Returns true if the provided headers indicate that the payload of a JSON
+	 * web token is base64url encoded, otherwise false.
+	 * 
+	 * The payload is left unencoded only when the 'b64' header (as described by
+	 * RFC 7797) is set to false, in which case 'b64' must also be listed in the
+	 * 'crit' header.
+	 * 
+	 * @param {JSONWebTokenHeaders} headers The headers of a JSON web token.
+	 * @returns {boolean} true if the payload is base64url encoded, otherwise
+	 * false.
+	 */
+	public static isPayloadEncoded(headers: JSONWebTokenHeaders): boolean {
+		
+		if (headers.b64 === undefined) return true;
+		
+		if (typeof headers.b64 !== "boolean") {
+			
+			throw new JWTParsingError(
+				"found the 'b64' header field to be non-boolean",
+				{ code: "MALFORMED_HEADERS" },
+			);
+			
+		}
+		
+		const crit: unknown = headers.crit;
+		
+		if (!Array.isArray(crit) || !crit.includes("b64")) {
+			
+			throw new JWTParsingError(
+				"found the 'b64' header field to be present, but not listed " +
+				"in the 'crit' header field",
+				{ code: "MALFORMED_HEADERS" },
+			);
+			
+		}
+		
+		return headers.b64;
+		
+	}
+	
+	/**
+	 * Returns true if the payload of this JSON web token is base64url encoded,
+	 * otherwise false.
+	 * 
+	 * @returns {boolean} true if the payload of this JSON web token is
+	 * base64url encoded, otherwise false.
+	 * @see AbstractJSONWebToken.isPayloadEncoded
+	 */
+	public isPayloadEncoded(): boolean {
+		
+		return AbstractJSONWebToken.isPayloadEncoded(this.getHeaders());
+		
+	}
+	
+	/**
+	 * Returns the encoded payload for this JSON web token.
+	 * 
+	 * This is the base64url encoded payload, unless the 'b64' header is set to
+	 * false, in which case it is the unencoded JSON payload.
 	 *
-	 * @returns {string} The base64url encoded payload for this JSON web token.
+	 * @returns {string} The encoded payload for this JSON web token.
 	 */
 	public getEncodedPayload(): string {
 		
-		return Buffer.from(
-			JSON.stringify(this.getPayload())
-		).toString("base64url");
+		const payload: string = JSON.stringify(this.getPayload());
+		
+		return this.isPayloadEncoded() ?
+			encodeBase64URLString(payload) :
+			payload;
+		
+	}
+	
+	/**
+	 * Returns the raw, unencoded bytes of the payload for this JSON web token,
+	 * being exactly the content over which it is signed.
+	 * 
+	 * @returns {Uint8Array} The raw bytes of the payload for this JSON web
+	 * token.
+	 */
+	public getRawPayload(): Uint8Array {
+		
+		return this.isPayloadEncoded() ?
+			decodeBase64URL(this.getEncodedPayload()) :
+			encodeUTF8(this.getEncodedPayload());
+		
+	}
+	
+	/**
+	 * Returns the input over which the signature of this JSON web token is
+	 * computed, as described by RFC 7515, section 5.1 (and RFC 7797, section
+	 * 3, for unencoded payloads).
+	 * 
+	 * @returns {string} The signing input for this JSON web token.
+	 */
+	protected getSigningInput(): string {
+		
+		return [this.getEncodedHeaders(), this.getEncodedPayload()].join(".");
 		
 	}
 	
@@ -145,11 +308,51 @@ export abstract class AbstractJSONWebToken {
 	 */
 	public toString(): string {
 		
-		return [
-			this.getEncodedHeaders(),
-			this.getEncodedPayload(),
-			this.getSignature(),
-		].join(".");
+		return this.serialize(this.getSignature());
+		
+	}
+	
+	/**
+	 * Returns the string version of this JSON web token, bearing the provided
+	 * signature.
+	 *
+	 * @param {string} signature The hashed/encoded signature for this JSON web
+	 * token.
+	 * @returns {string} The string version of this JSON web token.
+	 */
+	protected serialize(signature: string): string {
+		
+		const encodedPayload: string = this.getEncodedPayload();
+		
+		if (encodedPayload.includes(".")) {
+			
+			throw new Error(
+				"Attempted to serialize a JWT with an unencoded payload that " +
+				"contains a dot, which can only be serialized with a " +
+				"detached payload"
+			);
+			
+		}
+		
+		return [this.getEncodedHeaders(), encodedPayload, signature].join(".");
+		
+	}
+	
+	/**
+	 * Returns the string version of this JSON web token with a detached
+	 * payload, as described by RFC 7515, appendix F, in which the payload
+	 * segment is left empty.
+	 * 
+	 * The payload must then be conveyed to the recipient separately (as
+	 * returned by {@link AbstractJSONWebToken.getRawPayload}), and supplied to
+	 * {@link DecodedJSONWebToken.decodeDetached}.
+	 *
+	 * @returns {string} The string version of this JSON web token with a
+	 * detached payload.
+	 */
+	public toDetachedString(): string {
+		
+		return [this.getEncodedHeaders(), "", this.getSignature()].join(".");
 		
 	}
 	
@@ -4,17 +4,59 @@
  * Project: tsjwt
  */
 
-import * as crypto from "node:crypto";
 import { AbstractJSONWebToken } from "./abstract-json-web-token.js";
 import { JWTParsingError } from "../error/jwt-parsing-error.js";
 import {
-	HashingAlgorithmIdentifier,
 	JSONWebTokenHeaders,
 	JSONWebTokenPayload,
+	SignatureVerifier,
+	SigningAlgorithmIdentifier,
 } from "../types/jwt-types.js";
 import { JSONPrimitive } from "../types/json-types.js";
 import { JWTValidationError } from "../error/jwt-validation-error.js";
-import { JSONWebToken } from "./json-web-token.js";
+import { KeyResolver, VerificationKey } from "../types/key-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { requireCryptoRuntime } from "../crypto/crypto-runtime.js";
+import { JWTKeyNotFoundError } from "../error/jwt-key-not-found-error.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+import {
+	CriticalHeaderRegistry,
+} from "../header/critical-header-registry.js";
+import {
+	AllowableAudience,
+	AudienceMatchingMode,
+	AudienceValidationPolicy,
+	ClaimsSchema,
+	Clock,
+	ClaimsSchemaViolation,
+} from "../types/claims-types.js";
+import { getClaimsSchemaViolations } from "../claims/claims-schema.js";
+import { areAudiencesAllowed } from "../claims/audience-matching.js";
+import { readClock } from "../claims/clock.js";
+import { JWTClaimsSchemaError } from "../error/jwt-claims-schema-error.js";
+import { ReplayStore } from "../types/replay-types.js";
+import { RevocationChecker } from "../types/revocation-types.js";
+import {
+	BoundValidator,
+	ClaimValidator,
+	ClaimValidators,
+	TokenValidator,
+} from "../types/validator-types.js";
+import {
+	ValidationCheck,
+	ValidationCheckResult,
+	ValidationCheckStatus,
+	ValidationReport,
+} from "../types/validation-report-types.js";
+import { ValidationDeadline } from "./validation-deadline.js";
+import { CryptoBackend } from "../types/crypto-backend-types.js";
+import { getDefaultCryptoBackend } from "../crypto/crypto-backend.js";
+import {
+	decodeBase64URLString,
+	decodeUTF8,
+	encodeBase64URL,
+	encodeUTF8,
+} from "../encoding/base64url.js";
 
 /**
  * An object specifying various options related to the JWT validation process.
@@ -56,21 +98,45 @@ export type ValidationOptions = {
 	allowableSubjects: Array<JSONPrimitive | undefined> | false,
 	
 	/**
-	 * An array of allowable subjects.
+	 * An array of allowable audiences.
 	 *
-	 * The 'sub' (subject) field of the given incoming JWT will be checked
-	 * against the values of this array.
+	 * The 'aud' (audience) field of the given incoming JWT, which may be
+	 * either a single audience or an array of audiences, will be checked
+	 * against the values of this array, as per
+	 * {@link ValidationOptions.audienceMatching} and
+	 * {@link ValidationOptions.audiencePolicy}. RegExp values are tested
+	 * against each audience directly.
 	 *
-	 * In cases in which the 'sub' field of the incoming JWT is populated, the
+	 * In cases in which the 'aud' field of the incoming JWT is populated, the
 	 * JWT will only be allowed in the case that a matching value is found in
 	 * this array.
 	 *
-	 * In order to allow JWTs with either an unpopulated 'sub' field, or no
-	 * 'sub' field at all, `undefined` should be present in this array.
+	 * In order to allow JWTs with either an unpopulated 'aud' field, or no
+	 * 'aud' field at all, `undefined` should be present in this array.
 	 * 
 	 * In order to disable this check entirely, set this field to false.
 	 */
-	allowableAudiences: Array<JSONPrimitive | undefined> | false,
+	allowableAudiences: AllowableAudience[] | false,
+	
+	/**
+	 * The way in which the string values of
+	 * {@link ValidationOptions.allowableAudiences} are matched against the
+	 * audiences of incoming JWTs: exactly, by prefix, or by URL origin (in
+	 * which a `*` matches any single DNS label, as in
+	 * 'https://*.example.com').
+	 * 
+	 * Defaults to "exact".
+	 */
+	audienceMatching: AudienceMatchingMode,
+	
+	/**
+	 * Whether any ("any") or all ("all") of the audiences of an incoming JWT
+	 * with an array-valued 'aud' field must be allowed by
+	 * {@link ValidationOptions.allowableAudiences}.
+	 * 
+	 * Defaults to "any", as per RFC 7519, section 4.1.3.
+	 */
+	audiencePolicy: AudienceValidationPolicy,
 	
 	/**
 	 * A tolerance/'grace period', defined in seconds, that indicates the
@@ -83,6 +149,18 @@ export type ValidationOptions = {
 	 */
 	timingTolerance: number,
 	
+	/**
+	 * The clock against which the 'exp' (expiration time), 'nbf' (not before)
+	 * and 'iat' (issued at) claims on incoming JWTs are validated.
+	 * 
+	 * The clock is read once per validation, such that every time-based check
+	 * sees the same instant. Providing a fixed time allows historic JWTs to be
+	 * validated as of the time at which they were received.
+	 * 
+	 * Defaults to `Date.now`.
+	 */
+	clock: Clock,
+	
 	/**
 	 * A boolean value indicating whether the 'exp' (expiration time) claim on
 	 * incoming JWTs should be validated.
@@ -122,16 +200,184 @@ export type ValidationOptions = {
 	 */
 	validateIssuedAtClaim: boolean,
 	
+	/**
+	 * An array of the identifiers of the algorithms that incoming JWTs may be
+	 * signed with.
+	 * 
+	 * The 'alg' header of the given incoming JWT will be checked against the
+	 * values of this array before its signature is verified, so that the
+	 * algorithm used for verification is never dictated solely by the JWT
+	 * itself.
+	 * 
+	 * Unsecured JWTs (with an 'alg' header of 'none') are rejected regardless
+	 * of the contents of this array, unless
+	 * {@link ValidationOptions.allowUnsecuredJWTs} is set.
+	 * 
+	 * In order to allow any algorithm that is enabled in the default
+	 * {@link SigningAlgorithmRegistry}, set this field to false.
+	 */
+	allowedAlgorithms: SigningAlgorithmIdentifier[] | false,
+	
+	/**
+	 * A boolean value indicating whether unsecured JWTs (with an 'alg' header
+	 * of 'none' and an empty signature, as per RFC 7519, section 6) should be
+	 * accepted without any signature verification.
+	 * 
+	 * Unsecured JWTs can be created by anyone, and so this should only ever be
+	 * enabled when the source of incoming JWTs is already trusted. This is
+	 * disabled by default.
+	 */
+	allowUnsecuredJWTs: boolean,
+	
+	/**
+	 * A boolean value indicating whether the 'crit' (critical) header on
+	 * incoming JWTs should be validated.
+	 * 
+	 * Validation consists of ensuring that every header listed in the 'crit'
+	 * header is present, and is supported (and its value accepted) by the
+	 * default {@link CriticalHeaderRegistry}, as required by RFC 7515, section
+	 * 4.1.11.
+	 * 
+	 * This is a standard validation, and as such, is enabled by default.
+	 */
+	validateCriticalHeaders: boolean,
+	
+	/**
+	 * A schema describing the types, required fields, and permitted values of
+	 * the claims within the payload of incoming JWTs.
+	 * 
+	 * If the payload fails to match the schema, a {@link JWTClaimsSchemaError}
+	 * listing every violation is thrown. Pairing a schema with the `P` type
+	 * parameter of {@link DecodedJSONWebToken.decode} ensures that the payload
+	 * of a successfully decoded JWT really is of the type it claims to be.
+	 * 
+	 * In order to disable this check entirely, set this field to false. This is
+	 * disabled by default.
+	 */
+	claimsSchema: ClaimsSchema | false,
+	
+	/**
+	 * A set of custom validators for individual claims, keyed by claim name.
+	 * 
+	 * Each validator is provided with the value of its claim (or undefined, if
+	 * the claim is absent), as well as the headers and payload of the incoming
+	 * JWT and the {@link ValidationOptions.validationContext}. If any
+	 * validator rejects its claim, a {@link JWTValidationError} is thrown with
+	 * its {@link JWTValidationError.claim} set to the name of the claim.
+	 * 
+	 * Custom validators are run after all of the other checks have passed.
+	 */
+	claimValidators: ClaimValidators,
+	
+	/**
+	 * An array of custom validators for incoming JWTs as a whole, which are
+	 * run (in order) after every validator in
+	 * {@link ValidationOptions.claimValidators} has passed.
+	 */
+	tokenValidators: TokenValidator[],
+	
+	/**
+	 * An arbitrary, caller-supplied value that is passed through to every
+	 * custom validator, such as the incoming request against which the JWT
+	 * should be checked.
+	 */
+	validationContext: unknown,
+	
+	/**
+	 * A store of the 'jti' (JWT ID) claims of previously seen JWTs, against
+	 * which incoming JWTs are checked in order to reject any that are
+	 * presented more than once (such as one-time tokens).
+	 * 
+	 * When enabled, incoming JWTs must have a string 'jti' claim, which is
+	 * recorded in the store until the JWT expires (per its 'exp' claim, plus
+	 * the {@link ValidationOptions.timingTolerance}). As JWTs without an 'exp'
+	 * claim would have to be remembered forever (and so would grow the store
+	 * without bound), they are rejected, even if
+	 * {@link ValidationOptions.validateExpirationTimeClaim} is disabled. The
+	 * check is run last, such that JWTs that fail any other check are never
+	 * recorded. Validation reports only look the 'jti' claim up, and never
+	 * record it.
+	 * 
+	 * In order to disable this check entirely, set this field to false. This is
+	 * disabled by default.
+	 */
+	replayStore: ReplayStore | false,
+	
+	/**
+	 * A checker that is consulted in order to reject incoming JWTs that have
+	 * been revoked before their expiry (such as by 'jti', by 'sub' or by
+	 * 'kid').
+	 * 
+	 * In order to disable this check entirely, set this field to false. This is
+	 * disabled by default.
+	 */
+	revocationChecker: RevocationChecker | false,
+	
+	/**
+	 * A signal which, when aborted, causes an in-progress asynchronous
+	 * validation to be abandoned with a {@link JWTValidationError} (having a
+	 * code of "VALIDATION_ABORTED").
+	 * 
+	 * This is only respected by the asynchronous validation methods (such as
+	 * {@link DecodedJSONWebToken.validateAsync}). In order to disable this
+	 * entirely, set this field to false. This is disabled by default.
+	 */
+	signal: AbortSignal | false,
+	
+	/**
+	 * The number of milliseconds within which an asynchronous validation must
+	 * complete, after which it is abandoned with a {@link JWTValidationError}
+	 * (having a code of "VALIDATION_TIMED_OUT").
+	 * 
+	 * The timeout applies to the validation as a whole, including any key
+	 * resolution and custom validators. This is only respected by the
+	 * asynchronous validation methods (such as
+	 * {@link DecodedJSONWebToken.validateAsync}). In order to disable this
+	 * entirely, set this field to false. This is disabled by default.
+	 */
+	timeout: number | false,
+	
+	/**
+	 * The backend with which signatures are verified by the asynchronous
+	 * validation methods (such as {@link DecodedJSONWebToken.validateAsync}),
+	 * such as a {@link WebCryptoBackend} in browsers and edge runtimes.
+	 * 
+	 * The synchronous validation methods always verify signatures using the
+	 * algorithms registered with the default {@link SigningAlgorithmRegistry}.
+	 * 
+	 * Defaults to "auto", in which case the default crypto backend (as per
+	 * {@link getDefaultCryptoBackend}) is used.
+	 */
+	cryptoBackend: CryptoBackend | "auto",
+	
 };
 
 /**
  * A class for decoding and representing incoming JSON web tokens.
  * 
+ * The type of the payload can be narrowed via the `P` type parameter of the
+ * static decoding methods, which should be accompanied by a
+ * {@link ValidationOptions.claimsSchema} that checks the payload at runtime.
+ * 
  * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
  * @version v0.1.0
  * @since v0.1.0
  */
-export class DecodedJSONWebToken extends AbstractJSONWebToken {
+export class DecodedJSONWebToken<
+	P extends JSONWebTokenPayload = JSONWebTokenPayload,
+> extends AbstractJSONWebToken<P> {
+	
+	/**
+	 * The raw base64url encoded headers of this decoded JWT, as they were
+	 * received.
+	 */
+	protected encodedHeaders: string;
+	
+	/**
+	 * The raw encoded payload of this decoded JWT, as it was received, which is
+	 * unencoded if the 'b64' header of this JWT is set to false.
+	 */
+	protected encodedPayload: string;
 	
 	/**
 	 * The raw signature on this decoded JWT, as it was received.
@@ -144,18 +390,25 @@ export class DecodedJSONWebToken extends AbstractJSONWebToken {
 	 * 
 	 * @param {JSONWebTokenHeaders} headers The headers object belonging to this
 	 * decoded JWT.
-	 * @param {JSONWebTokenPayload} payload The payload object belonging to this
-	 * decoded JWT.
+	 * @param {P} payload The payload object belonging to this decoded JWT.
 	 * @param {string} signature The raw signature on this decoded JWT, as it
 	 * was received.
+	 * @param {string} encodedHeaders The raw base64url encoded headers of this
+	 * decoded JWT, as they were received.
+	 * @param {string} encodedPayload The raw encoded payload of this decoded
+	 * JWT, as it was received.
 	 */
 	protected constructor(headers: JSONWebTokenHeaders,
-						  payload: JSONWebTokenPayload,
-						  signature: string) {
+						  payload: P,
+						  signature: string,
+						  encodedHeaders: string,
+						  encodedPayload: string) {
 		
 		super(headers, payload);
 		
 		this.signature = signature;
+		this.encodedHeaders = encodedHeaders;
+		this.encodedPayload = encodedPayload;
 		
 	}
 	
@@ -172,10 +425,25 @@ export class DecodedJSONWebToken extends AbstractJSONWebToken {
 			allowableIssuers: false,
 			allowableSubjects: false,
 			allowableAudiences: false,
+			audienceMatching: "exact",
+			audiencePolicy: "any",
 			timingTolerance: 0,
+			clock: Date.now,
 			validateExpirationTimeClaim: true,
 			validateNotBeforeClaim: true,
 			validateIssuedAtClaim: false,
+			allowedAlgorithms: false,
+			allowUnsecuredJWTs: false,
+			validateCriticalHeaders: true,
+			claimsSchema: false,
+			claimValidators: {},
+			tokenValidators: [],
+			validationContext: undefined,
+			replayStore: false,
+			revocationChecker: false,
+			signal: false,
+			timeout: false,
+			cryptoBackend: "auto",
 		};
 		
 	}
@@ -190,21 +458,24 @@ export class DecodedJSONWebToken extends AbstractJSONWebToken {
 	 * @param {boolean} validateBeforeReturn A boolean value indicating whether
 	 * or not this method should validate the contents of the incoming JWT
 	 * before returning it to the caller. Defaults to `true`.
-	 * @param {string} secret The supposed secret against which the signature on
-	 * the provided JWT will be checked, if the validateBeforeReturn parameter
-	 * is set to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The supposed
+	 * secret (for HMAC algorithms) or public key (for asymmetric algorithms)
+	 * against which the signature on the provided JWT will be checked, if the
+	 * validateBeforeReturn parameter is set to `true`, or a synchronous
+	 * {@link KeyResolver} that returns such a key.
 	 * @param {Partial<ValidationOptions>} options An optional object containing
 	 * various options related to the validation of the provided incoming JWT.
-	 * @returns {DecodedJSONWebToken} A new DecodedJSONWebToken instance, having
-	 * been built from the provided token string.
+	 * @returns {DecodedJSONWebToken<P>} A new DecodedJSONWebToken instance,
+	 * having been built from the provided token string.
 	 * @see ValidationOptions For more information regarding the options that
 	 * are available for the validation process.
 	 */
-	public static decode(token: string,
-						 validateBeforeReturn: boolean = true,
-						 secret?: string,
-						 options: Partial<ValidationOptions> = {},
-	): DecodedJSONWebToken {
+	public static decode<P extends JSONWebTokenPayload = JSONWebTokenPayload>(
+		token: string,
+		validateBeforeReturn: boolean = true,
+		verificationKey?: VerificationKey | KeyResolver,
+		options: Partial<ValidationOptions> = {},
+	): DecodedJSONWebToken<P> {
 		
 		// Trim extra whitespace off.
 		token = token.trim();
@@ -226,17 +497,6 @@ export class DecodedJSONWebToken extends AbstractJSONWebToken {
 			
 		}
 		
-		const encodedHeaders: string = token.substring(0, firstSeparatorIndex);
-		
-		if (encodedHeaders.length === 0) {
-			
-			throw new JWTParsingError(
-				"the headers portion of the JWT was found to be " +
-				"zero-length/empty"
-			);
-			
-		}
-		
 		const encodedPayload: string =
 			token.substring(firstSeparatorIndex + 1, secondSeparatorIndex);
 		
@@ -244,261 +504,1807 @@ export class DecodedJSONWebToken extends AbstractJSONWebToken {
 			
 			throw new JWTParsingError(
 				"the payload portion of the JWT was found to be " +
-				"zero-length/empty"
+				"zero-length/empty (JWTs with a detached payload must be " +
+				"decoded using DecodedJSONWebToken.decodeDetached)"
 			);
 			
 		}
 		
 		const signature: string = token.substring(secondSeparatorIndex + 1);
 		
-		if (signature.length === 0) {
+		if (signature.includes(".")) {
 			
 			throw new JWTParsingError(
-				"the signature portion of the JWT was found to be " +
-				"zero-length/empty"
+				token.split(".").length === 5 ?
+					"the token appears to be an encrypted JWT (JWE), which " +
+					"must be decrypted using DecryptedJSONWebToken.decrypt" :
+					"found more than two dot separators"
 			);
 			
 		}
 		
-		let headers: JSONWebTokenHeaders;
+		const result: DecodedJSONWebToken<P> = DecodedJSONWebToken.fromSegments(
+			token.substring(0, firstSeparatorIndex),
+			encodedPayload,
+			signature,
+			options,
+		);
 		
-		try {
-			
-			const decodedHeadersJSON: string =
-				Buffer.from(encodedHeaders, "base64url").toString()
-			
-			headers = JSON.parse(decodedHeadersJSON);
-			
-		} catch (error: any) {
+		if (validateBeforeReturn) {
 			
-			throw new JWTParsingError(
-				"failed to decode and/or parse the headers portion of the JWT"
-			);
+			result.validate(verificationKey, options);
 			
 		}
 		
-		let payload: JSONWebTokenPayload;
+		return result;
 		
-		try {
-			
-			const decodedPayloadJSON: string =
-				Buffer.from(encodedPayload, "base64url").toString()
-			
-			payload = JSON.parse(decodedPayloadJSON);
-			
-		} catch (error: any) {
+	}
+	
+	/**
+	 * Returns a new DecodedJSONWebToken instance, having been built from the
+	 * provided token string with a detached payload (in which the payload
+	 * segment is empty, as described by RFC 7515, appendix F) and the
+	 * separately supplied payload, and optionally having been verified using
+	 * the provided {@link ValidationOptions}.
+	 * 
+	 * If the 'b64' header of the JWT is set to false (as described by RFC
+	 * 7797), the supplied payload is used exactly as-is, otherwise it is
+	 * base64url encoded before the signature is verified.
+	 * 
+	 * @param {string} token The string token, with an empty payload segment,
+	 * that will be used to construct the returned DecodedJSONWebToken instance.
+	 * @param {string | Uint8Array} payload The detached payload of the JWT,
+	 * being exactly the content over which it was signed.
+	 * @param {boolean} validateBeforeReturn A boolean value indicating whether
+	 * or not this method should validate the contents of the incoming JWT
+	 * before returning it to the caller. Defaults to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The supposed
+	 * secret or public key against which the signature on the provided JWT
+	 * will be checked, or a synchronous {@link KeyResolver} that returns such
+	 * a key.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {DecodedJSONWebToken<P>} A new DecodedJSONWebToken instance,
+	 * having been built from the provided token string and payload.
+	 */
+	public static decodeDetached<
+		P extends JSONWebTokenPayload = JSONWebTokenPayload,
+	>(
+		token: string,
+		payload: string | Uint8Array,
+		validateBeforeReturn: boolean = true,
+		verificationKey?: VerificationKey | KeyResolver,
+		options: Partial<ValidationOptions> = {},
+	): DecodedJSONWebToken<P> {
+		
+		const result: DecodedJSONWebToken<P> =
+			DecodedJSONWebToken.reattachPayload(token, payload, options);
+		
+		if (validateBeforeReturn) {
 			
-			throw new JWTParsingError(
-				"failed to decode and/or parse the payload portion of the JWT"
-			);
+			result.validate(verificationKey, options);
 			
 		}
 		
-		const result: DecodedJSONWebToken = new DecodedJSONWebToken(
-			headers, payload, signature
-		);
-		
-		// TODO - Need proper check to see if 'secret' is defined
-		if (validateBeforeReturn) result.validate(secret as string, options);
-		
 		return result;
 		
 	}
 	
 	/**
-	 * Returns true if the provided secret can be validated as matching the
-	 * signature of this JWT, otherwise false.
+	 * Returns a Promise that resolves to a new DecodedJSONWebToken instance,
+	 * having been built from the provided token string with a detached payload
+	 * and the separately supplied payload, and optionally having been verified
+	 * using the provided {@link ValidationOptions}.
 	 * 
-	 * @param {string} secret The secret against which to validate this JWT.
-	 * @returns {boolean} true if the provided secret can be validated as
-	 * matching the signature of this JWT, otherwise false.
+	 * Unlike {@link DecodedJSONWebToken.decodeDetached}, this method supports
+	 * asynchronous {@link KeyResolver}s.
+	 * 
+	 * @param {string} token The string token, with an empty payload segment,
+	 * that will be used to construct the returned DecodedJSONWebToken instance.
+	 * @param {string | Uint8Array} payload The detached payload of the JWT,
+	 * being exactly the content over which it was signed.
+	 * @param {boolean} validateBeforeReturn A boolean value indicating whether
+	 * or not this method should validate the contents of the incoming JWT
+	 * before returning it to the caller. Defaults to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The supposed
+	 * secret or public key against which the signature on the provided JWT
+	 * will be checked, or a synchronous or asynchronous {@link KeyResolver}
+	 * that returns such a key.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {Promise<DecodedJSONWebToken<P>>} A Promise that resolves to a
+	 * new DecodedJSONWebToken instance.
 	 */
-	public validateSecret(secret: string): boolean {
+	public static async decodeDetachedAsync<
+		P extends JSONWebTokenPayload = JSONWebTokenPayload,
+	>(
+		token: string,
+		payload: string | Uint8Array,
+		validateBeforeReturn: boolean = true,
+		verificationKey?: VerificationKey | KeyResolver,
+		options: Partial<ValidationOptions> = {},
+	): Promise<DecodedJSONWebToken<P>> {
 		
-		const actualSignature: string = this.getSignature();
-		const expectedSignature: string = new JSONWebToken(
-			this.getPayload(),
-			secret,
-			this.getHeaders()["alg"] as HashingAlgorithmIdentifier,
-			this.getHeaders(),
-		).getSignature();
+		const result: DecodedJSONWebToken<P> =
+			DecodedJSONWebToken.reattachPayload(token, payload, options);
 		
-		return crypto.timingSafeEqual(
-			Buffer.from(actualSignature),
-			Buffer.from(expectedSignature),
-		);
+		if (validateBeforeReturn) {
+			
+			await result.validateAsync(verificationKey, options);
+			
+		}
+		
+		return result;
 		
 	}
 	
 	/**
-	 * Validates the contents of this DecodedJSONWebToken against the provided
-	 * secret, using the options as specified by the caller. This method will
-	 * throw an error if this JWT is found to be invalid/inauthentic. 
+	 * Returns a new, unvalidated DecodedJSONWebToken instance, having been
+	 * built from the provided token string with a detached payload and the
+	 * separately supplied payload.
 	 * 
-	 * @param {string} secret The secret against which to validate the signature
-	 * on this JWT.
+	 * @param {string} token The string token, with an empty payload segment.
+	 * @param {string | Uint8Array} payload The detached payload of the JWT.
 	 * @param {Partial<ValidationOptions>} options An optional object containing
 	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {DecodedJSONWebToken<P>} A new DecodedJSONWebToken instance.
 	 */
-	public validate(secret: string,
-					options: Partial<ValidationOptions> = {}): void {
+	protected static reattachPayload<P extends JSONWebTokenPayload>(
+		token: string,
+		payload: string | Uint8Array,
+		options: Partial<ValidationOptions>,
+	): DecodedJSONWebToken<P> {
 		
-		const fullOptions: ValidationOptions = {
-			...DecodedJSONWebToken.getDefaultValidationOptions(),
-			...options
-		};
+		const segments: string[] = token.trim().split(".");
 		
-		if (fullOptions.allowableIssuers !== false) {
-			
-			const isIssuerAllowed: boolean =
-				fullOptions.allowableIssuers.includes(
-					this.payload.iss as string | undefined
-				);
+		if (segments.length !== 3 || segments[1] !== "") {
 			
-			if (!isIssuerAllowed) {
-				
-				throw new JWTValidationError(
-					`disallowed issuer: ${this.payload.iss}`
-				);
-				
-			}
+			throw new JWTParsingError(
+				"expected a JWT with a detached payload to consist of 3 " +
+				"dot-separated segments, the second of which is empty"
+			);
 			
 		}
 		
-		if (fullOptions.allowableSubjects !== false) {
-			
-			const isSubjectAllowed: boolean =
-				fullOptions.allowableSubjects.includes(
-					this.payload.sub as string | undefined
-				);
-			
-			if (!isSubjectAllowed) {
-				
-				throw new JWTValidationError(
-					`disallowed subject: ${this.payload.sub}`
-				);
-				
-			}
-			
-		}
+		const [encodedHeaders, , signature] = segments;
+		const rawPayload: Uint8Array =
+			typeof payload === "string" ? encodeUTF8(payload) : payload;
+		const encodedPayload: string = AbstractJSONWebToken.isPayloadEncoded(
+			DecodedJSONWebToken.parseHeaders(encodedHeaders)
+		) ? encodeBase64URL(rawPayload) : decodeUTF8(rawPayload);
 		
-		if (fullOptions.allowableAudiences !== false) {
-			
-			const isAudienceAllowed: boolean =
-				fullOptions.allowableAudiences.includes(
-					this.payload.aud as string | undefined
-				);
+		return DecodedJSONWebToken.fromSegments<P>(
+			encodedHeaders, encodedPayload, signature, options
+		);
+		
+	}
+	
+	/**
+	 * Decodes and parses the provided base64url encoded headers of a JWT,
+	 * throwing a {@link JWTParsingError} if they are malformed.
+	 * 
+	 * @param {string} encodedHeaders The base64url encoded headers of a JWT.
+	 * @returns {JSONWebTokenHeaders} The decoded headers.
+	 */
+	protected static parseHeaders(encodedHeaders: string): JSONWebTokenHeaders {
+		
+		if (encodedHeaders.length === 0) {
 			
-			if (!isAudienceAllowed) {
-				
-				throw new JWTValidationError(
-					`disallowed audience: ${this.payload.aud}`
-				);
-				
-			}
+			throw new JWTParsingError(
+				"the headers portion of the JWT was found to be " +
+				"zero-length/empty",
+				{ code: "MALFORMED_HEADERS" },
+			);
 			
 		}
 		
-		if (fullOptions.validateExpirationTimeClaim) {
-			
-			if (this.payload.exp === undefined) {
-				
-				throw new JWTValidationError(
-					"the 'exp' claim was found to be undefined"
-				);
-				
-			}
+		try {
 			
-			if (typeof this.payload.exp !== "number") {
-				
-				throw new JWTValidationError(
-					"the 'exp' claim was found to be non-numeric"
-				);
-				
-			}
+			const decodedHeadersJSON: string =
+				decodeBase64URLString(encodedHeaders);
 			
-			const currentTime: number = Date.now() / 1000;
+			return JSON.parse(decodedHeadersJSON);
 			
-			const isExpired: boolean = 
-				this.payload.exp < currentTime + fullOptions.timingTolerance;
+		} catch (error: any) {
 			
-			if (isExpired) {
-				
-				throw new JWTValidationError(
-					"the 'exp' claim indicates that this JWT is expired"
-				);
-				
-			}
+			throw new JWTParsingError(
+				"failed to decode and/or parse the headers portion of the JWT",
+				{ code: "MALFORMED_HEADERS", cause: error },
+			);
 			
 		}
+		
+	}
+	
+	/**
+	 * Returns a new, unvalidated DecodedJSONWebToken instance, having been
+	 * built from the provided (non-empty) segments of a JWT.
+	 * 
+	 * @param {string} encodedHeaders The base64url encoded headers of the JWT.
+	 * @param {string} encodedPayload The encoded payload of the JWT, which is
+	 * unencoded if the 'b64' header of the JWT is set to false.
+	 * @param {string} signature The signature on the JWT.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {DecodedJSONWebToken<P>} A new DecodedJSONWebToken instance.
+	 */
+	protected static fromSegments<P extends JSONWebTokenPayload>(
+		encodedHeaders: string,
+		encodedPayload: string,
+		signature: string,
+		options: Partial<ValidationOptions>,
+	): DecodedJSONWebToken<P> {
+		
+		const headers: JSONWebTokenHeaders =
+			DecodedJSONWebToken.parseHeaders(encodedHeaders);
+		
+		let payload: P;
+		
+		try {
 			
-		if (fullOptions.validateNotBeforeClaim) {
-			
-			if (this.payload.nbf === undefined) {
-				
-				throw new JWTValidationError(
-					"the 'nbf' claim was found to be undefined"
-				);
-				
-			}
+			const decodedPayloadJSON: string =
+				AbstractJSONWebToken.isPayloadEncoded(headers) ?
+					decodeBase64URLString(encodedPayload) :
+					encodedPayload;
 			
-			if (typeof this.payload.nbf !== "number") {
-				
-				throw new JWTValidationError(
-					"the 'nbf' claim was found to be non-numeric"
-				);
-				
-			}
+			payload = JSON.parse(decodedPayloadJSON);
 			
-			const currentTime: number = Date.now() / 1000;
+		} catch (error: any) {
 			
-			const isBeforeNotBeforeTime: boolean =
-				currentTime - fullOptions.timingTolerance < this.payload.nbf;
+			if (error instanceof JWTParsingError) throw error;
 			
-			if (isBeforeNotBeforeTime) {
-				
-				throw new JWTValidationError(
-					"the 'nbf' claim indicates that this JWT is not yet valid"
-				);
-				
-			}
+			throw new JWTParsingError(
+				"failed to decode and/or parse the payload portion of the JWT",
+				{ code: "MALFORMED_PAYLOAD", cause: error },
+			);
 			
 		}
+		
+		if (headers.alg === "none") {
 			
-		if (fullOptions.validateIssuedAtClaim) {
-			
-			if (this.payload.iat === undefined) {
+			if (signature.length !== 0) {
 				
-				throw new JWTValidationError(
-					"the 'iat' claim was found to be undefined"
+				throw new JWTParsingError(
+					"the signature portion of an unsecured JWT was found to " +
+					"be non-empty"
 				);
 				
-			}
-			
-			if (typeof this.payload.iat !== "number") {
+			} else if (options.allowUnsecuredJWTs !== true) {
 				
-				throw new JWTValidationError(
-					"the 'iat' claim was found to be non-numeric"
+				throw new JWTParsingError(
+					"the JWT was found to be unsecured, but unsecured JWTs " +
+					"were not permitted by the 'allowUnsecuredJWTs' option",
+					{ code: "UNSECURED_TOKEN_NOT_ALLOWED" },
 				);
 				
 			}
 			
-			const currentTime: number = Date.now() / 1000;
-			
-			const isBeforeIssuedAtTime: boolean =
-				currentTime - fullOptions.timingTolerance < this.payload.iat;
+		} else if (signature.length === 0) {
 			
-			if (isBeforeIssuedAtTime) {
-				
-				throw new JWTValidationError(
-					"the 'iat' claim indicates that this JWT has not been " +
-					"issued yet"
-				);
-				
-			}
+			throw new JWTParsingError(
+				"the signature portion of the JWT was found to be " +
+				"zero-length/empty"
+			);
 			
 		}
 		
+		return new DecodedJSONWebToken<P>(
+			headers, payload, signature, encodedHeaders, encodedPayload
+		);
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to a new DecodedJSONWebToken instance,
+	 * having been built from the provided token string, and optionally having
+	 * been verified using the provided {@link ValidationOptions}.
+	 * 
+	 * Unlike {@link DecodedJSONWebToken.decode}, this method supports
+	 * asynchronous {@link KeyResolver}s.
+	 * 
+	 * @param {string} token The string token that will be used to construct the
+	 * returned DecodedJSONWebToken instance.
+	 * @param {boolean} validateBeforeReturn A boolean value indicating whether
+	 * or not this method should validate the contents of the incoming JWT
+	 * before returning it to the caller. Defaults to `true`.
+	 * @param {VerificationKey | KeyResolver} verificationKey The supposed
+	 * secret or public key against which the signature on the provided JWT
+	 * will be checked, or a synchronous or asynchronous {@link KeyResolver}
+	 * that returns such a key.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {Promise<DecodedJSONWebToken<P>>} A Promise that resolves to a
+	 * new DecodedJSONWebToken instance.
+	 */
+	public static async decodeAsync<
+		P extends JSONWebTokenPayload = JSONWebTokenPayload,
+	>(
+		token: string,
+		validateBeforeReturn: boolean = true,
+		verificationKey?: VerificationKey | KeyResolver,
+		options: Partial<ValidationOptions> = {},
+	): Promise<DecodedJSONWebToken<P>> {
+		
+		const result: DecodedJSONWebToken<P> =
+			DecodedJSONWebToken.decode<P>(token, false, undefined, options);
+		
+		if (validateBeforeReturn) {
+			
+			await result.validateAsync(verificationKey, options);
+			
+		}
+		
+		return result;
+		
+	}
+	
+	/**
+	 * Returns the relevant signature verification function for this decoded
+	 * JWT, based on the value of this JWT's 'alg' header.
+	 * 
+	 * @returns {SignatureVerifier} The relevant signature verification function
+	 * for this decoded JWT.
+	 */
+	protected getSignatureVerifier(): SignatureVerifier {
+		
+		const algorithm: SigningAlgorithm = this.getSigningAlgorithm();
+		
+		return (input: string, signature: string,
+				key: VerificationKey): boolean =>
+			algorithm.verify(input, signature, key);
+		
+	}
+	
+	/**
+	 * Returns true if this JWT is unsecured, having an 'alg' header of 'none'
+	 * and an empty signature, otherwise false.
+	 * 
+	 * @returns {boolean} true if this JWT is unsecured, otherwise false.
+	 */
+	public isUnsecured(): boolean {
+		
+		return this.getHeaders().alg === "none" && this.getSignature() === "";
+		
+	}
+	
+	/**
+	 * Returns the verification key for this JWT, invoking the provided
+	 * {@link KeyResolver} if one is given in place of a key.
+	 * 
+	 * @param {VerificationKey | KeyResolver} verificationKey The verification
+	 * key, or a synchronous key resolver that returns the verification key.
+	 * @returns {VerificationKey} The verification key for this JWT.
+	 */
+	protected resolveVerificationKey(
+		verificationKey: VerificationKey | KeyResolver): VerificationKey {
+		
+		if (typeof verificationKey !== "function") return verificationKey;
+		
+		const resolvedKey: ReturnType<KeyResolver> =
+			verificationKey(this.getHeaders(), this.getPayload());
+		
+		if (resolvedKey instanceof Promise) {
+			
+			// Prevent an unhandled rejection from the discarded Promise.
+			resolvedKey.catch((): void => {});
+			
+			throw new JWTValidationError(
+				"the provided key resolver is asynchronous, and so can only " +
+				"be used with DecodedJSONWebToken.validateAsync or " +
+				"DecodedJSONWebToken.decodeAsync",
+				{ code: "ASYNC_REQUIRED" },
+			);
+			
+		}
+		
+		return this.checkResolvedVerificationKey(resolvedKey);
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the verification key for this JWT,
+	 * invoking and awaiting the provided {@link KeyResolver} if one is given in
+	 * place of a key.
+	 * 
+	 * @param {VerificationKey | KeyResolver} verificationKey The verification
+	 * key, or a synchronous or asynchronous key resolver that returns the
+	 * verification key.
+	 * @returns {Promise<VerificationKey>} A Promise that resolves to the
+	 * verification key for this JWT.
+	 */
+	protected async resolveVerificationKeyAsync(
+		verificationKey: VerificationKey | KeyResolver,
+	): Promise<VerificationKey> {
+		
+		if (typeof verificationKey !== "function") return verificationKey;
+		
+		return this.checkResolvedVerificationKey(
+			await verificationKey(this.getHeaders(), this.getPayload())
+		);
+		
+	}
+	
+	/**
+	 * Returns the provided key, as returned by a {@link KeyResolver}, throwing
+	 * a {@link JWTKeyNotFoundError} if the resolver did not return a key.
+	 * 
+	 * @param {VerificationKey | undefined} resolvedKey The key returned by a
+	 * key resolver.
+	 * @returns {VerificationKey} The provided key.
+	 */
+	protected checkResolvedVerificationKey(
+		resolvedKey: VerificationKey | undefined): VerificationKey {
+		
+		if (resolvedKey === undefined) {
+			
+			const kid: unknown = this.getHeaders().kid;
+			
+			throw new JWTKeyNotFoundError(
+				kid === undefined ?
+					"no verification key could be found for the JWT" :
+					"no verification key could be found matching the 'kid' " +
+					`header: '${kid}'`
+			);
+			
+		}
+		
+		return resolvedKey;
+		
+	}
+	
+	/**
+	 * Ensures that the provided verification key is suitable for use with the
+	 * algorithm specified by this JWT's 'alg' header, throwing a
+	 * {@link JWTKeyMismatchError} if it is not.
+	 * 
+	 * @param {VerificationKey} verificationKey The verification key to check.
+	 */
+	protected assertVerificationKeyFitsAlgorithm(
+		verificationKey: VerificationKey): void {
+		
+		requireCryptoRuntime("verify a JWT synchronously")
+			.assertKeyFitsSigningAlgorithm(
+				verificationKey,
+				this.getSigningAlgorithm(),
+			);
+		
+	}
+	
+	/**
+	 * Returns true if the signature of this JWT can be verified using the
+	 * provided verification key, otherwise false.
+	 * 
+	 * For HMAC-based algorithms (HS256, etc.), the verification key is the
+	 * shared secret. For asymmetric algorithms (RS256, etc.), the verification
+	 * key is the public key corresponding to the private key that was used to
+	 * sign this JWT.
+	 * 
+	 * The verification key is first checked against the algorithm, such that
+	 * a {@link JWTKeyMismatchError} is thrown if it is not suitable for use
+	 * with it (as when a public key is presented as an HMAC secret).
+	 * 
+	 * @param {VerificationKey} verificationKey The key against which to verify
+	 * the signature of this JWT.
+	 * @returns {boolean} true if the signature of this JWT can be verified
+	 * using the provided verification key, otherwise false.
+	 */
+	public validateSignature(verificationKey: VerificationKey): boolean {
+		
+		this.assertVerificationKeyFitsAlgorithm(verificationKey);
+		
+		const verifier: SignatureVerifier = this.getSignatureVerifier();
+		
+		return verifier(
+			this.getSigningInput(),
+			this.getSignature(),
+			verificationKey,
+		);
+		
+	}
+	
+	/**
+	 * Returns true if the provided secret can be validated as matching the
+	 * signature of this JWT, otherwise false.
+	 * 
+	 * @param {VerificationKey} secret The secret against which to validate
+	 * this JWT.
+	 * @returns {boolean} true if the provided secret can be validated as
+	 * matching the signature of this JWT, otherwise false.
+	 * @deprecated Use {@link DecodedJSONWebToken.validateSignature} instead.
+	 */
+	public validateSecret(secret: VerificationKey): boolean {
+		
+		return this.validateSignature(secret);
+		
+	}
+	
+	/**
+	 * Validates the contents of this DecodedJSONWebToken against the provided
+	 * verification key, using the options as specified by the caller. This
+	 * method will throw an error if this JWT is found to be
+	 * invalid/inauthentic. 
+	 * 
+	 * @param {VerificationKey | KeyResolver} verificationKey The secret (for
+	 * HMAC algorithms) or public key (for asymmetric algorithms) against which
+	 * to validate the signature on this JWT, or a synchronous
+	 * {@link KeyResolver} that returns such a key.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 */
+	public validate(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+		options: Partial<ValidationOptions> = {},
+	): void {
+		
+		const fullOptions: ValidationOptions = {
+			...DecodedJSONWebToken.getDefaultValidationOptions(),
+			...options
+		};
+		
+		for (const check of this.getValidationChecks(verificationKey,
+													 fullOptions)) {
+			
+			if (check.enabled) check.run();
+			
+		}
+		
+	}
+	
+	/**
+	 * Validates the contents of this DecodedJSONWebToken against the provided
+	 * verification key, using the options as specified by the caller. The
+	 * returned Promise will reject if this JWT is found to be
+	 * invalid/inauthentic.
+	 * 
+	 * Unlike {@link DecodedJSONWebToken.validate}, this method supports
+	 * asynchronous {@link KeyResolver}s, and respects the
+	 * {@link ValidationOptions.signal} and {@link ValidationOptions.timeout}
+	 * options.
+	 * 
+	 * @param {VerificationKey | KeyResolver} verificationKey The secret or
+	 * public key against which to validate the signature on this JWT, or a
+	 * synchronous or asynchronous {@link KeyResolver} that returns such a key.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {Promise<void>} A Promise that resolves once this JWT has been
+	 * found to be valid.
+	 */
+	public async validateAsync(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+		options: Partial<ValidationOptions> = {},
+	): Promise<void> {
+		
+		const fullOptions: ValidationOptions = {
+			...DecodedJSONWebToken.getDefaultValidationOptions(),
+			...options
+		};
+		
+		const deadline: ValidationDeadline =
+			new ValidationDeadline(fullOptions.signal, fullOptions.timeout);
+		
+		try {
+			
+			for (const check of this.getAsyncValidationChecks(verificationKey,
+															  fullOptions)) {
+				
+				if (check.enabled) await deadline.run(check.run);
+				
+			}
+			
+		} finally {
+			
+			deadline.clear();
+			
+		}
+		
+	}
+	
+	/**
+	 * Runs every check involved in validating this DecodedJSONWebToken against
+	 * the provided verification key, using the options as specified by the
+	 * caller, and returns a report of the outcome of each check. Unlike
+	 * {@link DecodedJSONWebToken.validate}, this method does not throw if this
+	 * JWT is found to be invalid/inauthentic.
+	 * 
+	 * Checks that are disabled by the provided options are reported as
+	 * skipped, as are custom validators (and the signature check) when the
+	 * authenticity of this JWT could not be established. Any error thrown by a
+	 * failing check that is not a {@link JWTValidationError} is reported as
+	 * the cause of a generic JWTValidationError.
+	 * 
+	 * @param {VerificationKey | KeyResolver} verificationKey The secret (for
+	 * HMAC algorithms) or public key (for asymmetric algorithms) against which
+	 * to validate the signature on this JWT, or a synchronous
+	 * {@link KeyResolver} that returns such a key.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {ValidationReport} A report of the outcome of every check.
+	 */
+	public getValidationReport(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+		options: Partial<ValidationOptions> = {},
+	): ValidationReport {
+		
+		const fullOptions: ValidationOptions = {
+			...DecodedJSONWebToken.getDefaultValidationOptions(),
+			...options
+		};
+		
+		const results: ValidationCheckResult[] = [];
+		
+		for (const check of this.getValidationChecks(verificationKey,
+													 fullOptions,
+													 false)) {
+			
+			if (!DecodedJSONWebToken.isCheckRunnable(check, results)) {
+				
+				results.push(DecodedJSONWebToken.getCheckResult(check, "skip"));
+				
+				continue;
+				
+			}
+			
+			try {
+				
+				check.run();
+				
+				results.push(DecodedJSONWebToken.getCheckResult(check, "pass"));
+				
+			} catch (error: unknown) {
+				
+				results.push(
+					DecodedJSONWebToken.getCheckResult(check, "fail", error)
+				);
+				
+			}
+			
+		}
+		
+		return {
+			valid: results.every((result: ValidationCheckResult): boolean =>
+				result.status !== "fail"),
+			checks: results,
+		};
+		
+	}
+	
+	/**
+	 * Runs every check involved in validating this DecodedJSONWebToken against
+	 * the provided verification key, using the options as specified by the
+	 * caller, and returns a Promise that resolves to a report of the outcome
+	 * of each check. The returned Promise does not reject if this JWT is found
+	 * to be invalid/inauthentic.
+	 * 
+	 * Unlike {@link DecodedJSONWebToken.getValidationReport}, this method
+	 * supports asynchronous {@link KeyResolver}s and custom validators. If the
+	 * validation is abandoned (per {@link ValidationOptions.signal} or
+	 * {@link ValidationOptions.timeout}), the check that was in progress is
+	 * reported as failed, and every remaining check as skipped.
+	 * 
+	 * @param {VerificationKey | KeyResolver} verificationKey The secret or
+	 * public key against which to validate the signature on this JWT, or a
+	 * synchronous or asynchronous {@link KeyResolver} that returns such a key.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {Promise<ValidationReport>} A Promise that resolves to a report
+	 * of the outcome of every check.
+	 */
+	public async getValidationReportAsync(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+		options: Partial<ValidationOptions> = {},
+	): Promise<ValidationReport> {
+		
+		const fullOptions: ValidationOptions = {
+			...DecodedJSONWebToken.getDefaultValidationOptions(),
+			...options
+		};
+		
+		const results: ValidationCheckResult[] = [];
+		const deadline: ValidationDeadline =
+			new ValidationDeadline(fullOptions.signal, fullOptions.timeout);
+		let abandoned: boolean = false;
+		
+		for (const check of this.getAsyncValidationChecks(verificationKey,
+														  fullOptions,
+														  false)) {
+			
+			if (abandoned ||
+				!DecodedJSONWebToken.isCheckRunnable(check, results)) {
+				
+				results.push(DecodedJSONWebToken.getCheckResult(check, "skip"));
+				
+				continue;
+				
+			}
+			
+			try {
+				
+				await deadline.run(check.run);
+				
+				results.push(DecodedJSONWebToken.getCheckResult(check, "pass"));
+				
+			} catch (error: unknown) {
+				
+				results.push(
+					DecodedJSONWebToken.getCheckResult(check, "fail", error)
+				);
+				
+				// Once abandoned, the remaining checks are reported as skipped.
+				abandoned = deadline.isExpired();
+				
+			}
+			
+		}
+		
+		deadline.clear();
+		
+		return {
+			valid: results.every((result: ValidationCheckResult): boolean =>
+				result.status !== "fail"),
+			checks: results,
+		};
+		
+	}
+	
+	/**
+	 * Returns true if the provided check is enabled and none of the checks
+	 * upon which it depends have failed, otherwise false.
+	 * 
+	 * @param {ValidationCheck} check The check that is about to be run.
+	 * @param {ValidationCheckResult[]} results The results of the checks that
+	 * have already been run.
+	 * @returns {boolean} true if the check should be run, otherwise false.
+	 */
+	protected static isCheckRunnable(
+		check: ValidationCheck<void | Promise<void>>,
+		results: ValidationCheckResult[],
+	): boolean {
+		
+		return check.enabled && !results.some(
+			(result: ValidationCheckResult): boolean =>
+				result.status === "fail" &&
+				check.requires.includes(result.check)
+		);
+		
+	}
+	
+	/**
+	 * Returns the result of the provided check, for inclusion in a
+	 * {@link ValidationReport}.
+	 * 
+	 * @param {ValidationCheck} check The check that was run (or skipped).
+	 * @param {ValidationCheckStatus} status The outcome of the check.
+	 * @param {unknown} error The error thrown by the check, if it failed.
+	 * @returns {ValidationCheckResult} The result of the check.
+	 */
+	protected static getCheckResult(
+		check: ValidationCheck<void | Promise<void>>,
+		status: ValidationCheckStatus,
+		error?: unknown,
+	): ValidationCheckResult {
+		
+		if (status === "fail" && !(error instanceof JWTValidationError)) {
+			
+			error = new JWTValidationError(
+				`the '${check.name}' check failed unexpectedly`,
+				{ cause: error },
+			);
+			
+		}
+		
+		return {
+			check: check.name,
+			claim: check.claim,
+			status,
+			error: error as JWTValidationError | undefined,
+		};
+		
+	}
+	
+	/**
+	 * Returns every check involved in synchronously validating this JWT
+	 * against the provided verification key, in the order in which they should
+	 * be run.
+	 * 
+	 * @param {VerificationKey | KeyResolver | undefined} verificationKey The
+	 * verification key or synchronous key resolver, if one was provided.
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {boolean} shouldRecordJWTID Whether or not the replay check should
+	 * record the 'jti' claim of this JWT in the replay store, rather than only
+	 * looking it up. Defaults to `true`.
+	 * @returns {ValidationCheck[]} The checks to run.
+	 */
+	protected getValidationChecks(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+		fullOptions: ValidationOptions,
+		shouldRecordJWTID: boolean = true,
+	): ValidationCheck[] {
+		
+		return this.buildValidationChecks<void>(
+			fullOptions,
+			shouldRecordJWTID,
+			(): void => this.assertSignatureIsValid(
+				this.resolveVerificationKey(
+					this.assertVerificationKeyIsPresent(verificationKey)
+				)
+			),
+			(validator: BoundValidator): void =>
+				this.runCustomValidator(validator),
+			(): void => this.checkRevocationChecker(fullOptions),
+			(): void => this.checkReplayStore(fullOptions, shouldRecordJWTID),
+		);
+		
+	}
+	
+	/**
+	 * Returns every check involved in asynchronously validating this JWT
+	 * against the provided verification key, in the order in which they should
+	 * be run.
+	 * 
+	 * @param {VerificationKey | KeyResolver | undefined} verificationKey The
+	 * verification key or key resolver, if one was provided.
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {boolean} shouldRecordJWTID Whether or not the replay check should
+	 * record the 'jti' claim of this JWT in the replay store, rather than only
+	 * looking it up. Defaults to `true`.
+	 * @returns {ValidationCheck[]} The checks to run.
+	 */
+	protected getAsyncValidationChecks(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+		fullOptions: ValidationOptions,
+		shouldRecordJWTID: boolean = true,
+	): Array<ValidationCheck<void | Promise<void>>> {
+		
+		return this.buildValidationChecks<void | Promise<void>>(
+			fullOptions,
+			shouldRecordJWTID,
+			async (): Promise<void> => this.assertSignatureIsValidAsync(
+				await this.resolveVerificationKeyAsync(
+					this.assertVerificationKeyIsPresent(verificationKey)
+				),
+				fullOptions.cryptoBackend === "auto" ?
+					getDefaultCryptoBackend() :
+					fullOptions.cryptoBackend,
+			),
+			async (validator: BoundValidator): Promise<void> =>
+				this.assertCustomValidatorPassed(
+					await validator.invoke(),
+					validator.claim,
+				),
+			async (): Promise<void> => this.assertIsNotRevoked(
+				await this.isRevoked(fullOptions)
+			),
+			async (): Promise<void> => this.assertJWTIDIsUnused(
+				await this.recordJWTID(fullOptions, shouldRecordJWTID)
+			),
+		);
+		
+	}
+	
+	/**
+	 * Returns every check involved in validating this JWT, in the order in
+	 * which they should be run.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {boolean} shouldRecordJWTID Whether or not the replay check will
+	 * record the 'jti' claim of this JWT. If not, the check is only enabled if
+	 * the replay store supports read-only lookups.
+	 * @param {() => R} verifySignature A function that verifies the signature
+	 * of this JWT.
+	 * @param {(validator: BoundValidator) => R} runCustomValidator A function
+	 * that runs a single custom validator.
+	 * @param {() => R} checkRevocation A function that checks whether this JWT
+	 * has been revoked.
+	 * @param {() => R} checkReplayStore A function that checks the 'jti' claim
+	 * of this JWT against the replay store.
+	 * @returns {ValidationCheck<R>[]} The checks to run.
+	 */
+	protected buildValidationChecks<R extends void | Promise<void>>(
+		fullOptions: ValidationOptions,
+		shouldRecordJWTID: boolean,
+		verifySignature: () => R,
+		runCustomValidator: (validator: BoundValidator) => R,
+		checkRevocation: () => R,
+		checkReplayStore: () => R,
+	): Array<ValidationCheck<R | void>> {
+		
+		const isSigned: boolean = !this.isPermittedUnsecuredJWT(fullOptions);
+		
+		const checks: Array<ValidationCheck<R | void>> = [
+			{
+				name: "criticalHeaders",
+				claim: undefined,
+				enabled: fullOptions.validateCriticalHeaders,
+				requires: [],
+				run: (): void =>
+					this.assertCriticalHeadersAreSupported(fullOptions),
+			},
+			{
+				name: "algorithm",
+				claim: undefined,
+				enabled: isSigned,
+				requires: [],
+				run: (): void => this.assertAlgorithmIsAllowed(fullOptions),
+			},
+			{
+				name: "signature",
+				claim: undefined,
+				enabled: isSigned,
+				requires: ["algorithm"],
+				run: verifySignature,
+			},
+			...this.getClaimChecks(fullOptions),
+			{
+				name: "revocation",
+				claim: undefined,
+				enabled: fullOptions.revocationChecker !== false,
+				requires: ["algorithm", "signature"],
+				run: checkRevocation,
+			},
+			...this.getCustomValidators(fullOptions).map(
+				(validator: BoundValidator): ValidationCheck<R> => ({
+					name: "customValidator",
+					claim: validator.claim,
+					enabled: true,
+					requires: ["algorithm", "signature"],
+					run: (): R => runCustomValidator(validator),
+				})
+			),
+		];
+		
+		// Recording the JWT ID is a side effect, and so should only happen
+		// once every other check has passed.
+		checks.push({
+			name: "replay",
+			claim: "jti",
+			enabled: fullOptions.replayStore !== false && (shouldRecordJWTID ||
+				fullOptions.replayStore.has !== undefined),
+			requires: checks.map((check: ValidationCheck<R | void>) =>
+				check.name),
+			run: checkReplayStore,
+		});
+		
+		return checks;
+		
+	}
+	
+	/**
+	 * Returns true if this JWT is unsecured (has an 'alg' header of 'none')
+	 * and the provided options explicitly permit unsecured JWTs, otherwise
+	 * false.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @returns {boolean} true if this JWT is a permitted unsecured JWT,
+	 * otherwise false.
+	 */
+	protected isPermittedUnsecuredJWT(fullOptions: ValidationOptions): boolean {
+		
+		return fullOptions.allowUnsecuredJWTs && this.isUnsecured();
+		
+	}
+	
+	/**
+	 * Returns the provided verification key, throwing a
+	 * {@link JWTValidationError} if none was provided.
+	 * 
+	 * @param {VerificationKey | KeyResolver | undefined} verificationKey The
+	 * verification key or key resolver, if one was provided.
+	 * @returns {VerificationKey | KeyResolver} The provided verification key or
+	 * key resolver.
+	 */
+	protected assertVerificationKeyIsPresent(
+		verificationKey: VerificationKey | KeyResolver | undefined,
+	): VerificationKey | KeyResolver {
+		
+		if (verificationKey === undefined) {
+			
+			throw new JWTValidationError(
+				"no verification key was provided against which to " +
+				"validate the signature of the JWT",
+				{ code: "KEY_MISSING" },
+			);
+			
+		}
+		
+		return verificationKey;
+		
+	}
+	
+	/**
+	 * Ensures that every header listed in this JWT's 'crit' header is
+	 * supported by the default {@link CriticalHeaderRegistry}, throwing a
+	 * {@link JWTValidationError} if any are not, unless this check is disabled
+	 * by the provided options.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 */
+	protected assertCriticalHeadersAreSupported(
+		fullOptions: ValidationOptions): void {
+		
+		if (fullOptions.validateCriticalHeaders) {
+			
+			CriticalHeaderRegistry.getDefault().validate(this.getHeaders());
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the algorithm specified by this JWT's 'alg' header is among
+	 * the allowed algorithms specified by the provided options, throwing a
+	 * {@link JWTValidationError} if it is not.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 */
+	protected assertAlgorithmIsAllowed(fullOptions: ValidationOptions): void {
+		
+		const identifier: SigningAlgorithmIdentifier =
+			this.getHashingAlgorithmIdentifier();
+		
+		if (fullOptions.allowedAlgorithms !== false &&
+			!fullOptions.allowedAlgorithms.includes(identifier)) {
+			
+			throw new JWTValidationError(
+				`the JWT was signed using the '${identifier}' algorithm, ` +
+				"which is not among the allowed algorithms",
+				{
+					code: "ALG_NOT_ALLOWED",
+					expected: fullOptions.allowedAlgorithms,
+					actual: identifier,
+				},
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the signature of this JWT can be verified using the
+	 * provided verification key, throwing a {@link JWTValidationError} if it
+	 * cannot.
+	 * 
+	 * @param {VerificationKey} verificationKey The key against which to verify
+	 * the signature of this JWT.
+	 */
+	protected assertSignatureIsValid(verificationKey: VerificationKey): void {
+		
+		if (!this.validateSignature(verificationKey)) {
+			
+			throw new JWTValidationError(
+				"the signature of the JWT could not be verified",
+				{ code: "SIGNATURE_INVALID" },
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the signature of this JWT can be verified using the
+	 * provided verification key and crypto backend, returning a Promise that
+	 * rejects with a {@link JWTValidationError} if it cannot.
+	 * 
+	 * @param {VerificationKey} verificationKey The key against which to verify
+	 * the signature of this JWT.
+	 * @param {CryptoBackend} backend The backend with which to verify the
+	 * signature of this JWT.
+	 * @returns {Promise<void>} A Promise that resolves once the signature has
+	 * been verified.
+	 */
+	protected async assertSignatureIsValidAsync(
+		verificationKey: VerificationKey,
+		backend: CryptoBackend,
+	): Promise<void> {
+		
+		const isValid: boolean = await backend.verify(
+			this.getHashingAlgorithmIdentifier(),
+			this.getSigningInput(),
+			this.getSignature(),
+			verificationKey,
+		);
+		
+		if (!isValid) {
+			
+			throw new JWTValidationError(
+				"the signature of the JWT could not be verified",
+				{ code: "SIGNATURE_INVALID" },
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Returns the checks that validate the claims within the payload of this
+	 * JWT using the provided options, in the order in which they should be
+	 * run.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @returns {ValidationCheck[]} The checks to run.
+	 */
+	protected getClaimChecks(
+		fullOptions: ValidationOptions): ValidationCheck[] {
+		
+		const currentTime: number = readClock(fullOptions.clock) / 1000;
+		
+		return [
+			{
+				name: "issuer",
+				claim: "iss",
+				enabled: fullOptions.allowableIssuers !== false,
+				requires: [],
+				run: (): void => this.assertIssuerIsAllowed(fullOptions),
+			},
+			{
+				name: "subject",
+				claim: "sub",
+				enabled: fullOptions.allowableSubjects !== false,
+				requires: [],
+				run: (): void => this.assertSubjectIsAllowed(fullOptions),
+			},
+			{
+				name: "audience",
+				claim: "aud",
+				enabled: fullOptions.allowableAudiences !== false,
+				requires: [],
+				run: (): void => this.assertAudienceIsAllowed(fullOptions),
+			},
+			{
+				name: "expirationTime",
+				claim: "exp",
+				enabled: fullOptions.validateExpirationTimeClaim,
+				requires: [],
+				run: (): void =>
+					this.assertIsNotExpired(fullOptions, currentTime),
+			},
+			{
+				name: "notBefore",
+				claim: "nbf",
+				enabled: fullOptions.validateNotBeforeClaim,
+				requires: [],
+				run: (): void =>
+					this.assertIsAfterNotBeforeTime(fullOptions, currentTime),
+			},
+			{
+				name: "issuedAt",
+				claim: "iat",
+				enabled: fullOptions.validateIssuedAtClaim,
+				requires: [],
+				run: (): void =>
+					this.assertIsAfterIssuedAtTime(fullOptions, currentTime),
+			},
+			{
+				name: "claimsSchema",
+				claim: undefined,
+				enabled: fullOptions.claimsSchema !== false,
+				requires: [],
+				run: (): void => this.assertPayloadMatchesSchema(fullOptions),
+			},
+		];
+		
+	}
+	
+	/**
+	 * Ensures that the 'iss' claim of this JWT is among the allowable issuers
+	 * specified by the provided options (if any), throwing a
+	 * {@link JWTValidationError} if it is not.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 */
+	protected assertIssuerIsAllowed(fullOptions: ValidationOptions): void {
+		
+		if (fullOptions.allowableIssuers === false) return;
+		
+		const isIssuerAllowed: boolean =
+			fullOptions.allowableIssuers.includes(
+				this.payload.iss as string | undefined
+			);
+		
+		if (!isIssuerAllowed) {
+			
+			throw new JWTValidationError(
+				`disallowed issuer: ${this.payload.iss}`,
+				{
+					code: "ISSUER_NOT_ALLOWED",
+					claim: "iss",
+					expected: fullOptions.allowableIssuers,
+					actual: this.payload.iss,
+				},
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the 'sub' claim of this JWT is among the allowable subjects
+	 * specified by the provided options (if any), throwing a
+	 * {@link JWTValidationError} if it is not.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 */
+	protected assertSubjectIsAllowed(fullOptions: ValidationOptions): void {
+		
+		if (fullOptions.allowableSubjects === false) return;
+		
+		const isSubjectAllowed: boolean =
+			fullOptions.allowableSubjects.includes(
+				this.payload.sub as string | undefined
+			);
+		
+		if (!isSubjectAllowed) {
+			
+			throw new JWTValidationError(
+				`disallowed subject: ${this.payload.sub}`,
+				{
+					code: "SUBJECT_NOT_ALLOWED",
+					claim: "sub",
+					expected: fullOptions.allowableSubjects,
+					actual: this.payload.sub,
+				},
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the 'aud' claim of this JWT matches the allowable audiences
+	 * specified by the provided options (if any), throwing a
+	 * {@link JWTValidationError} if it does not.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 */
+	protected assertAudienceIsAllowed(fullOptions: ValidationOptions): void {
+		
+		if (fullOptions.allowableAudiences === false) return;
+		
+		const isAudienceAllowed: boolean = areAudiencesAllowed(
+			this.payload.aud,
+			fullOptions.allowableAudiences,
+			fullOptions.audienceMatching,
+			fullOptions.audiencePolicy,
+		);
+		
+		if (!isAudienceAllowed) {
+			
+			throw new JWTValidationError(
+				`disallowed audience: ${this.payload.aud}`,
+				{
+					code: "AUDIENCE_NOT_ALLOWED",
+					claim: "aud",
+					expected: fullOptions.allowableAudiences,
+					actual: this.payload.aud,
+				},
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the 'exp' claim of this JWT indicates that it has not yet
+	 * expired, throwing a {@link JWTValidationError} if it does not, unless
+	 * this check is disabled by the provided options.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {number} currentTime The current time, in seconds since the Unix
+	 * epoch.
+	 */
+	protected assertIsNotExpired(
+		fullOptions: ValidationOptions,
+		currentTime: number,
+	): void {
+		
+		if (!fullOptions.validateExpirationTimeClaim) return;
+		
+		if (this.payload.exp === undefined) {
+			
+			throw new JWTValidationError(
+				"the 'exp' claim was found to be undefined",
+				{ code: "CLAIM_MISSING", claim: "exp" },
+			);
+			
+		}
+		
+		if (typeof this.payload.exp !== "number") {
+			
+			throw new JWTValidationError(
+				"the 'exp' claim was found to be non-numeric",
+				{
+					code: "CLAIM_INVALID",
+					claim: "exp",
+					expected: "number",
+					actual: this.payload.exp,
+				},
+			);
+			
+		}
+		
+		const isExpired: boolean = 
+			this.payload.exp < currentTime + fullOptions.timingTolerance;
+		
+		if (isExpired) {
+			
+			throw new JWTValidationError(
+				"the 'exp' claim indicates that this JWT is expired",
+				{
+					code: "TOKEN_EXPIRED",
+					claim: "exp",
+					actual: this.payload.exp,
+					expiredAt: new Date(this.payload.exp * 1000),
+				},
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the 'nbf' claim of this JWT indicates that it is already
+	 * valid, throwing a {@link JWTValidationError} if it does not, unless this
+	 * check is disabled by the provided options.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {number} currentTime The current time, in seconds since the Unix
+	 * epoch.
+	 */
+	protected assertIsAfterNotBeforeTime(
+		fullOptions: ValidationOptions,
+		currentTime: number,
+	): void {
+		
+		if (!fullOptions.validateNotBeforeClaim) return;
+		
+		if (this.payload.nbf === undefined) {
+			
+			throw new JWTValidationError(
+				"the 'nbf' claim was found to be undefined",
+				{ code: "CLAIM_MISSING", claim: "nbf" },
+			);
+			
+		}
+		
+		if (typeof this.payload.nbf !== "number") {
+			
+			throw new JWTValidationError(
+				"the 'nbf' claim was found to be non-numeric",
+				{
+					code: "CLAIM_INVALID",
+					claim: "nbf",
+					expected: "number",
+					actual: this.payload.nbf,
+				},
+			);
+			
+		}
+		
+		const isBeforeNotBeforeTime: boolean =
+			currentTime - fullOptions.timingTolerance < this.payload.nbf;
+		
+		if (isBeforeNotBeforeTime) {
+			
+			throw new JWTValidationError(
+				"the 'nbf' claim indicates that this JWT is not yet valid",
+				{
+					code: "TOKEN_NOT_YET_VALID",
+					claim: "nbf",
+					actual: this.payload.nbf,
+					notBefore: new Date(this.payload.nbf * 1000),
+				},
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the 'iat' claim of this JWT indicates that it has already
+	 * been issued, throwing a {@link JWTValidationError} if it does not, unless
+	 * this check is disabled by the provided options.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {number} currentTime The current time, in seconds since the Unix
+	 * epoch.
+	 */
+	protected assertIsAfterIssuedAtTime(
+		fullOptions: ValidationOptions,
+		currentTime: number,
+	): void {
+		
+		if (!fullOptions.validateIssuedAtClaim) return;
+		
+		if (this.payload.iat === undefined) {
+			
+			throw new JWTValidationError(
+				"the 'iat' claim was found to be undefined",
+				{ code: "CLAIM_MISSING", claim: "iat" },
+			);
+			
+		}
+		
+		if (typeof this.payload.iat !== "number") {
+			
+			throw new JWTValidationError(
+				"the 'iat' claim was found to be non-numeric",
+				{
+					code: "CLAIM_INVALID",
+					claim: "iat",
+					expected: "number",
+					actual: this.payload.iat,
+				},
+			);
+			
+		}
+		
+		const isBeforeIssuedAtTime: boolean =
+			currentTime - fullOptions.timingTolerance < this.payload.iat;
+		
+		if (isBeforeIssuedAtTime) {
+			
+			throw new JWTValidationError(
+				"the 'iat' claim indicates that this JWT has not been " +
+				"issued yet",
+				{
+					code: "TOKEN_ISSUED_IN_FUTURE",
+					claim: "iat",
+					actual: this.payload.iat,
+				},
+			);
+			
+		}
+		
+	}
+	
+	/**
+	 * Ensures that the payload of this JWT matches the
+	 * {@link ValidationOptions.claimsSchema} specified by the provided options
+	 * (if any), throwing a {@link JWTClaimsSchemaError} listing every violation
+	 * of the schema if it does not.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 */
+	protected assertPayloadMatchesSchema(fullOptions: ValidationOptions): void {
+		
+		if (fullOptions.claimsSchema === false) return;
+		
+		const violations: ClaimsSchemaViolation[] = getClaimsSchemaViolations(
+			this.getPayload(), fullOptions.claimsSchema
+		);
+		
+		if (violations.length > 0) throw new JWTClaimsSchemaError(violations);
+		
+	}
+	
+	/**
+	 * Returns the custom claim and token validators specified by the provided
+	 * options, in the order in which they should be run, each bound to the
+	 * headers and payload of this JWT and to the provided validation context.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @returns {BoundValidator[]} The custom validators to run.
+	 */
+	protected getCustomValidators(
+		fullOptions: ValidationOptions): BoundValidator[] {
+		
+		const headers: JSONWebTokenHeaders = this.getHeaders();
+		const payload: JSONWebTokenPayload = this.getPayload();
+		const context: unknown = fullOptions.validationContext;
+		
+		const claimValidators: BoundValidator[] = Object.entries(
+			fullOptions.claimValidators
+		).flatMap(([claim, validators]): BoundValidator[] =>
+			[validators].flat().map((validator: ClaimValidator) => ({
+				claim,
+				invoke: (): boolean | Promise<boolean> =>
+					validator(payload[claim], headers, payload, context),
+			}))
+		);
+		
+		const tokenValidators: BoundValidator[] =
+			fullOptions.tokenValidators.map((validator: TokenValidator) => ({
+				claim: undefined,
+				invoke: (): boolean | Promise<boolean> =>
+					validator(headers, payload, context),
+			}));
+		
+		return [...claimValidators, ...tokenValidators];
+		
+	}
+	
+	/**
+	 * Throws a {@link JWTValidationError} if the provided result of a custom
+	 * validator indicates that the validator rejected this JWT.
+	 * 
+	 * @param {boolean} result The result returned by the custom validator.
+	 * @param {string | undefined} claim The name of the claim validated by the
+	 * custom validator, or undefined if it is a token validator.
+	 */
+	protected assertCustomValidatorPassed(result: boolean,
+										  claim: string | undefined): void {
+		
+		if (result) return;
+		
+		throw new JWTValidationError(
+			claim === undefined ?
+				"the JWT was rejected by a custom validator" :
+				`the '${claim}' claim was rejected by a custom validator`,
+			{ code: "CUSTOM_VALIDATION_FAILED", claim },
+		);
+		
+	}
+	
+	/**
+	 * Synchronously runs the provided custom validator, throwing a
+	 * {@link JWTValidationError} if it rejects this JWT or is asynchronous.
+	 * 
+	 * @param {BoundValidator} validator The custom validator to run.
+	 */
+	protected runCustomValidator(validator: BoundValidator): void {
+		
+		const result: boolean | Promise<boolean> = validator.invoke();
+		
+		if (result instanceof Promise) {
+			
+			// Prevent an unhandled rejection from the discarded Promise.
+			result.catch((): void => {});
+			
+			throw new JWTValidationError(
+				"a custom validator is asynchronous, and so can only be " +
+				"used with DecodedJSONWebToken.validateAsync or " +
+				"DecodedJSONWebToken.decodeAsync",
+				{ code: "ASYNC_REQUIRED", claim: validator.claim },
+			);
+			
+		}
+		
+		this.assertCustomValidatorPassed(result, validator.claim);
+		
+	}
+	
+	/**
+	 * Synchronously consults the revocation checker specified by the provided
+	 * options, throwing a {@link JWTValidationError} if this JWT has been
+	 * revoked or if the checker is asynchronous.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 */
+	protected checkRevocationChecker(fullOptions: ValidationOptions): void {
+		
+		const isRevoked: boolean | Promise<boolean> =
+			this.isRevoked(fullOptions);
+		
+		if (isRevoked instanceof Promise) {
+			
+			// Prevent an unhandled rejection from the discarded Promise.
+			isRevoked.catch((): void => {});
+			
+			throw new JWTValidationError(
+				"the provided revocation checker is asynchronous, and so can " +
+				"only be used with DecodedJSONWebToken.validateAsync or " +
+				"DecodedJSONWebToken.decodeAsync",
+				{ code: "ASYNC_REQUIRED" },
+			);
+			
+		}
+		
+		this.assertIsNotRevoked(isRevoked);
+		
+	}
+	
+	/**
+	 * Consults the revocation checker specified by the provided options as to
+	 * whether or not this JWT has been revoked.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @returns {boolean | Promise<boolean>} true (or a Promise that resolves to
+	 * true) if this JWT has been revoked, otherwise false.
+	 */
+	protected isRevoked(
+		fullOptions: ValidationOptions): boolean | Promise<boolean> {
+		
+		if (fullOptions.revocationChecker === false) return false;
+		
+		return fullOptions.revocationChecker.isRevoked(
+			this.getHeaders(), this.getPayload()
+		);
+		
+	}
+	
+	/**
+	 * Throws a {@link JWTValidationError} if the provided result of consulting
+	 * the revocation checker indicates that this JWT has been revoked.
+	 * 
+	 * @param {boolean} isRevoked The result returned by the revocation checker.
+	 */
+	protected assertIsNotRevoked(isRevoked: boolean): void {
+		
+		if (!isRevoked) return;
+		
+		throw new JWTValidationError(
+			"the JWT has been revoked",
+			{ code: "TOKEN_REVOKED" },
+		);
+		
+	}
+	
+	/**
+	 * Synchronously records the 'jti' claim of this JWT in the replay store
+	 * specified by the provided options, throwing a {@link JWTValidationError}
+	 * if it has already been seen or if the store is asynchronous.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {boolean} shouldRecord Whether or not the 'jti' claim should be
+	 * recorded, rather than only looked up.
+	 */
+	protected checkReplayStore(fullOptions: ValidationOptions,
+							   shouldRecord: boolean): void {
+		
+		const isFirstUse: boolean | Promise<boolean> =
+			this.recordJWTID(fullOptions, shouldRecord);
+		
+		if (isFirstUse instanceof Promise) {
+			
+			// Prevent an unhandled rejection from the discarded Promise.
+			isFirstUse.catch((): void => {});
+			
+			throw new JWTValidationError(
+				"the provided replay store is asynchronous, and so can only " +
+				"be used with DecodedJSONWebToken.validateAsync or " +
+				"DecodedJSONWebToken.decodeAsync",
+				{ code: "ASYNC_REQUIRED", claim: "jti" },
+			);
+			
+		}
+		
+		this.assertJWTIDIsUnused(isFirstUse);
+		
+	}
+	
+	/**
+	 * Records the 'jti' claim of this JWT in the replay store specified by the
+	 * provided options (or, if it should not be recorded, only looks it up),
+	 * throwing a {@link JWTValidationError} if the claim is missing or
+	 * non-string, or if the 'exp' claim is missing or non-numeric.
+	 * 
+	 * @param {ValidationOptions} fullOptions The full set of options related to
+	 * the validation of this JWT.
+	 * @param {boolean} shouldRecord Whether or not the 'jti' claim should be
+	 * recorded, rather than only looked up. Defaults to `true`.
+	 * @returns {boolean | Promise<boolean>} true (or a Promise that resolves to
+	 * true) if the 'jti' claim had not yet been seen, otherwise false.
+	 */
+	protected recordJWTID(fullOptions: ValidationOptions,
+						  shouldRecord: boolean = true,
+	): boolean | Promise<boolean> {
+		
+		if (fullOptions.replayStore === false) return true;
+		
+		const { jti, exp } = this.payload;
+		
+		if (jti === undefined) {
+			
+			throw new JWTValidationError(
+				"the 'jti' claim was found to be undefined",
+				{ code: "CLAIM_MISSING", claim: "jti" },
+			);
+			
+		}
+		
+		if (typeof jti !== "string") {
+			
+			throw new JWTValidationError(
+				"the 'jti' claim was found to be non-string",
+				{
+					code: "CLAIM_INVALID",
+					claim: "jti",
+					expected: "string",
+					actual: jti,
+				},
+			);
+			
+		}
+		
+		if (exp === undefined) {
+			
+			throw new JWTValidationError(
+				"the 'exp' claim was found to be undefined, but is required " +
+				"when a replay store is in use",
+				{ code: "CLAIM_MISSING", claim: "exp" },
+			);
+			
+		}
+		
+		if (typeof exp !== "number") {
+			
+			throw new JWTValidationError(
+				"the 'exp' claim was found to be non-numeric",
+				{
+					code: "CLAIM_INVALID",
+					claim: "exp",
+					expected: "number",
+					actual: exp,
+				},
+			);
+			
+		}
+		
+		const { replayStore } = fullOptions;
+		
+		if (!shouldRecord && replayStore.has !== undefined) {
+			
+			const hasBeenSeen: boolean | Promise<boolean> =
+				replayStore.has(jti);
+			
+			return hasBeenSeen instanceof Promise ?
+				hasBeenSeen.then((seen: boolean): boolean => !seen) :
+				!hasBeenSeen;
+			
+		}
+		
+		return replayStore.checkAndSet(jti, exp + fullOptions.timingTolerance);
+		
+	}
+	
+	/**
+	 * Throws a {@link JWTValidationError} if the provided result of recording
+	 * the 'jti' claim of this JWT indicates that it had already been seen.
+	 * 
+	 * @param {boolean} isFirstUse The result returned by the replay store.
+	 */
+	protected assertJWTIDIsUnused(isFirstUse: boolean): void {
+		
+		if (isFirstUse) return;
+		
+		throw new JWTValidationError(
+			"the 'jti' claim indicates that this JWT has already been used",
+			{ code: "TOKEN_REPLAYED", claim: "jti", actual: this.payload.jti },
+		);
+		
+	}
+	
+	/**
+	 * Returns the base64url encoded set of headers for this decoded JWT, as
+	 * they were received.
+	 * 
+	 * @returns {string} The base64url encoded set of headers for this decoded
+	 * JWT, as they were received.
+	 */
+	public getEncodedHeaders(): string {
+		
+		return this.encodedHeaders;
+		
+	}
+	
+	/**
+	 * Returns the encoded payload for this decoded JWT, as it was received (or
+	 * as it was supplied, for JWTs with a detached payload).
+	 * 
+	 * @returns {string} The encoded payload for this decoded JWT, as it was
+	 * received.
+	 */
+	public getEncodedPayload(): string {
+		
+		return this.encodedPayload;
+		
 	}
 	
 	/**
@@ -0,0 +1,495 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 3:34 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+	SigningAlgorithmIdentifier,
+} from "../types/jwt-types.js";
+import { JSONValue } from "../types/json-types.js";
+import { SigningKey } from "../types/key-types.js";
+import {
+	Clock,
+	Duration,
+	TimeSpecifier,
+} from "../types/claims-types.js";
+import { readClockAsNumericDate } from "../claims/clock.js";
+import { resolveTimeSpecifier } from "../claims/duration.js";
+import { JSONWebToken } from "./json-web-token.js";
+import { CryptoBackend } from "../types/crypto-backend-types.js";
+import { getDefaultCryptoBackend } from "../crypto/crypto-backend.js";
+import { encodeBase64URL } from "../encoding/base64url.js";
+
+/**
+ * A set of defaults applied to every JWT built by a
+ * {@link JSONWebTokenBuilder}, such as those shared by every JWT minted by a
+ * particular issuer.
+ */
+export type TokenProfile = {
+	
+	/**
+	 * The default value of the 'iss' (issuer) claim, or undefined if JWTs
+	 * should not have an issuer by default.
+	 */
+	issuer: string | undefined,
+	
+	/**
+	 * The default value of the 'aud' (audience) claim, or undefined if JWTs
+	 * should not have an audience by default.
+	 */
+	audience: string | string[] | undefined,
+	
+	/**
+	 * The default lifetime of JWTs, used to stamp the 'exp' (expiration time)
+	 * claim relative to the time at which they are built.
+	 *
+	 * In order to disable this entirely, set this field to false. This is
+	 * disabled by default.
+	 */
+	expiresIn: Duration | false,
+	
+	/**
+	 * The default delay before JWTs become valid, used to stamp the 'nbf' (not
+	 * before) claim relative to the time at which they are built.
+	 *
+	 * In order to disable this entirely, set this field to false. This is
+	 * disabled by default.
+	 */
+	notBefore: Duration | false,
+	
+	/**
+	 * A boolean value indicating whether the 'iat' (issued at) claim should be
+	 * stamped with the time at which JWTs are built.
+	 *
+	 * This is enabled by default.
+	 */
+	stampIssuedAt: boolean,
+	
+	/**
+	 * A boolean value indicating whether a random 'jti' (JWT ID) claim should
+	 * be generated for JWTs.
+	 *
+	 * This is enabled by default.
+	 */
+	generateJWTID: boolean,
+	
+	/**
+	 * Additional headers (such as 'kid') to include on every JWT.
+	 */
+	headers: JSONWebTokenHeaders,
+	
+	/**
+	 * The clock with which time-based claims are stamped.
+	 *
+	 * Defaults to `Date.now`.
+	 */
+	clock: Clock,
+	
+};
+
+/**
+ * A fluent builder for outgoing JSON web tokens, with typed setters for the
+ * registered claims and automatic stamping of the 'iat' (issued at) and 'jti'
+ * (JWT ID) claims.
+ *
+ * The time-based setters accept either absolute Dates or {@link Duration}s
+ * (such as "15m" or "7d"), which are resolved relative to the time at which
+ * the JWT is built. The clock is read once per build, such that every
+ * relative time is resolved against the same instant.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class JSONWebTokenBuilder<
+	P extends JSONWebTokenPayload = JSONWebTokenPayload,
+> {
+	
+	/**
+	 * The defaults applied to every JWT built by this builder.
+	 */
+	protected profile: TokenProfile;
+	
+	/**
+	 * The claims explicitly set on this builder.
+	 */
+	protected claims: JSONWebTokenPayload;
+	
+	/**
+	 * The time-based claims explicitly set on this builder, which are resolved
+	 * once the JWT is built.
+	 */
+	protected times: { [claim: string]: TimeSpecifier };
+	
+	/**
+	 * The headers explicitly set on this builder.
+	 */
+	protected headers: JSONWebTokenHeaders;
+	
+	public constructor(profile: Partial<TokenProfile> = {}) {
+		
+		this.profile = {
+			...JSONWebTokenBuilder.getDefaultProfile(),
+			...profile,
+		};
+		
+		this.claims = {};
+		this.times = {};
+		this.headers = {};
+		
+	}
+	
+	/**
+	 * Returns the default {@link TokenProfile}.
+	 *
+	 * @returns {TokenProfile} The default token profile.
+	 */
+	public static getDefaultProfile(): TokenProfile {
+		
+		return {
+			issuer: undefined,
+			audience: undefined,
+			expiresIn: false,
+			notBefore: false,
+			stampIssuedAt: true,
+			generateJWTID: true,
+			headers: {},
+			clock: Date.now,
+		};
+		
+	}
+	
+	/**
+	 * Returns a new random JWT ID, suitable for use as the value of the 'jti'
+	 * claim.
+	 *
+	 * @returns {string} A new random JWT ID.
+	 */
+	public static generateJWTID(): string {
+		
+		return encodeBase64URL(getDefaultCryptoBackend().getRandomBytes(16));
+		
+	}
+	
+	/**
+	 * Sets the 'iss' (issuer) claim.
+	 *
+	 * @param {string} issuer The issuer of the JWT.
+	 * @returns {this} This builder.
+	 */
+	public setIssuer(issuer: string): this {
+		
+		return this.setClaim("iss", issuer);
+		
+	}
+	
+	/**
+	 * Sets the 'sub' (subject) claim.
+	 *
+	 * @param {string} subject The subject of the JWT.
+	 * @returns {this} This builder.
+	 */
+	public setSubject(subject: string): this {
+		
+		return this.setClaim("sub", subject);
+		
+	}
+	
+	/**
+	 * Sets the 'aud' (audience) claim.
+	 *
+	 * @param {string | string[]} audience The audience (or audiences) of the
+	 * JWT.
+	 * @returns {this} This builder.
+	 */
+	public setAudience(audience: string | string[]): this {
+		
+		return this.setClaim("aud", audience);
+		
+	}
+	
+	/**
+	 * Sets the 'exp' (expiration time) claim.
+	 *
+	 * @param {TimeSpecifier} time The time at which the JWT expires, or the
+	 * duration after which it expires, such as "15m".
+	 * @returns {this} This builder.
+	 */
+	public setExpirationTime(time: TimeSpecifier): this {
+		
+		return this.setTime("exp", time);
+		
+	}
+	
+	/**
+	 * Sets the 'nbf' (not before) claim.
+	 *
+	 * @param {TimeSpecifier} time The time at which the JWT becomes valid, or
+	 * the duration after which it becomes valid.
+	 * @returns {this} This builder.
+	 */
+	public setNotBefore(time: TimeSpecifier): this {
+		
+		return this.setTime("nbf", time);
+		
+	}
+	
+	/**
+	 * Sets the 'iat' (issued at) claim, overriding the time that would
+	 * otherwise be stamped.
+	 *
+	 * @param {TimeSpecifier} time The time at which the JWT was issued.
+	 * Defaults to the time at which the JWT is built.
+	 * @returns {this} This builder.
+	 */
+	public setIssuedAt(time: TimeSpecifier = "0s"): this {
+		
+		return this.setTime("iat", time);
+		
+	}
+	
+	/**
+	 * Sets the 'jti' (JWT ID) claim, overriding the ID that would otherwise be
+	 * generated.
+	 *
+	 * @param {string} jwtID The ID of the JWT. Defaults to a new random ID.
+	 * @returns {this} This builder.
+	 */
+	public setJWTID(jwtID: string = JSONWebTokenBuilder.generateJWTID()): this {
+		
+		return this.setClaim("jti", jwtID);
+		
+	}
+	
+	/**
+	 * Sets an arbitrary claim.
+	 *
+	 * @param {string} claim The name of the claim.
+	 * @param {JSONValue} value The value of the claim.
+	 * @returns {this} This builder.
+	 */
+	public setClaim(claim: string, value: JSONValue): this {
+		
+		delete this.times[claim];
+		
+		this.claims[claim] = value;
+		
+		return this;
+		
+	}
+	
+	/**
+	 * Sets each of the provided claims.
+	 *
+	 * @param {Partial<P>} claims The claims to set.
+	 * @returns {this} This builder.
+	 */
+	public setClaims(claims: Partial<P>): this {
+		
+		for (const [claim, value] of Object.entries(claims)) {
+			
+			this.setClaim(claim, value as JSONValue);
+			
+		}
+		
+		return this;
+		
+	}
+	
+	/**
+	 * Sets an arbitrary header. The 'alg' header cannot be set in this way, as
+	 * it is determined by the algorithm with which the JWT is built.
+	 *
+	 * @param {string} header The name of the header.
+	 * @param {JSONValue} value The value of the header.
+	 * @returns {this} This builder.
+	 */
+	public setHeader(header: string, value: JSONValue): this {
+		
+		if (header === "alg") {
+			
+			throw new Error(
+				"Attempted to set the 'alg' header of a JWT via a builder " +
+				"(the algorithm should instead be passed to " +
+				"JSONWebTokenBuilder.build)."
+			);
+			
+		}
+		
+		this.headers[header] = value;
+		
+		return this;
+		
+	}
+	
+	/**
+	 * Sets the 'kid' (key ID) header.
+	 *
+	 * @param {string} keyID The ID of the key with which the JWT is signed.
+	 * @returns {this} This builder.
+	 */
+	public setKeyID(keyID: string): this {
+		
+		return this.setHeader("kid", keyID);
+		
+	}
+	
+	/**
+	 * Sets the 'cty' (content type) header.
+	 *
+	 * @param {string} contentType The content type of the JWT.
+	 * @returns {this} This builder.
+	 */
+	public setContentType(contentType: string): this {
+		
+		return this.setHeader("cty", contentType);
+		
+	}
+	
+	/**
+	 * Builds a new JSONWebToken from the profile, claims and headers of this
+	 * builder, to be signed using the provided key and algorithm.
+	 *
+	 * @param {SigningKey} signingKey The key with which to sign the JWT.
+	 * @param {SigningAlgorithmIdentifier} algorithm The algorithm with which
+	 * to sign the JWT.
+	 * @returns {JSONWebToken<P>} The built JWT.
+	 */
+	public build(signingKey: SigningKey,
+				 algorithm: SigningAlgorithmIdentifier): JSONWebToken<P> {
+		
+		const headers: JSONWebTokenHeaders = {
+			...JSONWebToken.getDefaultHeaders(algorithm),
+			...this.profile.headers,
+			...this.headers,
+		};
+		
+		headers.alg = algorithm;
+		
+		return new JSONWebToken<P>(
+			this.buildPayload(),
+			signingKey,
+			algorithm,
+			headers,
+		);
+		
+	}
+	
+	/**
+	 * Builds and signs a new JWT, as per {@link JSONWebTokenBuilder.build},
+	 * returning its compact serialization.
+	 *
+	 * @param {SigningKey} signingKey The key with which to sign the JWT.
+	 * @param {SigningAlgorithmIdentifier} algorithm The algorithm with which
+	 * to sign the JWT.
+	 * @returns {string} The signed JWT.
+	 */
+	public sign(signingKey: SigningKey,
+				algorithm: SigningAlgorithmIdentifier): string {
+		
+		return this.build(signingKey, algorithm).toString();
+		
+	}
+	
+	/**
+	 * Builds and signs a new JWT, as per {@link JSONWebTokenBuilder.sign},
+	 * using the provided {@link CryptoBackend}, such that JWTs can be built in
+	 * browsers and edge runtimes.
+	 *
+	 * @param {SigningKey} signingKey The key with which to sign the JWT.
+	 * @param {SigningAlgorithmIdentifier} algorithm The algorithm with which
+	 * to sign the JWT.
+	 * @param {CryptoBackend} backend The backend with which to sign the JWT.
+	 * Defaults to the default crypto backend.
+	 * @returns {Promise<string>} A Promise that resolves to the signed JWT.
+	 */
+	public async signAsync(
+		signingKey: SigningKey,
+		algorithm: SigningAlgorithmIdentifier,
+		backend: CryptoBackend = getDefaultCryptoBackend(),
+	): Promise<string> {
+		
+		return this.build(signingKey, algorithm).toStringAsync(backend);
+		
+	}
+	
+	/**
+	 * Records the provided time-based claim, to be resolved once the JWT is
+	 * built.
+	 *
+	 * @param {string} claim The name of the claim.
+	 * @param {TimeSpecifier} time The value of the claim.
+	 * @returns {this} This builder.
+	 */
+	protected setTime(claim: string, time: TimeSpecifier): this {
+		
+		delete this.claims[claim];
+		
+		this.times[claim] = time;
+		
+		return this;
+		
+	}
+	
+	/**
+	 * Returns the payload of the JWT being built, consisting of the defaults
+	 * of the profile of this builder, overridden by any claims explicitly set
+	 * on this builder.
+	 *
+	 * @returns {P} The payload of the JWT being built.
+	 */
+	protected buildPayload(): P {
+		
+		const currentTime: number = readClockAsNumericDate(this.profile.clock);
+		const payload: JSONWebTokenPayload = {};
+		
+		if (this.profile.issuer !== undefined) {
+			
+			payload.iss = this.profile.issuer;
+			
+		}
+		
+		if (this.profile.audience !== undefined) {
+			
+			payload.aud = this.profile.audience;
+			
+		}
+		
+		if (this.profile.stampIssuedAt) payload.iat = currentTime;
+		
+		if (this.profile.notBefore !== false) {
+			
+			payload.nbf =
+				resolveTimeSpecifier(this.profile.notBefore, currentTime);
+			
+		}
+		
+		if (this.profile.expiresIn !== false) {
+			
+			payload.exp =
+				resolveTimeSpecifier(this.profile.expiresIn, currentTime);
+			
+		}
+		
+		if (this.profile.generateJWTID) {
+			
+			payload.jti = JSONWebTokenBuilder.generateJWTID();
+			
+		}
+		
+		Object.assign(payload, this.claims);
+		
+		for (const [claim, time] of Object.entries(this.times)) {
+			
+			payload[claim] = resolveTimeSpecifier(time, currentTime);
+			
+		}
+		
+		return payload as P;
+		
+	}
+	
+}
@@ -4,43 +4,159 @@
  * Project: tsjwt
  */
 
-import * as crypto from "node:crypto";
 import {
 	HashingAlgorithm,
-	HashingAlgorithmIdentifier,
 	JSONWebTokenHeaders,
 	JSONWebTokenPayload,
+	SigningAlgorithmIdentifier,
 } from "../types/jwt-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import {
+	KeyResolver,
+	SigningKey,
+	VerificationKey,
+} from "../types/key-types.js";
 import { AbstractJSONWebToken } from "./abstract-json-web-token.js";
+import {
+	CriticalHeaderRegistry,
+} from "../header/critical-header-registry.js";
 import {
 	DecodedJSONWebToken,
 	ValidationOptions
 } from "./decoded-json-web-token.js";
+import { Clock } from "../types/claims-types.js";
+import { readClockAsNumericDate } from "../claims/clock.js";
+import { CryptoBackend } from "../types/crypto-backend-types.js";
+import { getDefaultCryptoBackend } from "../crypto/crypto-backend.js";
+
+/**
+ * An object specifying various options related to the creation of outgoing
+ * JWTs.
+ */
+export type SigningOptions = {
+	
+	/**
+	 * The clock with which the 'iat' (issued at) and 'exp' (expiration time)
+	 * claims are stamped.
+	 * 
+	 * Defaults to `Date.now`.
+	 */
+	clock: Clock,
+	
+	/**
+	 * A boolean value indicating whether the 'iat' (issued at) claim should be
+	 * set to the current time, if the payload does not already contain it.
+	 * 
+	 * This is disabled by default.
+	 */
+	stampIssuedAt: boolean,
+	
+	/**
+	 * The lifetime of the JWT, defined in seconds. If set, the 'exp'
+	 * (expiration time) claim is set to the current time plus this lifetime,
+	 * if the payload does not already contain it.
+	 * 
+	 * In order to disable this entirely, set this field to false. This is
+	 * disabled by default.
+	 */
+	expiresIn: number | false,
+	
+};
 
-export class JSONWebToken extends AbstractJSONWebToken {
+export class JSONWebToken<
+	P extends JSONWebTokenPayload = JSONWebTokenPayload,
+> extends AbstractJSONWebToken<P> {
 	
-	protected secret: string;
+	/**
+	 * The key used to sign this JWT.
+	 * 
+	 * For HMAC-based algorithms this is the shared secret, whereas for
+	 * asymmetric algorithms this is the private key.
+	 */
+	protected signingKey: SigningKey;
 	
-	public constructor(payload: JSONWebTokenPayload,
-					   secret: string,
-					   hashingAlgorithm: HashingAlgorithmIdentifier,
+	public constructor(payload: P,
+					   signingKey: SigningKey,
+					   hashingAlgorithm: SigningAlgorithmIdentifier,
 					   headers: JSONWebTokenHeaders =
-						   JSONWebToken.getDefaultHeaders(hashingAlgorithm)) {
+						   JSONWebToken.getDefaultHeaders(hashingAlgorithm),
+					   options: Partial<SigningOptions> = {}) {
 		
-		super(headers, payload);
+		super(headers, JSONWebToken.stampRegisteredClaims(payload, {
+			...JSONWebToken.getDefaultSigningOptions(),
+			...options,
+		}));
 		
-		this.secret = secret;
+		this.signingKey = signingKey;
 		
 	}
 	
-	public static decode(token: string,
-						 validateBeforeReturn: boolean = true,
-						 secret?: string,
-						 options: Partial<ValidationOptions> = {},
-	): DecodedJSONWebToken {
+	/**
+	 * Returns the default {@link SigningOptions}.
+	 * 
+	 * @returns {SigningOptions} The default signing options.
+	 */
+	public static getDefaultSigningOptions(): SigningOptions {
+		
+		return {
+			clock: Date.now,
+			stampIssuedAt: false,
+			expiresIn: false,
+		};
+		
+	}
+	
+	/**
+	 * Returns the provided payload, having had its 'iat' (issued at) and 'exp'
+	 * (expiration time) claims stamped according to the provided options.
+	 * 
+	 * The clock is read once, such that both claims are stamped using the same
+	 * instant. Claims already present in the payload are left untouched.
+	 * 
+	 * @param {P} payload The payload to stamp.
+	 * @param {SigningOptions} fullOptions The full set of options related to
+	 * the creation of the JWT.
+	 * @returns {P} The stamped payload.
+	 */
+	protected static stampRegisteredClaims<P extends JSONWebTokenPayload>(
+		payload: P,
+		fullOptions: SigningOptions,
+	): P {
+		
+		if (!fullOptions.stampIssuedAt && fullOptions.expiresIn === false) {
+			
+			return payload;
+			
+		}
+		
+		const currentTime: number = readClockAsNumericDate(fullOptions.clock);
+		const stamped: JSONWebTokenPayload = { ...payload };
+		
+		if (fullOptions.stampIssuedAt && stamped.iat === undefined) {
+			
+			stamped.iat = currentTime;
+			
+		}
 		
-		return DecodedJSONWebToken.decode(
-			token, validateBeforeReturn, secret, options
+		if (fullOptions.expiresIn !== false && stamped.exp === undefined) {
+			
+			stamped.exp = currentTime + fullOptions.expiresIn;
+			
+		}
+		
+		return stamped as P;
+		
+	}
+	
+	public static decode<P extends JSONWebTokenPayload = JSONWebTokenPayload>(
+		token: string,
+		validateBeforeReturn: boolean = true,
+		verificationKey?: VerificationKey | KeyResolver,
+		options: Partial<ValidationOptions> = {},
+	): DecodedJSONWebToken<P> {
+		
+		return DecodedJSONWebToken.decode<P>(
+			token, validateBeforeReturn, verificationKey, options
 		);
 		
 	}
@@ -49,14 +165,14 @@ export class JSONWebToken extends AbstractJSONWebToken {
 	 * Returns the set of default headers for a JSON web token, optionally
 	 * including a field that details the specified hashing algorithm.
 	 * 
-	 * @param {HashingAlgorithmIdentifier} hashingAlgorithm An optional string
+	 * @param {SigningAlgorithmIdentifier} hashingAlgorithm An optional string
 	 * indicating which hashing algorithm is being used while building the
 	 * current JWT.
 	 * @returns {JSONWebTokenHeaders} A collection of the default JWT headers
 	 * for this implementation.
 	 */
 	public static getDefaultHeaders(
-		hashingAlgorithm?: HashingAlgorithmIdentifier): JSONWebTokenHeaders {
+		hashingAlgorithm?: SigningAlgorithmIdentifier): JSONWebTokenHeaders {
 		
 		const defaultHeaders: JSONWebTokenHeaders = { "typ": "JWT" };
 		
@@ -79,76 +195,97 @@ export class JSONWebToken extends AbstractJSONWebToken {
 	 */
 	protected getHashingAlgorithm(): HashingAlgorithm {
 		
-		const identifier: HashingAlgorithmIdentifier =
-			this.getHashingAlgorithmIdentifier();
+		const algorithm: SigningAlgorithm = this.getSigningAlgorithm();
 		
-		switch (identifier) {
-			
-			case "HS256":
-				return (input: string): string =>
-					crypto.createHmac("SHA256", this.getSecret())
-						.update(input)
-						.digest()
-						.toString("base64url");
-				
-			case "HS384":
-				return (input: string): string =>
-					crypto.createHmac("SHA384", this.getSecret())
-						.update(input)
-						.digest()
-						.toString("base64url");
-			
-			case "HS512":
-				return (input: string): string =>
-					crypto.createHmac("SHA512", this.getSecret())
-						.update(input)
-						.digest()
-						.toString("base64url");
-			
-			case "PS256":
-			case "PS384":
-			case "PS512":
-			case "RS256":
-			case "RS384":
-			case "RS512":
-			case "ES256":
-			case "ES256K":
-			case "ES384":
-			case "ES512":
-			case "EdDSA":
-			default:
-				throw new Error(
-					`Unrecognized hashing algorithm: ${identifier}`
-				);
-			
-		}
+		return (input: string): string =>
+			algorithm.sign(input, this.getSigningKey());
+		
+	}
+	
+	/**
+	 * Returns the key used to sign this JSON web token, as it was provided.
+	 * 
+	 * @returns {SigningKey} The key used to sign this JSON web token.
+	 */
+	public getSigningKey(): SigningKey {
+		
+		return this.signingKey;
 		
 	}
 	
 	/**
-	 * Returns the raw string secret for this JSON web token.
+	 * Returns the key used to sign this JSON web token, as it was provided.
 	 * 
-	 * @returns {string} The raw string secret for this JSON web token.
+	 * @returns {SigningKey} The key used to sign this JSON web token.
+	 * @deprecated Use {@link JSONWebToken.getSigningKey} instead.
 	 */
-	public getSecret(): string {
+	public getSecret(): SigningKey {
 		
-		return this.secret;
+		return this.getSigningKey();
 		
 	}
 	
 	/**
 	 * Returns the signature for this JSON web token.
 	 * 
+	 * The 'crit' header of this JWT (if present) is first checked against the
+	 * default {@link CriticalHeaderRegistry}, so that JWTs listing critical
+	 * headers that this library does not understand are never produced.
+	 * 
 	 * @returns {string} The signature for this JSON web token.
 	 */
 	public getSignature(): string {
 		
+		CriticalHeaderRegistry.getDefault().validate(this.getHeaders());
+		
 		const hashingFunction: HashingAlgorithm = this.getHashingAlgorithm();
 		
-		return hashingFunction(
-			[this.getEncodedHeaders(), this.getEncodedPayload()].join(".")
+		return hashingFunction(this.getSigningInput());
+		
+	}
+	
+	/**
+	 * Returns a Promise that resolves to the signature for this JSON web
+	 * token, as produced by the provided {@link CryptoBackend}.
+	 * 
+	 * Unlike {@link JSONWebToken.getSignature}, this method can be used with
+	 * asynchronous backends such as the {@link WebCryptoBackend}, and so in
+	 * browsers and edge runtimes.
+	 * 
+	 * @param {CryptoBackend} backend The backend with which to sign this JWT.
+	 * Defaults to the default crypto backend.
+	 * @returns {Promise<string>} A Promise that resolves to the signature for
+	 * this JSON web token.
+	 */
+	public async getSignatureAsync(
+		backend: CryptoBackend = getDefaultCryptoBackend(),
+	): Promise<string> {
+		
+		CriticalHeaderRegistry.getDefault().validate(this.getHeaders());
+		
+		return backend.sign(
+			this.getHashingAlgorithmIdentifier(),
+			this.getSigningInput(),
+			this.getSigningKey(),
 		);
 		
 	}
 	
+	/**
+	 * Returns a Promise that resolves to the string version of this JSON web
+	 * token, as signed by the provided {@link CryptoBackend}.
+	 * 
+	 * @param {CryptoBackend} backend The backend with which to sign this JWT.
+	 * Defaults to the default crypto backend.
+	 * @returns {Promise<string>} A Promise that resolves to the string version
+	 * of this JSON web token.
+	 */
+	public async toStringAsync(
+		backend: CryptoBackend = getDefaultCryptoBackend(),
+	): Promise<string> {
+		
+		return this.serialize(await this.getSignatureAsync(backend));
+		
+	}
+	
 }
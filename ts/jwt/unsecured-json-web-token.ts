@@ -0,0 +1,139 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:06 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { AbstractJSONWebToken } from "./abstract-json-web-token.js";
+import {
+	DecodedJSONWebToken,
+	ValidationOptions,
+} from "./decoded-json-web-token.js";
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+	SigningAlgorithmIdentifier,
+} from "../types/jwt-types.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+
+/**
+ * A class for building unsecured JSON web tokens, as described by RFC 7519,
+ * section 6.
+ * 
+ * Unsecured JWTs have an 'alg' header of 'none' and an empty signature, and
+ * so are serialized with a trailing dot (`<headers>.<payload>.`). As anyone
+ * can create them, they are only ever accepted by
+ * {@link DecodedJSONWebToken.validate} if the
+ * {@link ValidationOptions.allowUnsecuredJWTs} option is set.
+ * 
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class UnsecuredJSONWebToken<
+	P extends JSONWebTokenPayload = JSONWebTokenPayload,
+> extends AbstractJSONWebToken<P> {
+	
+	/**
+	 * Initializes a new UnsecuredJSONWebToken with the provided payload and
+	 * headers. The 'alg' header is always set to 'none'.
+	 * 
+	 * @param {P} payload The payload of the JWT.
+	 * @param {JSONWebTokenHeaders} headers The headers of the JWT.
+	 */
+	public constructor(payload: P,
+					   headers: JSONWebTokenHeaders =
+						   UnsecuredJSONWebToken.getDefaultHeaders()) {
+		
+		super({ ...headers, alg: "none" }, payload);
+		
+	}
+	
+	/**
+	 * Returns the set of default headers for an unsecured JSON web token.
+	 * 
+	 * @returns {JSONWebTokenHeaders} A collection of the default unsecured JWT
+	 * headers for this implementation.
+	 */
+	public static getDefaultHeaders(): JSONWebTokenHeaders {
+		
+		return { "typ": "JWT", "alg": "none" };
+		
+	}
+	
+	/**
+	 * Returns a new DecodedJSONWebToken instance, having been built from the
+	 * provided unsecured token string, and optionally having had its claims
+	 * validated using the provided {@link ValidationOptions}.
+	 * 
+	 * This method only accepts unsecured JWTs - a JWT with any other 'alg'
+	 * header will cause an error to be thrown.
+	 * 
+	 * @param {string} token The string token that will be used to construct the
+	 * returned DecodedJSONWebToken instance.
+	 * @param {boolean} validateBeforeReturn A boolean value indicating whether
+	 * or not this method should validate the claims of the incoming JWT before
+	 * returning it to the caller. Defaults to `true`.
+	 * @param {Partial<ValidationOptions>} options An optional object containing
+	 * various options related to the validation of the provided incoming JWT.
+	 * @returns {DecodedJSONWebToken<P>} A new DecodedJSONWebToken instance,
+	 * having been built from the provided token string.
+	 */
+	public static decode<P extends JSONWebTokenPayload = JSONWebTokenPayload>(
+		token: string,
+		validateBeforeReturn: boolean = true,
+		options: Partial<ValidationOptions> = {},
+	): DecodedJSONWebToken<P> {
+		
+		const fullOptions: Partial<ValidationOptions> = {
+			...options,
+			allowUnsecuredJWTs: true,
+		};
+		
+		const result: DecodedJSONWebToken<P> =
+			DecodedJSONWebToken.decode<P>(token, false, undefined, fullOptions);
+		
+		if (!result.isUnsecured()) {
+			
+			throw new JWTParsingError(
+				"expected an unsecured JWT, but found the 'alg' header field " +
+				`to specify a signing algorithm: '${result.getHeaders().alg}'`,
+				{ code: "ALG_INVALID" },
+			);
+			
+		}
+		
+		if (validateBeforeReturn) {
+			
+			result.validate(undefined, fullOptions);
+			
+		}
+		
+		return result;
+		
+	}
+	
+	/**
+	 * Returns the identifier of the 'algorithm' used by this JSON web token,
+	 * which is always 'none'.
+	 * 
+	 * @returns {SigningAlgorithmIdentifier} The string 'none'.
+	 */
+	public getHashingAlgorithmIdentifier(): SigningAlgorithmIdentifier {
+		
+		return "none";
+		
+	}
+	
+	/**
+	 * Returns the signature for this JSON web token, which is always empty.
+	 * 
+	 * @returns {string} An empty string.
+	 */
+	public getSignature(): string {
+		
+		return "";
+		
+	}
+	
+}
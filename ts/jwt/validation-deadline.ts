@@ -0,0 +1,168 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 6:05 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+/**
+ * A bound on the duration of an asynchronous validation, after which (or upon
+ * the provided AbortSignal being aborted) the validation is abandoned.
+ *
+ * Abandoning a validation does not cancel any work that is already in flight
+ * (such as a remote key lookup), but the result of that work is ignored, and
+ * no further checks are started.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class ValidationDeadline {
+	
+	/**
+	 * The signal which, when aborted, causes the validation to be abandoned,
+	 * or false if no signal was provided.
+	 */
+	protected signal: AbortSignal | false;
+	
+	/**
+	 * The error describing why the validation was abandoned, or undefined if
+	 * it has not (yet) been abandoned.
+	 */
+	protected error: JWTValidationError | undefined;
+	
+	/**
+	 * A Promise that rejects once the validation is abandoned, and which never
+	 * resolves.
+	 */
+	protected expiry: Promise<never>;
+	
+	/**
+	 * A function that rejects {@link ValidationDeadline.expiry}.
+	 */
+	protected rejectExpiry: (error: JWTValidationError) => void;
+	
+	/**
+	 * The timer that abandons the validation once the timeout has elapsed, if
+	 * a timeout was provided.
+	 */
+	protected timer: ReturnType<typeof setTimeout> | undefined;
+	
+	/**
+	 * The listener registered on the signal, if a signal was provided.
+	 */
+	protected abortListener: () => void;
+	
+	public constructor(signal: AbortSignal | false, timeout: number | false) {
+		
+		this.signal = signal;
+		this.error = undefined;
+		this.rejectExpiry = (): void => {};
+		this.timer = undefined;
+		this.abortListener = (): void => this.abort();
+		
+		this.expiry = new Promise<never>(
+			(resolve: unknown, reject: (error: unknown) => void): void => {
+				
+				this.rejectExpiry = reject;
+				
+			}
+		);
+		
+		// Prevent an unhandled rejection if no check is in flight on expiry.
+		this.expiry.catch((): void => {});
+		
+		if (signal !== false) {
+			
+			if (signal.aborted) this.abort();
+			else signal.addEventListener("abort", this.abortListener);
+			
+		}
+		
+		if (timeout !== false && this.error === undefined) {
+			
+			this.timer = setTimeout((): void => this.expire(
+				new JWTValidationError(
+					`validation did not complete within ${timeout}ms`,
+					{ code: "VALIDATION_TIMED_OUT" },
+				)
+			), timeout);
+			
+		}
+		
+	}
+	
+	/**
+	 * Returns true if the validation has been abandoned, otherwise false.
+	 *
+	 * @returns {boolean} true if the validation has been abandoned, otherwise
+	 * false.
+	 */
+	public isExpired(): boolean {
+		
+		return this.error !== undefined;
+		
+	}
+	
+	/**
+	 * Runs the provided task, returning a Promise that resolves to its result,
+	 * or that rejects with a {@link JWTValidationError} if the validation is
+	 * abandoned before the task completes.
+	 *
+	 * @param {() => T | Promise<T>} task The task to run.
+	 * @returns {Promise<T>} A Promise that resolves to the result of the task.
+	 */
+	public async run<T>(task: () => T | Promise<T>): Promise<T> {
+		
+		if (this.error !== undefined) throw this.error;
+		
+		return Promise.race([task(), this.expiry]);
+		
+	}
+	
+	/**
+	 * Releases the timer and abort listener held by this deadline. This should
+	 * be called once the validation has completed (successfully or not).
+	 */
+	public clear(): void {
+		
+		if (this.timer !== undefined) clearTimeout(this.timer);
+		
+		if (this.signal !== false) {
+			
+			this.signal.removeEventListener("abort", this.abortListener);
+			
+		}
+		
+	}
+	
+	/**
+	 * Abandons the validation in response to the signal being aborted.
+	 */
+	protected abort(): void {
+		
+		this.expire(new JWTValidationError("validation was aborted", {
+			code: "VALIDATION_ABORTED",
+			cause: this.signal === false ? undefined : this.signal.reason,
+		}));
+		
+	}
+	
+	/**
+	 * Abandons the validation, unless it has already been abandoned.
+	 *
+	 * @param {JWTValidationError} error The error describing why the
+	 * validation was abandoned.
+	 */
+	protected expire(error: JWTValidationError): void {
+		
+		if (this.error !== undefined) return;
+		
+		this.error = error;
+		this.rejectExpiry(error);
+		this.clear();
+		
+	}
+	
+}
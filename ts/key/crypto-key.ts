@@ -0,0 +1,23 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:24 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+/**
+ * Returns true if the provided value is a WebCrypto CryptoKey, otherwise
+ * false.
+ *
+ * The check relies on the value's `Symbol.toStringTag` rather than on
+ * `instanceof`, as the CryptoKey class is not a global in every runtime (such
+ * as older versions of Node).
+ *
+ * @param {unknown} value The value to check.
+ * @returns {boolean} true if the provided value is a CryptoKey, otherwise
+ * false.
+ */
+export function isCryptoKey(value: unknown): value is CryptoKey {
+	
+	return Object.prototype.toString.call(value) === "[object CryptoKey]";
+	
+}
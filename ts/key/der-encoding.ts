@@ -0,0 +1,150 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 10:20 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+/**
+ * An element of a DER-encoded ASN.1 structure.
+ */
+type DERElement = {
+	
+	/**
+	 * The tag of the element (such as 0x30 for a SEQUENCE).
+	 */
+	tag: number,
+	
+	/**
+	 * The contents of the element.
+	 */
+	contents: Uint8Array,
+	
+};
+
+/**
+ * The tag of an ASN.1 INTEGER.
+ */
+const INTEGER: number = 0x02;
+
+/**
+ * The tag of an ASN.1 BIT STRING.
+ */
+const BIT_STRING: number = 0x03;
+
+/**
+ * The tag of an ASN.1 OCTET STRING.
+ */
+const OCTET_STRING: number = 0x04;
+
+/**
+ * The tag of an ASN.1 OBJECT IDENTIFIER.
+ */
+const OBJECT_IDENTIFIER: number = 0x06;
+
+/**
+ * The tag of an ASN.1 SEQUENCE.
+ */
+const SEQUENCE: number = 0x30;
+
+/**
+ * Returns the consecutive DER-encoded elements that make up the provided
+ * bytes, or undefined if the bytes are not made up entirely of well-formed
+ * elements.
+ *
+ * Only the single-byte tags and definite lengths (of up to four bytes) used
+ * by key encodings are supported.
+ *
+ * @param {Uint8Array} bytes The bytes to parse.
+ * @returns {DERElement[] | undefined} The elements that make up the bytes.
+ */
+function parseDERElements(bytes: Uint8Array): DERElement[] | undefined {
+	
+	const elements: DERElement[] = [];
+	let offset: number = 0;
+	
+	while (offset < bytes.length) {
+		
+		if (offset + 2 > bytes.length) return undefined;
+		
+		const tag: number = bytes[offset++];
+		let length: number = bytes[offset++];
+		
+		if (length > 0x80 && length <= 0x84) {
+			
+			const lengthBytes: number = length - 0x80;
+			
+			if (offset + lengthBytes > bytes.length) return undefined;
+			
+			length = 0;
+			
+			for (let i: number = 0; i < lengthBytes; i++) {
+				
+				length = length * 256 + bytes[offset++];
+				
+			}
+			
+		} else if (length >= 0x80) return undefined;
+		
+		if (offset + length > bytes.length) return undefined;
+		
+		elements.push({
+			tag,
+			contents: bytes.subarray(offset, offset + length),
+		});
+		
+		offset += length;
+		
+	}
+	
+	return elements;
+	
+}
+
+/**
+ * Returns true if the provided element is an AlgorithmIdentifier (a SEQUENCE
+ * beginning with an OBJECT IDENTIFIER), otherwise false.
+ *
+ * @param {DERElement} element The element to check.
+ * @returns {boolean} true if the element is an AlgorithmIdentifier.
+ */
+function isAlgorithmIdentifier(element: DERElement): boolean {
+	
+	if (element.tag !== SEQUENCE) return false;
+	
+	return parseDERElements(element.contents)?.[0]?.tag === OBJECT_IDENTIFIER;
+	
+}
+
+/**
+ * Returns true if the provided bytes have the structure of a DER-encoded SPKI
+ * public key or PKCS#8 private key, otherwise false.
+ *
+ * This allows public and private keys to be told apart from raw secrets
+ * without importing them, such that they can be refused as HMAC secrets (as
+ * when a public key is presented as the secret in order to forge a JWT).
+ *
+ * @param {Uint8Array} bytes The bytes to inspect.
+ * @returns {boolean} true if the bytes appear to contain a DER-encoded SPKI
+ * or PKCS#8 key, otherwise false.
+ */
+export function isDEREncodedKey(bytes: Uint8Array): boolean {
+	
+	const [outer, ...rest] = parseDERElements(bytes) ?? [];
+	
+	if (outer?.tag !== SEQUENCE || rest.length > 0) return false;
+	
+	const members: DERElement[] = parseDERElements(outer.contents) ?? [];
+	
+	// SubjectPublicKeyInfo ::= SEQUENCE { algorithm, subjectPublicKey }
+	if (members.length === 2 && isAlgorithmIdentifier(members[0]) &&
+		members[1].tag === BIT_STRING) {
+		
+		return true;
+		
+	}
+	
+	// PrivateKeyInfo ::= SEQUENCE { version, algorithm, privateKey, ... }
+	return members.length >= 3 && members[0].tag === INTEGER &&
+		isAlgorithmIdentifier(members[1]) && members[2].tag === OCTET_STRING;
+	
+}
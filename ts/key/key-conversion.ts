@@ -0,0 +1,520 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:55 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { JSONWebKey } from "../jwk/json-web-key.js";
+import { JSONWebKeyOperation } from "../types/jwk-types.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+import { isCryptoKey } from "./crypto-key.js";
+
+/**
+ * The minimum modulus length, in bits, of RSA keys used with the RS* family
+ * of algorithms, as required by RFC 7518, section 3.3.
+ */
+export const MINIMUM_RSA_MODULUS_LENGTH: number = 2048;
+
+const DER_PRIVATE_KEY_ENCODINGS: Array<"pkcs8" | "pkcs1" | "sec1"> = [
+	"pkcs8",
+	"pkcs1",
+	"sec1",
+];
+
+/**
+ * A key in one of the forms handled directly by this module.
+ */
+type NormalizedKey = string | Buffer | crypto.KeyObject | JSONWebKey;
+
+const DER_PUBLIC_KEY_ENCODINGS: Array<"spki" | "pkcs1"> = [
+	"spki",
+	"pkcs1",
+];
+
+/**
+ * Returns true if the provided Buffer appears to contain PEM-encoded data
+ * rather than raw DER-encoded data.
+ *
+ * @param {Buffer} key The Buffer to inspect.
+ * @returns {boolean} true if the provided Buffer appears to contain
+ * PEM-encoded data, otherwise false.
+ */
+function isPEMBuffer(key: Buffer): boolean {
+	
+	return key.includes("-----BEGIN ");
+	
+}
+
+/**
+ * Converts the provided JWK into a KeyObject, having first ensured that its
+ * 'use' and 'key_ops' parameters permit the specified operation.
+ *
+ * @param {JSONWebKey} key The JWK to convert.
+ * @param {JSONWebKeyOperation} operation The operation that the key is going
+ * to be used for.
+ * @returns {crypto.KeyObject} A KeyObject for the provided JWK.
+ */
+function jwkToKeyObject(key: JSONWebKey,
+						operation: JSONWebKeyOperation): crypto.KeyObject {
+	
+	if (!key.permitsOperation(operation)) {
+		
+		throw new JWTKeyError(
+			`the JWK's 'use' or 'key_ops' parameters do not permit it to be ` +
+			`used for the '${operation}' operation`
+		);
+		
+	}
+	
+	return key.toKeyObject();
+	
+}
+
+/**
+ * Converts the provided WebCrypto CryptoKey into a KeyObject.
+ *
+ * @param {CryptoKey} key The CryptoKey to convert.
+ * @returns {crypto.KeyObject} A KeyObject for the provided CryptoKey.
+ */
+function cryptoKeyToKeyObject(key: CryptoKey): crypto.KeyObject {
+	
+	return crypto.KeyObject.from(key as crypto.webcrypto.CryptoKey);
+	
+}
+
+/**
+ * Returns the provided key in one of the forms handled directly by this
+ * module: CryptoKeys are converted into KeyObjects, other Uint8Arrays into
+ * Buffers, and plain JWK objects into JSONWebKeys.
+ *
+ * @param {SigningKey | VerificationKey} key The key to normalize.
+ * @returns {NormalizedKey} The normalized key.
+ */
+function normalizeKey(key: SigningKey | VerificationKey): NormalizedKey {
+	
+	if (isCryptoKey(key)) return cryptoKeyToKeyObject(key);
+	
+	if (typeof key === "string" || key instanceof crypto.KeyObject ||
+		key instanceof JSONWebKey) {
+		
+		return key;
+		
+	} else if (key instanceof Uint8Array) {
+		
+		return Buffer.isBuffer(key) ?
+			key :
+			Buffer.from(key.buffer, key.byteOffset, key.byteLength);
+		
+	}
+	
+	return JSONWebKey.fromJSON(key);
+	
+}
+
+/**
+ * Converts the provided key into a 'secret' KeyObject, suitable for use with
+ * the HMAC family of algorithms.
+ * 
+ * Strings and Buffers containing PEM-encoded keys are rejected, so that an
+ * asymmetric public key can never be used as an HMAC secret.
+ *
+ * @param {SigningKey | VerificationKey} key The string, Buffer, KeyObject or
+ * JWK secret to convert.
+ * @param {JSONWebKeyOperation} operation The operation that the key is going
+ * to be used for.
+ * @returns {crypto.KeyObject} A 'secret' KeyObject for the provided key.
+ */
+export function toSecretKeyObject(key: SigningKey | VerificationKey,
+								  operation: JSONWebKeyOperation,
+): crypto.KeyObject {
+	
+	let normalizedKey: NormalizedKey = normalizeKey(key);
+	
+	if (normalizedKey instanceof JSONWebKey) {
+		
+		normalizedKey = jwkToKeyObject(normalizedKey, operation);
+		
+	}
+	
+	if (normalizedKey instanceof crypto.KeyObject) {
+		
+		if (normalizedKey.type !== "secret") {
+			
+			throw new JWTKeyError(
+				"expected a 'secret' key, but received a " +
+				`'${normalizedKey.type}' key`
+			);
+			
+		}
+		
+		return normalizedKey;
+		
+	}
+	
+	const buffer: Buffer =
+		typeof normalizedKey === "string" ?
+			Buffer.from(normalizedKey, "utf8") :
+			normalizedKey;
+	
+	// Refuse PEM-encoded keys, which are almost certainly public keys that are
+	// being used (or abused) to verify HMAC signatures.
+	if (isPEMBuffer(buffer)) {
+		
+		throw new JWTKeyError(
+			"PEM-encoded asymmetric keys cannot be used as HMAC secrets"
+		);
+		
+	}
+	
+	return crypto.createSecretKey(buffer);
+	
+}
+
+/**
+ * Converts the provided key into a 'private' KeyObject.
+ *
+ * Strings and Buffers containing PEM-encoded keys are parsed as such, while
+ * any other Buffer is parsed as a DER-encoded PKCS#8, PKCS#1 or SEC1 key.
+ *
+ * @param {SigningKey} key The PEM string, PEM/DER Buffer, KeyObject or JWK
+ * private key to convert.
+ * @param {JSONWebKeyOperation} operation The operation that the key is going
+ * to be used for. Defaults to 'sign'.
+ * @returns {crypto.KeyObject} A 'private' KeyObject for the provided key.
+ */
+export function toPrivateKeyObject(key: SigningKey,
+								   operation: JSONWebKeyOperation = "sign",
+): crypto.KeyObject {
+	
+	let normalizedKey: NormalizedKey = normalizeKey(key);
+	
+	if (normalizedKey instanceof JSONWebKey) {
+		
+		normalizedKey = jwkToKeyObject(normalizedKey, operation);
+		
+	}
+	
+	if (normalizedKey instanceof crypto.KeyObject) {
+		
+		if (normalizedKey.type !== "private") {
+			
+			throw new JWTKeyError(
+				"expected a 'private' key, but received a " +
+				`'${normalizedKey.type}' key`
+			);
+			
+		}
+		
+		return normalizedKey;
+		
+	}
+	
+	if (typeof normalizedKey === "string" || isPEMBuffer(normalizedKey)) {
+		
+		try {
+			
+			return crypto.createPrivateKey(normalizedKey);
+			
+		} catch (error: any) {
+			
+			throw new JWTKeyError("failed to parse PEM-encoded private key");
+			
+		}
+		
+	}
+	
+	for (const type of DER_PRIVATE_KEY_ENCODINGS) {
+		
+		try {
+			
+			return crypto.createPrivateKey({
+				key: normalizedKey,
+				format: "der",
+				type,
+			});
+			
+		} catch (error: any) {
+			
+			// Try the next encoding.
+			
+		}
+		
+	}
+	
+	throw new JWTKeyError("failed to parse DER-encoded private key");
+	
+}
+
+/**
+ * Converts the provided key into a 'public' KeyObject.
+ *
+ * Strings and Buffers containing PEM-encoded keys are parsed as such, while
+ * any other Buffer is parsed as a DER-encoded SPKI or PKCS#1 key. If a private
+ * key is provided, the corresponding public key is derived from it.
+ *
+ * @param {VerificationKey} key The PEM string, PEM/DER Buffer, KeyObject or
+ * JWK public (or private) key to convert.
+ * @param {JSONWebKeyOperation} operation The operation that the key is going
+ * to be used for. Defaults to 'verify'.
+ * @returns {crypto.KeyObject} A 'public' KeyObject for the provided key.
+ */
+export function toPublicKeyObject(key: VerificationKey,
+								  operation: JSONWebKeyOperation = "verify",
+): crypto.KeyObject {
+	
+	let normalizedKey: NormalizedKey = normalizeKey(key);
+	
+	if (normalizedKey instanceof JSONWebKey) {
+		
+		normalizedKey = jwkToKeyObject(normalizedKey, operation);
+		
+	}
+	
+	if (normalizedKey instanceof crypto.KeyObject) {
+		
+		switch (normalizedKey.type) {
+			
+			case "public": return normalizedKey;
+			case "private": return crypto.createPublicKey(normalizedKey);
+			
+		}
+		
+		throw new JWTKeyError(
+			"expected a 'public' or 'private' key, but received a 'secret' key"
+		);
+		
+	}
+	
+	if (typeof normalizedKey === "string" || isPEMBuffer(normalizedKey)) {
+		
+		try {
+			
+			return crypto.createPublicKey(normalizedKey);
+			
+		} catch (error: any) {
+			
+			throw new JWTKeyError("failed to parse PEM-encoded public key");
+			
+		}
+		
+	}
+	
+	for (const type of DER_PUBLIC_KEY_ENCODINGS) {
+		
+		try {
+			
+			return crypto.createPublicKey({
+				key: normalizedKey,
+				format: "der",
+				type,
+			});
+			
+		} catch (error: any) {
+			
+			// Try the next encoding.
+			
+		}
+		
+	}
+	
+	try {
+		
+		return crypto.createPublicKey(toPrivateKeyObject(normalizedKey));
+		
+	} catch (error: any) {
+		
+		throw new JWTKeyError("failed to parse DER-encoded public key");
+		
+	}
+	
+}
+
+/**
+ * Returns the type of the provided signing or verification key: 'secret' for
+ * symmetric keys, or the asymmetric key type (as in
+ * `KeyObject.asymmetricKeyType`) for asymmetric keys.
+ * 
+ * Strings and Buffers are considered to be asymmetric keys if they contain a
+ * PEM-encoded key (or, for Buffers, a DER-encoded public or private key), and
+ * are otherwise considered to be raw secrets.
+ *
+ * @param {SigningKey | VerificationKey} key The key whose type should be
+ * returned.
+ * @returns {string} The type of the provided key.
+ */
+export function getKeyType(key: SigningKey | VerificationKey): string {
+	
+	const normalizedKey: NormalizedKey = normalizeKey(key);
+	
+	if (normalizedKey instanceof JSONWebKey) {
+		
+		switch (normalizedKey.getKeyType()) {
+			
+			case "oct": return "secret";
+			case "RSA": return "rsa";
+			case "EC": return "ec";
+			case "OKP":
+				return (normalizedKey.getCurve() as string).toLowerCase();
+			
+		}
+		
+	}
+	
+	if (normalizedKey instanceof crypto.KeyObject) {
+		
+		return normalizedKey.asymmetricKeyType ?? "secret";
+		
+	}
+	
+	if (typeof normalizedKey === "string" &&
+		!normalizedKey.includes("-----BEGIN ")) {
+		
+		return "secret";
+		
+	}
+	
+	try {
+		
+		return toPublicKeyObject(normalizedKey).asymmetricKeyType ?? "secret";
+		
+	} catch (error: any) {
+		
+		if (typeof normalizedKey === "string" ||
+			isPEMBuffer(normalizedKey)) {
+			
+			throw error;
+			
+		}
+		
+		return "secret";
+		
+	}
+	
+}
+
+/**
+ * Ensures that the provided asymmetric KeyObject is of one of the specified
+ * asymmetric key types, and that it is otherwise suitable for use with the
+ * specified algorithm, throwing a {@link JWTKeyError} if it is not.
+ *
+ * @param {crypto.KeyObject} key The asymmetric KeyObject to check.
+ * @param {string[]} allowedTypes The asymmetric key types (as in
+ * `KeyObject.asymmetricKeyType`) that are acceptable for the specified
+ * algorithm.
+ * @param {string} algorithm The 'alg' identifier of the algorithm the key is
+ * going to be used with.
+ */
+export function assertAsymmetricKeyType(key: crypto.KeyObject,
+										allowedTypes: string[],
+										algorithm: string): void {
+	
+	const keyType: string | undefined = key.asymmetricKeyType;
+	
+	if (keyType === undefined || !allowedTypes.includes(keyType)) {
+		
+		throw new JWTKeyError(
+			`a '${keyType ?? key.type}' key cannot be used with the ` +
+			`'${algorithm}' algorithm`
+		);
+		
+	}
+	
+	if (keyType === "rsa" || keyType === "rsa-pss") {
+		
+		const modulusLength: number | undefined =
+			key.asymmetricKeyDetails?.modulusLength;
+		
+		if (modulusLength !== undefined &&
+			modulusLength < MINIMUM_RSA_MODULUS_LENGTH) {
+			
+			throw new JWTKeyError(
+				`RSA keys used with the '${algorithm}' algorithm must be at ` +
+				`least ${MINIMUM_RSA_MODULUS_LENGTH} bits in length, but the ` +
+				`provided key is only ${modulusLength} bits in length`
+			);
+			
+		}
+		
+	}
+	
+}
+
+/**
+ * Ensures that the provided elliptic curve KeyObject is on the specified named
+ * curve, throwing a {@link JWTKeyError} if it is not.
+ * 
+ * @param {crypto.KeyObject} key The elliptic curve KeyObject to check.
+ * @param {string} namedCurve The named curve (as in
+ * `KeyObject.asymmetricKeyDetails.namedCurve`) that the key must be on.
+ * @param {string} algorithm The 'alg' identifier of the algorithm the key is
+ * going to be used with.
+ */
+export function assertNamedCurve(key: crypto.KeyObject,
+								 namedCurve: string,
+								 algorithm: string): void {
+	
+	const keyCurve: string | undefined =
+		key.asymmetricKeyDetails?.namedCurve;
+	
+	if (keyCurve !== undefined && keyCurve !== namedCurve) {
+		
+		throw new JWTKeyError(
+			`keys used with the '${algorithm}' algorithm must be on the ` +
+			`'${namedCurve}' curve, but the provided key is on the ` +
+			`'${keyCurve}' curve`
+		);
+		
+	}
+	
+}
+
+/**
+ * Ensures that the provided key is suitable for use with the provided
+ * algorithm, throwing a {@link JWTKeyMismatchError} if it is not.
+ * 
+ * This guards against algorithm confusion, in which (for example) an RSA
+ * public key is used as the secret with which an HMAC signature is verified.
+ *
+ * @param {SigningKey | VerificationKey} key The key to check.
+ * @param {SigningAlgorithm} algorithm The algorithm the key is going to be
+ * used with.
+ */
+export function assertKeyFitsSigningAlgorithm(
+	key: SigningKey | VerificationKey,
+	algorithm: SigningAlgorithm,
+): void {
+	
+	const normalizedKey: NormalizedKey = normalizeKey(key);
+	const keyType: string = getKeyType(normalizedKey);
+	
+	if (!algorithm.keyTypes.includes(keyType)) {
+		
+		throw new JWTKeyMismatchError(
+			`a '${keyType}' key cannot be used to verify a JWT signed ` +
+			`using the '${algorithm.identifier}' algorithm`
+		);
+		
+	}
+	
+	if (normalizedKey instanceof JSONWebKey) {
+		
+		const keyAlgorithm: string | undefined = normalizedKey.getAlgorithm();
+		
+		if (keyAlgorithm !== undefined &&
+			keyAlgorithm !== algorithm.identifier) {
+			
+			throw new JWTKeyMismatchError(
+				"the verification key is restricted to the " +
+				`'${keyAlgorithm}' algorithm, but the JWT was signed ` +
+				`using the '${algorithm.identifier}' algorithm`
+			);
+			
+		}
+		
+	}
+	
+}
@@ -23,9 +23,93 @@
 /**
  * NPM main class used for exporting this package's contents.
  *
+ * This is the core entry point, which only depends on WebCrypto
+ * (`globalThis.crypto.subtle`), and so can be loaded in browsers, Deno and
+ * edge runtimes. The parts of this package that depend on Node's built-in
+ * modules are exported from the Node entry point (`tsjwt/node`) instead.
+ *
  * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
  * @version v0.1.0
  * @since v0.1.0
  */
 
-// export { ClassName } from "./class-location";
+export { AbstractJSONWebToken } from "./jwt/abstract-json-web-token.js";
+export { JSONWebToken, SigningOptions } from "./jwt/json-web-token.js";
+export {
+	JSONWebTokenBuilder,
+	TokenProfile,
+} from "./jwt/json-web-token-builder.js";
+export {
+	UnsecuredJSONWebToken,
+} from "./jwt/unsecured-json-web-token.js";
+export {
+	DecodedJSONWebToken,
+	ValidationOptions,
+} from "./jwt/decoded-json-web-token.js";
+export {
+	SigningAlgorithmRegistry,
+	getBuiltInSigningAlgorithms,
+} from "./algorithm/signing-algorithm-registry.js";
+export {
+	detectCryptoBackend,
+	getDefaultCryptoBackend,
+	setDefaultCryptoBackend,
+	resetDefaultCryptoBackend,
+} from "./crypto/crypto-backend.js";
+export { WebCryptoBackend } from "./crypto/web-crypto-backend.js";
+export {
+	installCryptoRuntime,
+	getCryptoRuntime,
+} from "./crypto/crypto-runtime.js";
+export {
+	encodeBase64URL,
+	decodeBase64URL,
+	encodeBase64URLString,
+	decodeBase64URLString,
+	encodeUTF8,
+	decodeUTF8,
+} from "./encoding/base64url.js";
+export {
+	CriticalHeaderRegistry,
+	getBuiltInCriticalHeaderHandlers,
+} from "./header/critical-header-registry.js";
+export { getClaimsSchemaViolations } from "./claims/claims-schema.js";
+export { readClock, readClockAsNumericDate } from "./claims/clock.js";
+export { parseDuration, resolveTimeSpecifier } from "./claims/duration.js";
+export {
+	areAudiencesAllowed,
+	isAudienceAllowed,
+} from "./claims/audience-matching.js";
+export { InMemoryReplayStore } from "./replay/in-memory-replay-store.js";
+export {
+	createRevocationList,
+	isRevokedByList,
+} from "./revocation/revocation-list.js";
+export {
+	InMemoryRevocationChecker,
+} from "./revocation/in-memory-revocation-checker.js";
+export { JWTParsingError } from "./error/jwt-parsing-error.js";
+export { JWTValidationError } from "./error/jwt-validation-error.js";
+export { JWTKeyError } from "./error/jwt-key-error.js";
+export { JWKParsingError } from "./error/jwk-parsing-error.js";
+export { JWKSetFetchError } from "./error/jwk-set-fetch-error.js";
+export { JWEDecryptionError } from "./error/jwe-decryption-error.js";
+export { JWTKeyNotFoundError } from "./error/jwt-key-not-found-error.js";
+export { JWTKeyMismatchError } from "./error/jwt-key-mismatch-error.js";
+export { JWTClaimsSchemaError } from "./error/jwt-claims-schema-error.js";
+export { RevocationListError } from "./error/revocation-list-error.js";
+export * from "./types/json-types.js";
+export * from "./types/jwt-types.js";
+export * from "./types/key-types.js";
+export * from "./types/algorithm-types.js";
+export * from "./types/jwk-types.js";
+export * from "./types/jwe-types.js";
+export * from "./types/jws-types.js";
+export * from "./types/header-types.js";
+export * from "./types/claims-types.js";
+export * from "./types/validator-types.js";
+export * from "./types/error-types.js";
+export * from "./types/validation-report-types.js";
+export * from "./types/replay-types.js";
+export * from "./types/revocation-types.js";
+export * from "./types/crypto-backend-types.js";
@@ -0,0 +1,96 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:55 AM -- October 20th, 2026.
+ * Project: tsjwt
+ * 
+ * tsjwt - A JSON Web Token implementation in TypeScript.
+ * Copyright (C) 2022 Trevor Sears
+ * 
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ * 
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ * 
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * NPM entry point used for exporting this package's contents under Node.
+ *
+ * In addition to everything exported by the core entry point, this exports
+ * the parts of this package that depend on Node's built-in modules, and
+ * installs a crypto runtime built on top of `node:crypto`, allowing JWTs to be
+ * signed and verified synchronously.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+
+import { installCryptoRuntime } from "./crypto/crypto-runtime.js";
+import { NodeCryptoBackend } from "./crypto/node-crypto-backend.js";
+import {
+	createNodeSigningAlgorithms,
+} from "./algorithm/node-signing-algorithms.js";
+import { assertKeyFitsSigningAlgorithm } from "./key/key-conversion.js";
+
+installCryptoRuntime({
+	createSigningAlgorithms: createNodeSigningAlgorithms,
+	assertKeyFitsSigningAlgorithm,
+	createCryptoBackend: (): NodeCryptoBackend => new NodeCryptoBackend(),
+});
+
+export * from "./main.js";
+export { NodeCryptoBackend } from "./crypto/node-crypto-backend.js";
+export {
+	createNodeSigningAlgorithms,
+} from "./algorithm/node-signing-algorithms.js";
+export {
+	createHMACSigningAlgorithm,
+} from "./algorithm/hmac-signing-algorithm.js";
+export {
+	createRSASigningAlgorithm,
+	createRSAPSSSigningAlgorithm,
+} from "./algorithm/rsa-signing-algorithm.js";
+export {
+	createECDSASigningAlgorithm,
+} from "./algorithm/ecdsa-signing-algorithm.js";
+export {
+	createEdDSASigningAlgorithm,
+} from "./algorithm/eddsa-signing-algorithm.js";
+export {
+	EncryptedJSONWebToken,
+} from "./jwe/encrypted-json-web-token.js";
+export {
+	DecryptedJSONWebToken,
+	DecryptionOptions,
+} from "./jwe/decrypted-json-web-token.js";
+export {
+	AbstractJSONWebSignature,
+} from "./jws/abstract-json-web-signature.js";
+export { JSONWebSignature } from "./jws/json-web-signature.js";
+export {
+	DecodedJSONWebSignature,
+	SignatureVerificationOptions,
+} from "./jws/decoded-json-web-signature.js";
+export {
+	FileRevocationChecker,
+} from "./revocation/file-revocation-checker.js";
+export { JSONWebKey } from "./jwk/json-web-key.js";
+export { JSONWebKeySet } from "./jwk/json-web-key-set.js";
+export {
+	createJSONWebKeySetResolver,
+	selectVerificationKey,
+} from "./jwk/json-web-key-set-resolver.js";
+export {
+	JSONWebKeySetClient,
+	JSONWebKeySetClientOptions,
+	JSONWebKeySetFetchFunction,
+	JSONWebKeySetFetchResponse,
+} from "./jwk/json-web-key-set-client.js";
@@ -0,0 +1,107 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:18 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import { ReplayStore } from "../types/replay-types.js";
+import { Clock } from "../types/claims-types.js";
+import { readClock } from "../claims/clock.js";
+
+/**
+ * A {@link ReplayStore} that keeps the JWT IDs it has seen in memory, each
+ * being forgotten once its expiry time has passed.
+ *
+ * As its contents are neither persisted nor shared, this store is only
+ * suitable for applications that run as a single process.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class InMemoryReplayStore implements ReplayStore {
+	
+	/**
+	 * The JWT IDs that have been seen, mapped to the times (in seconds since
+	 * the Unix epoch) until which they should be remembered.
+	 */
+	protected entries: Map<string, number>;
+	
+	/**
+	 * The clock against which the expiry times of entries are checked.
+	 */
+	protected clock: Clock;
+	
+	public constructor(clock: Clock = Date.now) {
+		
+		this.entries = new Map();
+		this.clock = clock;
+		
+	}
+	
+	/**
+	 * Records the provided JWT ID as having been seen, unless it has already
+	 * been seen and has not yet expired.
+	 *
+	 * @param {string} jwtID The JWT ID to record.
+	 * @param {number} expiresAt The time until which the JWT ID should be
+	 * remembered, in seconds since the Unix epoch.
+	 * @returns {boolean} true if the JWT ID had not yet been seen, otherwise
+	 * false.
+	 */
+	public checkAndSet(jwtID: string, expiresAt: number): boolean {
+		
+		this.prune();
+		
+		if (this.entries.has(jwtID)) return false;
+		
+		this.entries.set(jwtID, expiresAt);
+		
+		return true;
+		
+	}
+	
+	/**
+	 * Returns true if the provided JWT ID has been seen and has not yet
+	 * expired, otherwise false.
+	 *
+	 * @param {string} jwtID The JWT ID to look up.
+	 * @returns {boolean} true if the JWT ID has been seen, otherwise false.
+	 */
+	public has(jwtID: string): boolean {
+		
+		this.prune();
+		
+		return this.entries.has(jwtID);
+		
+	}
+	
+	/**
+	 * Returns the number of JWT IDs currently remembered by this store.
+	 *
+	 * @returns {number} The number of JWT IDs remembered by this store.
+	 */
+	public getSize(): number {
+		
+		this.prune();
+		
+		return this.entries.size;
+		
+	}
+	
+	/**
+	 * Forgets every JWT ID whose expiry time has passed.
+	 */
+	protected prune(): void {
+		
+		const currentTime: number = readClock(this.clock) / 1000;
+		
+		for (const [jwtID, expiresAt] of this.entries) {
+			
+			if (expiresAt < currentTime) this.entries.delete(jwtID);
+			
+		}
+		
+	}
+	
+}
@@ -0,0 +1,265 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:29 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import * as fs from "node:fs";
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+} from "../types/jwt-types.js";
+import {
+	FileRevocationCheckerOptions,
+	RevocationChecker,
+	RevocationList,
+} from "../types/revocation-types.js";
+import { RevocationListError } from "../error/revocation-list-error.js";
+import { createRevocationList, isRevokedByList } from "./revocation-list.js";
+import { readClock } from "../claims/clock.js";
+
+/**
+ * Returns true if the provided value is an array of strings, otherwise false.
+ *
+ * @param {unknown} value The value to check.
+ * @returns {boolean} true if the value is an array of strings, otherwise
+ * false.
+ */
+function isStringArray(value: unknown): value is string[] {
+	
+	return Array.isArray(value) &&
+		value.every((entry: unknown): boolean => typeof entry === "string");
+	
+}
+
+/**
+ * A {@link RevocationChecker} that reads its {@link RevocationList} from a
+ * JSON file, such as one distributed alongside an application, reloading it
+ * whenever the file changes.
+ *
+ * The file should contain a JSON object with any of the 'jwtIDs', 'subjects'
+ * and 'keyIDs' members of a RevocationList. It is checked for changes (by its
+ * modification time and size) when a JWT is checked, though no more
+ * frequently than once per check interval, so as not to stat the file on
+ * every validation.
+ *
+ * If the file cannot be read or parsed when it is first loaded, a
+ * {@link RevocationListError} is thrown. If it later becomes unreadable or
+ * malformed (such as while it is being replaced), the previously loaded list
+ * continues to be used until the file can be loaded again.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class FileRevocationChecker implements RevocationChecker {
+	
+	/**
+	 * The path to the JSON file containing the revocation list.
+	 */
+	protected path: string;
+	
+	/**
+	 * The most recently loaded revocation list.
+	 */
+	protected list: RevocationList;
+	
+	/**
+	 * A string identifying the version of the file from which the revocation
+	 * list was most recently loaded, or undefined if it has not been loaded.
+	 */
+	protected loadedVersion: string | undefined;
+	
+	/**
+	 * The time (in milliseconds since the epoch) at which the file was most
+	 * recently checked for changes, or undefined if it has not been checked.
+	 */
+	protected lastCheckTime: number | undefined;
+	
+	/**
+	 * The options that govern the behavior of this checker.
+	 */
+	protected options: FileRevocationCheckerOptions;
+	
+	/**
+	 * Initializes a new FileRevocationChecker for the JSON file at the
+	 * specified path, loading the revocation list from it immediately.
+	 *
+	 * @param {string} path The path to the JSON file containing the
+	 * revocation list.
+	 * @param {Partial<FileRevocationCheckerOptions>} options An optional
+	 * object containing various options that govern the behavior of this
+	 * checker.
+	 */
+	public constructor(path: string,
+					   options: Partial<FileRevocationCheckerOptions> = {}) {
+		
+		this.path = path;
+		this.list = createRevocationList();
+		this.loadedVersion = undefined;
+		this.lastCheckTime = undefined;
+		this.options = {
+			...FileRevocationChecker.getDefaultOptions(),
+			...options,
+		};
+		
+		this.reloadIfChanged();
+		
+	}
+	
+	/**
+	 * Returns the default set of options for a FileRevocationChecker.
+	 *
+	 * @returns {FileRevocationCheckerOptions} The default set of options.
+	 */
+	public static getDefaultOptions(): FileRevocationCheckerOptions {
+		
+		return {
+			checkInterval: 1000,
+			clock: Date.now,
+		};
+		
+	}
+	
+	/**
+	 * Returns true if the JWT with the provided headers and payload has been
+	 * revoked, otherwise false, first reloading the revocation list if the
+	 * check interval has elapsed and the file has changed.
+	 *
+	 * @param {JSONWebTokenHeaders} headers The headers of the JWT.
+	 * @param {JSONWebTokenPayload} payload The payload of the JWT.
+	 * @returns {boolean} true if the JWT has been revoked, otherwise false.
+	 */
+	public isRevoked(headers: JSONWebTokenHeaders,
+					 payload: JSONWebTokenPayload): boolean {
+		
+		const currentTime: number = readClock(this.options.clock);
+		
+		if (this.lastCheckTime === undefined ||
+			currentTime - this.lastCheckTime >= this.options.checkInterval) {
+			
+			this.reloadIfChanged();
+			
+		}
+		
+		return isRevokedByList(this.list, headers, payload);
+		
+	}
+	
+	/**
+	 * Reloads the revocation list from the file if the file has changed since
+	 * it was last loaded.
+	 *
+	 * If the file cannot be read or parsed, the previously loaded list is
+	 * kept, and a {@link RevocationListError} is only thrown if no list has
+	 * ever been loaded.
+	 */
+	public reloadIfChanged(): void {
+		
+		this.lastCheckTime = readClock(this.options.clock);
+		
+		try {
+			
+			this.reload();
+			
+		} catch (error: any) {
+			
+			if (this.loadedVersion === undefined) throw error;
+			
+		}
+		
+	}
+	
+	/**
+	 * Reloads the revocation list from the file if the file has changed since
+	 * it was last loaded, throwing a {@link RevocationListError} if it cannot
+	 * be read or parsed.
+	 */
+	protected reload(): void {
+		
+		let stats: fs.Stats;
+		
+		try {
+			
+			stats = fs.statSync(this.path);
+			
+		} catch (error: any) {
+			
+			throw new RevocationListError(
+				`the file '${this.path}' could not be read`
+			);
+			
+		}
+		
+		const version: string = `${stats.mtimeMs}:${stats.size}`;
+		
+		if (version === this.loadedVersion) return;
+		
+		this.list = this.readRevocationList();
+		this.loadedVersion = version;
+		
+	}
+	
+	/**
+	 * Reads and parses the revocation list from the file, throwing a
+	 * {@link RevocationListError} if it is malformed.
+	 *
+	 * @returns {RevocationList} The revocation list read from the file.
+	 */
+	protected readRevocationList(): RevocationList {
+		
+		let parsed: any;
+		
+		try {
+			
+			parsed = JSON.parse(fs.readFileSync(this.path, "utf8"));
+			
+		} catch (error: any) {
+			
+			throw new RevocationListError(
+				`the file '${this.path}' could not be read and parsed as JSON`
+			);
+			
+		}
+		
+		if (typeof parsed !== "object" || parsed === null ||
+			Array.isArray(parsed)) {
+			
+			throw new RevocationListError(
+				`the file '${this.path}' was found not to contain a JSON ` +
+				"object"
+			);
+			
+		}
+		
+		const list: RevocationList = {
+			...createRevocationList(),
+			...parsed,
+		};
+		
+		if (!isStringArray(list.jwtIDs) || !isStringArray(list.keyIDs)) {
+			
+			throw new RevocationListError(
+				"the 'jwtIDs' and 'keyIDs' members of the revocation list " +
+				"were found not to be arrays of strings"
+			);
+			
+		}
+		
+		if (typeof list.subjects !== "object" || list.subjects === null ||
+			Array.isArray(list.subjects) ||
+			Object.values(list.subjects).some((cutoff: unknown): boolean =>
+				typeof cutoff !== "number")) {
+			
+			throw new RevocationListError(
+				"the 'subjects' member of the revocation list was found not " +
+				"to map subjects to numeric cutoff times"
+			);
+			
+		}
+		
+		return list;
+		
+	}
+	
+}
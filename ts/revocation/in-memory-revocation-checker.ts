@@ -0,0 +1,106 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:14 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+} from "../types/jwt-types.js";
+import {
+	RevocationChecker,
+	RevocationList,
+} from "../types/revocation-types.js";
+import {
+	createRevocationList,
+	isRevokedByList,
+} from "./revocation-list.js";
+
+/**
+ * A {@link RevocationChecker} that keeps its {@link RevocationList} in memory,
+ * allowing JWTs to be revoked by 'jti' (JWT ID), by 'sub' (subject) for those
+ * issued at or before a cutoff time, or by the 'kid' (key ID) of the key used
+ * to sign them.
+ *
+ * @author Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/)
+ * @version v0.1.0
+ * @since v0.1.0
+ */
+export class InMemoryRevocationChecker implements RevocationChecker {
+	
+	/**
+	 * The list of revoked JWTs.
+	 */
+	protected list: RevocationList;
+	
+	public constructor(list: Partial<RevocationList> = {}) {
+		
+		const { jwtIDs, subjects, keyIDs }: RevocationList =
+			{ ...createRevocationList(), ...list };
+		
+		this.list = {
+			jwtIDs: [...jwtIDs],
+			subjects: { ...subjects },
+			keyIDs: [...keyIDs],
+		};
+		
+	}
+	
+	/**
+	 * Revokes the JWT with the provided 'jti' (JWT ID) claim.
+	 *
+	 * @param {string} jwtID The JWT ID to revoke.
+	 */
+	public revokeJWTID(jwtID: string): void {
+		
+		if (!this.list.jwtIDs.includes(jwtID)) this.list.jwtIDs.push(jwtID);
+		
+	}
+	
+	/**
+	 * Revokes every JWT with the provided 'sub' (subject) claim that was
+	 * issued at or before the provided cutoff time (to the second), such as in
+	 * order to log a user out everywhere.
+	 *
+	 * @param {string} subject The subject whose JWTs should be revoked.
+	 * @param {Date} issuedBefore The cutoff time at or before which JWTs are
+	 * revoked.
+	 * Defaults to the current time.
+	 */
+	public revokeSubject(subject: string,
+						 issuedBefore: Date = new Date()): void {
+		
+		this.list.subjects[subject] =
+			Math.floor(issuedBefore.getTime() / 1000);
+		
+	}
+	
+	/**
+	 * Revokes every JWT signed using the key with the provided 'kid' (key ID),
+	 * such as when the key has been compromised.
+	 *
+	 * @param {string} keyID The ID of the compromised key.
+	 */
+	public revokeKeyID(keyID: string): void {
+		
+		if (!this.list.keyIDs.includes(keyID)) this.list.keyIDs.push(keyID);
+		
+	}
+	
+	/**
+	 * Returns true if the JWT with the provided headers and payload has been
+	 * revoked, otherwise false.
+	 *
+	 * @param {JSONWebTokenHeaders} headers The headers of the JWT.
+	 * @param {JSONWebTokenPayload} payload The payload of the JWT.
+	 * @returns {boolean} true if the JWT has been revoked, otherwise false.
+	 */
+	public isRevoked(headers: JSONWebTokenHeaders,
+					 payload: JSONWebTokenPayload): boolean {
+		
+		return isRevokedByList(this.list, headers, payload);
+		
+	}
+	
+}
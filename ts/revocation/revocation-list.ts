@@ -0,0 +1,57 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:06 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+} from "../types/jwt-types.js";
+import { RevocationList } from "../types/revocation-types.js";
+
+/**
+ * Returns a new, empty {@link RevocationList}.
+ *
+ * @returns {RevocationList} A new, empty revocation list.
+ */
+export function createRevocationList(): RevocationList {
+	
+	return { jwtIDs: [], subjects: {}, keyIDs: [] };
+	
+}
+
+/**
+ * Returns true if the JWT with the provided headers and payload is revoked by
+ * the provided {@link RevocationList}, otherwise false.
+ *
+ * @param {RevocationList} list The revocation list to consult.
+ * @param {JSONWebTokenHeaders} headers The headers of the JWT.
+ * @param {JSONWebTokenPayload} payload The payload of the JWT.
+ * @returns {boolean} true if the JWT is revoked, otherwise false.
+ */
+export function isRevokedByList(list: RevocationList,
+								headers: JSONWebTokenHeaders,
+								payload: JSONWebTokenPayload): boolean {
+	
+	const { jti, sub, iat } = payload;
+	
+	if (typeof jti === "string" && list.jwtIDs.includes(jti)) return true;
+	
+	if (typeof headers.kid === "string" &&
+		list.keyIDs.includes(headers.kid)) {
+		
+		return true;
+		
+	}
+	
+	if (typeof sub === "string" &&
+		Object.prototype.hasOwnProperty.call(list.subjects, sub)) {
+		
+		return typeof iat !== "number" || iat <= list.subjects[sub];
+		
+	}
+	
+	return false;
+	
+}
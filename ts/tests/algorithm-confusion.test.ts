@@ -0,0 +1,172 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:52 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import {
+	DecodedJSONWebToken,
+	ValidationOptions,
+} from "../jwt/decoded-json-web-token.js";
+import { SigningAlgorithmRegistry } from "../algorithm/signing-algorithm-registry.js";
+import { createHMACSigningAlgorithm } from "../algorithm/hmac-signing-algorithm.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+
+const { privateKey, publicKey } =
+	crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const publicKeyPEM: string =
+	publicKey.export({ type: "spki", format: "pem" }) as string;
+
+const publicKeyDER: Buffer = publicKey.export({ type: "spki", format: "der" });
+
+function encodeSegment(value: object): string {
+	
+	return Buffer.from(JSON.stringify(value)).toString("base64url");
+	
+}
+
+/**
+ * Returns an HS256 JWT whose HMAC signature was created using the provided
+ * public key as the secret, as an attacker would.
+ */
+function forgeToken(key: string | Buffer): string {
+	
+	const signingInput: string = [
+		encodeSegment({ alg: "HS256", typ: "JWT" }),
+		encodeSegment({ sub: "admin", exp: Math.floor(Date.now() / 1000) + 60 }),
+	].join(".");
+	
+	const signature: string = crypto.createHmac("SHA256", key)
+		.update(signingInput)
+		.digest("base64url");
+	
+	return `${signingInput}.${signature}`;
+	
+}
+
+describe("Algorithm allowlist", (): void => {
+	
+	const token: string = new JSONWebToken(
+		{ sub: "johns", exp: Math.floor(Date.now() / 1000) + 60 },
+		privateKey,
+		"RS256",
+	).toString();
+	
+	const options: Partial<ValidationOptions> = {
+		validateNotBeforeClaim: false,
+	};
+	
+	test("JWTs signed using an allowed algorithm are accepted", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, publicKey,
+			{ ...options, allowedAlgorithms: ["RS256", "ES256"] },
+		)).not.toThrow();
+		
+	});
+	
+	test("JWTs signed using a disallowed algorithm are rejected", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, publicKey,
+			{ ...options, allowedAlgorithms: ["ES256"] },
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Key resolvers are not consulted for disallowed algorithms", (): void => {
+		
+		const resolver: jest.Mock = jest.fn((): crypto.KeyObject => publicKey);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, resolver,
+			{ ...options, allowedAlgorithms: ["HS256"] },
+		)).toThrow(JWTValidationError);
+		
+		expect(resolver).not.toHaveBeenCalled();
+		
+	});
+	
+});
+
+describe("Key confusion", (): void => {
+	
+	test("HS256 JWTs signed with a PEM public key are rejected by validate", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			forgeToken(publicKeyPEM), true, publicKeyPEM,
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("HS256 JWTs signed with a PEM public key are rejected by validateSignature", (): void => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(forgeToken(publicKeyPEM), false);
+		
+		expect((): boolean => decoded.validateSignature(publicKeyPEM))
+			.toThrow(JWTKeyMismatchError);
+		expect((): boolean => decoded.validateSignature(
+			Buffer.from(publicKeyPEM)
+		)).toThrow(JWTKeyMismatchError);
+		
+	});
+	
+	test("HS256 JWTs signed with a DER public key are rejected by validateSignature", (): void => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(forgeToken(publicKeyDER), false);
+		
+		expect((): boolean => decoded.validateSignature(publicKeyDER))
+			.toThrow(JWTKeyMismatchError);
+		expect((): boolean => decoded.validateSecret(publicKeyDER))
+			.toThrow(JWTKeyMismatchError);
+		
+	});
+	
+	test("PEM-encoded keys cannot be used as HMAC signing secrets", (): void => {
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" },
+			publicKeyPEM,
+			"HS256",
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+});
+
+describe("Unsecured JWTs", (): void => {
+	
+	afterEach(SigningAlgorithmRegistry.resetDefault);
+	
+	test.each(["none", "None", "NONE"])("'alg: %s' is always rejected", (alg: string): void => {
+		
+		const token: string = [
+			encodeSegment({ alg, typ: "JWT" }),
+			encodeSegment({ sub: "admin" }),
+			"c2lnbmF0dXJl",
+		].join(".");
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, "hunter2", { allowedAlgorithms: [alg] },
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Signing algorithms cannot be registered as 'none'", (): void => {
+		
+		expect((): void => SigningAlgorithmRegistry.getDefault().register(
+			{ ...createHMACSigningAlgorithm("HS256", "SHA256"), identifier: "none" }
+		)).toThrow();
+		
+	});
+	
+});
@@ -0,0 +1,146 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:06 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import {
+	SigningAlgorithmRegistry,
+} from "../algorithm/signing-algorithm-registry.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { SigningAlgorithm } from "../types/algorithm-types.js";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+
+/**
+ * A toy 'experimental' algorithm that signs using SHA3-256 over the secret
+ * and the signing input.
+ */
+const experimentalAlgorithm: SigningAlgorithm = {
+	identifier: "X-SHA3-256",
+	keyTypes: ["secret"],
+	sign: (input: string, key: SigningKey): string =>
+		crypto.createHash("SHA3-256")
+			.update(key as string)
+			.update(input)
+			.digest("base64url"),
+	verify: (input: string, signature: string, key: VerificationKey): boolean =>
+		experimentalAlgorithm.sign(input, key as string) === signature,
+};
+
+afterEach((): void => SigningAlgorithmRegistry.resetDefault());
+
+describe("Default registry", (): void => {
+	
+	test("Contains every built-in algorithm", (): void => {
+		
+		expect(SigningAlgorithmRegistry.getDefault().getEnabledIdentifiers())
+			.toEqual([
+				"HS256", "HS384", "HS512",
+				"PS256", "PS384", "PS512",
+				"RS256", "RS384", "RS512",
+				"ES256", "ES256K", "ES384", "ES512",
+				"EdDSA",
+			]);
+		
+	});
+	
+	test("Registering a duplicate identifier throws", (): void => {
+		
+		expect((): void => SigningAlgorithmRegistry.getDefault().register({
+			...experimentalAlgorithm,
+			identifier: "HS256",
+		})).toThrow();
+		
+	});
+	
+});
+
+describe("Custom algorithms", (): void => {
+	
+	test("Registered algorithms can be used for signing and verification", (): void => {
+		
+		SigningAlgorithmRegistry.getDefault().register(experimentalAlgorithm);
+		
+		const token: string = new JSONWebToken(
+			{ sub: "johns" },
+			"hunter2",
+			"X-SHA3-256",
+		).toString();
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(token, false);
+		
+		expect(decoded.getHashingAlgorithmIdentifier()).toBe("X-SHA3-256");
+		expect(decoded.validateSignature("hunter2")).toBeTruthy();
+		expect(decoded.validateSignature("wrong-secret")).toBeFalsy();
+		
+	});
+	
+	test("Unregistered algorithms are rejected", (): void => {
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" },
+			"hunter2",
+			"X-SHA3-256",
+		).toString()).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Built-in algorithms can be replaced", (): void => {
+		
+		SigningAlgorithmRegistry.getDefault().register({
+			...experimentalAlgorithm,
+			identifier: "HS256",
+		}, true);
+		
+		const jwt: JSONWebToken =
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256");
+		
+		expect(jwt.getSignature()).toBe(experimentalAlgorithm.sign(
+			`${jwt.getEncodedHeaders()}.${jwt.getEncodedPayload()}`,
+			"hunter2",
+		));
+		
+	});
+	
+});
+
+describe("Disabling and unregistering algorithms", (): void => {
+	
+	const token: string =
+		new JSONWebToken({ sub: "johns" }, "hunter2", "HS256").toString();
+	
+	test("Disabled algorithms are rejected", (): void => {
+		
+		SigningAlgorithmRegistry.getDefault().disable("HS256");
+		
+		expect((): boolean => DecodedJSONWebToken.decode(token, false)
+			.validateSignature("hunter2")).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Re-enabled algorithms are accepted", (): void => {
+		
+		SigningAlgorithmRegistry.getDefault().disable("HS256");
+		SigningAlgorithmRegistry.getDefault().enable("HS256");
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature("hunter2")).toBeTruthy();
+		
+	});
+	
+	test("Unregistered built-in algorithms are rejected", (): void => {
+		
+		expect(SigningAlgorithmRegistry.getDefault().unregister("HS256"))
+			.toBeTruthy();
+		
+		expect((): boolean => DecodedJSONWebToken.decode(token, false)
+			.validateSignature("hunter2")).toThrow(JWTParsingError);
+		
+	});
+	
+});
@@ -0,0 +1,146 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 6:31 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { KeyResolver, VerificationKey } from "../types/key-types.js";
+import {
+	ValidationCheckResult,
+	ValidationReport,
+} from "../types/validation-report-types.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+
+const token: string = new JSONWebToken(
+	{ sub: "johns", nbf: now, exp: now + 600 }, secret, "HS256"
+).toString();
+
+/**
+ * Returns a key resolver that resolves to the secret after the provided
+ * number of milliseconds.
+ */
+function createSlowResolver(delay: number): KeyResolver {
+	
+	return (): Promise<VerificationKey> => new Promise(
+		(resolve: (key: VerificationKey) => void): void => {
+			
+			setTimeout((): void => resolve(secret), delay);
+			
+		}
+	);
+	
+}
+
+describe("Asynchronous validation timeouts", (): void => {
+	
+	test("Slow validations are rejected", async (): Promise<void> => {
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			token, true, createSlowResolver(1000), { timeout: 20 }
+		)).rejects.toMatchObject({ code: "VALIDATION_TIMED_OUT" });
+		
+	});
+	
+	test("Validations within the timeout pass", async (): Promise<void> => {
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			token, true, createSlowResolver(5), { timeout: 5000 }
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+	});
+	
+	test("Custom validators are timed", async (): Promise<void> => {
+		
+		await expect(DecodedJSONWebToken.decodeAsync(token, true, secret, {
+			timeout: 20,
+			tokenValidators: [
+				(): Promise<boolean> => new Promise(
+					(resolve: (valid: boolean) => void): void => {
+						
+						setTimeout((): void => resolve(true), 1000);
+						
+					}
+				),
+			],
+		})).rejects.toMatchObject({ code: "VALIDATION_TIMED_OUT" });
+		
+	});
+	
+});
+
+describe("Aborting asynchronous validation", (): void => {
+	
+	test("Validations are abandoned on abort", async (): Promise<void> => {
+		
+		const controller: AbortController = new AbortController();
+		const validation: Promise<DecodedJSONWebToken> =
+			DecodedJSONWebToken.decodeAsync(
+				token, true, createSlowResolver(1000),
+				{ signal: controller.signal },
+			);
+		
+		controller.abort("shutting down");
+		
+		await expect(validation).rejects.toMatchObject({
+			code: "VALIDATION_ABORTED",
+			cause: "shutting down",
+		});
+		
+	});
+	
+	test("No checks are run if already aborted", async (): Promise<void> => {
+		
+		const controller: AbortController = new AbortController();
+		const resolver: jest.Mock = jest.fn((): string => secret);
+		
+		controller.abort();
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			token, true, resolver, { signal: controller.signal }
+		)).rejects.toMatchObject({ code: "VALIDATION_ABORTED" });
+		expect(resolver).not.toHaveBeenCalled();
+		
+	});
+	
+	test("Abandoned validations are reported", async (): Promise<void> => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(token, false);
+		
+		const report: ValidationReport = await decoded.getValidationReportAsync(
+			createSlowResolver(1000), { timeout: 20 }
+		);
+		
+		const signature: number = report.checks.findIndex(
+			(result: ValidationCheckResult): boolean =>
+				result.check === "signature"
+		);
+		
+		expect(report.valid).toBe(false);
+		expect(report.checks[signature].error?.code)
+			.toBe("VALIDATION_TIMED_OUT");
+		expect(report.checks.slice(signature + 1).every(
+			(result: ValidationCheckResult): boolean =>
+				result.status === "skip"
+		)).toBe(true);
+		
+	});
+	
+	test("Synchronous validation is unaffected", (): void => {
+		
+		const controller: AbortController = new AbortController();
+		
+		controller.abort();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, { signal: controller.signal, timeout: 0 }
+		)).not.toThrow();
+		
+	});
+	
+});
@@ -0,0 +1,210 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:14 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import {
+	DecodedJSONWebToken,
+	ValidationOptions,
+} from "../jwt/decoded-json-web-token.js";
+import {
+	areAudiencesAllowed,
+	isAudienceAllowed,
+} from "../claims/audience-matching.js";
+import { JSONValue } from "../types/json-types.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+
+/**
+ * Returns true if a JWT with the provided 'aud' claim passes validation using
+ * the provided options, otherwise false.
+ */
+function passes(aud: JSONValue | undefined,
+				options: Partial<ValidationOptions>): boolean {
+	
+	const token: string =
+		new JSONWebToken({ aud, nbf: now }, secret, "HS256").toString();
+	
+	try {
+		
+		DecodedJSONWebToken.decode(token, true, secret, {
+			validateExpirationTimeClaim: false,
+			...options,
+		});
+		
+		return true;
+		
+	} catch (error: unknown) {
+		
+		if (error instanceof JWTValidationError) return false;
+		else throw error;
+		
+	}
+	
+}
+
+describe("Array-valued audiences", (): void => {
+	
+	const options: Partial<ValidationOptions> = {
+		allowableAudiences: ["api", "billing"],
+	};
+	
+	test("String audiences are still supported", (): void => {
+		
+		expect(passes("api", options)).toBeTruthy();
+		expect(passes("admin", options)).toBeFalsy();
+		
+	});
+	
+	test("Any matching audience is sufficient by default", (): void => {
+		
+		expect(passes(["admin", "api"], options)).toBeTruthy();
+		expect(passes(["admin", "reports"], options)).toBeFalsy();
+		
+	});
+	
+	test("The 'all' policy requires every audience to match", (): void => {
+		
+		const all: Partial<ValidationOptions> =
+			{ ...options, audiencePolicy: "all" };
+		
+		expect(passes(["billing", "api"], all)).toBeTruthy();
+		expect(passes(["admin", "api"], all)).toBeFalsy();
+		
+	});
+	
+	test("Missing audiences require an 'undefined' entry", (): void => {
+		
+		expect(passes(undefined, options)).toBeFalsy();
+		expect(passes([], options)).toBeFalsy();
+		
+		const allowingNone: Partial<ValidationOptions> =
+			{ allowableAudiences: ["api", undefined] };
+		
+		expect(passes(undefined, allowingNone)).toBeTruthy();
+		expect(passes([], allowingNone)).toBeTruthy();
+		
+	});
+	
+	test("Rejections report the 'aud' claim", (): void => {
+		
+		const token: string = new JSONWebToken(
+			{ aud: ["admin"], nbf: now }, secret, "HS256"
+		).toString();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, {
+				...options,
+				validateExpirationTimeClaim: false,
+			}
+		)).toThrow(expect.objectContaining({ claim: "aud" }));
+		
+	});
+	
+});
+
+describe("Audience matching", (): void => {
+	
+	test("Prefix matching", (): void => {
+		
+		const allowable = ["https://api.example.com/"];
+		
+		expect(isAudienceAllowed(
+			"https://api.example.com/v2", allowable, "prefix"
+		)).toBeTruthy();
+		expect(isAudienceAllowed(
+			"https://api.example.com.evil.com/", allowable, "prefix"
+		)).toBeFalsy();
+		expect(isAudienceAllowed(
+			"https://api.example.com/v2", allowable, "exact"
+		)).toBeFalsy();
+		
+	});
+	
+	test("Origin matching with wildcards", (): void => {
+		
+		const allowable = ["https://*.example.com"];
+		
+		expect(isAudienceAllowed(
+			"https://acme.example.com/api", allowable, "origin"
+		)).toBeTruthy();
+		expect(isAudienceAllowed(
+			"https://a.b.example.com", allowable, "origin"
+		)).toBeFalsy();
+		expect(isAudienceAllowed(
+			"http://acme.example.com", allowable, "origin"
+		)).toBeFalsy();
+		expect(isAudienceAllowed(
+			"https://acme.example.com.evil.com", allowable, "origin"
+		)).toBeFalsy();
+		expect(isAudienceAllowed("not a url", allowable, "origin"))
+			.toBeFalsy();
+		
+	});
+	
+	test("Origin matching without wildcards", (): void => {
+		
+		expect(isAudienceAllowed(
+			"https://api.example.com/v1", ["https://api.example.com/"], "origin"
+		)).toBeTruthy();
+		expect(isAudienceAllowed(
+			"https://api.example.com:8443",
+			["https://api.example.com"],
+			"origin",
+		)).toBeFalsy();
+		
+	});
+	
+	test("Regular expressions are always tested directly", (): void => {
+		
+		const allowable = [/^urn:acme:[a-z]+$/];
+		
+		expect(isAudienceAllowed("urn:acme:billing", allowable, "exact"))
+			.toBeTruthy();
+		expect(isAudienceAllowed("urn:globex:billing", allowable, "prefix"))
+			.toBeFalsy();
+		expect(isAudienceAllowed(undefined, allowable, "exact")).toBeFalsy();
+		
+	});
+	
+	test("Global and sticky regular expressions match consistently", (): void => {
+		
+		for (const pattern of [/^api$/g, /api/y, /api/gy]) {
+			
+			for (let i: number = 0; i < 3; i++) {
+				
+				expect(isAudienceAllowed("api", [pattern], "exact")).toBeTruthy();
+				expect(passes(["api", "api"], {
+					allowableAudiences: [pattern],
+					audiencePolicy: "all",
+				})).toBeTruthy();
+				
+			}
+			
+		}
+		
+	});
+	
+	test("Modes and policies combine during validation", (): void => {
+		
+		expect(areAudiencesAllowed(
+			["https://acme.example.com", "https://globex.example.com"],
+			["https://*.example.com"],
+			"origin",
+			"all",
+		)).toBeTruthy();
+		
+		expect(passes(["https://acme.example.com/api", "urn:acme"], {
+			allowableAudiences: ["https://*.example.com", /^urn:/],
+			audienceMatching: "origin",
+			audiencePolicy: "all",
+		})).toBeTruthy();
+		
+	});
+	
+});
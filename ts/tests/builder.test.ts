@@ -0,0 +1,207 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 3:52 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebTokenBuilder } from "../jwt/json-web-token-builder.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { parseDuration } from "../claims/duration.js";
+import { Duration } from "../types/claims-types.js";
+
+const secret: string = "hunter2";
+
+// 12:00 AM -- January 1st, 2020 (UTC).
+const epoch: Date = new Date(Date.UTC(2020, 0, 1));
+const then: number = epoch.getTime() / 1000;
+
+describe("Durations", (): void => {
+	
+	test("Durations are parsed into seconds", (): void => {
+		
+		expect(parseDuration("30s")).toBe(30);
+		expect(parseDuration("15m")).toBe(900);
+		expect(parseDuration("1.5h")).toBe(5400);
+		expect(parseDuration("7d")).toBe(604800);
+		expect(parseDuration("2w")).toBe(1209600);
+		expect(parseDuration("-5m")).toBe(-300);
+		
+	});
+	
+	test("Malformed durations are rejected", (): void => {
+		
+		expect((): number => parseDuration("15 minutes" as Duration))
+			.toThrow("malformed duration");
+		expect((): number => parseDuration("m" as Duration)).toThrow();
+		
+	});
+	
+});
+
+describe("Building JWTs", (): void => {
+	
+	test("Registered claims are set via typed setters", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebTokenBuilder({ clock: epoch })
+			.setIssuer("https://auth.example.com")
+			.setSubject("johns")
+			.setAudience(["api", "web"])
+			.setExpirationTime("15m")
+			.setNotBefore(new Date(epoch.getTime() + 60 * 1000))
+			.setJWTID("abc123")
+			.build(secret, "HS256");
+		
+		expect(jwt.getPayload()).toStrictEqual({
+			iss: "https://auth.example.com",
+			sub: "johns",
+			aud: ["api", "web"],
+			exp: then + 900,
+			nbf: then + 60,
+			iat: then,
+			jti: "abc123",
+		});
+		
+	});
+	
+	test("The 'iat' and 'jti' claims are stamped by default", (): void => {
+		
+		const first: JSONWebToken = new JSONWebTokenBuilder().build(
+			secret, "HS256"
+		);
+		const second: JSONWebToken = new JSONWebTokenBuilder().build(
+			secret, "HS256"
+		);
+		
+		expect(typeof first.getPayload().iat).toBe("number");
+		expect(typeof first.getPayload().jti).toBe("string");
+		expect(first.getPayload().jti).not.toBe(second.getPayload().jti);
+		
+	});
+	
+	test("Stamping can be disabled", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebTokenBuilder({
+			stampIssuedAt: false,
+			generateJWTID: false,
+		}).setSubject("johns").build(secret, "HS256");
+		
+		expect(jwt.getPayload()).toStrictEqual({ sub: "johns" });
+		
+	});
+	
+	test("Custom headers are included", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebTokenBuilder()
+			.setKeyID("2026-10")
+			.setContentType("JWT")
+			.setHeader("x-tenant", "acme")
+			.build(secret, "HS256");
+		
+		expect(jwt.getHeaders()).toStrictEqual({
+			typ: "JWT",
+			alg: "HS256",
+			kid: "2026-10",
+			cty: "JWT",
+			"x-tenant": "acme",
+		});
+		
+	});
+	
+	test("The 'alg' header cannot be set directly", (): void => {
+		
+		expect((): JSONWebTokenBuilder =>
+			new JSONWebTokenBuilder().setHeader("alg", "none")
+		).toThrow("'alg' header");
+		
+	});
+	
+	test("Built JWTs can be decoded and validated", (): void => {
+		
+		const token: string = new JSONWebTokenBuilder()
+			.setSubject("johns")
+			.setNotBefore("0s")
+			.setExpirationTime("1h")
+			.sign(secret, "HS256");
+		
+		expect(DecodedJSONWebToken.decode(token, true, secret).getPayload().sub)
+			.toBe("johns");
+		
+	});
+	
+});
+
+describe("Token profiles", (): void => {
+	
+	const profile = {
+		issuer: "https://auth.example.com",
+		audience: "api",
+		expiresIn: "1h",
+		notBefore: "-30s",
+		headers: { kid: "2026-10" },
+		clock: epoch,
+	} as const;
+	
+	test("Profile defaults are applied", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebTokenBuilder({
+			...profile,
+			generateJWTID: false,
+		}).setSubject("johns").build(secret, "HS256");
+		
+		expect(jwt.getPayload()).toStrictEqual({
+			iss: "https://auth.example.com",
+			aud: "api",
+			iat: then,
+			nbf: then - 30,
+			exp: then + 3600,
+			sub: "johns",
+		});
+		expect(jwt.getHeaders().kid).toBe("2026-10");
+		
+	});
+	
+	test("Explicitly set claims override profile defaults", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebTokenBuilder(profile)
+			.setAudience("web")
+			.setExpirationTime("5m")
+			.setKeyID("2026-11")
+			.build(secret, "HS256");
+		
+		expect(jwt.getPayload()).toMatchObject({ aud: "web", exp: then + 300 });
+		expect(jwt.getHeaders().kid).toBe("2026-11");
+		
+	});
+	
+	test("Typed payloads can be built", (): void => {
+		
+		type Claims = { sub: string, role: "admin" | "member" };
+		
+		const jwt: JSONWebToken<Claims> = new JSONWebTokenBuilder<Claims>()
+			.setClaims({ sub: "johns", role: "admin" })
+			.build(secret, "HS256");
+		
+		const role: "admin" | "member" = jwt.getPayload().role;
+		
+		expect(role).toBe("admin");
+		
+	});
+	
+});
+
+describe("Payload fields", (): void => {
+	
+	test("Non-string payload fields can be set", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken({}, secret, "HS256");
+		
+		jwt.setPayloadField("exp", then);
+		jwt.setPayloadField("roles", ["admin"]);
+		
+		expect(jwt.getPayload()).toStrictEqual({ exp: then, roles: ["admin"] });
+		
+	});
+	
+});
@@ -0,0 +1,215 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 12:19 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { getClaimsSchemaViolations } from "../claims/claims-schema.js";
+import { ClaimsSchema, ClaimsSchemaViolation } from "../types/claims-types.js";
+import { JWTClaimsSchemaError } from "../error/jwt-claims-schema-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+type Claims = {
+	sub: string,
+	nbf: number,
+	role: "admin" | "member",
+	scopes: string[],
+	address?: {
+		city: string,
+		zip?: string,
+	},
+};
+
+const schema: ClaimsSchema = {
+	sub: { type: "string", required: true },
+	role: { type: "string", required: true, enum: ["admin", "member"] },
+	scopes: { type: "array", required: true, items: { type: "string" } },
+	address: {
+		type: "object",
+		properties: {
+			city: { type: "string", required: true },
+			zip: { type: "string" },
+		},
+		additionalProperties: false,
+	},
+};
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+const options = { validateExpirationTimeClaim: false, claimsSchema: schema };
+
+describe("Typed payloads", (): void => {
+	
+	test("Payloads are typed by the type parameter", (): void => {
+		
+		const jwt: JSONWebToken<Claims> = new JSONWebToken<Claims>(
+			{ sub: "johns", nbf: now, role: "admin", scopes: ["read"] },
+			secret,
+			"HS256",
+		);
+		
+		const decoded: DecodedJSONWebToken<Claims> =
+			DecodedJSONWebToken.decode<Claims>(
+				jwt.toString(), true, secret, options
+			);
+		
+		const role: "admin" | "member" = decoded.getPayload().role;
+		const scopes: string[] = decoded.getPayload().scopes;
+		
+		expect(role).toBe("admin");
+		expect(scopes).toStrictEqual(["read"]);
+		
+	});
+	
+	test("Typed payloads can be decoded asynchronously", async (): Promise<void> => {
+		
+		const jwt: JSONWebToken<Claims> = new JSONWebToken<Claims>(
+			{ sub: "johns", nbf: now, role: "member", scopes: [] },
+			secret,
+			"HS256",
+		);
+		
+		const decoded: DecodedJSONWebToken<Claims> =
+			await DecodedJSONWebToken.decodeAsync<Claims>(
+				jwt.toString(), true, secret, options
+			);
+		
+		expect(decoded.getPayload().role).toBe("member");
+		
+	});
+	
+});
+
+describe("Schema validation", (): void => {
+	
+	test("Payloads matching the schema pass validation", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken({
+			sub: "johns",
+			nbf: now,
+			role: "member",
+			scopes: ["read", "write"],
+			address: { city: "Springfield" },
+			extra: true,
+		}, secret, "HS256");
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			jwt.toString(), true, secret, options
+		)).not.toThrow();
+		
+	});
+	
+	test("Payloads violating the schema fail validation", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken({
+			nbf: now,
+			role: "root",
+			scopes: ["read", 7],
+		}, secret, "HS256");
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			jwt.toString(), true, secret, options
+		)).toThrow(JWTValidationError);
+		
+		try {
+			
+			DecodedJSONWebToken.decode(jwt.toString(), true, secret, options);
+			
+		} catch (error: unknown) {
+			
+			expect(error).toBeInstanceOf(JWTClaimsSchemaError);
+			expect((error as JWTClaimsSchemaError).violations.map(
+				(violation: ClaimsSchemaViolation): string[] =>
+					[violation.path, violation.reason]
+			)).toStrictEqual([
+				["sub", "missing"],
+				["role", "enum"],
+				["scopes[1]", "type"],
+			]);
+			
+		}
+		
+	});
+	
+	test("Schema validation is disabled by default", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ nbf: now, role: "root" }, secret, "HS256"
+		);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			jwt.toString(), true, secret, { validateExpirationTimeClaim: false }
+		)).not.toThrow();
+		
+	});
+	
+});
+
+describe("Schema violations", (): void => {
+	
+	test("Nested objects are checked", (): void => {
+		
+		const violations: ClaimsSchemaViolation[] = getClaimsSchemaViolations({
+			sub: "johns",
+			role: "admin",
+			scopes: [],
+			address: { zip: 12345, country: "US" },
+		}, schema);
+		
+		expect(violations.map(
+			(violation: ClaimsSchemaViolation): string[] =>
+				[violation.path, violation.reason]
+		)).toStrictEqual([
+			["address.city", "missing"],
+			["address.zip", "type"],
+			["address.country", "unexpected"],
+		]);
+		
+	});
+	
+	test("Claims of the wrong type are not checked any further", (): void => {
+		
+		const violations: ClaimsSchemaViolation[] = getClaimsSchemaViolations({
+			sub: null,
+			role: ["admin"],
+			scopes: "read",
+			address: [],
+		}, schema);
+		
+		expect(violations.map(
+			(violation: ClaimsSchemaViolation): string => violation.message
+		)).toStrictEqual([
+			"the 'sub' claim was found to be of type 'null', but was " +
+			"expected to be of type 'string'",
+			"the 'role' claim was found to be of type 'array', but was " +
+			"expected to be of type 'string'",
+			"the 'scopes' claim was found to be of type 'string', but was " +
+			"expected to be of type 'array'",
+			"the 'address' claim was found to be of type 'array', but was " +
+			"expected to be of type 'object'",
+		]);
+		
+	});
+	
+	test("Numeric and boolean claims are checked", (): void => {
+		
+		const numericSchema: ClaimsSchema = {
+			level: { type: "number", enum: [1, 2, 3] },
+			verified: { type: "boolean", required: true },
+		};
+		
+		expect(getClaimsSchemaViolations(
+			{ level: 2, verified: false }, numericSchema
+		)).toStrictEqual([]);
+		
+		expect(getClaimsSchemaViolations(
+			{ level: 4, verified: "yes" }, numericSchema
+		).map((violation: ClaimsSchemaViolation): string => violation.reason))
+			.toStrictEqual(["enum", "type"]);
+		
+	});
+	
+});
@@ -0,0 +1,145 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 2:58 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { readClock, readClockAsNumericDate } from "../claims/clock.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+const secret: string = "hunter2";
+
+// 12:00 AM -- January 1st, 2020 (UTC).
+const epoch: Date = new Date(Date.UTC(2020, 0, 1));
+const then: number = epoch.getTime() / 1000;
+
+const historic: string = new JSONWebToken(
+	{ sub: "johns", iat: then, nbf: then, exp: then + 3600 },
+	secret,
+	"HS256",
+).toString();
+
+describe("Reading clocks", (): void => {
+	
+	test("Clocks may be functions, numbers or Dates", (): void => {
+		
+		expect(readClock(epoch)).toBe(epoch.getTime());
+		expect(readClock(epoch.getTime())).toBe(epoch.getTime());
+		expect(readClock((): Date => epoch)).toBe(epoch.getTime());
+		expect(readClock((): number => 1500)).toBe(1500);
+		
+	});
+	
+	test("Clocks can be read as NumericDates", (): void => {
+		
+		expect(readClockAsNumericDate(epoch.getTime() + 999)).toBe(then);
+		
+	});
+	
+});
+
+describe("Validation clocks", (): void => {
+	
+	test("Historic JWTs are expired by default", (): void => {
+		
+		expect((): DecodedJSONWebToken =>
+			DecodedJSONWebToken.decode(historic, true, secret)
+		).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Historic JWTs can be validated using a fixed clock", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			historic, true, secret, {
+				clock: new Date(epoch.getTime() + 60 * 1000),
+				validateIssuedAtClaim: true,
+			}
+		)).not.toThrow();
+		
+	});
+	
+	test("The clock is respected by every time-based check", (): void => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(historic, false);
+		
+		expect((): void => decoded.validate(secret, {
+			clock: epoch.getTime() - 1000,
+			validateExpirationTimeClaim: false,
+			validateNotBeforeClaim: false,
+			validateIssuedAtClaim: true,
+		})).toThrow(expect.objectContaining({
+			code: "TOKEN_ISSUED_IN_FUTURE",
+		}));
+		
+		expect((): void => decoded.validate(secret, {
+			clock: epoch.getTime() + 7200 * 1000,
+		})).toThrow(expect.objectContaining({ code: "TOKEN_EXPIRED" }));
+		
+	});
+	
+	test("The clock is read once per validation", (): void => {
+		
+		const clock = jest.fn((): Date => epoch);
+		
+		DecodedJSONWebToken.decode(historic, true, secret, {
+			clock,
+			validateIssuedAtClaim: true,
+		});
+		
+		expect(clock).toHaveBeenCalledTimes(1);
+		
+	});
+	
+});
+
+describe("Signing clocks", (): void => {
+	
+	test("Claims are not stamped by default", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ sub: "johns" }, secret, "HS256"
+		);
+		
+		expect(jwt.getPayload()).toStrictEqual({ sub: "johns" });
+		
+	});
+	
+	test("The 'iat' and 'exp' claims are stamped using the clock", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ sub: "johns" },
+			secret,
+			"HS256",
+			undefined,
+			{ clock: epoch, stampIssuedAt: true, expiresIn: 900 },
+		);
+		
+		expect(jwt.getPayload()).toStrictEqual({
+			sub: "johns",
+			iat: then,
+			exp: then + 900,
+		});
+		expect(jwt.getHeaders()).toStrictEqual({ typ: "JWT", alg: "HS256" });
+		
+	});
+	
+	test("Claims present in the payload are not overwritten", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ iat: 1, exp: 2 },
+			secret,
+			"HS256",
+			undefined,
+			{ clock: epoch, stampIssuedAt: true, expiresIn: 900 },
+		);
+		
+		expect(jwt.getPayload()).toStrictEqual({ iat: 1, exp: 2 });
+		
+	});
+	
+});
@@ -0,0 +1,129 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 10:05 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import type * as Core from "../main.js";
+
+jest.mock("node:crypto", (): never => {
+	
+	throw new Error("node:crypto is unavailable");
+	
+});
+
+jest.mock("node:fs", (): never => {
+	
+	throw new Error("node:fs is unavailable");
+	
+});
+
+/**
+ * Loads the core entry point into a fresh module registry, in which no crypto
+ * runtime has been installed.
+ */
+function loadCoreEntry(): typeof Core {
+	
+	let core: typeof Core | undefined;
+	
+	jest.isolateModules((): void => {
+		
+		core = require("../main.js");
+		
+	});
+	
+	return core as typeof Core;
+	
+}
+
+describe("Core entry point without Node's built-in modules", (): void => {
+	
+	test("The Node entry point cannot be loaded", (): void => {
+		
+		jest.isolateModules((): void => {
+			
+			expect((): unknown => require("../node.js"))
+				.toThrow("node:crypto is unavailable");
+			
+		});
+		
+	});
+	
+	test("The core entry point loads", (): void => {
+		
+		const core: typeof Core = loadCoreEntry();
+		
+		expect(core.getCryptoRuntime()).toBeUndefined();
+		expect("NodeCryptoBackend" in core).toBe(false);
+		expect("FileRevocationChecker" in core).toBe(false);
+		expect(core.getDefaultCryptoBackend())
+			.toBeInstanceOf(core.WebCryptoBackend);
+		
+	});
+	
+	test("JWTs are signed and verified asynchronously using WebCrypto", async (): Promise<void> => {
+		
+		const core: typeof Core = loadCoreEntry();
+		
+		const token: string = await new core.JSONWebTokenBuilder()
+			.setSubject("johns")
+			.setNotBefore(new Date())
+			.setExpirationTime("5m")
+			.signAsync("hunter2", "HS256");
+		
+		const jwt: Core.DecodedJSONWebToken =
+			await core.DecodedJSONWebToken.decodeAsync(token, true, "hunter2");
+		
+		expect(jwt.getPayload().sub).toBe("johns");
+		await expect(core.DecodedJSONWebToken.decodeAsync(
+			token, true, "hunter3",
+		)).rejects.toThrow("signature");
+		
+	});
+	
+	test("HS256 JWTs signed with a DER public key are rejected", async (): Promise<void> => {
+		
+		const core: typeof Core = loadCoreEntry();
+		const subtle: SubtleCrypto = globalThis.crypto.subtle;
+		const { publicKey } = await subtle.generateKey(
+			{ name: "ECDSA", namedCurve: "P-256" }, true, ["sign", "verify"],
+		) as CryptoKeyPair;
+		const der: Uint8Array =
+			new Uint8Array(await subtle.exportKey("spki", publicKey));
+		const signingInput: string = [
+			{ alg: "HS256", typ: "JWT" },
+			{ sub: "admin" },
+		].map((segment: object): string =>
+			core.encodeBase64URLString(JSON.stringify(segment))
+		).join(".");
+		const hmacKey: CryptoKey = await subtle.importKey(
+			"raw",
+			der as BufferSource,
+			{ name: "HMAC", hash: "SHA-256" },
+			false,
+			["sign"],
+		);
+		const signature: string = core.encodeBase64URL(new Uint8Array(
+			await subtle.sign(
+				"HMAC", hmacKey, core.encodeUTF8(signingInput) as BufferSource,
+			),
+		));
+		
+		await expect(core.DecodedJSONWebToken.decodeAsync(
+			`${signingInput}.${signature}`, true, der,
+		)).rejects.toThrow(core.JWTKeyMismatchError);
+		
+	});
+	
+	test("Synchronous signing and verification require a crypto runtime", (): void => {
+		
+		const core: typeof Core = loadCoreEntry();
+		const jwt: Core.JSONWebToken =
+			new core.JSONWebToken({ sub: "johns" }, "hunter2", "HS256");
+		
+		expect((): string => jwt.toString())
+			.toThrow("without a crypto runtime");
+		
+	});
+	
+});
@@ -0,0 +1,230 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 11:42 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import {
+	CriticalHeaderRegistry,
+} from "../header/critical-header-registry.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JSONWebSignature } from "../jws/json-web-signature.js";
+import { DecodedJSONWebSignature } from "../jws/decoded-json-web-signature.js";
+import { JSONWebTokenHeaders } from "../types/jwt-types.js";
+import { CriticalHeaderHandler } from "../types/header-types.js";
+import { JSONValue } from "../types/json-types.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+const options = { validateExpirationTimeClaim: false };
+
+/**
+ * A handler for a hypothetical 'exp' header that must be a number, as might
+ * be used to bound the lifetime of a detached JWS.
+ */
+const expiryHandler: CriticalHeaderHandler = {
+	parameter: "http://example.com/exp",
+	validate: (value: JSONValue): boolean => typeof value === "number",
+};
+
+/**
+ * Returns an HS256-signed token with the provided headers, bypassing the
+ * checks that are made when signing with {@link JSONWebToken}.
+ */
+function signWithHeaders(headers: JSONWebTokenHeaders): string {
+	
+	const input: string = [
+		Buffer.from(JSON.stringify(headers)).toString("base64url"),
+		Buffer.from(JSON.stringify({ sub: "johns", nbf: now }))
+			.toString("base64url"),
+	].join(".");
+	
+	return input + "." +
+		crypto.createHmac("SHA256", secret).update(input).digest("base64url");
+	
+}
+
+afterEach((): void => CriticalHeaderRegistry.resetDefault());
+
+describe("Default registry", (): void => {
+	
+	test("Supports the 'b64' header", (): void => {
+		
+		expect(CriticalHeaderRegistry.getDefault().getSupportedParameters())
+			.toEqual(["b64"]);
+		
+	});
+	
+	test("Standard headers cannot be registered", (): void => {
+		
+		expect((): void => CriticalHeaderRegistry.getDefault().register({
+			parameter: "alg",
+			validate: (): boolean => true,
+		})).toThrow();
+		
+	});
+	
+	test("Registering a duplicate parameter throws", (): void => {
+		
+		const registry: CriticalHeaderRegistry =
+			CriticalHeaderRegistry.getDefault();
+		
+		registry.register(expiryHandler);
+		
+		expect((): void => registry.register(expiryHandler)).toThrow();
+		expect((): void => registry.register(expiryHandler, true))
+			.not.toThrow();
+		
+	});
+	
+});
+
+describe("Validation", (): void => {
+	
+	const headers: JSONWebTokenHeaders = {
+		alg: "HS256",
+		crit: ["http://example.com/exp"],
+		"http://example.com/exp": 1363284000,
+	};
+	
+	test("Unsupported critical headers are rejected", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			signWithHeaders(headers), true, secret, options
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Registered critical headers are accepted", (): void => {
+		
+		CriticalHeaderRegistry.getDefault().register(expiryHandler);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			signWithHeaders(headers), true, secret, options
+		)).not.toThrow();
+		
+	});
+	
+	test("Critical headers with invalid values are rejected", (): void => {
+		
+		CriticalHeaderRegistry.getDefault().register(expiryHandler);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			signWithHeaders({ ...headers, "http://example.com/exp": "soon" }),
+			true,
+			secret,
+			options,
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Malformed 'crit' headers are rejected", (): void => {
+		
+		CriticalHeaderRegistry.getDefault().register(expiryHandler);
+		
+		const malformed: JSONWebTokenHeaders[] = [
+			{ alg: "HS256", crit: [] },
+			{ alg: "HS256", crit: "b64" },
+			{ alg: "HS256", crit: [64] },
+			{ alg: "HS256", crit: ["alg"] },
+			{ alg: "HS256", crit: ["http://example.com/exp"] },
+		];
+		
+		for (const headers of malformed) {
+			
+			expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+				signWithHeaders(headers), true, secret, options
+			)).toThrow(JWTValidationError);
+			
+		}
+		
+	});
+	
+	test("Critical header validation can be disabled", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			signWithHeaders(headers),
+			true,
+			secret,
+			{ ...options, validateCriticalHeaders: false },
+		)).not.toThrow();
+		
+	});
+	
+	test("Critical headers are validated asynchronously", async (): Promise<void> => {
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			signWithHeaders(headers), true, secret, options
+		)).rejects.toThrow(JWTValidationError);
+		
+	});
+	
+});
+
+describe("Signing", (): void => {
+	
+	test("JWTs with unsupported critical headers are not signed", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ sub: "johns" },
+			secret,
+			"HS256",
+			{ alg: "HS256", crit: ["http://example.com/exp"] },
+		);
+		
+		expect((): string => jwt.toString()).toThrow(JWTValidationError);
+		
+		CriticalHeaderRegistry.getDefault().register(expiryHandler);
+		
+		expect((): string => jwt.toString()).toThrow(JWTValidationError);
+		
+		jwt.getHeaders()["http://example.com/exp"] = 1363284000;
+		
+		expect((): string => jwt.toString()).not.toThrow();
+		
+	});
+	
+	test("JWS signatures with unsupported critical headers fail", (): void => {
+		
+		const protectedHeaders: JSONWebTokenHeaders = {
+			crit: ["http://example.com/exp"],
+			"http://example.com/exp": 1363284000,
+		};
+		
+		expect((): JSONWebSignature => new JSONWebSignature({ sub: "johns" })
+			.addSignature(secret, "HS256", protectedHeaders)
+		).toThrow(JWTValidationError);
+		
+		CriticalHeaderRegistry.getDefault().register(expiryHandler);
+		
+		const jws: JSONWebSignature = new JSONWebSignature({ sub: "johns" })
+			.addSignature(secret, "HS256", protectedHeaders);
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			jws.toString(), true, secret
+		)).not.toThrow();
+		
+		CriticalHeaderRegistry.resetDefault();
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			jws.toString(), true, secret
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("JWS 'crit' headers must be integrity protected", (): void => {
+		
+		const jws: JSONWebSignature = new JSONWebSignature({ sub: "johns" })
+			.addSignature(secret, "HS256", {}, { crit: ["b64"], b64: true });
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			jws.toString(), true, secret
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+});
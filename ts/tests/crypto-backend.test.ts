@@ -0,0 +1,415 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:55 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import type * as Node from "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JSONWebTokenBuilder } from "../jwt/json-web-token-builder.js";
+import { NodeCryptoBackend } from "../crypto/node-crypto-backend.js";
+import { WebCryptoBackend } from "../crypto/web-crypto-backend.js";
+import {
+	getDefaultCryptoBackend,
+	resetDefaultCryptoBackend,
+	setDefaultCryptoBackend,
+} from "../crypto/crypto-backend.js";
+import {
+	decodeBase64URL,
+	decodeBase64URLString,
+	encodeBase64URL,
+	encodeBase64URLString,
+} from "../encoding/base64url.js";
+import { CryptoBackend } from "../types/crypto-backend-types.js";
+import { SigningKey, VerificationKey } from "../types/key-types.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import {
+	SigningAlgorithmRegistry,
+} from "../algorithm/signing-algorithm-registry.js";
+import {
+	createNodeSigningAlgorithms,
+} from "../algorithm/node-signing-algorithms.js";
+
+type KeyPair = { privateKey: crypto.KeyObject, publicKey: crypto.KeyObject };
+
+const rsa: KeyPair =
+	crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const p256: KeyPair =
+	crypto.generateKeyPairSync("ec", { namedCurve: "P-256" });
+const p384: KeyPair =
+	crypto.generateKeyPairSync("ec", { namedCurve: "P-384" });
+const p521: KeyPair =
+	crypto.generateKeyPairSync("ec", { namedCurve: "P-521" });
+const ed25519: KeyPair = crypto.generateKeyPairSync("ed25519");
+const ed448: KeyPair = crypto.generateKeyPairSync("ed448");
+const hmacSecret: Buffer = crypto.randomBytes(64);
+
+// These tests run without the Node crypto runtime installed (as when only the
+// core entry point is loaded), so the Node backend is given its algorithms
+// directly.
+const registry: SigningAlgorithmRegistry =
+	new SigningAlgorithmRegistry(createNodeSigningAlgorithms());
+const nodeBackend: NodeCryptoBackend = new NodeCryptoBackend(registry);
+
+/**
+ * Returns the PEM encodings of the provided key pair.
+ */
+function toPEM(pair: KeyPair): [string, string] {
+	
+	return [
+		pair.privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+		pair.publicKey.export({ type: "spki", format: "pem" }).toString(),
+	];
+	
+}
+
+describe("Portable base64url encoding", (): void => {
+	
+	test("Encodings match Node's base64url encoding", (): void => {
+		
+		for (let length: number = 0; length < 64; length++) {
+			
+			const bytes: Buffer = crypto.randomBytes(length);
+			const encoded: string = encodeBase64URL(bytes);
+			
+			expect(encoded).toBe(bytes.toString("base64url"));
+			expect(Buffer.from(decodeBase64URL(encoded))).toStrictEqual(bytes);
+			
+		}
+		
+	});
+	
+	test("Strings round trip through UTF-8", (): void => {
+		
+		const text: string = "{\"name\":\"Jöhn 🔑\"}";
+		
+		expect(decodeBase64URLString(encodeBase64URLString(text))).toBe(text);
+		
+	});
+	
+	test("Invalid base64url strings are rejected", (): void => {
+		
+		expect((): unknown => decodeBase64URL("ab+c")).toThrow();
+		expect((): unknown => decodeBase64URL("ab=c")).toThrow();
+		expect((): unknown => decodeBase64URL("abcde")).toThrow();
+		
+	});
+	
+});
+
+describe.each([
+	["node", nodeBackend],
+	["webcrypto", new WebCryptoBackend(globalThis.crypto, registry)],
+] as const)("Crypto backend: %s", (name, backend: CryptoBackend): void => {
+	
+	test("The backend reports its name", (): void => {
+		
+		expect(backend.name).toBe(name);
+		
+	});
+	
+	test("The RFC 7515 HS256 test vector is reproduced", async (): Promise<void> => {
+		
+		const key: Buffer = Buffer.from(
+			"AyM1SysPpbyDfgZld3umj1qzKObwVMkoqQ-EstJQLr_T-1qS0gZH75aKtMN3Y" +
+			"j0iPS4hcgUuTwjAzZr1Z9CAow",
+			"base64url",
+		);
+		const input: string =
+			"eyJ0eXAiOiJKV1QiLA0KICJhbGciOiJIUzI1NiJ9.eyJpc3MiOiJqb2UiLA0K" +
+			"ICJleHAiOjEzMDA4MTkzODAsDQogImh0dHA6Ly9leGFtcGxlLmNvbS9pc19yb" +
+			"290Ijp0cnVlfQ";
+		const signature: string = "dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk";
+		
+		await expect(backend.sign("HS256", input, key))
+			.resolves.toBe(signature);
+		await expect(backend.verify("HS256", input, signature, key))
+			.resolves.toBe(true);
+		await expect(backend.verify("HS256", `${input}x`, signature, key))
+			.resolves.toBe(false);
+		
+	});
+	
+	// Every algorithm supported by both backends, with its key and whether or
+	// not its signatures are deterministic.
+	test.each([
+		["HS256", "secret", [hmacSecret, hmacSecret], true],
+		["HS384", "secret", [hmacSecret, hmacSecret], true],
+		["HS512", "secret", [hmacSecret, hmacSecret], true],
+		["RS256", "rsa", toPEM(rsa), true],
+		["RS384", "rsa", toPEM(rsa), true],
+		["RS512", "rsa", toPEM(rsa), true],
+		["PS256", "rsa", toPEM(rsa), false],
+		["PS384", "rsa", toPEM(rsa), false],
+		["PS512", "rsa", toPEM(rsa), false],
+		["ES256", "P-256", toPEM(p256), false],
+		["ES384", "P-384", toPEM(p384), false],
+		["ES512", "P-521", toPEM(p521), false],
+		["EdDSA", "ed25519", toPEM(ed25519), true],
+		["EdDSA", "ed448", toPEM(ed448), true],
+	] as const)("%s (%s) signatures match node:crypto", async (
+		algorithm: string,
+		keyType: string,
+		[privateKey, publicKey]: readonly [SigningKey, VerificationKey],
+		isDeterministic: boolean,
+	): Promise<void> => {
+		
+		const reference: CryptoBackend = nodeBackend;
+		const input: string = "eyJhbGciOiJub25lIn0.eyJzdWIiOiJqb2hucyJ9";
+		
+		const signature: string =
+			await backend.sign(algorithm, input, privateKey);
+		const referenceSignature: string =
+			await reference.sign(algorithm, input, privateKey);
+		
+		if (isDeterministic) expect(signature).toBe(referenceSignature);
+		
+		await expect(reference.verify(algorithm, input, signature, publicKey))
+			.resolves.toBe(true);
+		await expect(backend.verify(
+			algorithm, input, referenceSignature, publicKey,
+		)).resolves.toBe(true);
+		await expect(backend.verify(
+			algorithm, `${input}x`, referenceSignature, publicKey,
+		)).resolves.toBe(false);
+		
+	});
+	
+	test("Uint8Arrays and plain JWK objects are accepted as keys", async (): Promise<void> => {
+		
+		const input: string = "eyJhbGciOiJub25lIn0.eyJzdWIiOiJqb2hucyJ9";
+		const secret: Uint8Array = new Uint8Array(hmacSecret);
+		const privateJWK: JsonWebKey =
+			p256.privateKey.export({ format: "jwk" });
+		const publicJWK: JsonWebKey = p256.publicKey.export({ format: "jwk" });
+		
+		await expect(backend.verify(
+			"HS256", input, await backend.sign("HS256", input, secret), secret,
+		)).resolves.toBe(true);
+		await expect(backend.verify(
+			"ES256", input, await backend.sign("ES256", input, privateJWK),
+			publicJWK,
+		)).resolves.toBe(true);
+		await expect(backend.verify(
+			"ES256", input, "AA", { ...publicJWK, key_ops: ["sign"] },
+		)).rejects.toThrow(JWTKeyError);
+		
+	});
+	
+	test("PEM-encoded keys are rejected as HMAC secrets", async (): Promise<void> => {
+		
+		const [, publicKey] = toPEM(rsa);
+		
+		await expect(backend.verify("HS256", "a.b", "c", publicKey))
+			.rejects.toThrow(JWTKeyMismatchError);
+		
+	});
+	
+	test("DER-encoded keys are rejected as HMAC secrets", async (): Promise<void> => {
+		
+		const publicKey: Buffer =
+			rsa.publicKey.export({ type: "spki", format: "der" });
+		const privateKey: Buffer =
+			p256.privateKey.export({ type: "pkcs8", format: "der" });
+		
+		await expect(backend.verify("HS256", "a.b", "c", publicKey))
+			.rejects.toThrow(JWTKeyMismatchError);
+		await expect(backend.verify(
+			"HS256", "a.b", "c", new Uint8Array(privateKey),
+		)).rejects.toThrow(JWTKeyMismatchError);
+		
+	});
+	
+	test("Disabled algorithms are rejected", async (): Promise<void> => {
+		
+		registry.disable("HS256");
+		
+		try {
+			
+			await expect(backend.sign("HS256", "a.b", hmacSecret)).rejects
+				.toMatchObject({ code: "ALG_NOT_ALLOWED", actual: "HS256" });
+			
+		} finally {
+			
+			registry.enable("HS256");
+			
+		}
+		
+	});
+	
+	test("Custom algorithms are used as registered", async (): Promise<void> => {
+		
+		const customRegistry: SigningAlgorithmRegistry =
+			new SigningAlgorithmRegistry([{
+				identifier: "X-TEST",
+				keyTypes: ["secret"],
+				sign: (input: string): string => encodeBase64URLString(input),
+				verify: (input: string, signature: string): boolean =>
+					signature === encodeBase64URLString(input),
+			}]);
+		const customBackend: CryptoBackend = name === "node" ?
+			new NodeCryptoBackend(customRegistry) :
+			new WebCryptoBackend(globalThis.crypto, customRegistry);
+		const signature: string =
+			await customBackend.sign("X-TEST", "a.b", "secret");
+		
+		expect(signature).toBe(encodeBase64URLString("a.b"));
+		await expect(customBackend.verify("X-TEST", "a.b", signature, "secret"))
+			.resolves.toBe(true);
+		await expect(customBackend.sign("HS256", "a.b", "secret")).rejects
+			.toMatchObject({ code: "ALG_NOT_ALLOWED" });
+		
+	});
+	
+	test("Random bytes of the requested length are returned", (): void => {
+		
+		expect(backend.getRandomBytes(16)).toHaveLength(16);
+		
+	});
+	
+});
+
+describe("Default crypto backend selection", (): void => {
+	
+	afterEach((): void => resetDefaultCryptoBackend());
+	
+	test("The WebCrypto backend is selected without a crypto runtime", (): void => {
+		
+		expect(getDefaultCryptoBackend()).toBeInstanceOf(WebCryptoBackend);
+		
+	});
+	
+	test("The Node backend is selected once the Node entry point is loaded", (): void => {
+		
+		jest.isolateModules((): void => {
+			
+			const node: typeof Node = require("../node.js");
+			
+			expect(node.getDefaultCryptoBackend())
+				.toBeInstanceOf(node.NodeCryptoBackend);
+			
+		});
+		
+	});
+	
+	test("The default backend can be overridden and reset", (): void => {
+		
+		const backend: CryptoBackend = nodeBackend;
+		
+		setDefaultCryptoBackend(backend);
+		expect(getDefaultCryptoBackend()).toBe(backend);
+		
+		resetDefaultCryptoBackend();
+		expect(getDefaultCryptoBackend()).toBeInstanceOf(WebCryptoBackend);
+		
+	});
+	
+});
+
+describe("Asynchronous signing and verification using WebCrypto", (): void => {
+	
+	const backend: WebCryptoBackend = new WebCryptoBackend();
+	
+	test("JWTs are signed and verified using CryptoKeys", async (): Promise<void> => {
+		
+		const { privateKey, publicKey } = await crypto.webcrypto.subtle
+			.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, [
+				"sign",
+				"verify",
+			]) as CryptoKeyPair;
+		
+		const token: string = await new JSONWebTokenBuilder()
+			.setSubject("johns")
+			.setNotBefore(new Date())
+			.setExpirationTime("5m")
+			.signAsync(privateKey, "ES256", backend);
+		
+		const jwt: DecodedJSONWebToken = await DecodedJSONWebToken.decodeAsync(
+			token, true, publicKey, { cryptoBackend: backend },
+		);
+		
+		expect(jwt.getPayload().sub).toBe("johns");
+		await expect(DecodedJSONWebToken.decodeAsync(
+			token, true, publicKey, { cryptoBackend: nodeBackend },
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+	});
+	
+	test("Tokens signed using WebCrypto match those signed using node:crypto", async (): Promise<void> => {
+		
+		const jwt: JSONWebToken =
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256");
+		
+		await expect(jwt.toStringAsync(backend))
+			.resolves.toBe(await jwt.toStringAsync(nodeBackend));
+		
+	});
+	
+	test("Synchronous signing requires a crypto runtime", (): void => {
+		
+		expect((): string =>
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256").toString()
+		).toThrow("without a crypto runtime");
+		
+	});
+	
+	test("Tampered signatures are rejected", async (): Promise<void> => {
+		
+		const token: string = await new JSONWebToken(
+			{ sub: "johns" }, "hunter2", "HS256",
+		).toStringAsync(backend);
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			`${token.slice(0, -2)}AA`, true, "hunter2",
+			{ cryptoBackend: backend },
+		)).rejects.toThrow("signature");
+		
+	});
+	
+	test("ES256K is rejected as unsupported", async (): Promise<void> => {
+		
+		const [privateKey] = toPEM(
+			crypto.generateKeyPairSync("ec", { namedCurve: "secp256k1" })
+		);
+		
+		await expect(backend.sign("ES256K", "a.b", privateKey))
+			.rejects.toThrow("WebCrypto does not support the secp256k1 curve");
+		await expect(backend.sign("ES256K", "a.b", privateKey))
+			.rejects.toMatchObject({ code: "ALG_NOT_ALLOWED" });
+		
+	});
+	
+	test("HS256 JWTs signed with a DER public key are rejected", async (): Promise<void> => {
+		
+		const publicKey: Buffer =
+			rsa.publicKey.export({ type: "spki", format: "der" });
+		const signingInput: string = [
+			encodeBase64URLString(JSON.stringify({ alg: "HS256", typ: "JWT" })),
+			encodeBase64URLString(JSON.stringify({ sub: "admin" })),
+		].join(".");
+		const signature: string = crypto.createHmac("SHA256", publicKey)
+			.update(signingInput)
+			.digest("base64url");
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			`${signingInput}.${signature}`, true, publicKey,
+			{ cryptoBackend: backend, validateNotBeforeClaim: false },
+		)).rejects.toThrow(JWTKeyMismatchError);
+		
+	});
+	
+	test("CryptoKeys of the wrong algorithm are rejected", async (): Promise<void> => {
+		
+		const key: CryptoKey = await crypto.webcrypto.subtle.generateKey(
+			{ name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"],
+		) as CryptoKey;
+		
+		await expect(backend.sign("HS384", "a.b", key))
+			.rejects.toThrow(JWTKeyMismatchError);
+		
+	});
+	
+});
@@ -0,0 +1,213 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 12:47 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { ClaimValidator, TokenValidator } from "../types/validator-types.js";
+import { JSONValue } from "../types/json-types.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+type RequestContext = {
+	host: string,
+	clientID: string,
+};
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+const context: RequestContext = { host: "acme.example.com", clientID: "web" };
+
+const token: string = new JSONWebToken({
+	sub: "johns",
+	nbf: now,
+	scope: "read write",
+	tenant_id: "acme",
+	azp: "web",
+}, secret, "HS256").toString();
+
+const hasScope = (scope: string): ClaimValidator =>
+	(value: JSONValue | undefined): boolean =>
+		typeof value === "string" && value.split(" ").includes(scope);
+
+const matchesHost: ClaimValidator<RequestContext> =
+	(value: JSONValue | undefined, headers, payload,
+	 context: RequestContext): boolean =>
+		context.host.startsWith(`${value}.`);
+
+const matchesClient: TokenValidator<RequestContext> =
+	(headers, payload, context: RequestContext): boolean =>
+		payload.azp === context.clientID;
+
+/**
+ * Returns the error thrown by the provided function, or undefined if it does
+ * not throw.
+ */
+function getThrownError(func: () => unknown): unknown {
+	
+	try {
+		
+		func();
+		
+	} catch (error: unknown) {
+		
+		return error;
+		
+	}
+	
+	return undefined;
+	
+}
+
+describe("Synchronous validators", (): void => {
+	
+	test("Passing validators allow the JWT", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token,
+			true,
+			secret,
+			{
+				validateExpirationTimeClaim: false,
+				claimValidators: {
+					scope: [hasScope("read"), hasScope("write")],
+					tenant_id: matchesHost,
+				},
+				tokenValidators: [matchesClient],
+				validationContext: context,
+			},
+		)).not.toThrow();
+		
+	});
+	
+	test("Failing claim validators report the claim", (): void => {
+		
+		const error: unknown = getThrownError((): DecodedJSONWebToken =>
+			DecodedJSONWebToken.decode(token, true, secret, {
+				validateExpirationTimeClaim: false,
+				claimValidators: { scope: hasScope("admin") },
+			})
+		);
+		
+		expect(error).toBeInstanceOf(JWTValidationError);
+		expect((error as JWTValidationError).claim).toBe("scope");
+		
+	});
+	
+	test("Validators receive the validation context", (): void => {
+		
+		const error: unknown = getThrownError((): DecodedJSONWebToken =>
+			DecodedJSONWebToken.decode(token, true, secret, {
+				validateExpirationTimeClaim: false,
+				claimValidators: { tenant_id: matchesHost },
+				validationContext: { host: "globex.example.com" },
+			})
+		);
+		
+		expect((error as JWTValidationError).claim).toBe("tenant_id");
+		
+	});
+	
+	test("Failing token validators do not report a claim", (): void => {
+		
+		const error: unknown = getThrownError((): DecodedJSONWebToken =>
+			DecodedJSONWebToken.decode(token, true, secret, {
+				validateExpirationTimeClaim: false,
+				tokenValidators: [matchesClient],
+				validationContext: { clientID: "mobile" },
+			})
+		);
+		
+		expect(error).toBeInstanceOf(JWTValidationError);
+		expect((error as JWTValidationError).claim).toBeUndefined();
+		
+	});
+	
+	test("Validators may throw their own validation errors", (): void => {
+		
+		const validator: ClaimValidator = (): boolean => {
+			
+			throw new JWTValidationError("the tenant is suspended", {
+				claim: "tenant",
+			});
+			
+		};
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, {
+				validateExpirationTimeClaim: false,
+				claimValidators: { tenant_id: validator },
+			}
+		)).toThrow("the tenant is suspended");
+		
+	});
+	
+	test("Validators are not run for inauthentic JWTs", (): void => {
+		
+		const validator = jest.fn((): boolean => true);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, "wrong-secret", {
+				validateExpirationTimeClaim: false,
+				tokenValidators: [validator],
+			}
+		)).toThrow(JWTValidationError);
+		
+		expect(validator).not.toHaveBeenCalled();
+		
+	});
+	
+	test("Built-in claim checks report the claim", (): void => {
+		
+		const error: unknown = getThrownError((): DecodedJSONWebToken =>
+			DecodedJSONWebToken.decode(token, true, secret)
+		);
+		
+		expect((error as JWTValidationError).claim).toBe("exp");
+		
+	});
+	
+	test("Asynchronous validators cannot be run synchronously", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, {
+				validateExpirationTimeClaim: false,
+				tokenValidators: [async (): Promise<boolean> => true],
+			}
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+});
+
+describe("Asynchronous validators", (): void => {
+	
+	const isTenantActive: ClaimValidator =
+		async (value: JSONValue | undefined): Promise<boolean> =>
+			value === "acme";
+	
+	test("Asynchronous validators are awaited", async (): Promise<void> => {
+		
+		await expect(DecodedJSONWebToken.decodeAsync(token, true, secret, {
+			validateExpirationTimeClaim: false,
+			claimValidators: { tenant_id: [matchesHost, isTenantActive] },
+			validationContext: context,
+		})).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+	});
+	
+	test("Failing asynchronous validators reject", async (): Promise<void> => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(token, false);
+		
+		await expect(decoded.validateAsync(secret, {
+			validateExpirationTimeClaim: false,
+			claimValidators: { sub: isTenantActive },
+		})).rejects.toMatchObject({ claim: "sub" });
+		
+	});
+	
+});
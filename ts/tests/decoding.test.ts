@@ -4,6 +4,7 @@
  * Project: tsjwt
  */
 
+import "../node.js";
 import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
 import { JSONWebTokenHeaders, JSONWebTokenPayload } from "../types/jwt-types.js";
 
@@ -0,0 +1,183 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 10:58 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JSONWebTokenHeaders } from "../types/jwt-types.js";
+import { KeyResolver } from "../types/key-types.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { decodeUTF8 } from "../encoding/base64url.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+const options = { validateExpirationTimeClaim: false };
+
+const unencodedHeaders: JSONWebTokenHeaders = {
+	...JSONWebToken.getDefaultHeaders("HS256"),
+	b64: false,
+	crit: ["b64"],
+};
+
+describe("Detached payloads", (): void => {
+	
+	const jwt: JSONWebToken = new JSONWebToken(
+		{ event: "invoice.paid", amount: 100, nbf: now },
+		secret,
+		"HS256",
+	);
+	
+	const token: string = jwt.toDetachedString();
+	const body: Uint8Array = jwt.getRawPayload();
+	
+	test("Detached JWTs have an empty payload segment", (): void => {
+		
+		const [headers, payload, signature] = token.split(".");
+		
+		expect(headers).toBe(jwt.getEncodedHeaders());
+		expect(payload).toBe("");
+		expect(signature).toBe(jwt.getSignature());
+		expect(decodeUTF8(body)).toBe(JSON.stringify(jwt.getPayload()));
+		
+	});
+	
+	test("Detached JWTs are verified against the given payload", (): void => {
+		
+		const decoded: DecodedJSONWebToken = DecodedJSONWebToken.decodeDetached(
+			token, body, true, secret, options
+		);
+		
+		expect(decoded.getPayload().event).toBe("invoice.paid");
+		expect(decoded.toString()).toBe(jwt.toString());
+		
+	});
+	
+	test("Detached JWTs DO NOT verify against a tampered payload", (): void => {
+		
+		const tampered: string = decodeUTF8(body).replace("100", "1000");
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decodeDetached(
+			token, tampered, true, secret, options
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Detached JWTs are rejected by the attached decoder", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, options
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Attached JWTs are rejected as detached JWTs", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decodeDetached(
+			jwt.toString(), body, true, secret, options
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Detached JWTs are verified asynchronously", async (): Promise<void> => {
+		
+		const resolver: KeyResolver = async (): Promise<string> => secret;
+		
+		await expect(DecodedJSONWebToken.decodeDetachedAsync(
+			token, body, true, resolver, options
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+	});
+	
+});
+
+describe("Unencoded payloads", (): void => {
+	
+	test("Unencoded payloads are signed as-is", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ event: "invoice_paid", nbf: now },
+			secret,
+			"HS256",
+			unencodedHeaders,
+		);
+		
+		const [headers, payload, signature] = jwt.toString().split(".");
+		const expectedSignature: string = crypto.createHmac("SHA256", secret)
+			.update(`${headers}.${payload}`)
+			.digest("base64url");
+		
+		expect(payload).toBe(JSON.stringify(jwt.getPayload()));
+		expect(signature).toBe(expectedSignature);
+		expect(DecodedJSONWebToken
+			.decode(jwt.toString(), true, secret, options)
+			.getPayload().event).toBe("invoice_paid");
+		
+	});
+	
+	test("Unencoded payloads containing dots must be detached", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ url: "https://example.com/", nbf: now },
+			secret,
+			"HS256",
+			unencodedHeaders,
+		);
+		
+		expect((): string => jwt.toString()).toThrow();
+		
+		const decoded: DecodedJSONWebToken = DecodedJSONWebToken.decodeDetached(
+			jwt.toDetachedString(),
+			'{"url":"https://example.com/","nbf":' + now + "}",
+			true,
+			secret,
+			options,
+		);
+		
+		expect(decoded.getPayload().url).toBe("https://example.com/");
+		expect(decoded.isPayloadEncoded()).toBeFalsy();
+		
+	});
+	
+	test("The 'b64' header must be listed as critical", (): void => {
+		
+		const headers: JSONWebTokenHeaders = {
+			...JSONWebToken.getDefaultHeaders("HS256"),
+			b64: false,
+		};
+		const jwt: JSONWebToken =
+			new JSONWebToken({ nbf: now }, secret, "HS256", headers);
+		
+		expect((): string => jwt.toString()).toThrow(JWTParsingError);
+		
+		const token: string = [
+			Buffer.from(JSON.stringify(headers)).toString("base64url"),
+			JSON.stringify({ nbf: now }),
+			crypto.createHmac("SHA256", secret).digest("base64url"),
+		].join(".");
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, false
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+	test("The 'b64' header must be a boolean", (): void => {
+		
+		const jwt: JSONWebToken = new JSONWebToken(
+			{ nbf: now },
+			secret,
+			"HS256",
+			{ ...unencodedHeaders, b64: "false" },
+		);
+		
+		expect((): string => jwt.toDetachedString())
+			.toThrow(JWTValidationError);
+		
+	});
+	
+});
@@ -0,0 +1,138 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 3:27 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+
+describe.each([
+	["ES256", "prime256v1", "SHA256", 64],
+	["ES256K", "secp256k1", "SHA256", 64],
+	["ES384", "secp384r1", "SHA384", 96],
+	["ES512", "secp521r1", "SHA512", 132],
+] as const)("alg: %s", (alg, namedCurve, hash, signatureLength): void => {
+	
+	const { privateKey, publicKey } =
+		crypto.generateKeyPairSync("ec", { namedCurve });
+	
+	const jwt: JSONWebToken = new JSONWebToken(
+		{ user: "johns", admin: false },
+		privateKey,
+		alg,
+	);
+	
+	const token: string = jwt.toString();
+	const [encodedHeaders, encodedPayload] = token.split(".");
+	const signingInput: Buffer =
+		Buffer.from(`${encodedHeaders}.${encodedPayload}`);
+	
+	test("Signature is encoded as the fixed-length R||S concatenation", (): void => {
+		
+		const signature: Buffer = Buffer.from(jwt.getSignature(), "base64url");
+		
+		expect(signature.length).toBe(signatureLength);
+		expect(crypto.verify(
+			hash,
+			signingInput,
+			{ key: publicKey, dsaEncoding: "ieee-p1363" },
+			signature,
+		)).toBeTruthy();
+		
+	});
+	
+	test("Signature validates against the matching public key", (): void => {
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature(publicKey)).toBeTruthy();
+		
+	});
+	
+	test("Signature DOES NOT validate against another public key", (): void => {
+		
+		const { publicKey: otherPublicKey } =
+			crypto.generateKeyPairSync("ec", { namedCurve });
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature(otherPublicKey)).toBeFalsy();
+		
+	});
+	
+	test("DER-encoded signatures are rejected", (): void => {
+		
+		const derSignature: string = crypto.sign(hash, signingInput, privateKey)
+			.toString("base64url");
+		
+		const decoded: DecodedJSONWebToken = DecodedJSONWebToken.decode(
+			`${encodedHeaders}.${encodedPayload}.${derSignature}`, false
+		);
+		
+		expect(decoded.validateSignature(publicKey)).toBe(false);
+		
+	});
+	
+	test("Truncated signatures are rejected", (): void => {
+		
+		const truncatedSignature: string =
+			Buffer.from(jwt.getSignature(), "base64url")
+				.subarray(1)
+				.toString("base64url");
+		
+		const decoded: DecodedJSONWebToken = DecodedJSONWebToken.decode(
+			`${encodedHeaders}.${encodedPayload}.${truncatedSignature}`, false
+		);
+		
+		expect(decoded.validateSignature(publicKey)).toBe(false);
+		
+	});
+	
+});
+
+describe("ECDSA keys", (): void => {
+	
+	test("Keys on the wrong curve are rejected for signing", (): void => {
+		
+		const { privateKey } =
+			crypto.generateKeyPairSync("ec", { namedCurve: "secp384r1" });
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" },
+			privateKey,
+			"ES256",
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+	test("Keys on the wrong curve are rejected for verification", (): void => {
+		
+		const { privateKey } =
+			crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+		const { publicKey: secp256k1PublicKey } =
+			crypto.generateKeyPairSync("ec", { namedCurve: "secp256k1" });
+		
+		const token: string =
+			new JSONWebToken({ sub: "johns" }, privateKey, "ES256").toString();
+		
+		expect((): boolean => DecodedJSONWebToken.decode(token, false)
+			.validateSignature(secp256k1PublicKey)).toThrow(JWTKeyError);
+		
+	});
+	
+	test("RSA keys are rejected for ECDSA algorithms", (): void => {
+		
+		const { privateKey } =
+			crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" },
+			privateKey,
+			"ES256",
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+});
@@ -0,0 +1,100 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 3:49 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+
+describe.each([
+	["ed25519", 64],
+	["ed448", 114],
+] as const)("alg: EdDSA, curve: %s", (curve, signatureLength): void => {
+	
+	const { privateKey, publicKey } =
+		crypto.generateKeyPairSync(curve as "ed25519");
+	
+	const jwt: JSONWebToken = new JSONWebToken(
+		{ user: "johns", admin: false },
+		privateKey,
+		"EdDSA",
+	);
+	
+	const token: string = jwt.toString();
+	
+	test("Signature is verifiable by an independent EdDSA implementation", (): void => {
+		
+		const [encodedHeaders, encodedPayload, signature] = token.split(".");
+		const rawSignature: Buffer = Buffer.from(signature, "base64url");
+		
+		expect(rawSignature.length).toBe(signatureLength);
+		expect(crypto.verify(
+			null,
+			Buffer.from(`${encodedHeaders}.${encodedPayload}`),
+			publicKey,
+			rawSignature,
+		)).toBeTruthy();
+		
+	});
+	
+	test("Signature validates against the matching public key", (): void => {
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature(publicKey)).toBeTruthy();
+		
+	});
+	
+	test("Signature validates against a PEM-encoded public key", (): void => {
+		
+		expect(DecodedJSONWebToken.decode(token, false).validateSignature(
+			publicKey.export({ type: "spki", format: "pem" })
+		)).toBeTruthy();
+		
+	});
+	
+	test("Signature DOES NOT validate against another public key", (): void => {
+		
+		const { publicKey: otherPublicKey } =
+			crypto.generateKeyPairSync(curve as "ed25519");
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature(otherPublicKey)).toBeFalsy();
+		
+	});
+	
+});
+
+describe("EdDSA keys", (): void => {
+	
+	test("Ed448 keys DO NOT verify Ed25519 signatures", (): void => {
+		
+		const { privateKey } = crypto.generateKeyPairSync("ed25519");
+		const { publicKey: ed448PublicKey } =
+			crypto.generateKeyPairSync("ed448");
+		
+		const token: string =
+			new JSONWebToken({ sub: "johns" }, privateKey, "EdDSA").toString();
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature(ed448PublicKey)).toBeFalsy();
+		
+	});
+	
+	test("Non-EdDSA keys are rejected", (): void => {
+		
+		const { privateKey } =
+			crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" },
+			privateKey,
+			"EdDSA",
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+});
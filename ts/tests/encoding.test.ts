@@ -4,6 +4,7 @@
  * Project: tsjwt
  */
 
+import "../node.js";
 import { JSONWebToken } from "../jwt/json-web-token.js";
 
 describe("alg: HS256", (): void => {
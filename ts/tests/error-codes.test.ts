@@ -0,0 +1,194 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:45 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import {
+	DecodedJSONWebToken,
+	ValidationOptions,
+} from "../jwt/decoded-json-web-token.js";
+import { JSONWebSignature } from "../jws/json-web-signature.js";
+import { DecodedJSONWebSignature } from "../jws/decoded-json-web-signature.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+
+/**
+ * Returns the error thrown while decoding and validating the provided token,
+ * or undefined if no error is thrown.
+ */
+function getDecodingError(token: string,
+						  options: Partial<ValidationOptions> = {},
+						  key: string = secret): unknown {
+	
+	try {
+		
+		DecodedJSONWebToken.decode(token, true, key, options);
+		
+	} catch (error: unknown) {
+		
+		return error;
+		
+	}
+	
+	return undefined;
+	
+}
+
+describe("Validation error codes", (): void => {
+	
+	test("Expired JWTs report when they expired", (): void => {
+		
+		const token: string = new JSONWebToken(
+			{ nbf: now - 120, exp: now - 60 }, secret, "HS256"
+		).toString();
+		
+		expect(getDecodingError(token)).toMatchObject({
+			code: "TOKEN_EXPIRED",
+			claim: "exp",
+			expiredAt: new Date((now - 60) * 1000),
+		});
+		
+	});
+	
+	test("Premature JWTs report when they become valid", (): void => {
+		
+		const token: string = new JSONWebToken(
+			{ nbf: now + 60, exp: now + 120 }, secret, "HS256"
+		).toString();
+		
+		expect(getDecodingError(token)).toMatchObject({
+			code: "TOKEN_NOT_YET_VALID",
+			claim: "nbf",
+			notBefore: new Date((now + 60) * 1000),
+		});
+		
+	});
+	
+	test("Missing claims are reported as such", (): void => {
+		
+		const token: string =
+			new JSONWebToken({ nbf: now }, secret, "HS256").toString();
+		
+		expect(getDecodingError(token)).toMatchObject({
+			code: "CLAIM_MISSING",
+			claim: "exp",
+		});
+		
+	});
+	
+	test("Disallowed audiences report the expected audiences", (): void => {
+		
+		const token: string = new JSONWebToken(
+			{ nbf: now, aud: "globex" }, secret, "HS256"
+		).toString();
+		
+		expect(getDecodingError(token, {
+			validateExpirationTimeClaim: false,
+			allowableAudiences: ["acme"],
+		})).toMatchObject({
+			code: "AUDIENCE_NOT_ALLOWED",
+			claim: "aud",
+			expected: ["acme"],
+			actual: "globex",
+		});
+		
+	});
+	
+	test("Invalid signatures are reported as such", (): void => {
+		
+		const token: string =
+			new JSONWebToken({ nbf: now }, secret, "HS256").toString();
+		
+		expect(getDecodingError(
+			token, { validateExpirationTimeClaim: false }, "wrong-secret"
+		)).toMatchObject({ code: "SIGNATURE_INVALID" });
+		
+	});
+	
+	test("Disallowed algorithms report the allowed algorithms", (): void => {
+		
+		const token: string =
+			new JSONWebToken({ nbf: now }, secret, "HS384").toString();
+		
+		expect(getDecodingError(token, {
+			validateExpirationTimeClaim: false,
+			allowedAlgorithms: ["HS256"],
+		})).toMatchObject({
+			code: "ALG_NOT_ALLOWED",
+			expected: ["HS256"],
+			actual: "HS384",
+		});
+		
+	});
+	
+	test("Errors without a specific code use the generic code", (): void => {
+		
+		expect(new JWTValidationError("something went wrong").code)
+			.toBe("VALIDATION_FAILED");
+		
+	});
+	
+});
+
+describe("Parsing error codes", (): void => {
+	
+	test("Malformed headers report the underlying error", (): void => {
+		
+		const headers: string = Buffer.from("{not json").toString("base64url");
+		const payload: string = Buffer.from("{}").toString("base64url");
+		const error: unknown = getDecodingError(`${headers}.${payload}.sig`);
+		
+		expect(error).toBeInstanceOf(JWTParsingError);
+		expect(error).toMatchObject({ code: "MALFORMED_HEADERS" });
+		expect((error as JWTParsingError).cause).toBeInstanceOf(SyntaxError);
+		
+	});
+	
+	test("Malformed tokens are reported as such", (): void => {
+		
+		expect(getDecodingError("not-a-jwt"))
+			.toMatchObject({ code: "MALFORMED_TOKEN" });
+		
+	});
+	
+});
+
+describe("Error causes", (): void => {
+	
+	test("Failing the 'any' policy reports the first failure", (): void => {
+		
+		const json: string = JSON.stringify(
+			new JSONWebSignature({ title: "Lease" })
+				.addSignature(secret, "HS256")
+				.addSignature(secret, "HS384")
+				.toGeneralJSON()
+		);
+		
+		let error: unknown;
+		
+		try {
+			
+			DecodedJSONWebSignature.decode(
+				json, true, "wrong-secret", { policy: "any" }
+			);
+			
+		} catch (caught: unknown) {
+			
+			error = caught;
+			
+		}
+		
+		expect(error).toMatchObject({ code: "SIGNATURE_INVALID" });
+		expect((error as JWTValidationError).cause).toMatchObject({
+			code: "SIGNATURE_INVALID",
+		});
+		
+	});
+	
+});
@@ -0,0 +1,326 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:24 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { EncryptedJSONWebToken } from "../jwe/encrypted-json-web-token.js";
+import { DecryptedJSONWebToken } from "../jwe/decrypted-json-web-token.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JSONWebKey } from "../jwk/json-web-key.js";
+import {
+	ContentEncryptionAlgorithmIdentifier,
+	KeyManagementAlgorithmIdentifier,
+} from "../types/jwe-types.js";
+import { DecryptionKey, EncryptionKey } from "../types/key-types.js";
+import { JWEDecryptionError } from "../error/jwe-decryption-error.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+const rsaKeyPair = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ecKeyPair =
+	crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const x25519KeyPair = crypto.generateKeyPairSync("x25519");
+
+function getKeys(alg: KeyManagementAlgorithmIdentifier,
+				 enc: ContentEncryptionAlgorithmIdentifier,
+): [EncryptionKey, DecryptionKey][] {
+	
+	switch (alg) {
+		
+		case "dir": {
+			
+			const key: Buffer =
+				crypto.randomBytes(enc === "A128GCM" ? 16 : 32);
+			
+			return [[key, key]];
+			
+		}
+		
+		case "A128KW":
+		case "A256KW": {
+			
+			const key: Buffer =
+				crypto.randomBytes(alg === "A128KW" ? 16 : 32);
+			
+			return [[key, key]];
+			
+		}
+		
+		case "RSA-OAEP-256":
+			return [[rsaKeyPair.publicKey, rsaKeyPair.privateKey]];
+		
+		default: return [
+			[ecKeyPair.publicKey, ecKeyPair.privateKey],
+			[x25519KeyPair.publicKey, x25519KeyPair.privateKey],
+		];
+		
+	}
+	
+}
+
+const ALGORITHMS: KeyManagementAlgorithmIdentifier[] = [
+	"dir",
+	"A128KW",
+	"A256KW",
+	"RSA-OAEP-256",
+	"ECDH-ES",
+	"ECDH-ES+A128KW",
+	"ECDH-ES+A256KW",
+];
+
+const ENCRYPTION_ALGORITHMS: ContentEncryptionAlgorithmIdentifier[] = [
+	"A128GCM",
+	"A256GCM",
+	"A128CBC-HS256",
+];
+
+describe.each(ALGORITHMS)("alg: %s", (alg): void => {
+	
+	test.each(ENCRYPTION_ALGORITHMS)("Round trip with enc: %s", (enc): void => {
+		
+		for (const [encryptionKey, decryptionKey] of getKeys(alg, enc)) {
+			
+			const token: string = new EncryptedJSONWebToken(
+				{ sub: "johns", admin: false },
+				encryptionKey,
+				alg,
+				enc,
+			).toString();
+			
+			expect(token.split(".")).toHaveLength(5);
+			
+			const decrypted: DecryptedJSONWebToken =
+				DecryptedJSONWebToken.decrypt(token, decryptionKey);
+			
+			expect(decrypted.getHeaders()).toMatchObject({ alg, enc });
+			expect(decrypted.getPayload())
+				.toStrictEqual({ sub: "johns", admin: false });
+			
+		}
+		
+	});
+	
+});
+
+describe("Decryption", (): void => {
+	
+	const key: Buffer = crypto.randomBytes(16);
+	
+	const jwe: EncryptedJSONWebToken = new EncryptedJSONWebToken(
+		{ sub: "johns" },
+		key,
+		"A128KW",
+		"A128GCM",
+	);
+	
+	test("RFC 7516 appendix A.3 example JWE is decrypted", (): void => {
+		
+		const decrypted: DecryptedJSONWebToken = DecryptedJSONWebToken.decrypt(
+			"eyJhbGciOiJBMTI4S1ciLCJlbmMiOiJBMTI4Q0JDLUhTMjU2In0." +
+			"6KB707dM9YTIgHtLvtgWQ8mKwboJW3of9locizkDTHzBC2IlrT1oOQ." +
+			"AxY8DCtDaGlsbGljb3RoZQ." +
+			"KDlTtXchhZTGufMYmOYGS4HffxPSUrfmqCHXaI9wOGY." +
+			"U0m_YmjN04DJvceFICbCVQ",
+			JSONWebKey.fromJSON({ kty: "oct", k: "GawgguFyGrWKav7AX4VKUg" }),
+		);
+		
+		expect(decrypted.getPlaintext()).toBe("Live long and prosper.");
+		
+	});
+	
+	test("The serialization of a JWE is stable", (): void => {
+		
+		expect(jwe.toString()).toBe(jwe.toString());
+		
+	});
+	
+	test("JWEs DO NOT decrypt with the wrong key", (): void => {
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			jwe.toString(), crypto.randomBytes(16)
+		)).toThrow(JWEDecryptionError);
+		
+	});
+	
+	test("JWEs with a tampered ciphertext DO NOT decrypt", (): void => {
+		
+		const segments: string[] = jwe.toString().split(".");
+		const ciphertext: Buffer = Buffer.from(segments[3], "base64url");
+		
+		ciphertext[0] ^= 1;
+		segments[3] = ciphertext.toString("base64url");
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			segments.join("."), key
+		)).toThrow(JWEDecryptionError);
+		
+	});
+	
+	test("JWEs with a tampered header DO NOT decrypt", (): void => {
+		
+		const segments: string[] = jwe.toString().split(".");
+		
+		segments[0] = Buffer.from(JSON.stringify({
+			alg: "A128KW",
+			enc: "A128GCM",
+			typ: "JOSE",
+		})).toString("base64url");
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			segments.join("."), key
+		)).toThrow(JWEDecryptionError);
+		
+	});
+	
+	test("RSA-OAEP-256 JWEs DO NOT decrypt with the wrong key", (): void => {
+		
+		const token: string = new EncryptedJSONWebToken(
+			{ sub: "johns" },
+			rsaKeyPair.publicKey,
+			"RSA-OAEP-256",
+			"A256GCM",
+		).toString();
+		
+		const { privateKey: otherPrivateKey } =
+			crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			token, otherPrivateKey
+		)).toThrow(JWEDecryptionError);
+		
+	});
+	
+	test("Keys of the wrong length are rejected", (): void => {
+		
+		expect((): string => new EncryptedJSONWebToken(
+			{ sub: "johns" },
+			crypto.randomBytes(16),
+			"A256KW",
+			"A256GCM",
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+	test("Disallowed algorithms are rejected", (): void => {
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			jwe.toString(), key, { allowedKeyManagementAlgorithms: ["dir"] }
+		)).toThrow(JWEDecryptionError);
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			jwe.toString(), key,
+			{ allowedContentEncryptionAlgorithms: ["A256GCM"] },
+		)).toThrow(JWEDecryptionError);
+		
+	});
+	
+	test("Unsupported algorithms are rejected", (): void => {
+		
+		const segments: string[] = jwe.toString().split(".");
+		
+		segments[0] = Buffer.from(JSON.stringify({
+			alg: "RSA1_5",
+			enc: "A128GCM",
+		})).toString("base64url");
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			segments.join("."), key
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+	test("JWEs are rejected by DecodedJSONWebToken.decode", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			jwe.toString(), false
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Signed JWTs are rejected by the JWE decryption", (): void => {
+		
+		const token: string =
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256").toString();
+		
+		expect((): DecryptedJSONWebToken => DecryptedJSONWebToken.decrypt(
+			token, key
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+});
+
+describe("Nested JWTs", (): void => {
+	
+	const now: number = Math.floor(Date.now() / 1000);
+	
+	const jwt: JSONWebToken = new JSONWebToken(
+		{ sub: "johns", exp: now + 60, nbf: now },
+		rsaKeyPair.privateKey,
+		"RS256",
+	);
+	
+	const token: string = new EncryptedJSONWebToken(
+		jwt,
+		ecKeyPair.publicKey,
+		"ECDH-ES+A128KW",
+		"A128CBC-HS256",
+	).toString();
+	
+	test("Nested JWEs have a 'cty' header of 'JWT'", (): void => {
+		
+		const decrypted: DecryptedJSONWebToken =
+			DecryptedJSONWebToken.decrypt(token, ecKeyPair.privateKey);
+		
+		expect(decrypted.getHeaders().cty).toBe("JWT");
+		expect(decrypted.isNested()).toBeTruthy();
+		expect(decrypted.getPlaintext()).toBe(jwt.toString());
+		expect((): unknown => decrypted.getPayload()).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Nested JWTs are decoded and validated", (): void => {
+		
+		const nested: DecodedJSONWebToken = DecryptedJSONWebToken
+			.decrypt(token, ecKeyPair.privateKey)
+			.getNestedToken(true, rsaKeyPair.publicKey);
+		
+		expect(nested.getPayload().sub).toBe("johns");
+		
+	});
+	
+	test("Nested JWTs with an invalid signature are rejected", (): void => {
+		
+		const { publicKey: otherPublicKey } =
+			crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+		
+		expect((): DecodedJSONWebToken => DecryptedJSONWebToken
+			.decrypt(token, ecKeyPair.privateKey)
+			.getNestedToken(true, otherPublicKey)
+		).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Non-nested JWEs have no nested JWT", (): void => {
+		
+		const key: Buffer = crypto.randomBytes(32);
+		
+		const decrypted: DecryptedJSONWebToken = DecryptedJSONWebToken.decrypt(
+			new EncryptedJSONWebToken(
+				{ sub: "johns" }, key, "dir", "A256GCM"
+			).toString(),
+			key,
+		);
+		
+		expect(decrypted.isNested()).toBeFalsy();
+		expect((): DecodedJSONWebToken => decrypted.getNestedToken(false))
+			.toThrow(JWTParsingError);
+		
+	});
+	
+});
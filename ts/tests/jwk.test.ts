@@ -0,0 +1,232 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 6:38 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebKey } from "../jwk/json-web-key.js";
+import { JSONWebKeySet } from "../jwk/json-web-key-set.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JWKParsingError } from "../error/jwk-parsing-error.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { JSONWebKeyParameters } from "../types/jwk-types.js";
+
+type KeyPair = { privateKey: crypto.KeyObject, publicKey: crypto.KeyObject };
+
+const rsaKeyPair: KeyPair =
+	crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const ecKeyPair: KeyPair =
+	crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+describe("JWK import/export", (): void => {
+	
+	test("Private JWKs can sign tokens that public JWKs verify", (): void => {
+		
+		const privateJWK: JSONWebKey = JSONWebKey.fromKeyObject(
+			rsaKeyPair.privateKey, { kid: "rsa-1", alg: "RS256" }
+		);
+		
+		const token: string = new JSONWebToken(
+			{ sub: "johns" }, privateJWK, "RS256"
+		).toString();
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature(privateJWK.toPublicKey())).toBeTruthy();
+		
+	});
+	
+	test("JWKs can be parsed from JSON strings", (): void => {
+		
+		const parameters: JSONWebKeyParameters = JSONWebKey.fromKeyObject(
+			ecKeyPair.publicKey, { kid: "ec-1", use: "sig" }
+		).toJSON();
+		
+		const jwk: JSONWebKey = JSONWebKey.fromJSON(JSON.stringify(parameters));
+		
+		expect(jwk.getKeyType()).toBe("EC");
+		expect(jwk.getCurve()).toBe("P-256");
+		expect(jwk.getKeyID()).toBe("ec-1");
+		expect(jwk.getUse()).toBe("sig");
+		expect(jwk.isPrivate()).toBeFalsy();
+		
+	});
+	
+	test("Exported JWKs have their private members stripped", (): void => {
+		
+		const jwk: JSONWebKey = JSONWebKey.fromKeyObject(rsaKeyPair.privateKey);
+		const exported: JSONWebKeyParameters = JSON.parse(JSON.stringify(jwk));
+		
+		expect(jwk.isPrivate()).toBeTruthy();
+		expect(exported.n).toBeDefined();
+		expect(exported.e).toBeDefined();
+		
+		for (const member of ["d", "p", "q", "dp", "dq", "qi"]) {
+			
+			expect(exported[member]).toBeUndefined();
+			
+		}
+		
+		expect(jwk.export(true).d).toBeDefined();
+		
+	});
+	
+	test("JWKs round-trip through PEM", (): void => {
+		
+		const pem: string = ecKeyPair.publicKey.export({
+			type: "spki",
+			format: "pem",
+		}) as string;
+		
+		expect(JSONWebKey.fromPEM(pem).toPEM()).toBe(pem);
+		
+	});
+	
+	test("Symmetric JWKs are interchangeable with string secrets", (): void => {
+		
+		const jwk: JSONWebKey = JSONWebKey.fromJSON({
+			kty: "oct",
+			k: Buffer.from("hunter2").toString("base64url"),
+		});
+		
+		expect(new JSONWebToken({ sub: "johns" }, jwk, "HS256").toString()).toBe(
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256").toString()
+		);
+		expect((): JSONWebKeyParameters => jwk.toJSON()).toThrow(JWTKeyError);
+		
+	});
+	
+	test("JWKs whose 'use' is 'enc' cannot be used for signing", (): void => {
+		
+		const jwk: JSONWebKey = JSONWebKey.fromKeyObject(
+			rsaKeyPair.privateKey, { use: "enc" }
+		);
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" }, jwk, "RS256"
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+	test("JWKs whose 'key_ops' omit 'verify' cannot be used to verify", (): void => {
+		
+		const token: string = new JSONWebToken(
+			{ sub: "johns" }, rsaKeyPair.privateKey, "RS256"
+		).toString();
+		
+		const jwk: JSONWebKey = JSONWebKey.fromKeyObject(
+			rsaKeyPair.publicKey, { key_ops: ["encrypt"] }
+		);
+		
+		expect((): boolean => DecodedJSONWebToken.decode(token, false)
+			.validateSignature(jwk)).toThrow(JWTKeyError);
+		
+	});
+	
+});
+
+describe("JWK structural validation", (): void => {
+	
+	test.each([
+		["a missing 'kty'", { n: "AQAB", e: "AQAB" }],
+		["an unknown 'kty'", { kty: "XYZ" }],
+		["an 'RSA' key without 'e'", { kty: "RSA", n: "AQAB" }],
+		["an 'RSA' key with partial CRT members", {
+			kty: "RSA", n: "AQAB", e: "AQAB", d: "AQAB", p: "AQAB",
+		}],
+		["an 'EC' key on an unknown curve", {
+			kty: "EC", crv: "P-192", x: "AQAB", y: "AQAB",
+		}],
+		["an 'EC' key without 'y'", { kty: "EC", crv: "P-256", x: "AQAB" }],
+		["an 'oct' key with a non-base64url 'k'", { kty: "oct", k: "a+b/c=" }],
+		["duplicate 'key_ops'", {
+			kty: "oct", k: "AQAB", key_ops: ["sign", "sign"],
+		}],
+		["an unknown 'key_ops' value", {
+			kty: "oct", k: "AQAB", key_ops: ["frobnicate"],
+		}],
+		["a non-string 'kid'", { kty: "oct", k: "AQAB", kid: 42 }],
+	])("JWKs with %s are rejected", (_: string, parameters: object): void => {
+		
+		expect((): JSONWebKey => JSONWebKey.fromJSON(parameters))
+			.toThrow(JWKParsingError);
+		
+	});
+	
+});
+
+describe("JWK sets", (): void => {
+	
+	const set: JSONWebKeySet = JSONWebKeySet.fromJSON({
+		keys: [
+			JSONWebKey.fromKeyObject(
+				rsaKeyPair.publicKey, { kid: "rsa-1", alg: "RS256", use: "sig" }
+			).toJSON(),
+			JSONWebKey.fromKeyObject(
+				ecKeyPair.publicKey, { kid: "ec-1", alg: "ES256" }
+			).toJSON(),
+			JSONWebKey.fromKeyObject(
+				rsaKeyPair.publicKey, { kid: "rsa-enc", use: "enc" }
+			).toJSON(),
+			{ kty: "unknown-kty", kid: "ignored" },
+		],
+	});
+	
+	test("Keys with unknown key types are ignored", (): void => {
+		
+		expect(set.getKeys().length).toBe(3);
+		expect(set.getKeyByID("ignored")).toBeUndefined();
+		
+	});
+	
+	test("Keys can be looked up by 'kid'", (): void => {
+		
+		expect(set.getKeyByID("ec-1")?.getKeyType()).toBe("EC");
+		
+	});
+	
+	test("Keys can be looked up by 'alg' and 'use'", (): void => {
+		
+		expect(set.find({ alg: "RS256", use: "sig" }).map(
+			(key: JSONWebKey): string | undefined => key.getKeyID()
+		)).toEqual(["rsa-1"]);
+		
+		expect(set.find({ use: "enc" }).map(
+			(key: JSONWebKey): string | undefined => key.getKeyID()
+		)).toEqual(["ec-1", "rsa-enc"]);
+		
+	});
+	
+	test("Keys can be added and removed", (): void => {
+		
+		const copy: JSONWebKeySet = new JSONWebKeySet(set.getKeys());
+		
+		expect(copy.remove("rsa-1")).toBeTruthy();
+		expect(copy.getKeyByID("rsa-1")).toBeUndefined();
+		
+		copy.add(JSONWebKey.fromKeyObject(
+			rsaKeyPair.publicKey, { kid: "rsa-2" }
+		));
+		
+		expect(copy.getKeyByID("rsa-2")).toBeDefined();
+		
+	});
+	
+	test("Exported sets omit symmetric keys and private members", (): void => {
+		
+		const withSecrets: JSONWebKeySet = new JSONWebKeySet([
+			JSONWebKey.fromKeyObject(rsaKeyPair.privateKey, { kid: "rsa-1" }),
+			JSONWebKey.fromJSON({ kty: "oct", k: "AQAB", kid: "secret" }),
+		]);
+		
+		expect(JSON.parse(JSON.stringify(withSecrets)).keys).toEqual([
+			JSONWebKey.fromKeyObject(rsaKeyPair.publicKey, { kid: "rsa-1" })
+				.toJSON(),
+		]);
+		
+	});
+	
+});
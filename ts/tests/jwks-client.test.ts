@@ -0,0 +1,407 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:41 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import * as http from "node:http";
+import { AddressInfo } from "node:net";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JSONWebKey } from "../jwk/json-web-key.js";
+import { JSONWebKeySet } from "../jwk/json-web-key-set.js";
+import {
+	JSONWebKeySetClient,
+	JSONWebKeySetFetchResponse,
+} from "../jwk/json-web-key-set-client.js";
+import { JSONWebKeySetParameters } from "../types/jwk-types.js";
+import { JWKSetFetchError } from "../error/jwk-set-fetch-error.js";
+import { JWTKeyNotFoundError } from "../error/jwt-key-not-found-error.js";
+
+const { privateKey: firstPrivateKey, publicKey: firstPublicKey } =
+	crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const { privateKey: secondPrivateKey, publicKey: secondPublicKey } =
+	crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const firstKeySet: JSONWebKeySetParameters = new JSONWebKeySet([
+	JSONWebKey.fromKeyObject(firstPublicKey, { kid: "first", use: "sig" }),
+]).toJSON();
+
+const rotatedKeySet: JSONWebKeySetParameters = new JSONWebKeySet([
+	JSONWebKey.fromKeyObject(firstPublicKey, { kid: "first", use: "sig" }),
+	JSONWebKey.fromKeyObject(secondPublicKey, { kid: "second", use: "sig" }),
+]).toJSON();
+
+function createToken(privateKey: crypto.KeyObject, kid: string): string {
+	
+	const now: number = Math.floor(Date.now() / 1000);
+	
+	return new JSONWebToken(
+		{ sub: "johns", exp: now + 60, nbf: now, iat: now },
+		privateKey,
+		"RS256",
+		{ alg: "RS256", typ: "JWT", kid },
+	).toString();
+	
+}
+
+function respondWith(...bodies: object[]): jest.Mock {
+	
+	let index: number = 0;
+	
+	return jest.fn(async (): Promise<JSONWebKeySetFetchResponse> => {
+		
+		const body: object = bodies[Math.min(index++, bodies.length - 1)];
+		
+		return { ok: true, status: 200, json: async (): Promise<object> => body };
+		
+	});
+	
+}
+
+afterEach((): void => {
+	
+	jest.restoreAllMocks();
+	
+});
+
+describe("Caching", (): void => {
+	
+	test("The JWK set is fetched once while the cached copy is fresh", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet);
+		const client: JSONWebKeySetClient =
+			new JSONWebKeySetClient("https://auth.example/jwks.json", { fetch });
+		
+		await client.getKeySet();
+		await client.getKeySet();
+		
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(fetch).toHaveBeenCalledWith("https://auth.example/jwks.json");
+		
+	});
+	
+	test("The JWK set is refetched once the cached copy has expired", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet);
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, cacheTTL: 1000 },
+		);
+		const now: number = Date.now();
+		const dateNow: jest.SpyInstance = jest.spyOn(Date, "now");
+		
+		dateNow.mockReturnValue(now);
+		await client.getKeySet();
+		
+		dateNow.mockReturnValue(now + 999);
+		await client.getKeySet();
+		
+		expect(fetch).toHaveBeenCalledTimes(1);
+		
+		dateNow.mockReturnValue(now + 1000);
+		await client.getKeySet();
+		
+		expect(fetch).toHaveBeenCalledTimes(2);
+		
+	});
+	
+	test("Concurrent lookups share a single in-flight request", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet);
+		const client: JSONWebKeySetClient =
+			new JSONWebKeySetClient("https://auth.example/jwks.json", { fetch });
+		
+		const [firstResult, secondResult, key] = await Promise.all([
+			client.getKeySet(),
+			client.getKeySet(),
+			client.getKey("first"),
+		]);
+		
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(firstResult).toBe(secondResult);
+		expect(key).toBe(firstResult.getKeyByID("first"));
+		
+	});
+	
+});
+
+describe("Unknown key IDs", (): void => {
+	
+	test("An unknown key ID causes the JWK set to be refetched", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet, rotatedKeySet);
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, refetchCooldown: 0 },
+		);
+		
+		await client.getKeySet();
+		
+		await expect(client.getKey("second"))
+			.resolves.toBeInstanceOf(JSONWebKey);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		
+	});
+	
+	test("Refetches are not repeated within the cooldown", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet);
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, refetchCooldown: 1000 },
+		);
+		const now: number = Date.now();
+		const dateNow: jest.SpyInstance = jest.spyOn(Date, "now");
+		
+		dateNow.mockReturnValue(now);
+		
+		for (let i: number = 0; i < 5; i++) {
+			
+			await expect(client.getKey("third")).resolves.toBeUndefined();
+			
+		}
+		
+		expect(fetch).toHaveBeenCalledTimes(1);
+		
+		dateNow.mockReturnValue(now + 1000);
+		await client.getKey("third");
+		
+		expect(fetch).toHaveBeenCalledTimes(2);
+		
+	});
+	
+	test("Concurrent lookups of an unknown key ID share a single refetch", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet, rotatedKeySet);
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, refetchCooldown: 1000 },
+		);
+		const now: number = Date.now();
+		const dateNow: jest.SpyInstance = jest.spyOn(Date, "now");
+		
+		dateNow.mockReturnValue(now);
+		await client.getKeySet();
+		dateNow.mockReturnValue(now + 1000);
+		
+		const keys: Array<JSONWebKey | undefined> = await Promise.all([
+			client.getKey("second"),
+			client.getKey("second"),
+			client.getKey("second"),
+		]);
+		
+		expect(keys).toStrictEqual([keys[0], keys[0], keys[0]]);
+		expect(keys[0]).toBeInstanceOf(JSONWebKey);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		
+	});
+	
+	test("Concurrent resolutions of rotated keys share a single refetch", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet, rotatedKeySet);
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, refetchCooldown: 1000 },
+		);
+		const now: number = Date.now();
+		const dateNow: jest.SpyInstance = jest.spyOn(Date, "now");
+		
+		dateNow.mockReturnValue(now);
+		await client.getKeySet();
+		dateNow.mockReturnValue(now + 1000);
+		
+		const results: DecodedJSONWebToken[] = await Promise.all(
+			[1, 2, 3].map((): Promise<DecodedJSONWebToken> =>
+				DecodedJSONWebToken.decodeAsync(
+					createToken(secondPrivateKey, "second"), true,
+					client.getResolver(),
+				)
+			),
+		);
+		
+		expect(results).toHaveLength(3);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		
+	});
+	
+	test("The resolver refetches the JWK set to find rotated keys", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = respondWith(firstKeySet, rotatedKeySet);
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, refetchCooldown: 0 },
+		);
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			createToken(firstPrivateKey, "first"), true, client.getResolver(),
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			createToken(secondPrivateKey, "second"), true, client.getResolver(),
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			createToken(secondPrivateKey, "third"), true, client.getResolver(),
+		)).rejects.toThrow(JWTKeyNotFoundError);
+		
+	});
+	
+});
+
+describe("Fetch failures", (): void => {
+	
+	test("Unsuccessful responses cause a JWKSetFetchError", async (): Promise<void> => {
+		
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json",
+			{
+				fetch: async (): Promise<JSONWebKeySetFetchResponse> => ({
+					ok: false,
+					status: 503,
+					json: async (): Promise<unknown> => ({}),
+				}),
+			},
+		);
+		
+		await expect(client.getKeySet()).rejects.toThrow(JWKSetFetchError);
+		
+	});
+	
+	test("Failed requests are not cached", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = jest.fn()
+			.mockRejectedValueOnce(new Error("ECONNREFUSED"))
+			.mockResolvedValueOnce({
+				ok: true,
+				status: 200,
+				json: async (): Promise<object> => firstKeySet,
+			});
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, failureCooldown: 0 },
+		);
+		
+		await expect(client.getKeySet()).rejects.toThrow(JWKSetFetchError);
+		await expect(client.getKeySet()).resolves.toBeInstanceOf(JSONWebKeySet);
+		
+	});
+	
+	test("Failed requests are not retried within the failure cooldown", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = jest.fn()
+			.mockRejectedValueOnce(new Error("ECONNREFUSED"))
+			.mockResolvedValueOnce({
+				ok: true,
+				status: 200,
+				json: async (): Promise<object> => firstKeySet,
+			});
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json", { fetch, failureCooldown: 1000 },
+		);
+		const now: number = Date.now();
+		const dateNow: jest.SpyInstance = jest.spyOn(Date, "now");
+		
+		dateNow.mockReturnValue(now);
+		
+		for (let i: number = 0; i < 5; i++) {
+			
+			await expect(client.getKeySet()).rejects.toThrow(JWKSetFetchError);
+			await expect(client.getKey("first")).rejects.toThrow(JWKSetFetchError);
+			
+		}
+		
+		expect(fetch).toHaveBeenCalledTimes(1);
+		
+		dateNow.mockReturnValue(now + 1000);
+		
+		await expect(client.getKeySet()).resolves.toBeInstanceOf(JSONWebKeySet);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		
+	});
+	
+	test("The expired JWK set is served while the endpoint is down", async (): Promise<void> => {
+		
+		const fetch: jest.Mock = jest.fn()
+			.mockResolvedValueOnce({
+				ok: true,
+				status: 200,
+				json: async (): Promise<object> => firstKeySet,
+			})
+			.mockRejectedValue(new Error("ECONNREFUSED"));
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(
+			"https://auth.example/jwks.json",
+			{ fetch, cacheTTL: 1000, failureCooldown: 1000, maxStaleness: 5000 },
+		);
+		const now: number = Date.now();
+		const dateNow: jest.SpyInstance = jest.spyOn(Date, "now");
+		
+		dateNow.mockReturnValue(now);
+		
+		const keySet: JSONWebKeySet = await client.getKeySet();
+		
+		dateNow.mockReturnValue(now + 1000);
+		
+		await expect(client.getKeySet()).resolves.toBe(keySet);
+		await expect(client.getKeySet()).resolves.toBe(keySet);
+		await expect(client.getKey("first")).resolves.toBeInstanceOf(JSONWebKey);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		
+		dateNow.mockReturnValue(now + 6000);
+		
+		await expect(client.getKeySet()).rejects.toThrow(JWKSetFetchError);
+		expect(fetch).toHaveBeenCalledTimes(3);
+		
+	});
+	
+});
+
+describe("HTTP", (): void => {
+	
+	let server: http.Server;
+	let url: string;
+	let requestCount: number = 0;
+	
+	beforeAll(async (): Promise<void> => {
+		
+		server = http.createServer(
+			(request: http.IncomingMessage, response: http.ServerResponse): void => {
+				
+				requestCount++;
+				response.writeHead(200, { "Content-Type": "application/json" });
+				response.end(JSON.stringify(firstKeySet));
+				
+			}
+		);
+		
+		await new Promise<void>((resolve: () => void): void => {
+			
+			server.listen(0, "127.0.0.1", resolve);
+			
+		});
+		
+		const { port } = server.address() as AddressInfo;
+		
+		url = `http://127.0.0.1:${port}/.well-known/jwks.json`;
+		
+	});
+	
+	afterAll(async (): Promise<void> => {
+		
+		await new Promise<void>((resolve: () => void): void => {
+			
+			server.close((): void => resolve());
+			
+		});
+		
+	});
+	
+	test("JWTs are validated using keys fetched from a JWK set endpoint", async (): Promise<void> => {
+		
+		const client: JSONWebKeySetClient = new JSONWebKeySetClient(url);
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			createToken(firstPrivateKey, "first"), true, client.getResolver(),
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+		expect(requestCount).toBe(1);
+		
+	});
+	
+});
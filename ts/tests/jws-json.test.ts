@@ -0,0 +1,351 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 10:31 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebSignature } from "../jws/json-web-signature.js";
+import { DecodedJSONWebSignature } from "../jws/decoded-json-web-signature.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { JSONWebKey } from "../jwk/json-web-key.js";
+import { JSONWebKeySet } from "../jwk/json-web-key-set.js";
+import {
+	createJSONWebKeySetResolver,
+} from "../jwk/json-web-key-set-resolver.js";
+import {
+	FlattenedJSONWebSignature,
+	GeneralJSONWebSignature,
+} from "../types/jws-types.js";
+import { KeyResolver } from "../types/key-types.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { JWTKeyNotFoundError } from "../error/jwt-key-not-found-error.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+
+const rsaKeyPair = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const ecKeyPair =
+	crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+const otherECKeyPair =
+	crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+const rsaKey: JSONWebKey =
+	JSONWebKey.fromKeyObject(rsaKeyPair.publicKey, { kid: "rsa" });
+const ecKey: JSONWebKey =
+	JSONWebKey.fromKeyObject(ecKeyPair.publicKey, { kid: "ec" });
+const resolver: KeyResolver =
+	createJSONWebKeySetResolver(new JSONWebKeySet([rsaKey, ecKey]));
+
+const document: JSONWebSignature = new JSONWebSignature({ title: "Lease" })
+	.addSignature(rsaKeyPair.privateKey, "RS256", { kid: "rsa" })
+	.addSignature(ecKeyPair.privateKey, "ES256", {}, { kid: "ec" });
+
+describe("Creation", (): void => {
+	
+	test("Each signer adds their own signature over the payload", (): void => {
+		
+		const json: GeneralJSONWebSignature = document.toGeneralJSON();
+		
+		expect(json.signatures).toHaveLength(2);
+		expect(json.payload).toBe(
+			Buffer.from('{"title":"Lease"}').toString("base64url")
+		);
+		expect(document.getProtectedHeaders(0))
+			.toStrictEqual({ kid: "rsa", alg: "RS256" });
+		expect(document.getUnprotectedHeaders(1)).toStrictEqual({ kid: "ec" });
+		expect(document.getHeaders(1))
+			.toStrictEqual({ kid: "ec", alg: "ES256" });
+		
+	});
+	
+	test("String and Buffer payloads are signed as-is", (): void => {
+		
+		const jws: JSONWebSignature = new JSONWebSignature("Lorem ipsum")
+			.addSignature("hunter2", "HS256");
+		
+		expect(jws.getRawPayload().toString()).toBe("Lorem ipsum");
+		expect((): unknown => jws.getPayload()).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Flattened JSON requires exactly one signature", (): void => {
+		
+		expect((): FlattenedJSONWebSignature => document.toFlattenedJSON())
+			.toThrow();
+		
+		const flattened: FlattenedJSONWebSignature =
+			new JSONWebSignature({ title: "Lease" })
+				.addSignature("hunter2", "HS256", {}, { kid: "secret" })
+				.toFlattenedJSON();
+		
+		expect(Object.keys(flattened).sort())
+			.toStrictEqual(["header", "payload", "protected", "signature"]);
+		
+	});
+	
+	test("Flattened JSON matches the compact serialization", (): void => {
+		
+		const jwt: JSONWebToken =
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256", {
+				alg: "HS256",
+			});
+		const flattened: FlattenedJSONWebSignature =
+			new JSONWebSignature({ sub: "johns" })
+				.addSignature("hunter2", "HS256")
+				.toFlattenedJSON();
+		
+		expect([
+			flattened.protected,
+			flattened.payload,
+			flattened.signature,
+		].join(".")).toBe(jwt.toString());
+		
+	});
+	
+	test("Headers cannot be both protected and unprotected", (): void => {
+		
+		expect((): JSONWebSignature => new JSONWebSignature({})
+			.addSignature("hunter2", "HS256", { kid: "a" }, { kid: "b" })
+		).toThrow();
+		
+		expect((): JSONWebSignature => new JSONWebSignature({})
+			.addSignature("hunter2", "HS256", {}, { alg: "HS512" })
+		).toThrow();
+		
+	});
+	
+	test("Disabled or unknown algorithms cannot be used", (): void => {
+		
+		expect((): JSONWebSignature => new JSONWebSignature({})
+			.addSignature("hunter2", "HS999")
+		).toThrow();
+		
+	});
+	
+});
+
+describe("Parsing", (): void => {
+	
+	test("General JSON is round tripped", (): void => {
+		
+		const decoded: DecodedJSONWebSignature =
+			JSONWebSignature.decode(document.toString(), false);
+		
+		expect(decoded.getSignatureCount()).toBe(2);
+		expect(decoded.getPayload()).toStrictEqual({ title: "Lease" });
+		expect(decoded.toGeneralJSON()).toStrictEqual(document.toGeneralJSON());
+		
+	});
+	
+	test("Flattened JSON is parsed", (): void => {
+		
+		const flattened: FlattenedJSONWebSignature =
+			new JSONWebSignature({ title: "Lease" })
+				.addSignature(ecKeyPair.privateKey, "ES256")
+				.toFlattenedJSON();
+		
+		const decoded: DecodedJSONWebSignature = DecodedJSONWebSignature.decode(
+			JSON.stringify(flattened), true, ecKeyPair.publicKey
+		);
+		
+		expect(decoded.getSignatureCount()).toBe(1);
+		expect(decoded.toFlattenedJSON()).toStrictEqual(flattened);
+		
+	});
+	
+	test("Malformed JWSs are rejected", (): void => {
+		
+		const json: GeneralJSONWebSignature = document.toGeneralJSON();
+		const malformed: unknown[] = [
+			"{",
+			"[]",
+			{ signatures: json.signatures },
+			{ payload: json.payload, signatures: [] },
+			{ ...json, signature: json.signatures[0].signature },
+			{ payload: json.payload, signatures: [{ protected: "e30" }] },
+			{ payload: json.payload, protected: "e30", signature: "AA" },
+			{ payload: json.payload, protected: "!!!", signature: "AA" },
+			{ payload: json.payload, signatures: [{
+				...json.signatures[1],
+				header: { alg: "ES256" },
+			}] },
+		];
+		
+		for (const input of malformed) {
+			
+			expect((): DecodedJSONWebSignature => DecodedJSONWebSignature
+				.decode(input as object, false)
+			).toThrow(JWTParsingError);
+			
+		}
+		
+	});
+	
+});
+
+describe("Verification", (): void => {
+	
+	const json: GeneralJSONWebSignature = document.toGeneralJSON();
+	const withForgedSignature: GeneralJSONWebSignature = {
+		...json,
+		signatures: [
+			json.signatures[0],
+			{
+				...json.signatures[1],
+				signature: new JSONWebSignature({ title: "Lease" })
+					.addSignature(otherECKeyPair.privateKey, "ES256")
+					.getSignatures()[0].signature,
+			},
+		],
+	};
+	
+	test("All signatures are verified using a key resolver", (): void => {
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			json, true, resolver, { policy: "all" }
+		)).not.toThrow();
+		
+	});
+	
+	test("The 'all' policy is the default", (): void => {
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			withForgedSignature, true, resolver
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("The 'any' policy requires at least one valid signature", (): void => {
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			withForgedSignature, true, resolver, { policy: "any" }
+		)).not.toThrow();
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			{
+				...withForgedSignature,
+				signatures: [withForgedSignature.signatures[1]],
+			},
+			true,
+			resolver,
+			{ policy: "any" },
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("A single key only verifies the signatures it fits", (): void => {
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			json, true, ecKeyPair.publicKey, { policy: "any" }
+		)).not.toThrow();
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			json, true, ecKeyPair.publicKey, { policy: "all" }
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Keys that do not fit the algorithm are rejected by verifySignature", (): void => {
+		
+		const publicKeyDER: Buffer =
+			rsaKeyPair.publicKey.export({ type: "spki", format: "der" });
+		const forged: DecodedJSONWebSignature = JSONWebSignature.decode(
+			new JSONWebSignature({ title: "Lease" })
+				.addSignature(publicKeyDER, "HS256")
+				.toString(),
+			false,
+		);
+		const decoded: DecodedJSONWebSignature =
+			JSONWebSignature.decode(json, false);
+		
+		expect((): boolean => forged.verifySignature(0, publicKeyDER))
+			.toThrow(JWTKeyMismatchError);
+		expect((): boolean => decoded.verifySignature(
+			0, JSONWebKey.fromKeyObject(rsaKeyPair.publicKey, { alg: "RS384" }),
+		)).toThrow(JWTKeyMismatchError);
+		expect(decoded.verifySignature(0, rsaKey)).toBe(true);
+		
+	});
+	
+	test("Signatures with unknown keys fail verification", (): void => {
+		
+		const jws: JSONWebSignature = new JSONWebSignature({ title: "Lease" })
+			.addSignature(otherECKeyPair.privateKey, "ES256", { kid: "other" });
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			jws.toString(), true, resolver
+		)).toThrow(JWTKeyNotFoundError);
+		
+	});
+	
+	test("Signatures using disallowed algorithms fail to verify", (): void => {
+		
+		const options = { allowedAlgorithms: ["ES256"] };
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			json, true, resolver, { ...options, policy: "all" }
+		)).toThrow(JWTValidationError);
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			json, true, resolver, { ...options, policy: "any" }
+		)).not.toThrow();
+		
+	});
+	
+	test("A tampered payload fails verification", (): void => {
+		
+		const tampered: GeneralJSONWebSignature = {
+			...json,
+			payload: Buffer.from(JSON.stringify({ title: "Sale" }))
+				.toString("base64url"),
+		};
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			tampered, true, resolver, { policy: "any" }
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Unprotected headers are not covered by the signature", (): void => {
+		
+		const modified: GeneralJSONWebSignature = {
+			...json,
+			signatures: [
+				json.signatures[0],
+				{ ...json.signatures[1], header: { kid: "ec", note: "hi" } },
+			],
+		};
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			modified, true, resolver
+		)).not.toThrow();
+		
+	});
+	
+	test("A verification key must be provided", (): void => {
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(json))
+			.toThrow(JWTValidationError);
+		
+	});
+	
+	test("Asynchronous key resolvers are supported", async (): Promise<void> => {
+		
+		const asyncResolver: KeyResolver = async (...args) => resolver(...args);
+		
+		expect((): DecodedJSONWebSignature => JSONWebSignature.decode(
+			json, true, asyncResolver
+		)).toThrow(JWTValidationError);
+		
+		await expect(DecodedJSONWebSignature.decodeAsync(
+			json, true, asyncResolver
+		)).resolves.toBeInstanceOf(DecodedJSONWebSignature);
+		
+		await expect(DecodedJSONWebSignature.decodeAsync(
+			withForgedSignature, true, asyncResolver
+		)).rejects.toThrow(JWTValidationError);
+		
+	});
+	
+});
@@ -0,0 +1,216 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:18 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JSONWebKey } from "../jwk/json-web-key.js";
+import { JSONWebKeySet } from "../jwk/json-web-key-set.js";
+import { createJSONWebKeySetResolver } from "../jwk/json-web-key-set-resolver.js";
+import { JSONWebTokenHeaders } from "../types/jwt-types.js";
+import { KeyResolver, VerificationKey } from "../types/key-types.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { JWTKeyNotFoundError } from "../error/jwt-key-not-found-error.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+
+const { privateKey: firstPrivateKey, publicKey: firstPublicKey } =
+	crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const { privateKey: secondPrivateKey, publicKey: secondPublicKey } =
+	crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+const keySet: JSONWebKeySet = new JSONWebKeySet([
+	JSONWebKey.fromKeyObject(firstPublicKey, { kid: "first", use: "sig" }),
+	JSONWebKey.fromKeyObject(secondPublicKey, { kid: "second", use: "sig" }),
+]);
+
+function createToken(privateKey: crypto.KeyObject, kid?: string): string {
+	
+	const headers: JSONWebTokenHeaders = { alg: "RS256", typ: "JWT" };
+	
+	const now: number = Math.floor(Date.now() / 1000);
+	
+	if (kid !== undefined) headers.kid = kid;
+	
+	return new JSONWebToken(
+		{ sub: "johns", exp: now + 60, nbf: now, iat: now },
+		privateKey,
+		"RS256",
+		headers,
+	).toString();
+	
+}
+
+describe("Key resolvers", (): void => {
+	
+	test("Synchronous resolvers are used by DecodedJSONWebToken.decode", (): void => {
+		
+		const resolver: KeyResolver = (): VerificationKey => firstPublicKey;
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey), true, resolver,
+		)).not.toThrow();
+		
+	});
+	
+	test("Resolvers are provided with the headers and payload of the JWT", (): void => {
+		
+		const resolver: jest.Mock = jest.fn((): VerificationKey => firstPublicKey);
+		
+		DecodedJSONWebToken.decode(createToken(firstPrivateKey, "first"), true, resolver);
+		
+		expect(resolver).toHaveBeenCalledWith(
+			expect.objectContaining({ kid: "first" }),
+			expect.objectContaining({ sub: "johns" }),
+		);
+		
+	});
+	
+	test("Resolvers that return no key cause validation to fail", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey), true, (): undefined => undefined,
+		)).toThrow(JWTKeyNotFoundError);
+		
+	});
+	
+	test("Asynchronous resolvers are used by DecodedJSONWebToken.decodeAsync", async (): Promise<void> => {
+		
+		const resolver: KeyResolver =
+			async (): Promise<VerificationKey> => secondPublicKey;
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			createToken(secondPrivateKey), true, resolver,
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			createToken(firstPrivateKey), true, resolver,
+		)).rejects.toThrow(JWTValidationError);
+		
+	});
+	
+	test("Asynchronous resolvers are rejected by DecodedJSONWebToken.validate", (): void => {
+		
+		const resolver: KeyResolver =
+			async (): Promise<VerificationKey> => firstPublicKey;
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey), true, resolver,
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+});
+
+describe("JWK set resolver", (): void => {
+	
+	const resolver: KeyResolver = createJSONWebKeySetResolver(keySet);
+	
+	test("Keys are selected using the 'kid' header", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey, "first"), true, resolver,
+		)).not.toThrow();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(secondPrivateKey, "second"), true, resolver,
+		)).not.toThrow();
+		
+	});
+	
+	test("JWTs signed with a key other than the one named by 'kid' are rejected", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey, "second"), true, resolver,
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Unknown 'kid' headers cause a JWTKeyNotFoundError", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey, "third"), true, resolver,
+		)).toThrow(JWTKeyNotFoundError);
+		
+	});
+	
+	test("JWTs without a 'kid' header are rejected if several keys are suitable", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey), true, resolver,
+		)).toThrow(JWTKeyNotFoundError);
+		
+	});
+	
+	test("JWTs without a 'kid' header use the only suitable key", (): void => {
+		
+		const singleKeyResolver: KeyResolver = createJSONWebKeySetResolver(
+			new JSONWebKeySet([
+				JSONWebKey.fromKeyObject(firstPublicKey, { use: "sig" }),
+				JSONWebKey.fromKeyObject(
+					crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" })
+						.publicKey,
+					{ use: "sig" },
+				),
+			])
+		);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey), true, singleKeyResolver,
+		)).not.toThrow();
+		
+	});
+	
+	test("Keys whose 'use' does not permit verification are never selected", (): void => {
+		
+		const encryptionKeyResolver: KeyResolver = createJSONWebKeySetResolver(
+			new JSONWebKeySet([
+				JSONWebKey.fromKeyObject(firstPublicKey, { kid: "first", use: "enc" }),
+			])
+		);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey, "first"), true, encryptionKeyResolver,
+		)).toThrow(JWTKeyNotFoundError);
+		
+	});
+	
+});
+
+describe("Key/algorithm mismatches", (): void => {
+	
+	test("HMAC secrets cannot be used to validate RSA-signed JWTs", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey), true, "hunter2",
+		)).toThrow(JWTKeyMismatchError);
+		
+	});
+	
+	test("RSA public keys cannot be used to validate HMAC-signed JWTs", (): void => {
+		
+		const token: string =
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256").toString();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, firstPublicKey.export({ type: "spki", format: "pem" }),
+		)).toThrow(JWTKeyMismatchError);
+		
+	});
+	
+	test("JWKs restricted to another algorithm are rejected", (): void => {
+		
+		const key: JSONWebKey =
+			JSONWebKey.fromKeyObject(firstPublicKey, { alg: "PS256" });
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken(firstPrivateKey), true, key,
+		)).toThrow(JWTKeyMismatchError);
+		
+	});
+	
+});
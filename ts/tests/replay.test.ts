@@ -0,0 +1,219 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:37 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { InMemoryReplayStore } from "../replay/in-memory-replay-store.js";
+import { ReplayStore } from "../types/replay-types.js";
+import { ValidationReport } from "../types/validation-report-types.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+
+const token: string = new JSONWebToken(
+	{ jti: "reset-1", nbf: now, exp: now + 600 }, secret, "HS256"
+).toString();
+
+describe("Replay detection", (): void => {
+	
+	test("JWTs can only be used once", (): void => {
+		
+		const replayStore: InMemoryReplayStore = new InMemoryReplayStore();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, { replayStore }
+		)).not.toThrow();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, { replayStore }
+		)).toThrow(expect.objectContaining({
+			code: "TOKEN_REPLAYED",
+			claim: "jti",
+			actual: "reset-1",
+		}));
+		
+	});
+	
+	test("Replay detection is disabled by default", (): void => {
+		
+		DecodedJSONWebToken.decode(token, true, secret);
+		
+		expect((): DecodedJSONWebToken =>
+			DecodedJSONWebToken.decode(token, true, secret)
+		).not.toThrow();
+		
+	});
+	
+	test("JWTs without a 'jti' claim are rejected", (): void => {
+		
+		const withoutJWTID: string = new JSONWebToken(
+			{ nbf: now, exp: now + 600 }, secret, "HS256"
+		).toString();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			withoutJWTID, true, secret,
+			{ replayStore: new InMemoryReplayStore() },
+		)).toThrow(expect.objectContaining({ code: "CLAIM_MISSING" }));
+		
+	});
+	
+	test("JWTs without an 'exp' claim are rejected", (): void => {
+		
+		const replayStore: InMemoryReplayStore = new InMemoryReplayStore();
+		const withoutExpiry: string = new JSONWebToken(
+			{ jti: "reset-2", nbf: now }, secret, "HS256"
+		).toString();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			withoutExpiry, true, secret,
+			{ replayStore, validateExpirationTimeClaim: false },
+		)).toThrow(expect.objectContaining({
+			code: "CLAIM_MISSING",
+			claim: "exp",
+		}));
+		
+		expect(replayStore.getSize()).toBe(0);
+		
+	});
+	
+	test("JWTs failing other checks are not recorded", (): void => {
+		
+		const replayStore: InMemoryReplayStore = new InMemoryReplayStore();
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, "wrong-secret", { replayStore }
+		)).toThrow(JWTValidationError);
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, { replayStore, allowableIssuers: ["acme"] }
+		)).toThrow(JWTValidationError);
+		
+		expect(replayStore.getSize()).toBe(0);
+		
+	});
+	
+	test("Entries expire at the 'exp' claim plus the tolerance", (): void => {
+		
+		let time: number = now * 1000;
+		const replayStore: InMemoryReplayStore =
+			new InMemoryReplayStore((): number => time);
+		
+		DecodedJSONWebToken.decode(token, true, secret, {
+			replayStore,
+			timingTolerance: 60,
+			validateNotBeforeClaim: false,
+		});
+		
+		time = (now + 650) * 1000;
+		expect(replayStore.getSize()).toBe(1);
+		
+		time = (now + 661) * 1000;
+		expect(replayStore.getSize()).toBe(0);
+		
+	});
+	
+	test("Replays are reported without being recorded", (): void => {
+		
+		const replayStore: InMemoryReplayStore = new InMemoryReplayStore();
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(token, false);
+		
+		const failing: ValidationReport = decoded.getValidationReport(
+			secret, { replayStore, allowableSubjects: ["johns"] }
+		);
+		
+		expect(failing.checks[failing.checks.length - 1].status).toBe("skip");
+		expect(replayStore.getSize()).toBe(0);
+		
+		decoded.validate(secret, { replayStore });
+		
+		const replayed: ValidationReport =
+			decoded.getValidationReport(secret, { replayStore });
+		
+		expect(replayed.valid).toBe(false);
+		expect(replayed.checks[replayed.checks.length - 1].error?.code)
+			.toBe("TOKEN_REPLAYED");
+		
+	});
+	
+	test("Reports do not consume the 'jti' claim", async (): Promise<void> => {
+		
+		const replayStore: InMemoryReplayStore = new InMemoryReplayStore();
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(token, false);
+		
+		const report: ValidationReport =
+			decoded.getValidationReport(secret, { replayStore });
+		const asyncReport: ValidationReport =
+			await decoded.getValidationReportAsync(secret, { replayStore });
+		
+		expect(report.valid).toBe(true);
+		expect(report.checks[report.checks.length - 1].status).toBe("pass");
+		expect(asyncReport.checks[asyncReport.checks.length - 1].status)
+			.toBe("pass");
+		expect(replayStore.getSize()).toBe(0);
+		
+		expect((): void => decoded.validate(secret, { replayStore }))
+			.not.toThrow();
+		
+	});
+	
+	test("Stores without lookups are skipped by reports", (): void => {
+		
+		const checkAndSet: jest.Mock = jest.fn((): boolean => true);
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(token, false);
+		
+		const report: ValidationReport = decoded.getValidationReport(
+			secret, { replayStore: { checkAndSet } }
+		);
+		
+		expect(report.valid).toBe(true);
+		expect(report.checks[report.checks.length - 1].status).toBe("skip");
+		expect(checkAndSet).not.toHaveBeenCalled();
+		
+	});
+	
+});
+
+describe("Asynchronous replay stores", (): void => {
+	
+	const seen: Set<string> = new Set();
+	
+	const asyncStore: ReplayStore = {
+		checkAndSet: async (jwtID: string): Promise<boolean> => {
+			
+			if (seen.has(jwtID)) return false;
+			
+			seen.add(jwtID);
+			
+			return true;
+			
+		},
+	};
+	
+	test("Asynchronous stores are awaited", async (): Promise<void> => {
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			token, true, secret, { replayStore: asyncStore }
+		)).resolves.toBeInstanceOf(DecodedJSONWebToken);
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			token, true, secret, { replayStore: asyncStore }
+		)).rejects.toMatchObject({ code: "TOKEN_REPLAYED" });
+		
+	});
+	
+	test("Asynchronous stores cannot be used synchronously", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, secret, { replayStore: asyncStore }
+		)).toThrow(expect.objectContaining({ code: "ASYNC_REQUIRED" }));
+		
+	});
+	
+});
@@ -0,0 +1,278 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:48 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import {
+	InMemoryRevocationChecker,
+} from "../revocation/in-memory-revocation-checker.js";
+import { createRevocationList } from "../revocation/revocation-list.js";
+import {
+	FileRevocationChecker,
+} from "../revocation/file-revocation-checker.js";
+import {
+	RevocationChecker,
+	RevocationList,
+} from "../types/revocation-types.js";
+import { JSONWebTokenPayload } from "../types/jwt-types.js";
+import { RevocationListError } from "../error/revocation-list-error.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+
+/**
+ * Returns a new JWT with the provided claims, signed using the 'rotating' key.
+ */
+function createToken(claims: JSONWebTokenPayload): string {
+	
+	return new JSONWebToken(
+		{ sub: "johns", jti: "session-1", iat: now - 60, nbf: now, ...claims },
+		secret,
+		"HS256",
+		{ typ: "JWT", alg: "HS256", kid: "rotating" },
+	).toString();
+	
+}
+
+/**
+ * Decodes and validates the provided token against the provided revocation
+ * checker.
+ */
+function decode(token: string,
+				revocationChecker: RevocationChecker): DecodedJSONWebToken {
+	
+	return DecodedJSONWebToken.decode(token, true, secret, {
+		validateExpirationTimeClaim: false,
+		revocationChecker,
+	});
+	
+}
+
+describe("In-memory revocation", (): void => {
+	
+	test("JWTs can be revoked by 'jti'", (): void => {
+		
+		const checker: InMemoryRevocationChecker =
+			new InMemoryRevocationChecker();
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.not.toThrow();
+		
+		checker.revokeJWTID("session-1");
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		expect((): DecodedJSONWebToken =>
+			decode(createToken({ jti: "session-2" }), checker)
+		).not.toThrow();
+		
+	});
+	
+	test("JWTs can be revoked by 'sub' before a cutoff", (): void => {
+		
+		const checker: InMemoryRevocationChecker =
+			new InMemoryRevocationChecker();
+		
+		checker.revokeSubject("johns", new Date((now - 30) * 1000));
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		expect((): DecodedJSONWebToken =>
+			decode(createToken({ iat: now }), checker)
+		).not.toThrow();
+		expect((): DecodedJSONWebToken =>
+			decode(createToken({ sub: "janed" }), checker)
+		).not.toThrow();
+		
+	});
+	
+	test("JWTs issued within the same second as a cutoff are revoked", (): void => {
+		
+		const checker: InMemoryRevocationChecker =
+			new InMemoryRevocationChecker();
+		
+		checker.revokeSubject("johns", new Date(now * 1000 + 999));
+		
+		expect((): DecodedJSONWebToken =>
+			decode(createToken({ iat: now }), checker)
+		).toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		expect((): DecodedJSONWebToken =>
+			decode(createToken({ iat: now + 1 }), checker)
+		).not.toThrow();
+		
+	});
+	
+	test("The provided list is copied rather than modified", (): void => {
+		
+		const list: RevocationList = createRevocationList();
+		const checker: InMemoryRevocationChecker =
+			new InMemoryRevocationChecker(list);
+		
+		checker.revokeJWTID("session-1");
+		checker.revokeSubject("johns");
+		checker.revokeKeyID("rotating");
+		
+		expect(list).toStrictEqual(createRevocationList());
+		
+	});
+	
+	test("JWTs can be revoked by 'kid'", (): void => {
+		
+		const checker: InMemoryRevocationChecker =
+			new InMemoryRevocationChecker({ keyIDs: ["rotating"] });
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		
+	});
+	
+	test("Revocation checking is disabled by default", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			createToken({}),
+			true,
+			secret,
+			{ validateExpirationTimeClaim: false },
+		)).not.toThrow();
+		
+	});
+	
+	test("Asynchronous checkers are awaited", async (): Promise<void> => {
+		
+		const checker: RevocationChecker = {
+			isRevoked: async (): Promise<boolean> => true,
+		};
+		
+		await expect(DecodedJSONWebToken.decodeAsync(
+			createToken({}), true, secret, {
+				validateExpirationTimeClaim: false,
+				revocationChecker: checker,
+			}
+		)).rejects.toMatchObject({ code: "TOKEN_REVOKED" });
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "ASYNC_REQUIRED" }));
+		
+	});
+	
+});
+
+describe("File-backed revocation", (): void => {
+	
+	let directory: string;
+	let file: string;
+	
+	beforeEach((): void => {
+		
+		directory = fs.mkdtempSync(path.join(os.tmpdir(), "tsjwt-"));
+		file = path.join(directory, "revoked.json");
+		
+	});
+	
+	afterEach((): void => {
+		
+		fs.rmSync(directory, { recursive: true, force: true });
+		
+	});
+	
+	test("The revocation list is read from the file", (): void => {
+		
+		fs.writeFileSync(file, JSON.stringify({ jwtIDs: ["session-1"] }));
+		
+		const checker: FileRevocationChecker = new FileRevocationChecker(file);
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		
+	});
+	
+	test("The revocation list is reloaded when the file changes", (): void => {
+		
+		fs.writeFileSync(file, "{}");
+		
+		const checker: FileRevocationChecker =
+			new FileRevocationChecker(file, { checkInterval: 0 });
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.not.toThrow();
+		
+		fs.writeFileSync(file, JSON.stringify({ subjects: { johns: now } }));
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		
+	});
+	
+	test("The file is checked at most once per check interval", (): void => {
+		
+		let time: number = 0;
+		
+		fs.writeFileSync(file, "{}");
+		
+		const checker: FileRevocationChecker = new FileRevocationChecker(
+			file, { checkInterval: 1000, clock: (): number => time },
+		);
+		const statSync: jest.SpyInstance = jest.spyOn(fs, "statSync");
+		
+		fs.writeFileSync(file, JSON.stringify({ jwtIDs: ["session-1"] }));
+		
+		time = 999;
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.not.toThrow();
+		expect(statSync).not.toHaveBeenCalled();
+		
+		time = 1000;
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		expect(statSync).toHaveBeenCalledTimes(1);
+		
+		statSync.mockRestore();
+		
+	});
+	
+	test("The last good list is kept if the file becomes unreadable", (): void => {
+		
+		fs.writeFileSync(file, JSON.stringify({ jwtIDs: ["session-1"] }));
+		
+		const checker: FileRevocationChecker =
+			new FileRevocationChecker(file, { checkInterval: 0 });
+		
+		fs.writeFileSync(file, "{\"jwtIDs\": [");
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		
+		fs.rmSync(file);
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.toThrow(expect.objectContaining({ code: "TOKEN_REVOKED" }));
+		
+		fs.writeFileSync(file, "{}");
+		
+		expect((): DecodedJSONWebToken => decode(createToken({}), checker))
+			.not.toThrow();
+		
+	});
+	
+	test("Malformed revocation lists are rejected", (): void => {
+		
+		fs.writeFileSync(file, JSON.stringify({ keyIDs: "rotating" }));
+		
+		expect((): FileRevocationChecker => new FileRevocationChecker(file))
+			.toThrow(RevocationListError);
+		expect((): FileRevocationChecker =>
+			new FileRevocationChecker(path.join(directory, "missing.json"))
+		).toThrow(RevocationListError);
+		
+	});
+	
+});
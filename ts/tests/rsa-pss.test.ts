@@ -0,0 +1,126 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 3:04 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+	modulusLength: 2048,
+});
+
+const HASH_LENGTHS: { [alg: string]: number } = {
+	"PS256": 32,
+	"PS384": 48,
+	"PS512": 64,
+};
+
+describe.each(["PS256", "PS384", "PS512"] as const)("alg: %s", (alg): void => {
+	
+	const hash: string = `SHA${alg.substring(2)}`;
+	
+	const jwt: JSONWebToken = new JSONWebToken(
+		{ user: "johns", admin: false },
+		privateKey,
+		alg,
+	);
+	
+	const encodedHeaders: string = jwt.getEncodedHeaders();
+	const encodedPayload: string = jwt.getEncodedPayload();
+	const signingInput: Buffer =
+		Buffer.from(`${encodedHeaders}.${encodedPayload}`);
+	
+	test("Signature uses a salt length equal to the hash size", (): void => {
+		
+		expect(crypto.verify(
+			hash,
+			signingInput,
+			{
+				key: publicKey,
+				padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+				saltLength: HASH_LENGTHS[alg],
+			},
+			Buffer.from(jwt.getSignature(), "base64url"),
+		)).toBeTruthy();
+		
+	});
+	
+	test("Signature validates against the matching public key", (): void => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(jwt.toString(), false);
+		
+		expect(decoded.validateSignature(publicKey)).toBeTruthy();
+		
+	});
+	
+	test("Externally produced signatures with spec parameters validate", (): void => {
+		
+		const signature: string = crypto.sign(hash, signingInput, {
+			key: privateKey,
+			padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+			saltLength: HASH_LENGTHS[alg],
+		}).toString("base64url");
+		
+		const decoded: DecodedJSONWebToken = DecodedJSONWebToken.decode(
+			`${encodedHeaders}.${encodedPayload}.${signature}`, false
+		);
+		
+		expect(decoded.validateSignature(publicKey)).toBeTruthy();
+		
+	});
+	
+	test("Signatures using a non-spec salt length DO NOT validate", (): void => {
+		
+		const signature: string = crypto.sign(hash, signingInput, {
+			key: privateKey,
+			padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+			saltLength: 0,
+		}).toString("base64url");
+		
+		const decoded: DecodedJSONWebToken = DecodedJSONWebToken.decode(
+			`${encodedHeaders}.${encodedPayload}.${signature}`, false
+		);
+		
+		expect(decoded.validateSignature(publicKey)).toBeFalsy();
+		
+	});
+	
+	test("RSASSA-PKCS1-v1_5 signatures DO NOT validate", (): void => {
+		
+		const signature: string = crypto.sign(hash, signingInput, privateKey)
+			.toString("base64url");
+		
+		const decoded: DecodedJSONWebToken = DecodedJSONWebToken.decode(
+			`${encodedHeaders}.${encodedPayload}.${signature}`, false
+		);
+		
+		expect(decoded.validateSignature(publicKey)).toBeFalsy();
+		
+	});
+	
+});
+
+describe("RSASSA-PSS keys", (): void => {
+	
+	test("'rsa-pss' keys can be used for signing and verification", (): void => {
+		
+		const { privateKey: pssPrivateKey, publicKey: pssPublicKey } =
+			crypto.generateKeyPairSync("rsa-pss", { modulusLength: 2048 });
+		
+		const token: string = new JSONWebToken(
+			{ sub: "johns" },
+			pssPrivateKey,
+			"PS256",
+		).toString();
+		
+		expect(DecodedJSONWebToken.decode(token, false)
+			.validateSignature(pssPublicKey)).toBeTruthy();
+		
+	});
+	
+});
@@ -0,0 +1,175 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 2:31 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import * as crypto from "node:crypto";
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JWTKeyError } from "../error/jwt-key-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+import { JWTKeyMismatchError } from "../error/jwt-key-mismatch-error.js";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", {
+	modulusLength: 2048,
+});
+
+const { publicKey: otherPublicKey } = crypto.generateKeyPairSync("rsa", {
+	modulusLength: 2048,
+});
+
+describe.each(["RS256", "RS384", "RS512"] as const)("alg: %s", (alg): void => {
+	
+	const jwt: JSONWebToken = new JSONWebToken(
+		{ user: "johns", admin: false },
+		privateKey,
+		alg,
+	);
+	
+	test("Signature is verifiable by an independent RSASSA-PKCS1-v1_5 implementation", (): void => {
+		
+		const [headers, payload, signature] = jwt.toString().split(".");
+		
+		expect(crypto.verify(
+			`SHA${alg.substring(2)}`,
+			Buffer.from(`${headers}.${payload}`),
+			publicKey,
+			Buffer.from(signature, "base64url"),
+		)).toBeTruthy();
+		
+	});
+	
+	test("Signature validates against the matching public key", (): void => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(jwt.toString(), false);
+		
+		expect(decoded.validateSignature(publicKey)).toBeTruthy();
+		
+	});
+	
+	test("Signature DOES NOT validate against another public key", (): void => {
+		
+		const decoded: DecodedJSONWebToken =
+			DecodedJSONWebToken.decode(jwt.toString(), false);
+		
+		expect(decoded.validateSignature(otherPublicKey)).toBeFalsy();
+		
+	});
+	
+});
+
+describe("RSA key formats", (): void => {
+	
+	const token: string = new JSONWebToken(
+		{ sub: "johns" },
+		privateKey.export({ type: "pkcs8", format: "pem" }),
+		"RS256",
+	).toString();
+	
+	const decoded: DecodedJSONWebToken =
+		DecodedJSONWebToken.decode(token, false);
+	
+	test("PEM-encoded SPKI public keys are accepted", (): void => {
+		
+		expect(decoded.validateSignature(
+			publicKey.export({ type: "spki", format: "pem" })
+		)).toBeTruthy();
+		
+	});
+	
+	test("PEM-encoded PKCS#1 public keys are accepted", (): void => {
+		
+		expect(decoded.validateSignature(
+			publicKey.export({ type: "pkcs1", format: "pem" })
+		)).toBeTruthy();
+		
+	});
+	
+	test("DER-encoded SPKI public keys are accepted", (): void => {
+		
+		expect(decoded.validateSignature(
+			publicKey.export({ type: "spki", format: "der" })
+		)).toBeTruthy();
+		
+	});
+	
+	test("DER-encoded PKCS#1 private keys are accepted for signing", (): void => {
+		
+		const derSignedToken: string = new JSONWebToken(
+			{ sub: "johns" },
+			privateKey.export({ type: "pkcs1", format: "der" }),
+			"RS256",
+		).toString();
+		
+		expect(derSignedToken).toBe(token);
+		
+	});
+	
+	test("Public keys cannot be used for signing", (): void => {
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" },
+			publicKey,
+			"RS256",
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+	test("RSA keys shorter than 2048 bits are rejected", (): void => {
+		
+		const { privateKey: shortKey } = crypto.generateKeyPairSync("rsa", {
+			modulusLength: 1024,
+		});
+		
+		expect((): string => new JSONWebToken(
+			{ sub: "johns" },
+			shortKey,
+			"RS256",
+		).toString()).toThrow(JWTKeyError);
+		
+	});
+	
+	test("HMAC secrets cannot be used to verify RSA signatures", (): void => {
+		
+		expect((): boolean => decoded.validateSignature("hunter2"))
+			.toThrow(JWTKeyMismatchError);
+		
+	});
+	
+});
+
+describe("RSA validation", (): void => {
+	
+	const token: string = new JSONWebToken(
+		{ sub: "johns", exp: Math.floor(Date.now() / 1000) + 60 },
+		privateKey,
+		"RS256",
+	).toString();
+	
+	test("Decoding with validation succeeds with the correct public key", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, publicKey, { validateNotBeforeClaim: false },
+		)).not.toThrow();
+		
+	});
+	
+	test("Decoding with validation fails with the wrong public key", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, otherPublicKey, { validateNotBeforeClaim: false },
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+	test("Decoding with validation fails without a verification key", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(token))
+			.toThrow(JWTValidationError);
+		
+	});
+	
+});
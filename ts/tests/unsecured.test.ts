@@ -0,0 +1,143 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:15 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { UnsecuredJSONWebToken } from "../jwt/unsecured-json-web-token.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import { JWTParsingError } from "../error/jwt-parsing-error.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+const now: number = Math.floor(Date.now() / 1000);
+
+const jwt: UnsecuredJSONWebToken = new UnsecuredJSONWebToken(
+	{ sub: "johns", exp: now + 60, nbf: now },
+);
+
+const token: string = jwt.toString();
+
+describe("Creation", (): void => {
+	
+	test("Unsecured JWTs are serialized with a trailing dot", (): void => {
+		
+		const [headers, payload, signature] = token.split(".");
+		
+		expect(token.endsWith(".")).toBeTruthy();
+		expect(signature).toBe("");
+		expect(JSON.parse(Buffer.from(headers, "base64url").toString()))
+			.toStrictEqual({ typ: "JWT", alg: "none" });
+		expect(JSON.parse(Buffer.from(payload, "base64url").toString()))
+			.toStrictEqual({ sub: "johns", exp: now + 60, nbf: now });
+		
+	});
+	
+	test("The 'alg' header cannot be overridden", (): void => {
+		
+		const overridden: UnsecuredJSONWebToken =
+			new UnsecuredJSONWebToken({ sub: "johns" }, { alg: "HS256" });
+		
+		expect(overridden.getHeaders().alg).toBe("none");
+		
+	});
+	
+});
+
+describe("Parsing", (): void => {
+	
+	test("Unsecured JWTs can be decoded using UnsecuredJSONWebToken.decode", (): void => {
+		
+		const decoded: DecodedJSONWebToken = UnsecuredJSONWebToken.decode(token);
+		
+		expect(decoded.isUnsecured()).toBeTruthy();
+		expect(decoded.getPayload().sub).toBe("johns");
+		expect(decoded.toString()).toBe(token);
+		
+	});
+	
+	test("Claims of unsecured JWTs are still validated", (): void => {
+		
+		const expired: string = new UnsecuredJSONWebToken(
+			{ sub: "johns", exp: now - 60, nbf: now - 120 },
+		).toString();
+		
+		expect((): DecodedJSONWebToken => UnsecuredJSONWebToken.decode(expired))
+			.toThrow(JWTValidationError);
+		expect((): DecodedJSONWebToken => UnsecuredJSONWebToken.decode(expired, false))
+			.not.toThrow();
+		
+	});
+	
+	test("Signed JWTs are rejected by UnsecuredJSONWebToken.decode", (): void => {
+		
+		const signed: string =
+			new JSONWebToken({ sub: "johns" }, "hunter2", "HS256").toString();
+		
+		expect((): DecodedJSONWebToken => UnsecuredJSONWebToken.decode(signed, false))
+			.toThrow(JWTParsingError);
+		
+	});
+	
+	test("Unsecured JWTs with a non-empty signature are rejected", (): void => {
+		
+		expect((): DecodedJSONWebToken => UnsecuredJSONWebToken.decode(
+			`${token}c2lnbmF0dXJl`
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+});
+
+describe("Validation", (): void => {
+	
+	test("Unsecured JWTs are rejected by DecodedJSONWebToken.decode by default", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(token, false))
+			.toThrow(JWTParsingError);
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, "hunter2"
+		)).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Unsecured JWTs are rejected by validate by default", (): void => {
+		
+		const decoded: DecodedJSONWebToken = UnsecuredJSONWebToken.decode(token);
+		
+		expect((): void => decoded.validate("hunter2")).toThrow(JWTParsingError);
+		expect((): void => decoded.validate("hunter2", {
+			allowedAlgorithms: ["none"],
+		})).toThrow(JWTParsingError);
+		
+	});
+	
+	test("Unsecured JWTs are accepted when 'allowUnsecuredJWTs' is set", (): void => {
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			token, true, undefined, { allowUnsecuredJWTs: true },
+		)).not.toThrow();
+		
+	});
+	
+	test("'allowUnsecuredJWTs' does not allow signed JWTs to skip verification", (): void => {
+		
+		const [headers, payload] = new JSONWebToken(
+			{ sub: "johns", exp: now + 60, nbf: now },
+			"hunter2",
+			"HS256",
+		).toString().split(".");
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			`${headers}.${payload}.`, true, "hunter2", { allowUnsecuredJWTs: true },
+		)).toThrow(JWTParsingError);
+		
+		expect((): DecodedJSONWebToken => DecodedJSONWebToken.decode(
+			`${headers}.${payload}.c2lnbmF0dXJl`, true, undefined,
+			{ allowUnsecuredJWTs: true },
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+});
@@ -0,0 +1,206 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 2:24 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import "../node.js";
+import { JSONWebToken } from "../jwt/json-web-token.js";
+import { DecodedJSONWebToken } from "../jwt/decoded-json-web-token.js";
+import {
+	ValidationCheckResult,
+	ValidationReport,
+} from "../types/validation-report-types.js";
+import { JWTValidationError } from "../error/jwt-validation-error.js";
+
+const secret: string = "hunter2";
+const now: number = Math.floor(Date.now() / 1000);
+
+const expired: DecodedJSONWebToken = DecodedJSONWebToken.decode(
+	new JSONWebToken(
+		{ iss: "globex", nbf: now - 120, exp: now - 60 }, secret, "HS256"
+	).toString(),
+	false,
+);
+
+/**
+ * Returns the name and status of every check in the provided report.
+ */
+function getStatuses(report: ValidationReport): string[][] {
+	
+	return report.checks.map((result: ValidationCheckResult): string[] =>
+		[result.check, result.status]);
+	
+}
+
+describe("Validation reports", (): void => {
+	
+	test("Every check is run, even after a failure", (): void => {
+		
+		const report: ValidationReport = expired.getValidationReport(
+			"wrong-secret",
+			{ allowableIssuers: ["acme"] },
+		);
+		
+		expect(report.valid).toBe(false);
+		expect(getStatuses(report)).toStrictEqual([
+			["criticalHeaders", "pass"],
+			["algorithm", "pass"],
+			["signature", "fail"],
+			["issuer", "fail"],
+			["subject", "skip"],
+			["audience", "skip"],
+			["expirationTime", "fail"],
+			["notBefore", "pass"],
+			["issuedAt", "skip"],
+			["claimsSchema", "skip"],
+			["revocation", "skip"],
+			["replay", "skip"],
+		]);
+		
+	});
+	
+	test("Failed checks report their errors", (): void => {
+		
+		const report: ValidationReport = expired.getValidationReport(
+			"wrong-secret",
+			{ allowableIssuers: ["acme"] },
+		);
+		
+		const failures: ValidationCheckResult[] = report.checks.filter(
+			(result: ValidationCheckResult): boolean => result.status === "fail"
+		);
+		
+		expect(failures.map((result: ValidationCheckResult): unknown =>
+			result.error?.code)).toStrictEqual([
+			"SIGNATURE_INVALID",
+			"ISSUER_NOT_ALLOWED",
+			"TOKEN_EXPIRED",
+		]);
+		expect(failures[1].claim).toBe("iss");
+		
+	});
+	
+	test("Valid JWTs produce a passing report", (): void => {
+		
+		const report: ValidationReport = expired.getValidationReport(
+			secret,
+			{ validateExpirationTimeClaim: false },
+		);
+		
+		expect(report.valid).toBe(true);
+		expect(report.checks.every((result: ValidationCheckResult): boolean =>
+			result.error === undefined)).toBe(true);
+		
+	});
+	
+	test("Disallowed algorithms skip the signature check", (): void => {
+		
+		const report: ValidationReport = expired.getValidationReport(
+			secret,
+			{ allowedAlgorithms: ["RS256"] },
+		);
+		
+		expect(getStatuses(report).slice(1, 3)).toStrictEqual([
+			["algorithm", "fail"],
+			["signature", "skip"],
+		]);
+		
+	});
+	
+	test("Missing keys are reported against the signature", (): void => {
+		
+		const report: ValidationReport =
+			expired.getValidationReport(undefined);
+		
+		expect(report.checks[2].error?.code).toBe("KEY_MISSING");
+		
+	});
+	
+	test("The throwing validation method is unaffected", (): void => {
+		
+		expect((): void => expired.validate(
+			"wrong-secret",
+			{ allowableIssuers: ["acme"] },
+		)).toThrow(JWTValidationError);
+		
+	});
+	
+});
+
+describe("Custom validators in reports", (): void => {
+	
+	test("Custom validators are reported individually", (): void => {
+		
+		const report: ValidationReport = expired.getValidationReport(secret, {
+			claimValidators: {
+				iss: [(): boolean => true, (): boolean => false],
+			},
+			tokenValidators: [(): boolean => true],
+		});
+		
+		expect(report.checks.slice(-4, -1).map(
+			(result: ValidationCheckResult): unknown[] =>
+				[result.check, result.claim, result.status]
+		)).toStrictEqual([
+			["customValidator", "iss", "pass"],
+			["customValidator", "iss", "fail"],
+			["customValidator", undefined, "pass"],
+		]);
+		
+	});
+	
+	test("Custom validators are skipped for inauthentic JWTs", (): void => {
+		
+		const validator = jest.fn((): boolean => true);
+		
+		const report: ValidationReport = expired.getValidationReport(
+			"wrong-secret",
+			{ tokenValidators: [validator] },
+		);
+		
+		expect(report.checks[report.checks.length - 2].status).toBe("skip");
+		expect(validator).not.toHaveBeenCalled();
+		
+	});
+	
+	test("Unexpected errors are wrapped", (): void => {
+		
+		const cause: Error = new TypeError("oops");
+		
+		const report: ValidationReport = expired.getValidationReport(secret, {
+			validateExpirationTimeClaim: false,
+			tokenValidators: [(): boolean => {
+				
+				throw cause;
+				
+			}],
+		});
+		
+		expect(report.valid).toBe(false);
+		expect(report.checks[report.checks.length - 2].error)
+			.toMatchObject({ code: "VALIDATION_FAILED", cause });
+		
+	});
+	
+	test("Asynchronous reports await validators", async (): Promise<void> => {
+		
+		const report: ValidationReport = await expired.getValidationReportAsync(
+			async (): Promise<string> => secret,
+			{
+				validateExpirationTimeClaim: false,
+				claimValidators: {
+					iss: async (value: unknown): Promise<boolean> =>
+						value === "acme",
+				},
+			},
+		);
+		
+		expect(report.valid).toBe(false);
+		expect(report.checks[2].status).toBe("pass");
+		expect(report.checks[report.checks.length - 2].error?.code)
+			.toBe("CUSTOM_VALIDATION_FAILED");
+		
+	});
+	
+});
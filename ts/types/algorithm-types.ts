@@ -0,0 +1,55 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:12 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { SigningKey, VerificationKey } from "./key-types.js";
+
+/**
+ * An implementation of a JWS signing algorithm, registered under the 'alg'
+ * header value that identifies it.
+ * 
+ * @see SigningAlgorithmRegistry
+ */
+export type SigningAlgorithm = {
+	
+	/**
+	 * The 'alg' header value that identifies this algorithm (e.g. 'RS256').
+	 */
+	identifier: string,
+	
+	/**
+	 * The types of keys that can be used with this algorithm.
+	 * 
+	 * For symmetric algorithms this should be `["secret"]`, whereas for
+	 * asymmetric algorithms this should be the list of acceptable asymmetric
+	 * key types (as in `KeyObject.asymmetricKeyType`).
+	 */
+	keyTypes: string[],
+	
+	/**
+	 * Returns the base64url encoded signature of the provided signing input
+	 * (the encoded headers and payload of a JWT, joined by a dot), produced
+	 * using the provided signing key.
+	 * 
+	 * @param {string} input The signing input to sign.
+	 * @param {SigningKey} key The key with which to sign the input.
+	 * @returns {string} The base64url encoded signature of the input.
+	 */
+	sign: (input: string, key: SigningKey) => string,
+	
+	/**
+	 * Returns true if the provided base64url encoded signature is a valid
+	 * signature of the provided signing input, according to the provided
+	 * verification key, otherwise false.
+	 * 
+	 * @param {string} input The signing input that was supposedly signed.
+	 * @param {string} signature The base64url encoded signature to verify.
+	 * @param {VerificationKey} key The key against which to verify the
+	 * signature.
+	 * @returns {boolean} true if the signature is valid, otherwise false.
+	 */
+	verify: (input: string, signature: string, key: VerificationKey) => boolean,
+	
+};
@@ -0,0 +1,213 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 11:51 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONPrimitive } from "./json-types.js";
+
+/**
+ * The properties shared by every kind of {@link ClaimSchema}.
+ */
+export type BaseClaimSchema = {
+	
+	/**
+	 * A boolean value indicating whether the claim must be present. Defaults
+	 * to `false`.
+	 */
+	required?: boolean,
+	
+};
+
+/**
+ * A schema describing a claim whose value must be a string.
+ */
+export type StringClaimSchema = BaseClaimSchema & {
+	
+	type: "string",
+	
+	/**
+	 * If present, the values that the claim is permitted to take.
+	 */
+	enum?: string[],
+	
+};
+
+/**
+ * A schema describing a claim whose value must be a number.
+ */
+export type NumberClaimSchema = BaseClaimSchema & {
+	
+	type: "number",
+	
+	/**
+	 * If present, the values that the claim is permitted to take.
+	 */
+	enum?: number[],
+	
+};
+
+/**
+ * A schema describing a claim whose value must be a boolean.
+ */
+export type BooleanClaimSchema = BaseClaimSchema & {
+	
+	type: "boolean",
+	
+};
+
+/**
+ * A schema describing a claim whose value must be an array.
+ */
+export type ArrayClaimSchema = BaseClaimSchema & {
+	
+	type: "array",
+	
+	/**
+	 * If present, the schema that every element of the array must match.
+	 */
+	items?: ClaimSchema,
+	
+};
+
+/**
+ * A schema describing a claim whose value must be a (nested) object.
+ */
+export type ObjectClaimSchema = BaseClaimSchema & {
+	
+	type: "object",
+	
+	/**
+	 * The schemas of the properties of the object, keyed by property name.
+	 */
+	properties: ClaimsSchema,
+	
+	/**
+	 * A boolean value indicating whether properties that are not described by
+	 * {@link ObjectClaimSchema.properties} are permitted. Defaults to `true`.
+	 */
+	additionalProperties?: boolean,
+	
+};
+
+/**
+ * A schema describing the permitted value of a single claim (or of a nested
+ * property or array element within a claim).
+ */
+export type ClaimSchema =
+	| StringClaimSchema
+	| NumberClaimSchema
+	| BooleanClaimSchema
+	| ArrayClaimSchema
+	| ObjectClaimSchema;
+
+/**
+ * A schema describing the claims within the payload of a JWT, keyed by claim
+ * name.
+ *
+ * Claims that are not described by the schema are always permitted, so that
+ * the registered claims (such as 'exp') need not be repeated in every schema.
+ */
+export type ClaimsSchema = {
+	[claim: string]: ClaimSchema,
+};
+
+/**
+ * The reason for which a claim failed to match a {@link ClaimsSchema}.
+ *
+ * - `"missing"`: a required claim was absent.
+ * - `"type"`: a claim was of the wrong type.
+ * - `"enum"`: a claim was not one of its permitted values.
+ * - `"unexpected"`: a property was present on an object that does not permit
+ * additional properties.
+ */
+export type ClaimsSchemaViolationReason =
+	| "missing"
+	| "type"
+	| "enum"
+	| "unexpected";
+
+/**
+ * A single way in which the payload of a JWT failed to match a
+ * {@link ClaimsSchema}.
+ */
+export type ClaimsSchemaViolation = {
+	
+	/**
+	 * The path to the offending claim within the payload, such as 'sub',
+	 * 'address.city', or 'roles[1]'.
+	 */
+	path: string,
+	
+	/**
+	 * The reason for which the claim failed to match the schema.
+	 */
+	reason: ClaimsSchemaViolationReason,
+	
+	/**
+	 * A human-readable description of the violation.
+	 */
+	message: string,
+	
+};
+
+/**
+ * An entry in {@link ValidationOptions.allowableAudiences}.
+ *
+ * Strings are matched against the audiences of incoming JWTs according to the
+ * {@link ValidationOptions.audienceMatching} mode, RegExps are always tested
+ * against the audiences directly, and `undefined` permits JWTs without any
+ * audience.
+ */
+export type AllowableAudience = JSONPrimitive | RegExp | undefined;
+
+/**
+ * The way in which string {@link AllowableAudience}s are matched against the
+ * audiences of incoming JWTs.
+ *
+ * - `"exact"`: the audience must be exactly equal to the allowable audience.
+ * - `"prefix"`: the audience must start with the allowable audience.
+ * - `"origin"`: the audience must be a URL whose origin matches that of the
+ * allowable audience, in which a `*` matches any single DNS label (such that
+ * 'https://*.example.com' matches 'https://acme.example.com/api').
+ */
+export type AudienceMatchingMode = "exact" | "prefix" | "origin";
+
+/**
+ * The policy that determines how many of the audiences of an incoming JWT
+ * must be allowed for the JWT to pass validation.
+ *
+ * - `"any"`: at least one audience must be allowed.
+ * - `"all"`: every audience must be allowed.
+ */
+export type AudienceValidationPolicy = "any" | "all";
+
+/**
+ * A source of the current time, against which the time-based claims of JWTs
+ * are validated (and with which they are stamped).
+ *
+ * This may either be a function that returns the current time (such as
+ * `Date.now`), or a fixed time, in order to treat every JWT as though it were
+ * being handled at that instant. Numeric times are given in milliseconds since
+ * the Unix epoch, as per `Date.now()`.
+ */
+export type Clock = (() => number | Date) | number | Date;
+
+/**
+ * A unit of time in which a {@link Duration} may be expressed: seconds ("s"),
+ * minutes ("m"), hours ("h"), days ("d") or weeks ("w").
+ */
+export type DurationUnit = "s" | "m" | "h" | "d" | "w";
+
+/**
+ * A length of time, expressed as a number followed by a {@link DurationUnit},
+ * such as "15m" or "7d". Negative durations (such as "-30s") denote a time in
+ * the past.
+ */
+export type Duration = `${number}${DurationUnit}`;
+
+/**
+ * A point in time, expressed either as an absolute Date, or as a
+ * {@link Duration} relative to the current time.
+ */
+export type TimeSpecifier = Date | Duration;
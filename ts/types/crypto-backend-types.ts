@@ -0,0 +1,127 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 7:10 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import type { SigningKey, VerificationKey } from "./key-types.js";
+import type { SigningAlgorithm } from "./algorithm-types.js";
+
+/**
+ * The name of a built-in {@link CryptoBackend}.
+ */
+export type CryptoBackendName = "node" | "webcrypto" | string;
+
+/**
+ * A provider of the cryptographic primitives used to sign and verify JWTs,
+ * allowing tsjwt to run on top of either `node:crypto` or WebCrypto
+ * (`SubtleCrypto`), as found in browsers, Deno and edge runtimes.
+ *
+ * Signing and verification are asynchronous, as WebCrypto is. Backends should
+ * throw a {@link JWTKeyMismatchError} (or a {@link JWTKeyError}) if a key is
+ * unsuitable for the requested algorithm, rather than returning false.
+ *
+ * @see getDefaultCryptoBackend
+ */
+export type CryptoBackend = {
+	
+	/**
+	 * The name of this backend (e.g. 'node' or 'webcrypto').
+	 */
+	name: CryptoBackendName,
+	
+	/**
+	 * Returns a Promise that resolves to the base64url encoded signature of
+	 * the provided signing input, produced using the provided algorithm and
+	 * signing key.
+	 *
+	 * @param {string} algorithm The 'alg' identifier of the algorithm with
+	 * which to sign the input.
+	 * @param {string} input The signing input to sign.
+	 * @param {SigningKey} key The key with which to sign the input.
+	 * @returns {Promise<string>} A Promise that resolves to the base64url
+	 * encoded signature of the input.
+	 */
+	sign: (
+		algorithm: string,
+		input: string,
+		key: SigningKey,
+	) => Promise<string>,
+	
+	/**
+	 * Returns a Promise that resolves to true if the provided base64url
+	 * encoded signature is a valid signature of the provided signing input,
+	 * according to the provided algorithm and verification key, otherwise
+	 * false.
+	 *
+	 * @param {string} algorithm The 'alg' identifier of the algorithm with
+	 * which the input was supposedly signed.
+	 * @param {string} input The signing input that was supposedly signed.
+	 * @param {string} signature The base64url encoded signature to verify.
+	 * @param {VerificationKey} key The key against which to verify the
+	 * signature.
+	 * @returns {Promise<boolean>} A Promise that resolves to true if the
+	 * signature is valid, otherwise false.
+	 */
+	verify: (
+		algorithm: string,
+		input: string,
+		signature: string,
+		key: VerificationKey,
+	) => Promise<boolean>,
+	
+	/**
+	 * Returns the specified number of cryptographically secure random bytes.
+	 *
+	 * @param {number} length The number of bytes to return.
+	 * @returns {Uint8Array} The random bytes.
+	 */
+	getRandomBytes: (length: number) => Uint8Array,
+	
+};
+
+/**
+ * The parts of tsjwt that cannot be implemented using WebCrypto alone, and
+ * that so are provided by the runtime: namely synchronous signing and
+ * verification, which WebCrypto does not support.
+ *
+ * The Node entry point (`tsjwt/node`) installs a runtime built on top of
+ * `node:crypto` when it is loaded. Without one, JWTs can only be signed and
+ * verified asynchronously, using a {@link CryptoBackend}.
+ *
+ * @see installCryptoRuntime
+ */
+export type CryptoRuntime = {
+	
+	/**
+	 * Returns a new array containing fresh instances of each of the signing
+	 * algorithms that are built into this library, as registered with the
+	 * default {@link SigningAlgorithmRegistry}.
+	 *
+	 * @returns {SigningAlgorithm[]} A new array containing the built-in
+	 * signing algorithms.
+	 */
+	createSigningAlgorithms: () => SigningAlgorithm[],
+	
+	/**
+	 * Ensures that the provided key is suitable for use with the provided
+	 * algorithm, throwing a {@link JWTKeyMismatchError} if it is not.
+	 *
+	 * @param {SigningKey | VerificationKey} key The key to check.
+	 * @param {SigningAlgorithm} algorithm The algorithm the key is going to be
+	 * used with.
+	 */
+	assertKeyFitsSigningAlgorithm: (
+		key: SigningKey | VerificationKey,
+		algorithm: SigningAlgorithm,
+	) => void,
+	
+	/**
+	 * Returns a new {@link CryptoBackend} suited to this runtime, to be used
+	 * by default.
+	 *
+	 * @returns {CryptoBackend} A new crypto backend for this runtime.
+	 */
+	createCryptoBackend: () => CryptoBackend,
+	
+};
@@ -0,0 +1,108 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:32 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+/**
+ * A machine-readable code identifying the reason for which a JWT failed
+ * validation, as carried by {@link JWTValidationError.code}.
+ */
+export type JWTValidationErrorCode =
+	| "VALIDATION_FAILED"
+	| "TOKEN_EXPIRED"
+	| "TOKEN_NOT_YET_VALID"
+	| "TOKEN_ISSUED_IN_FUTURE"
+	| "TOKEN_REPLAYED"
+	| "TOKEN_REVOKED"
+	| "CLAIM_MISSING"
+	| "CLAIM_INVALID"
+	| "ISSUER_NOT_ALLOWED"
+	| "SUBJECT_NOT_ALLOWED"
+	| "AUDIENCE_NOT_ALLOWED"
+	| "CLAIMS_SCHEMA_MISMATCH"
+	| "CUSTOM_VALIDATION_FAILED"
+	| "SIGNATURE_INVALID"
+	| "ALG_NOT_ALLOWED"
+	| "CRITICAL_HEADER_INVALID"
+	| "KEY_MISSING"
+	| "KEY_NOT_FOUND"
+	| "KEY_MISMATCH"
+	| "ASYNC_REQUIRED"
+	| "VALIDATION_ABORTED"
+	| "VALIDATION_TIMED_OUT";
+
+/**
+ * A machine-readable code identifying the reason for which a JWT could not be
+ * parsed, as carried by {@link JWTParsingError.code}.
+ */
+export type JWTParsingErrorCode =
+	| "MALFORMED_TOKEN"
+	| "MALFORMED_HEADERS"
+	| "MALFORMED_PAYLOAD"
+	| "ALG_INVALID"
+	| "ALG_UNSUPPORTED"
+	| "UNSECURED_TOKEN_NOT_ALLOWED";
+
+/**
+ * The structured details of a {@link JWTValidationError}.
+ */
+export type JWTValidationErrorDetails = {
+	
+	/**
+	 * A machine-readable code identifying the reason for the failure. Defaults
+	 * to "VALIDATION_FAILED".
+	 */
+	code?: JWTValidationErrorCode,
+	
+	/**
+	 * The name of the claim that failed validation, if the failure relates to
+	 * a single claim.
+	 */
+	claim?: string,
+	
+	/**
+	 * The value (or values) that were expected, if applicable.
+	 */
+	expected?: unknown,
+	
+	/**
+	 * The value that was actually found, if applicable.
+	 */
+	actual?: unknown,
+	
+	/**
+	 * The time at which the JWT expired, for "TOKEN_EXPIRED" failures.
+	 */
+	expiredAt?: Date,
+	
+	/**
+	 * The time before which the JWT is not valid, for "TOKEN_NOT_YET_VALID"
+	 * failures.
+	 */
+	notBefore?: Date,
+	
+	/**
+	 * The underlying error (or other value) that caused the failure, if any.
+	 */
+	cause?: unknown,
+	
+};
+
+/**
+ * The structured details of a {@link JWTParsingError}.
+ */
+export type JWTParsingErrorDetails = {
+	
+	/**
+	 * A machine-readable code identifying the reason for the failure. Defaults
+	 * to "MALFORMED_TOKEN".
+	 */
+	code?: JWTParsingErrorCode,
+	
+	/**
+	 * The underlying error (or other value) that caused the failure, if any.
+	 */
+	cause?: unknown,
+	
+};
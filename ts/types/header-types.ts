@@ -0,0 +1,39 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 11:14 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONValue } from "./json-types.js";
+import { JSONWebTokenHeaders } from "./jwt-types.js";
+
+/**
+ * A handler for an extension header parameter that may be listed in the
+ * 'crit' (critical) header of a JWT, as described by RFC 7515, section
+ * 4.1.11.
+ *
+ * Registering a handler declares that the parameter is understood by this
+ * library, and so JWTs that list it as critical are accepted, provided that
+ * the handler also accepts its value.
+ *
+ * @see CriticalHeaderRegistry
+ */
+export type CriticalHeaderHandler = {
+	
+	/**
+	 * The name of the header parameter handled by this handler (e.g. 'b64').
+	 */
+	parameter: string,
+	
+	/**
+	 * Returns true if the provided value of the header parameter is valid,
+	 * otherwise false.
+	 *
+	 * @param {JSONValue} value The value of the header parameter.
+	 * @param {JSONWebTokenHeaders} headers The full set of headers in which
+	 * the parameter was found.
+	 * @returns {boolean} true if the value is valid, otherwise false.
+	 */
+	validate: (value: JSONValue, headers: JSONWebTokenHeaders) => boolean,
+	
+};
@@ -0,0 +1,100 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 8:24 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONObject } from "./json-types.js";
+
+/**
+ * The identifier of an algorithm used to determine the content encryption key
+ * of a JWE, as specified by its 'alg' header.
+ */
+export type KeyManagementAlgorithmIdentifier =
+	| "dir"
+	| "A128KW"
+	| "A256KW"
+	| "RSA-OAEP-256"
+	| "ECDH-ES"
+	| "ECDH-ES+A128KW"
+	| "ECDH-ES+A256KW";
+
+export const VALID_KEY_MANAGEMENT_ALGORITHM_IDENTIFIERS:
+	KeyManagementAlgorithmIdentifier[] = [
+	"dir",
+	"A128KW",
+	"A256KW",
+	"RSA-OAEP-256",
+	"ECDH-ES",
+	"ECDH-ES+A128KW",
+	"ECDH-ES+A256KW",
+];
+
+/**
+ * The identifier of an algorithm used to encrypt the plaintext of a JWE, as
+ * specified by its 'enc' header.
+ */
+export type ContentEncryptionAlgorithmIdentifier =
+	| "A128GCM"
+	| "A256GCM"
+	| "A128CBC-HS256";
+
+export const VALID_CONTENT_ENCRYPTION_ALGORITHM_IDENTIFIERS:
+	ContentEncryptionAlgorithmIdentifier[] = [
+	"A128GCM",
+	"A256GCM",
+	"A128CBC-HS256",
+];
+
+export type JSONWebEncryptionHeaderField = "alg" | "enc" | "cty" | string;
+
+export type JSONWebEncryptionHeaders =
+	JSONObject<JSONWebEncryptionHeaderField | string>;
+
+/**
+ * The output of a content encryption algorithm.
+ */
+export type EncryptedContent = {
+	
+	/**
+	 * The initialization vector used during encryption.
+	 */
+	iv: Buffer,
+	
+	/**
+	 * The encrypted plaintext.
+	 */
+	ciphertext: Buffer,
+	
+	/**
+	 * The authentication tag that protects the integrity of the ciphertext
+	 * and additional authenticated data.
+	 */
+	tag: Buffer,
+	
+};
+
+/**
+ * The output of a key management algorithm when encrypting a JWE.
+ */
+export type KeyManagementResult = {
+	
+	/**
+	 * The content encryption key to be used to encrypt the plaintext.
+	 */
+	contentEncryptionKey: Buffer,
+	
+	/**
+	 * The encrypted content encryption key, which is empty for algorithms
+	 * that directly determine the content encryption key ('dir' and
+	 * 'ECDH-ES').
+	 */
+	encryptedKey: Buffer,
+	
+	/**
+	 * Any header parameters (such as 'epk') that must be added to the
+	 * protected header of the JWE.
+	 */
+	headers: JSONWebEncryptionHeaders,
+	
+};
@@ -0,0 +1,136 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 5:31 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONValue } from "./json-types.js";
+
+export type JSONWebKeyType =
+	| "oct"
+	| "RSA"
+	| "EC"
+	| "OKP";
+
+export const VALID_JSON_WEB_KEY_TYPES: JSONWebKeyType[] = [
+	"oct",
+	"RSA",
+	"EC",
+	"OKP",
+];
+
+export type JSONWebKeyUse = "sig" | "enc" | string;
+
+export type JSONWebKeyOperation =
+	| "sign"
+	| "verify"
+	| "encrypt"
+	| "decrypt"
+	| "wrapKey"
+	| "unwrapKey"
+	| "deriveKey"
+	| "deriveBits";
+
+export const VALID_JSON_WEB_KEY_OPERATIONS: JSONWebKeyOperation[] = [
+	"sign",
+	"verify",
+	"encrypt",
+	"decrypt",
+	"wrapKey",
+	"unwrapKey",
+	"deriveKey",
+	"deriveBits",
+];
+
+/**
+ * The curves that are valid for each of the JWK key types that make use of
+ * the 'crv' parameter.
+ */
+export const VALID_JSON_WEB_KEY_CURVES:
+	Partial<Record<JSONWebKeyType, string[]>> = {
+	"EC": ["P-256", "P-384", "P-521", "secp256k1"],
+	"OKP": ["Ed25519", "Ed448", "X25519", "X448"],
+};
+
+/**
+ * The members of a JWK that contain private (or secret) key material, and
+ * that must therefore be stripped when exporting the public form of a key.
+ */
+export const PRIVATE_JSON_WEB_KEY_PARAMETERS: string[] = [
+	"d",
+	"p",
+	"q",
+	"dp",
+	"dq",
+	"qi",
+	"oth",
+	"k",
+];
+
+/**
+ * The set of parameters that make up a JSON web key, as defined by RFC 7517
+ * and RFC 7518, section 6.
+ */
+export type JSONWebKeyParameters = {
+	
+	kty: JSONWebKeyType,
+	use?: JSONWebKeyUse,
+	key_ops?: JSONWebKeyOperation[],
+	alg?: string,
+	kid?: string,
+	
+	// Symmetric ('oct') key parameters.
+	k?: string,
+	
+	// RSA key parameters.
+	n?: string,
+	e?: string,
+	d?: string,
+	p?: string,
+	q?: string,
+	dp?: string,
+	dq?: string,
+	qi?: string,
+	
+	// Elliptic curve ('EC' and 'OKP') key parameters.
+	crv?: string,
+	x?: string,
+	y?: string,
+	
+	[parameter: string]: JSONValue | undefined,
+	
+};
+
+/**
+ * The metadata parameters of a JSON web key that are not derived from the key
+ * material itself.
+ */
+export type JSONWebKeyMetadata =
+	Partial<Pick<JSONWebKeyParameters, "use" | "key_ops" | "alg" | "kid">>;
+
+/**
+ * A JSON web key set, as defined by RFC 7517, section 5.
+ */
+export type JSONWebKeySetParameters = {
+	
+	keys: JSONWebKeyParameters[],
+	
+	[parameter: string]: JSONValue | undefined,
+	
+};
+
+/**
+ * The criteria by which keys can be looked up within a JSON web key set.
+ * 
+ * Each criterion that is specified must be satisfied by a key in order for it
+ * to match. Keys that lack the relevant parameter ('alg' or 'use') are
+ * considered to satisfy the corresponding criterion.
+ */
+export type JSONWebKeySetQuery = {
+	
+	kid?: string,
+	alg?: string,
+	use?: JSONWebKeyUse,
+	kty?: JSONWebKeyType,
+	
+};
@@ -0,0 +1,72 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 9:41 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import { JSONWebTokenHeaders } from "./jwt-types.js";
+
+/**
+ * A single signature within the JSON serialization of a JWS, as described by
+ * RFC 7515, section 7.2.1.
+ */
+export type JSONWebSignatureEntry = {
+	
+	/**
+	 * The base64url encoded protected (integrity-protected) headers of this
+	 * signature.
+	 */
+	protected?: string,
+	
+	/**
+	 * The unprotected headers of this signature, which are not covered by the
+	 * signature itself.
+	 */
+	header?: JSONWebTokenHeaders,
+	
+	/**
+	 * The base64url encoded signature.
+	 */
+	signature: string,
+	
+};
+
+/**
+ * The flattened JSON serialization of a JWS, as described by RFC 7515,
+ * section 7.2.2, which carries exactly one signature.
+ */
+export type FlattenedJSONWebSignature = JSONWebSignatureEntry & {
+	
+	/**
+	 * The base64url encoded payload of the JWS.
+	 */
+	payload: string,
+	
+};
+
+/**
+ * The general JSON serialization of a JWS, as described by RFC 7515, section
+ * 7.2.1, which carries any number of signatures over the same payload.
+ */
+export type GeneralJSONWebSignature = {
+	
+	/**
+	 * The base64url encoded payload of the JWS.
+	 */
+	payload: string,
+	
+	/**
+	 * The signatures over the payload of the JWS.
+	 */
+	signatures: JSONWebSignatureEntry[],
+	
+};
+
+/**
+ * A policy determining how many of the signatures on a JWS must be verified
+ * in order for the JWS as a whole to be considered valid.
+ *
+ * - `"any"`: at least one of the signatures must be verified.
+ * - `"all"`: every one of the signatures must be verified.
+ */
+export type SignatureVerificationPolicy = "any" | "all";
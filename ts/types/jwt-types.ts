@@ -5,6 +5,7 @@
  */
 
 import { JSONObject } from "./json-types.js";
+import { VerificationKey } from "./key-types.js";
 
 export type HashingAlgorithmIdentifier =
 	| "HS256"
@@ -40,15 +41,45 @@ export const VALID_HASHING_ALGORITHM_IDENTIFIERS:
 	"EdDSA",
 ];
 
+/**
+ * The identifiers of the hashing algorithms that are built into this library.
+ * 
+ * @deprecated The set of supported hashing algorithms can be changed at
+ * runtime; use {@link SigningAlgorithmRegistry.getEnabledIdentifiers} on the
+ * relevant registry instead.
+ */
 export const SUPPORTED_HASHING_ALGORITHM_IDENTIFIERS:
 	HashingAlgorithmIdentifier[] = [
 	"HS256",
 	"HS384",
 	"HS512",
+	"PS256",
+	"PS384",
+	"PS512",
+	"RS256",
+	"RS384",
+	"RS512",
+	"ES256",
+	"ES256K",
+	"ES384",
+	"ES512",
+	"EdDSA",
 ];
 
+/**
+ * The identifier of a signing algorithm: either one of the standard hashing
+ * algorithm identifiers, or the identifier of a custom algorithm registered
+ * with a {@link SigningAlgorithmRegistry}.
+ */
+export type SigningAlgorithmIdentifier =
+	| HashingAlgorithmIdentifier
+	| (string & Record<never, never>);
+
 export type HashingAlgorithm = (input: string) => string;
 
+export type SignatureVerifier =
+	(input: string, signature: string, key: VerificationKey) => boolean;
+
 export type JSONWebTokenHeaderField = "alg" | "typ" | string;
 
 export type JSONWebTokenHeaders = JSONObject<JSONWebTokenHeaderField | string>;
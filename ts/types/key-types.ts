@@ -0,0 +1,119 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:48 PM -- October 19th, 2026
+ * Project: tsjwt
+ */
+
+import type { JSONWebKey } from "../jwk/json-web-key.js";
+import type {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+} from "./jwt-types.js";
+
+/**
+ * A Node `KeyObject`, as created using `node:crypto`.
+ * 
+ * This is declared structurally (rather than imported from node:crypto) so
+ * that the key types of this library do not depend on Node.
+ */
+export type KeyObjectLike = {
+	
+	/**
+	 * The type of the key ('secret', 'public' or 'private').
+	 */
+	type: "secret" | "public" | "private",
+	
+	/**
+	 * The type of the key, if it is asymmetric (e.g. 'rsa' or 'ec').
+	 */
+	asymmetricKeyType?: string,
+	
+	/**
+	 * Exports the key in the format described by the provided options.
+	 */
+	export: (options?: any) => unknown,
+	
+};
+
+/**
+ * A key that can be used to produce the signature of a JWT.
+ * 
+ * For HMAC-based algorithms (HS256, etc.), this is the shared secret, either
+ * as a raw string or Uint8Array (such as a Buffer), a 'secret' KeyObject or
+ * CryptoKey, or an 'oct' JWK.
+ * 
+ * For asymmetric algorithms (RS256, etc.), this is the private key, either as
+ * a PEM-encoded string or Uint8Array, DER-encoded bytes (PKCS#8, PKCS#1 or
+ * SEC1), a 'private' KeyObject or CryptoKey, or a JWK containing private key
+ * material.
+ * 
+ * JWKs may be provided either as JSONWebKey instances or as plain JsonWebKey
+ * objects (as exported by WebCrypto). None of these forms depend on
+ * `node:crypto`, and so all of them (other than KeyObjects) can be used with
+ * the {@link WebCryptoBackend}.
+ */
+export type SigningKey =
+	| string
+	| Uint8Array
+	| KeyObjectLike
+	| CryptoKey
+	| JsonWebKey
+	| JSONWebKey;
+
+/**
+ * A key that can be used to verify the signature of a JWT.
+ * 
+ * For HMAC-based algorithms (HS256, etc.), this is the shared secret, either
+ * as a raw string or Uint8Array (such as a Buffer), a 'secret' KeyObject or
+ * CryptoKey, or an 'oct' JWK.
+ * 
+ * For asymmetric algorithms (RS256, etc.), this is the public key, either as
+ * a PEM-encoded string or Uint8Array, DER-encoded bytes (SPKI or PKCS#1), a
+ * 'public' KeyObject or CryptoKey, or a JWK (as a JSONWebKey instance or a
+ * plain JsonWebKey object). Private keys are also accepted, in which case the
+ * corresponding public key is derived from them.
+ */
+export type VerificationKey =
+	| string
+	| Uint8Array
+	| KeyObjectLike
+	| CryptoKey
+	| JsonWebKey
+	| JSONWebKey;
+
+/**
+ * A key that can be used to encrypt a JWE.
+ * 
+ * For the 'dir' and AES key wrap ('A128KW', etc.) algorithms, this is the
+ * shared secret, either as a Buffer, a 'secret' KeyObject, or an 'oct'
+ * JSONWebKey.
+ * 
+ * For the 'RSA-OAEP-256' and 'ECDH-ES' family of algorithms, this is the
+ * recipient's public key, in any of the forms accepted as a
+ * {@link VerificationKey}.
+ */
+export type EncryptionKey = string | Buffer | KeyObjectLike | JSONWebKey;
+
+/**
+ * A key that can be used to decrypt a JWE.
+ * 
+ * For the 'dir' and AES key wrap ('A128KW', etc.) algorithms, this is the
+ * shared secret, whereas for the 'RSA-OAEP-256' and 'ECDH-ES' family of
+ * algorithms, this is the recipient's private key, in any of the forms
+ * accepted as a {@link SigningKey}.
+ */
+export type DecryptionKey = string | Buffer | KeyObjectLike | JSONWebKey;
+
+/**
+ * A function that is provided with the (as yet unverified) headers and payload
+ * of an incoming JWT, and that returns (or resolves to) the key against which
+ * its signature should be verified.
+ * 
+ * Resolvers should throw a {@link JWTKeyNotFoundError} (or return undefined)
+ * if no suitable key can be found, such as when no known key matches the
+ * JWT's 'kid' header.
+ */
+export type KeyResolver = (
+	headers: JSONWebTokenHeaders,
+	payload: JSONWebTokenPayload,
+) => VerificationKey | undefined | Promise<VerificationKey | undefined>;
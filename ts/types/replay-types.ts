@@ -0,0 +1,53 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:10 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+/**
+ * A store of the 'jti' (JWT ID) claims of JWTs that have already been seen,
+ * used to reject JWTs that are presented more than once.
+ *
+ * Stores may be asynchronous (such as those backed by a database), in which
+ * case they can only be used with {@link DecodedJSONWebToken.validateAsync}
+ * (or the other asynchronous decoding methods).
+ *
+ * @see ValidationOptions.replayStore
+ */
+export type ReplayStore = {
+	
+	/**
+	 * Atomically records the provided JWT ID as having been seen, unless it
+	 * has already been seen.
+	 *
+	 * The JWT ID need only be remembered until the provided expiry time, after
+	 * which the JWT it belongs to will have expired anyway.
+	 *
+	 * @param {string} jwtID The JWT ID to record.
+	 * @param {number} expiresAt The time until which the JWT ID should be
+	 * remembered, in seconds since the Unix epoch.
+	 * @returns {boolean | Promise<boolean>} true (or a Promise that resolves
+	 * to true) if the JWT ID had not yet been seen and has now been recorded,
+	 * or false if it had already been seen.
+	 */
+	checkAndSet: (
+		jwtID: string,
+		expiresAt: number,
+	) => boolean | Promise<boolean>,
+	
+	/**
+	 * Returns (or resolves to) true if the provided JWT ID has already been
+	 * seen, otherwise false, without recording it.
+	 *
+	 * This is optional, and is only used to report on the replay check in
+	 * {@link DecodedJSONWebToken.getValidationReport} (and its asynchronous
+	 * counterpart), which must not consume the JWT ID of the JWT being
+	 * reported on. Without it, the replay check is reported as skipped.
+	 *
+	 * @param {string} jwtID The JWT ID to look up.
+	 * @returns {boolean | Promise<boolean>} true if the JWT ID has already
+	 * been seen, otherwise false.
+	 */
+	has?: (jwtID: string) => boolean | Promise<boolean>,
+	
+};
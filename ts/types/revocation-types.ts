@@ -0,0 +1,86 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 4:55 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import type {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+} from "./jwt-types.js";
+import type { Clock } from "./claims-types.js";
+
+/**
+ * A source of truth as to whether or not JWTs have been revoked before their
+ * expiry, consulted while validating incoming JWTs.
+ *
+ * Checkers may be asynchronous (such as those backed by a remote service), in
+ * which case they can only be used with
+ * {@link DecodedJSONWebToken.validateAsync} (or the other asynchronous
+ * decoding methods).
+ *
+ * @see ValidationOptions.revocationChecker
+ */
+export type RevocationChecker = {
+	
+	/**
+	 * Returns (or resolves to) true if the JWT with the provided headers and
+	 * payload has been revoked, otherwise false.
+	 *
+	 * @param {JSONWebTokenHeaders} headers The headers of the JWT.
+	 * @param {JSONWebTokenPayload} payload The payload of the JWT.
+	 * @returns {boolean | Promise<boolean>} true if the JWT has been revoked,
+	 * otherwise false.
+	 */
+	isRevoked: (
+		headers: JSONWebTokenHeaders,
+		payload: JSONWebTokenPayload,
+	) => boolean | Promise<boolean>,
+	
+};
+
+/**
+ * Options that govern the behavior of a {@link FileRevocationChecker}.
+ */
+export type FileRevocationCheckerOptions = {
+	
+	/**
+	 * The minimum number of milliseconds between consecutive checks of the
+	 * file for changes.
+	 */
+	checkInterval: number,
+	
+	/**
+	 * The clock against which the check interval is measured.
+	 */
+	clock: Clock,
+	
+};
+
+/**
+ * A list of revoked JWTs, as consulted by the
+ * {@link InMemoryRevocationChecker} and {@link FileRevocationChecker}.
+ */
+export type RevocationList = {
+	
+	/**
+	 * The 'jti' (JWT ID) claims of individually revoked JWTs.
+	 */
+	jwtIDs: string[],
+	
+	/**
+	 * A map of 'sub' (subject) claims to cutoff times (in seconds since the
+	 * Unix epoch), such that every JWT for the subject that was issued at or
+	 * before the cutoff (or that lacks an 'iat' claim) is revoked. As 'iat'
+	 * claims only have a precision of one second, this includes JWTs issued
+	 * within the same second as the cutoff.
+	 */
+	subjects: { [subject: string]: number },
+	
+	/**
+	 * The 'kid' (key ID) headers of compromised keys, such that every JWT
+	 * signed using any of those keys is revoked.
+	 */
+	keyIDs: string[],
+	
+};
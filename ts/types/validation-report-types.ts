@@ -0,0 +1,118 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 1:58 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import type { JWTValidationError } from "../error/jwt-validation-error.js";
+
+/**
+ * The name of one of the individual checks performed while validating a JWT.
+ */
+export type ValidationCheckName =
+	| "criticalHeaders"
+	| "algorithm"
+	| "signature"
+	| "issuer"
+	| "subject"
+	| "audience"
+	| "expirationTime"
+	| "notBefore"
+	| "issuedAt"
+	| "claimsSchema"
+	| "revocation"
+	| "customValidator"
+	| "replay";
+
+/**
+ * The outcome of a single validation check.
+ *
+ * A check is skipped if it is disabled by the provided
+ * {@link ValidationOptions}, or if a check upon which it depends (such as the
+ * signature check, for custom validators) has failed. The replay check is
+ * only run once every other check has passed, and never records the 'jti'
+ * claim of the JWT being reported on - if the replay store cannot look up
+ * JWT IDs without recording them (per {@link ReplayStore.has}), it is
+ * skipped.
+ */
+export type ValidationCheckStatus = "pass" | "fail" | "skip";
+
+/**
+ * A single validation check, as run while validating a JWT.
+ */
+export type ValidationCheck<R extends void | Promise<void> = void> = {
+	
+	/**
+	 * The name of the check.
+	 */
+	name: ValidationCheckName,
+	
+	/**
+	 * The name of the claim checked by the check, if it checks a single claim.
+	 */
+	claim: string | undefined,
+	
+	/**
+	 * Whether or not the check is enabled by the provided options.
+	 */
+	enabled: boolean,
+	
+	/**
+	 * The names of the checks that must not have failed in order for this
+	 * check to be run.
+	 */
+	requires: ValidationCheckName[],
+	
+	/**
+	 * Runs the check, throwing (or rejecting with) a {@link JWTValidationError}
+	 * if it fails.
+	 */
+	run: () => R,
+	
+};
+
+/**
+ * The result of a single validation check, as found in a
+ * {@link ValidationReport}.
+ */
+export type ValidationCheckResult = {
+	
+	/**
+	 * The name of the check.
+	 */
+	check: ValidationCheckName,
+	
+	/**
+	 * The name of the claim checked by the check, if it checks a single claim.
+	 */
+	claim: string | undefined,
+	
+	/**
+	 * Whether the check passed, failed, or was skipped.
+	 */
+	status: ValidationCheckStatus,
+	
+	/**
+	 * The error describing why the check failed, if it failed.
+	 */
+	error: JWTValidationError | undefined,
+	
+};
+
+/**
+ * A report describing the outcome of every check performed while validating
+ * a JWT, as returned by {@link DecodedJSONWebToken.getValidationReport}.
+ */
+export type ValidationReport = {
+	
+	/**
+	 * true if none of the checks failed, otherwise false.
+	 */
+	valid: boolean,
+	
+	/**
+	 * The result of every check, in the order in which they were run.
+	 */
+	checks: ValidationCheckResult[],
+	
+};
@@ -0,0 +1,77 @@
+/*
+ * Created by Trevor Sears <trevor@trevorsears.com> (https://trevorsears.com/).
+ * 12:34 AM -- October 20th, 2026
+ * Project: tsjwt
+ */
+
+import type { JSONValue } from "./json-types.js";
+import type {
+	JSONWebTokenHeaders,
+	JSONWebTokenPayload,
+} from "./jwt-types.js";
+
+/**
+ * A function that is provided with the value of a single claim of an incoming
+ * JWT (or undefined, if the claim is absent), alongside its headers, payload
+ * and the caller-supplied {@link ValidationOptions.validationContext}, and
+ * that returns (or resolves to) true if the claim is valid, otherwise false.
+ *
+ * Validators may also throw a {@link JWTValidationError} in order to report a
+ * more specific reason for rejecting the claim.
+ *
+ * Asynchronous validators can only be used with
+ * {@link DecodedJSONWebToken.validateAsync} (or the other asynchronous
+ * decoding methods).
+ */
+export type ClaimValidator<C = any> = (
+	value: JSONValue | undefined,
+	headers: JSONWebTokenHeaders,
+	payload: JSONWebTokenPayload,
+	context: C,
+) => boolean | Promise<boolean>;
+
+/**
+ * A function that is provided with the headers and payload of an incoming JWT,
+ * alongside the caller-supplied {@link ValidationOptions.validationContext},
+ * and that returns (or resolves to) true if the JWT as a whole is valid,
+ * otherwise false.
+ *
+ * Validators may also throw a {@link JWTValidationError} in order to report a
+ * more specific reason for rejecting the JWT.
+ *
+ * Asynchronous validators can only be used with
+ * {@link DecodedJSONWebToken.validateAsync} (or the other asynchronous
+ * decoding methods).
+ */
+export type TokenValidator<C = any> = (
+	headers: JSONWebTokenHeaders,
+	payload: JSONWebTokenPayload,
+	context: C,
+) => boolean | Promise<boolean>;
+
+/**
+ * A set of {@link ClaimValidator}s, keyed by the name of the claim that each
+ * of them validates.
+ */
+export type ClaimValidators<C = any> = {
+	[claim: string]: ClaimValidator<C> | Array<ClaimValidator<C>>,
+};
+
+/**
+ * A {@link ClaimValidator} or {@link TokenValidator} that has been bound to the
+ * headers, payload and validation context of a particular JWT.
+ */
+export type BoundValidator = {
+	
+	/**
+	 * The name of the claim validated by the validator, or undefined if it is
+	 * a {@link TokenValidator}.
+	 */
+	claim: string | undefined,
+	
+	/**
+	 * Runs the validator, returning (or resolving to) its result.
+	 */
+	invoke: () => boolean | Promise<boolean>,
+	
+};